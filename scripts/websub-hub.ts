@@ -0,0 +1,176 @@
+/**
+ * Local stand-in WebSub hub for development.
+ *
+ * Serves a sample Atom feed advertising this hub, accepts (un)subscribe requests and verifies
+ * them against the subscriber's callback, and pushes signed notifications when new entries
+ * are published.
+ *
+ *   npm run websub:hub
+ *   # Qirata: WEBSUB_CALLBACK_BASE_URL=http://localhost:3000, subscribe to http://localhost:4567/feed.xml
+ *   # and run the feed fetcher once (npm run cron:trigger-now) to register with the hub
+ *   curl -X POST localhost:4567/feed/entries -d 'title=Hello&content=Pushed in real time'
+ *
+ * Publish pings for other topics: POST / with hub.mode=publish&hub.url=<topic>
+ */
+import axios from 'axios';
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+
+const PORT = parseInt(process.env.WEBSUB_HUB_PORT || '4567');
+const HUB_URL = `http://localhost:${PORT}/`;
+const FEED_URL = `http://localhost:${PORT}/feed.xml`;
+
+interface Subscription {
+    callback: string;
+    topic: string;
+    secret?: string;
+    expiresAt: Date;
+}
+
+interface SampleEntry {
+    id: string;
+    title: string;
+    content: string;
+    published: Date;
+}
+
+const subscriptions = new Map<string, Subscription>();
+const entries: SampleEntry[] = [{
+    id: crypto.randomUUID(),
+    title: 'Welcome to the stand-in hub',
+    content: 'Entries published with POST /feed/entries are pushed to every subscriber.',
+    published: new Date()
+}];
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+// Subscriber requests and publish pings
+app.post('/', (req: Request, res: Response) => {
+    const mode = req.body['hub.mode'];
+
+    if (mode === 'publish') {
+        const topic = req.body['hub.url'];
+        if (!topic) return res.status(400).send('hub.url is required');
+
+        res.status(204).end();
+        fetchAndDistribute(topic).catch(error => console.error(`Publishing ${topic} failed:`, error.message));
+        return;
+    }
+
+    const callback = req.body['hub.callback'];
+    const topic = req.body['hub.topic'];
+    if ((mode !== 'subscribe' && mode !== 'unsubscribe') || !callback || !topic) {
+        return res.status(400).send('hub.mode, hub.callback and hub.topic are required');
+    }
+
+    res.status(202).end();
+
+    const leaseSeconds = parseInt(req.body['hub.lease_seconds'] || '86400');
+    verifyIntent(mode, callback, topic, leaseSeconds, req.body['hub.secret'])
+        .catch(error => console.error(`Verification of ${callback} failed:`, error.message));
+});
+
+// Sample feed advertising this hub
+app.get('/feed.xml', (req: Request, res: Response) => {
+    res.type('application/atom+xml').send(renderFeed());
+});
+
+// Add an entry to the sample feed and push it to subscribers
+app.post('/feed/entries', async (req: Request, res: Response) => {
+    const entry: SampleEntry = {
+        id: crypto.randomUUID(),
+        title: req.body.title || `Entry ${entries.length + 1}`,
+        content: req.body.content || 'Pushed by the stand-in hub.',
+        published: new Date()
+    };
+    entries.unshift(entry);
+
+    const delivered = await distribute(FEED_URL, renderFeed([entry]), 'application/atom+xml');
+    res.status(201).json({ entry, delivered });
+});
+
+app.get('/subscriptions', (req: Request, res: Response) => {
+    res.json([...subscriptions.values()].map(({ secret, ...subscription }) => subscription));
+});
+
+async function verifyIntent(mode: string, callback: string, topic: string, leaseSeconds: number, secret?: string): Promise<void> {
+    const challenge = crypto.randomBytes(16).toString('hex');
+    const response = await axios.get<string>(callback, {
+        params: { 'hub.mode': mode, 'hub.topic': topic, 'hub.challenge': challenge, 'hub.lease_seconds': leaseSeconds },
+        responseType: 'text',
+        validateStatus: () => true
+    });
+
+    if (response.status < 200 || response.status >= 300 || String(response.data) !== challenge) {
+        console.warn(`✗ ${mode} ${topic} not confirmed by ${callback} (${response.status})`);
+        return;
+    }
+
+    const key = `${callback} ${topic}`;
+    if (mode === 'subscribe') {
+        subscriptions.set(key, { callback, topic, secret, expiresAt: new Date(Date.now() + leaseSeconds * 1000) });
+    } else {
+        subscriptions.delete(key);
+    }
+    console.log(`✓ ${mode} ${topic} -> ${callback}`);
+}
+
+async function fetchAndDistribute(topic: string): Promise<void> {
+    const response = await axios.get<string>(topic, { responseType: 'text' });
+    await distribute(topic, response.data, String(response.headers['content-type'] || 'application/xml'));
+}
+
+async function distribute(topic: string, body: string, contentType: string): Promise<number> {
+    const targets = [...subscriptions.values()].filter(subscription =>
+        subscription.topic === topic && subscription.expiresAt.getTime() > Date.now()
+    );
+
+    const results = await Promise.allSettled(targets.map(subscription => {
+        const headers: Record<string, string> = {
+            'Content-Type': contentType,
+            'Link': `<${HUB_URL}>; rel="hub", <${topic}>; rel="self"`
+        };
+        if (subscription.secret) {
+            headers['X-Hub-Signature'] = `sha256=${crypto.createHmac('sha256', subscription.secret).update(body).digest('hex')}`;
+        }
+        return axios.post(subscription.callback, body, { headers });
+    }));
+
+    results.forEach((result, index) => {
+        const { callback } = targets[index];
+        if (result.status === 'fulfilled') console.log(`→ pushed ${topic} to ${callback} (${result.value.status})`);
+        else console.warn(`✗ push to ${callback} failed: ${result.reason?.message}`);
+    });
+
+    return results.filter(result => result.status === 'fulfilled').length;
+}
+
+function renderFeed(feedEntries: SampleEntry[] = entries): string {
+    const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        '  <title>WebSub stand-in feed</title>',
+        `  <id>${FEED_URL}</id>`,
+        `  <link rel="hub" href="${HUB_URL}"/>`,
+        `  <link rel="self" href="${FEED_URL}"/>`,
+        `  <updated>${new Date().toISOString()}</updated>`,
+        ...feedEntries.map(entry => [
+            '  <entry>',
+            `    <id>urn:uuid:${entry.id}</id>`,
+            `    <title>${escape(entry.title)}</title>`,
+            `    <link rel="alternate" href="http://localhost:${PORT}/entries/${entry.id}"/>`,
+            `    <updated>${entry.published.toISOString()}</updated>`,
+            `    <summary>${escape(entry.content)}</summary>`,
+            '  </entry>'
+        ].join('\n')),
+        '</feed>',
+        ''
+    ].join('\n');
+}
+
+app.listen(PORT, () => {
+    console.log(`WebSub stand-in hub on ${HUB_URL} (sample feed: ${FEED_URL})`);
+});
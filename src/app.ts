@@ -55,6 +55,9 @@ app.use(cors({
 // Better Auth routes (BEFORE body parsing to avoid conflicts)
 app.all("/api/auth/*", toNodeHandler(auth));
 
+// WebSub notifications are signed over the raw body, so keep it as a Buffer
+app.use('/api/v1/websub', express.raw({ type: () => true, limit: '5mb' }));
+
 // Basic parsing middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
@@ -0,0 +1,41 @@
+import { PostgresSaver } from '@langchain/langgraph-checkpoint-postgres';
+import dotenv from 'dotenv';
+import { Pool } from 'pg';
+import { logger } from '../utils/logger';
+
+dotenv.config();
+
+// Dedicated pool for LangGraph checkpoints (kept small, checkpoints are tiny writes)
+const pool = new Pool({
+    host: process.env.DB_HOST,
+    port: parseInt(process.env.DB_PORT || "5432"),
+    user: process.env.DB_USERNAME,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_DATABASE,
+    ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
+    max: 2
+});
+
+/**
+ * Postgres-backed LangGraph checkpointer.
+ * Graph state is stored per chat session (thread_id = chat session id).
+ */
+export const checkpointer = new PostgresSaver(pool);
+
+let setupPromise: Promise<void> | null = null;
+
+/**
+ * Create the checkpoint tables on first use.
+ * PostgresSaver manages its own schema (checkpoints, checkpoint_blobs, checkpoint_writes,
+ * checkpoint_migrations), so these tables are not part of the TypeORM migrations.
+ */
+export function ensureCheckpointerSetup(): Promise<void> {
+    if (!setupPromise) {
+        setupPromise = checkpointer.setup().catch(error => {
+            setupPromise = null;
+            logger.error('Failed to set up LangGraph checkpointer tables:', error);
+            throw error;
+        });
+    }
+    return setupPromise;
+}
@@ -184,16 +184,107 @@ Authentication endpoints are available at \`/api/auth/*\`.
                             nullable: true,
                             description: 'Whether the user bookmarked this post (from user_posts)',
                         },
+                        user_bookmarked_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                            description: 'When the user bookmarked this post',
+                        },
                         published_date: {
                             type: 'string',
                             format: 'date-time',
                             nullable: true,
                             description: 'When the post was originally published',
                         },
+                        canonical_url: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'Normalized article URL used to detect copies from other feeds',
+                        },
+                        duplicate_of_id: {
+                            type: 'string',
+                            format: 'uuid',
+                            nullable: true,
+                            description: 'First-seen copy of the same article, when this post is a duplicate',
+                        },
+                        user_tags: {
+                            type: 'array',
+                            description: 'Tags the user put on this post',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    id: { type: 'string', format: 'uuid' },
+                                    name: { type: 'string' },
+                                },
+                            },
+                        },
+                        source_count: {
+                            type: 'integer',
+                            description: 'Number of copies of the article across feeds (1 when not syndicated)',
+                        },
+                        search_rank: {
+                            type: 'number',
+                            description: 'Relevance to the search query (only with search)',
+                        },
+                        title_highlight: {
+                            type: 'string',
+                            description: 'HTML-escaped title with matched words wrapped in <mark>, safe to render as HTML (only with search)',
+                        },
+                        content_snippet: {
+                            type: 'string',
+                            description: 'Up to two fragments of the content around the matches as plain text, HTML-escaped with matches wrapped in <mark> (only with search)',
+                        },
+                        created_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                    },
+                },
+                PostSource: {
+                    type: 'object',
+                    description: 'One copy of an article syndicated through several feeds',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        title: {
+                            type: 'string',
+                        },
+                        external_link: {
+                            type: 'string',
+                        },
+                        canonical_url: {
+                            type: 'string',
+                            nullable: true,
+                        },
+                        published_date: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
                         created_at: {
                             type: 'string',
                             format: 'date-time',
                         },
+                        is_primary: {
+                            type: 'boolean',
+                            description: 'First-seen copy of the article',
+                        },
+                        subscribed: {
+                            type: 'boolean',
+                            description: 'Whether the user follows the feed of this copy',
+                        },
+                        feed: {
+                            type: 'object',
+                            nullable: true,
+                            properties: {
+                                id: { type: 'string', format: 'uuid' },
+                                name: { type: 'string' },
+                                url: { type: 'string' },
+                                favicon_url: { type: 'string', nullable: true },
+                            },
+                        },
                     },
                 },
                 Post: {
@@ -211,6 +302,64 @@ Authentication endpoints are available at \`/api/auth/*\`.
                         },
                     ],
                 },
+                BookmarkedPost: {
+                    type: 'object',
+                    description: 'Post saved to read later',
+                    allOf: [
+                        { $ref: '#/components/schemas/Post' },
+                        {
+                            type: 'object',
+                            properties: {
+                                user_bookmark_note: {
+                                    type: 'string',
+                                    nullable: true,
+                                    description: 'Note on the bookmark',
+                                },
+                                subscribed: {
+                                    type: 'boolean',
+                                    description: 'Whether the user still follows the feed of the post',
+                                },
+                            },
+                        },
+                    ],
+                },
+                PostBookmark: {
+                    type: 'object',
+                    properties: {
+                        post_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        bookmarked: {
+                            type: 'boolean',
+                        },
+                        bookmarked_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        note: {
+                            type: 'string',
+                            nullable: true,
+                        },
+                    },
+                },
+                SimilarPost: {
+                    type: 'object',
+                    description: 'Post found by semantic search or as a related post',
+                    allOf: [
+                        { $ref: '#/components/schemas/Post' },
+                        {
+                            type: 'object',
+                            properties: {
+                                similarity: {
+                                    type: 'number',
+                                    description: 'Cosine similarity of the post embedding to the query or post (1 = same meaning)',
+                                },
+                            },
+                        },
+                    ],
+                },
                 PostExpanded: {
                     type: 'object',
                     properties: {
@@ -231,6 +380,32 @@ Authentication endpoints are available at \`/api/auth/*\`.
                             format: 'uuid',
                             description: 'Associated chat session ID',
                         },
+                        content_source: {
+                            type: 'string',
+                            enum: ['feed', 'scraped'],
+                            nullable: true,
+                            description: 'Feed content judged full, or a scrape of the article page',
+                        },
+                        expanded_by: {
+                            type: 'string',
+                            enum: ['discussion', 'pipeline'],
+                            nullable: true,
+                            description: 'Expanded when a discussion started, or ahead of time by the expansion pipeline',
+                        },
+                        word_count: {
+                            type: 'integer',
+                            nullable: true,
+                        },
+                        quality_score: {
+                            type: 'number',
+                            nullable: true,
+                            description: 'Extraction quality from 0 to 1 (length, paragraph structure, coverage of the feed content)',
+                        },
+                        content_check_confidence: {
+                            type: 'number',
+                            nullable: true,
+                            description: 'Confidence of the full-content check',
+                        },
                         createdAt: {
                             type: 'string',
                             format: 'date-time',
@@ -653,6 +828,24 @@ Authentication endpoints are available at \`/api/auth/*\`.
                             type: 'string',
                             description: 'Social post content text',
                         },
+                        thread: {
+                            type: 'array',
+                            nullable: true,
+                            description: 'Ordered thread posts with their Twitter-weighted character count (thread platforms only)',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    text: {
+                                        type: 'string',
+                                        example: '1/ TypeScript tips you should know 🧵',
+                                    },
+                                    length: {
+                                        type: 'integer',
+                                        example: 38,
+                                    },
+                                },
+                            },
+                        },
                         image_urls: {
                             type: 'array',
                             items: {
@@ -731,6 +924,44 @@ Authentication endpoints are available at \`/api/auth/*\`.
                             nullable: true,
                             description: 'When the post was published',
                         },
+                        status: {
+                            type: 'string',
+                            enum: ['draft', 'scheduled', 'publishing', 'published', 'failed'],
+                            description: 'Publishing status',
+                            example: 'scheduled',
+                        },
+                        scheduled_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                            description: 'When the post is scheduled to be published',
+                        },
+                        publish_attempts: {
+                            type: 'integer',
+                            description: 'Publish attempts made for the current schedule',
+                            example: 0,
+                        },
+                        next_attempt_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                            description: 'Next publish attempt (the scheduled time, or a retry after a failure)',
+                        },
+                        last_publish_error: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'Error of the last failed publish attempt',
+                        },
+                        external_id: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'ID of the published post on the platform',
+                        },
+                        external_url: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'URL of the published post',
+                        },
                         created_at: {
                             type: 'string',
                             format: 'date-time',
@@ -743,6 +974,68 @@ Authentication endpoints are available at \`/api/auth/*\`.
                         },
                     },
                 },
+                SocialPostRevision: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        social_post_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        version: {
+                            type: 'integer',
+                            description: 'Version number, starting at 1 for the created post',
+                            example: 3,
+                        },
+                        action: {
+                            type: 'string',
+                            enum: ['create', 'edit', 'manual', 'revert'],
+                            description: 'What produced this version: AI create/edit, a manual update or a revert',
+                        },
+                        content: {
+                            type: 'string',
+                            description: 'Social post content at this version',
+                        },
+                        thread: {
+                            type: 'array',
+                            nullable: true,
+                            items: {
+                                type: 'object',
+                            },
+                            description: 'Thread posts at this version (thread platforms only)',
+                        },
+                        code_examples: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                            },
+                        },
+                        visual_elements: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                            },
+                        },
+                        user_message: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'Chat message that triggered the change',
+                            example: 'Make it shorter',
+                        },
+                        reverted_from_version: {
+                            type: 'integer',
+                            nullable: true,
+                            description: 'Version restored by a revert',
+                        },
+                        created_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                    },
+                },
 
                 // WebSocket Event Schemas
                 WebSocketClientEvents: {
@@ -766,6 +1059,11 @@ Authentication endpoints are available at \`/api/auth/*\`.
                                     maxLength: 10000,
                                     description: 'Message content from user',
                                     example: 'Create a LinkedIn post about TypeScript best practices'
+                                },
+                                focusHighlights: {
+                                    type: 'boolean',
+                                    default: false,
+                                    description: 'Focus the answer or the generated social post on the user\'s highlights of the post'
                                 }
                             },
                             required: ['sessionId', 'content']
@@ -838,6 +1136,40 @@ Authentication endpoints are available at \`/api/auth/*\`.
                                     type: 'string',
                                     description: 'Individual token from AI response',
                                     example: 'Hello'
+                                },
+                                node: {
+                                    type: 'string',
+                                    description: 'Graph node producing the answer. Absent for progress messages (e.g. "Detecting your intent...")',
+                                    enum: ['PostQA', 'Support', 'SocialPostCreate', 'SocialPostEdit']
+                                },
+                                field: {
+                                    type: 'string',
+                                    description: 'Answer field the token belongs to',
+                                    enum: ['response', 'message', 'postContent']
+                                },
+                                platform: {
+                                    type: 'string',
+                                    description: 'Target platform of the post being generated (SocialPostCreate only)',
+                                    example: 'twitter'
+                                }
+                            }
+                        },
+                        'chat:stream:node': {
+                            type: 'object',
+                            description: 'Graph node progress during an AI chat run',
+                            properties: {
+                                sessionId: {
+                                    type: 'string',
+                                    example: 'session_12345'
+                                },
+                                node: {
+                                    type: 'string',
+                                    description: 'Graph node name',
+                                    example: 'PostQA'
+                                },
+                                status: {
+                                    type: 'string',
+                                    enum: ['started', 'completed']
                                 }
                             }
                         },
@@ -889,6 +1221,14 @@ Authentication endpoints are available at \`/api/auth/*\`.
                                             description: 'Main social media post content',
                                             example: '🚀 TypeScript Best Practices for 2024\n\nKey takeaways:\n• Use strict type checking\n• Leverage utility types\n• Implement proper error handling\n\n#TypeScript #WebDev'
                                         },
+                                        thread: {
+                                            type: 'array',
+                                            nullable: true,
+                                            description: 'Saved thread posts ({ text, length }) for thread platforms such as Twitter',
+                                            items: {
+                                                type: 'object'
+                                            }
+                                        },
                                         codeExamples: {
                                             type: 'array',
                                             items: {
@@ -963,6 +1303,27 @@ Authentication endpoints are available at \`/api/auth/*\`.
                                             }
                                         ]
                                     }
+                                },
+                                structuredPosts: {
+                                    type: 'array',
+                                    description: 'Every post saved in this turn, one per requested platform (structuredPost/socialPostId repeat the first one)',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            socialPostId: {
+                                                type: 'string',
+                                                format: 'uuid'
+                                            },
+                                            platform: {
+                                                type: 'string',
+                                                example: 'linkedin'
+                                            },
+                                            structuredPost: {
+                                                type: 'object',
+                                                description: 'Same shape as structuredPost'
+                                            }
+                                        }
+                                    }
                                 }
                             },
                             required: ['sessionId', 'message', 'response', 'suggestedOptions', 'isSocialPost']
@@ -984,6 +1345,17 @@ Authentication endpoints are available at \`/api/auth/*\`.
                                     type: 'string',
                                     description: 'Reason for interruption',
                                     example: 'user request'
+                                },
+                                partialResponse: {
+                                    type: 'string',
+                                    nullable: true,
+                                    description: 'Response produced before the interruption, if any. Interrupted runs are not saved.'
+                                },
+                                intent: {
+                                    type: 'string',
+                                    nullable: true,
+                                    description: 'Intent detected before the interruption, if any',
+                                    example: 'ASK_POST'
                                 }
                             }
                         },
@@ -1131,30 +1503,157 @@ Authentication endpoints are available at \`/api/auth/*\`.
                         }
                     }
                 },
-                Category: {
+                Tag: {
                     type: 'object',
                     properties: {
                         id: {
                             type: 'string',
                             format: 'uuid',
-                            description: 'Unique identifier',
-                        },
-                        user_id: {
-                            type: 'string',
-                            format: 'uuid',
-                            description: 'User who owns this category',
                         },
                         name: {
                             type: 'string',
-                            maxLength: 100,
-                            description: 'Category name',
-                            example: 'Tech Blogs',
+                            maxLength: 50,
+                            example: 'to-share',
                         },
-                        parent_id: {
+                        post_count: {
+                            type: 'integer',
+                            description: 'Number of posts carrying the tag (GET /tags only)',
+                        },
+                        created_at: {
                             type: 'string',
-                            format: 'uuid',
-                            nullable: true,
-                            description: 'Parent category ID for nested folders',
+                            format: 'date-time',
+                        },
+                    },
+                },
+                Highlight: {
+                    type: 'object',
+                    description: 'Highlighted passage of a post\'s expanded content. Quote and range refer to the plain text of the content (tags removed, entities decoded, whitespace collapsed).',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        post_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        quote_exact: {
+                            type: 'string',
+                            example: 'Generics let a function work over many types',
+                        },
+                        quote_prefix: {
+                            type: 'string',
+                            description: 'Text just before the quote',
+                        },
+                        quote_suffix: {
+                            type: 'string',
+                            description: 'Text just after the quote',
+                        },
+                        position_start: {
+                            type: 'integer',
+                            description: 'Start of the quote in the current content (in the content it was created on when not anchored)',
+                        },
+                        position_end: {
+                            type: 'integer',
+                        },
+                        anchored: {
+                            type: 'boolean',
+                            description: 'Whether the quote was found in the current content (not returned by PUT)',
+                        },
+                        note: {
+                            type: 'string',
+                            nullable: true,
+                            maxLength: 2000,
+                        },
+                        color: {
+                            type: 'string',
+                            enum: ['yellow', 'green', 'blue', 'pink', 'purple'],
+                        },
+                        created_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                        updated_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                    },
+                },
+                SavedSearchFilters: {
+                    type: 'object',
+                    description: 'Post filters of a saved search, with the meaning of the GET /posts query parameters',
+                    properties: {
+                        search: { type: 'string', maxLength: 500 },
+                        feed_id: { type: 'string', format: 'uuid' },
+                        category_id: { type: 'string', format: 'uuid' },
+                        read: { type: 'boolean' },
+                        bookmarked: { type: 'boolean' },
+                        tag_ids: {
+                            type: 'array',
+                            maxItems: 20,
+                            items: { type: 'string', format: 'uuid' },
+                            description: 'Posts carrying every one of these tags',
+                        },
+                        date_from: { type: 'string', format: 'date-time' },
+                        date_to: { type: 'string', format: 'date-time' },
+                        include_duplicates: { type: 'boolean' },
+                        sortBy: { type: 'string', enum: ['added_date', 'published_date', 'relevance'] },
+                        sortOrder: { type: 'string', enum: ['ASC', 'DESC'] },
+                    },
+                },
+                SavedSearch: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        name: {
+                            type: 'string',
+                            maxLength: 100,
+                            example: 'Unread Rust news',
+                        },
+                        filters: {
+                            $ref: '#/components/schemas/SavedSearchFilters',
+                        },
+                        unread_count: {
+                            type: 'integer',
+                            description: 'Unread posts matching the filters',
+                        },
+                        created_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                        updated_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                    },
+                },
+                Category: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                            description: 'Unique identifier',
+                        },
+                        user_id: {
+                            type: 'string',
+                            format: 'uuid',
+                            description: 'User who owns this category',
+                        },
+                        name: {
+                            type: 'string',
+                            maxLength: 100,
+                            description: 'Category name',
+                            example: 'Tech Blogs',
+                        },
+                        parent_id: {
+                            type: 'string',
+                            format: 'uuid',
+                            nullable: true,
+                            description: 'Parent category ID for nested folders',
                         },
                         children: {
                             type: 'array',
@@ -1238,6 +1737,17 @@ Authentication endpoints are available at \`/api/auth/*\`.
                             default: 0,
                             description: 'Number of users subscribed to this feed',
                         },
+                        next_fetch_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                            description: 'When the feed is polled next (adaptive, null until first fetch)',
+                        },
+                        fetch_interval_minutes: {
+                            type: 'integer',
+                            nullable: true,
+                            description: 'Polling interval computed after the last fetch',
+                        },
                         created_at: {
                             type: 'string',
                             format: 'date-time',
@@ -1248,6 +1758,268 @@ Authentication endpoints are available at \`/api/auth/*\`.
                         },
                     },
                 },
+                CrawlerHostMetrics: {
+                    type: 'object',
+                    properties: {
+                        requests: {
+                            type: 'integer',
+                            description: 'Requests sent',
+                        },
+                        delayed: {
+                            type: 'integer',
+                            description: 'Requests that waited for a slot on their host',
+                        },
+                        delayMsTotal: {
+                            type: 'integer',
+                            description: 'Total time spent waiting, in ms',
+                        },
+                        deferred: {
+                            type: 'integer',
+                            description: 'Requests given up on for now (host busy or rate limited beyond the wait budget)',
+                        },
+                        rateLimited: {
+                            type: 'integer',
+                            description: '429/503 responses',
+                        },
+                        robotsBlocked: {
+                            type: 'integer',
+                            description: 'Requests disallowed by robots.txt',
+                        },
+                    },
+                },
+                Job: {
+                    type: 'object',
+                    properties: {
+                        id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        type: {
+                            type: 'string',
+                            example: 'feed.fetch',
+                        },
+                        payload: {
+                            type: 'object',
+                        },
+                        status: {
+                            type: 'string',
+                            enum: ['queued', 'running', 'completed', 'failed'],
+                        },
+                        priority: {
+                            type: 'integer',
+                        },
+                        attempts: {
+                            type: 'integer',
+                        },
+                        max_attempts: {
+                            type: 'integer',
+                        },
+                        run_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            description: 'Earliest time the job may run (pushed back by retries)',
+                        },
+                        locked_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        locked_by: {
+                            type: 'string',
+                            nullable: true,
+                            description: 'Worker running the job (host:pid)',
+                        },
+                        finished_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        last_error: {
+                            type: 'string',
+                            nullable: true,
+                        },
+                        result: {
+                            type: 'object',
+                            nullable: true,
+                        },
+                        dedupe_key: {
+                            type: 'string',
+                            nullable: true,
+                        },
+                        created_at: {
+                            type: 'string',
+                            format: 'date-time',
+                        },
+                    },
+                },
+                FeedHealth: {
+                    type: 'object',
+                    properties: {
+                        feed_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        name: {
+                            type: 'string',
+                        },
+                        url: {
+                            type: 'string',
+                        },
+                        status: {
+                            type: 'string',
+                            enum: ['active', 'inactive', 'error'],
+                        },
+                        fetch_error_count: {
+                            type: 'integer',
+                            description: 'Consecutive failed fetches',
+                        },
+                        window_days: {
+                            type: 'integer',
+                        },
+                        total_fetches: {
+                            type: 'integer',
+                        },
+                        success_rate: {
+                            type: 'number',
+                            nullable: true,
+                            description: 'Share of successful fetches in the window (0-1)',
+                        },
+                        avg_response_time_ms: {
+                            type: 'integer',
+                            nullable: true,
+                        },
+                        last_successful_fetch_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        not_modified_ratio: {
+                            type: 'number',
+                            nullable: true,
+                            description: 'Share of successful fetches answered with 304 Not Modified',
+                        },
+                        error_trend: {
+                            type: 'string',
+                            enum: ['improving', 'stable', 'worsening'],
+                            description: 'Error rate of the second half of the window compared to the first',
+                        },
+                        next_fetch_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        grade: {
+                            type: 'string',
+                            enum: ['A', 'B', 'C', 'D', 'F'],
+                            nullable: true,
+                        },
+                    },
+                },
+                FeedHealthDetail: {
+                    allOf: [
+                        { $ref: '#/components/schemas/FeedHealth' },
+                        {
+                            type: 'object',
+                            properties: {
+                                daily: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            day: { type: 'string', format: 'date' },
+                                            total: { type: 'integer' },
+                                            errors: { type: 'integer' },
+                                            avg_response_time_ms: { type: 'integer', nullable: true },
+                                        },
+                                    },
+                                },
+                                recent_errors: {
+                                    type: 'array',
+                                    items: {
+                                        type: 'object',
+                                        properties: {
+                                            error_message: { type: 'string' },
+                                            count: { type: 'integer' },
+                                            last_seen_at: { type: 'string', format: 'date-time' },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    ],
+                },
+                FeedFetchSchedule: {
+                    type: 'object',
+                    properties: {
+                        feed_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        url: {
+                            type: 'string',
+                        },
+                        last_fetch_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        next_fetch_at: {
+                            type: 'string',
+                            format: 'date-time',
+                            nullable: true,
+                        },
+                        fetch_interval_minutes: {
+                            type: 'integer',
+                            nullable: true,
+                            description: 'Interval computed after the last fetch',
+                        },
+                        min_fetch_interval_minutes: {
+                            type: 'integer',
+                            nullable: true,
+                            description: 'Admin override of the minimum interval',
+                        },
+                        max_fetch_interval_minutes: {
+                            type: 'integer',
+                            nullable: true,
+                            description: 'Admin override of the maximum interval',
+                        },
+                        effective_min_interval_minutes: {
+                            type: 'integer',
+                        },
+                        effective_max_interval_minutes: {
+                            type: 'integer',
+                        },
+                    },
+                },
+                FeedExpansionSettings: {
+                    type: 'object',
+                    properties: {
+                        feed_id: {
+                            type: 'string',
+                            format: 'uuid',
+                        },
+                        url: {
+                            type: 'string',
+                        },
+                        always_expand: {
+                            type: 'boolean',
+                            description: 'Every new post is expanded in the background',
+                        },
+                        predicted_open_rate: {
+                            type: 'number',
+                            nullable: true,
+                            description: 'Share of the posts of the last 30 days opened by at least one user (null with fewer than 10 posts)',
+                        },
+                        expands_new_posts: {
+                            type: 'boolean',
+                            description: 'Whether new posts are currently expanded in the background (always_expand, or a predicted open rate above POST_EXPANSION_MIN_OPEN_RATE with POST_EXPANSION_PREDICT=true)',
+                        },
+                        expanded_posts: {
+                            type: 'integer',
+                            description: 'Posts of the feed with expanded content',
+                        },
+                    },
+                },
                 UserFeed: {
                     type: 'object',
                     properties: {
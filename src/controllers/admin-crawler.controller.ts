@@ -0,0 +1,63 @@
+import { NextFunction, Request, Response } from 'express';
+import requestScheduler from '../services/content/request-scheduler.service';
+
+export class AdminCrawlerController {
+    /**
+     * @swagger
+     * /admin/crawler/metrics:
+     *   get:
+     *     summary: Crawler politeness metrics
+     *     description: |
+     *       Requests delayed by per-host limits, deferred (host busy or rate limited beyond the wait budget),
+     *       rate limited (429/503) and blocked by robots.txt, since the API process started (admin only).
+     *       Feed fetches run in the cron worker, which logs its own counts.
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: Totals and the hosts that held requests back the most
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     since:
+     *                       type: string
+     *                       format: date-time
+     *                     totals:
+     *                       $ref: '#/components/schemas/CrawlerHostMetrics'
+     *                     hosts:
+     *                       type: array
+     *                       items:
+     *                         allOf:
+     *                           - $ref: '#/components/schemas/CrawlerHostMetrics'
+     *                           - type: object
+     *                             properties:
+     *                               host:
+     *                                 type: string
+     *                               active:
+     *                                 type: integer
+     *                               waiting:
+     *                                 type: integer
+     *                               blockedUntil:
+     *                                 type: string
+     *                                 format: date-time
+     *                                 nullable: true
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     */
+    async metrics(req: Request, res: Response, next: NextFunction) {
+        try {
+            res.status(200).json({ data: requestScheduler.getMetrics(), status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,246 @@
+import { NextFunction, Request, Response } from 'express';
+import { PostExpansionService } from '../services/content/post-expansion.service';
+import { FeedsService } from '../services/domain';
+
+export class AdminFeedsController {
+    private feedsService: FeedsService;
+    private postExpansionService: PostExpansionService;
+
+    constructor() {
+        this.feedsService = new FeedsService();
+        this.postExpansionService = new PostExpansionService();
+    }
+
+    /**
+     * @swagger
+     * /admin/feeds/{feedId}/schedule:
+     *   get:
+     *     summary: Get the fetch schedule of a feed
+     *     description: Next fetch, last computed interval and interval bounds (admin only)
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: Fetch schedule
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedFetchSchedule'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Feed not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async getSchedule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const schedule = await this.feedsService.getFetchSchedule(req.params.feedId);
+            res.status(200).json({ data: schedule, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/feeds/{feedId}/schedule:
+     *   patch:
+     *     summary: Override the fetch interval bounds of a feed
+     *     description: |
+     *       Sets the minimum and/or maximum polling interval of a feed, overriding
+     *       FEED_MIN_FETCH_INTERVAL_MINUTES / FEED_MAX_FETCH_INTERVAL_MINUTES. Send null to restore the default.
+     *       A next fetch later than the new maximum is brought forward. Admin only.
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               min_fetch_interval_minutes:
+     *                 type: integer
+     *                 minimum: 1
+     *                 nullable: true
+     *               max_fetch_interval_minutes:
+     *                 type: integer
+     *                 minimum: 1
+     *                 nullable: true
+     *     responses:
+     *       200:
+     *         description: Updated fetch schedule
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedFetchSchedule'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Invalid bounds
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Feed not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async updateSchedule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const schedule = await this.feedsService.updateFetchSchedule(req.params.feedId, {
+                min_fetch_interval_minutes: req.body.min_fetch_interval_minutes,
+                max_fetch_interval_minutes: req.body.max_fetch_interval_minutes
+            });
+            res.status(200).json({ data: schedule, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/feeds/{feedId}/expansion:
+     *   get:
+     *     summary: Get the expansion settings of a feed
+     *     description: Whether new posts of the feed are expanded in the background, and the feed's predicted open rate (admin only)
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: Expansion settings
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedExpansionSettings'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Feed not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async getExpansion(req: Request, res: Response, next: NextFunction) {
+        try {
+            const settings = await this.postExpansionService.getFeedSettings(req.params.feedId);
+            res.status(200).json({ data: settings, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/feeds/{feedId}/expansion:
+     *   patch:
+     *     summary: Turn eager expansion of a feed on or off
+     *     description: |
+     *       With always_expand, the full content of every new post of the feed is prepared in the
+     *       background, so discussions start without scraping. Posts already ingested are not expanded. Admin only.
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required: [always_expand]
+     *             properties:
+     *               always_expand:
+     *                 type: boolean
+     *     responses:
+     *       200:
+     *         description: Updated expansion settings
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedExpansionSettings'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Invalid always_expand
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Feed not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async updateExpansion(req: Request, res: Response, next: NextFunction) {
+        try {
+            const settings = await this.postExpansionService.setAlwaysExpand(req.params.feedId, req.body.always_expand);
+            res.status(200).json({ data: settings, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,225 @@
+import { NextFunction, Request, Response } from 'express';
+import { JobStatus } from '../entities/job.entity';
+import { JobQueueService } from '../services/queue';
+
+export class AdminJobsController {
+    private jobQueueService: JobQueueService;
+
+    constructor() {
+        this.jobQueueService = new JobQueueService();
+    }
+
+    /**
+     * @swagger
+     * /admin/jobs:
+     *   get:
+     *     summary: List background jobs
+     *     description: Jobs of the Postgres-backed queue, newest first (admin only)
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: type
+     *         schema:
+     *           type: string
+     *           example: feed.fetch
+     *       - in: query
+     *         name: status
+     *         schema:
+     *           type: string
+     *           enum: [queued, running, completed, failed]
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 100
+     *           default: 50
+     *       - in: query
+     *         name: offset
+     *         schema:
+     *           type: integer
+     *           minimum: 0
+     *           default: 0
+     *     responses:
+     *       200:
+     *         description: Jobs
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     items:
+     *                       type: array
+     *                       items:
+     *                         $ref: '#/components/schemas/Job'
+     *                     total:
+     *                       type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     */
+    async index(req: Request, res: Response, next: NextFunction) {
+        try {
+            const jobs = await this.jobQueueService.listJobs(
+                {
+                    type: req.query.type as string | undefined,
+                    status: req.query.status as JobStatus | undefined
+                },
+                req.query.limit ? Number(req.query.limit) : undefined,
+                req.query.offset ? Number(req.query.offset) : undefined
+            );
+            res.status(200).json({ data: jobs, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/jobs/stats:
+     *   get:
+     *     summary: Job queue statistics
+     *     description: Number of queued, running, completed and failed jobs per type (admin only)
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: Counts per job type
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     type: object
+     *                     properties:
+     *                       type:
+     *                         type: string
+     *                       queued:
+     *                         type: integer
+     *                       running:
+     *                         type: integer
+     *                       completed:
+     *                         type: integer
+     *                       failed:
+     *                         type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     */
+    async stats(req: Request, res: Response, next: NextFunction) {
+        try {
+            const stats = await this.jobQueueService.getStats();
+            res.status(200).json({ data: stats, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/jobs/{jobId}:
+     *   get:
+     *     summary: Get a background job
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: jobId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: The job
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Job'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Job not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async show(req: Request, res: Response, next: NextFunction) {
+        try {
+            const job = await this.jobQueueService.getJob(req.params.jobId);
+            res.status(200).json({ data: job, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /admin/jobs/{jobId}/retry:
+     *   post:
+     *     summary: Retry a failed job
+     *     description: Puts a failed job back in the queue with a fresh set of attempts (admin only)
+     *     tags: [Admin]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: jobId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: The requeued job
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Job'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       403:
+     *         description: Administrator access required
+     *       404:
+     *         description: Job not found
+     *       409:
+     *         description: The job has not failed, or an equivalent job is already queued
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async retry(req: Request, res: Response, next: NextFunction) {
+        try {
+            const job = await this.jobQueueService.retry(req.params.jobId);
+            res.status(200).json({ data: job, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -1,12 +1,15 @@
 import { NextFunction, Request, Response } from 'express';
 import { CreateChatSessionDto } from '../dtos/chat-session.dto';
+import { ChatGraphService } from '../services/ai/graph/chat-graph.service';
 import { ChatSessionService } from '../services/domain';
 
 export class ChatSessionController {
     private service: ChatSessionService;
+    private chatGraphService: ChatGraphService;
 
     constructor() {
         this.service = new ChatSessionService();
+        this.chatGraphService = new ChatGraphService();
     }
 
     /**
@@ -289,4 +292,177 @@ export class ChatSessionController {
             next(err);
         }
     }
+
+    /**
+     * @swagger
+     * /chat-sessions/{id}/state:
+     *   get:
+     *     summary: Inspect the chat session's graph state
+     *     description: Returns the latest persisted LangGraph checkpoint of the session, including the node the flow is paused on (e.g. waiting for a platform choice)
+     *     tags: [Chat Sessions]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *     responses:
+     *       200:
+     *         description: Persisted graph state
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     checkpointId:
+     *                       type: string
+     *                       nullable: true
+     *                       description: ID of the latest checkpoint (null when the session has no state yet)
+     *                     createdAt:
+     *                       type: string
+     *                       format: date-time
+     *                       nullable: true
+     *                       description: When the latest checkpoint was written
+     *                     next:
+     *                       type: array
+     *                       items:
+     *                         type: string
+     *                       description: Nodes that will run when the flow resumes
+     *                     pendingInterrupt:
+     *                       type: object
+     *                       nullable: true
+     *                       description: Clarification the flow is waiting for; the next chat message answers it
+     *                       properties:
+     *                         node:
+     *                           type: string
+     *                           example: SocialPlatformAnswer
+     *                         value:
+     *                           type: object
+     *                           example: { question: "Which platform should I write this for?", suggestedOptions: ["Twitter", "LinkedIn"] }
+     *                     values:
+     *                       type: object
+     *                       description: Graph state values
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       401:
+     *         description: Unauthorized
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Chat session not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async state(req: Request, res: Response, next: NextFunction) {
+        try {
+            const session = await this.service.getById(req.params.id, req.user!.id);
+            if (!session) return res.status(404).json({ error: { code: '404', message: 'Chat session not found' } });
+            const state = await this.chatGraphService.getSessionState(session.id);
+            res.json({ data: state, status: 200 });
+        } catch (err) {
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{id}/state:
+     *   delete:
+     *     summary: Reset the chat session's graph state
+     *     description: Deletes all persisted LangGraph checkpoints of the session, dropping any pending clarification. Messages and social posts are kept.
+     *     tags: [Chat Sessions]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *     responses:
+     *       204:
+     *         description: Graph state reset
+     *       401:
+     *         description: Unauthorized
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Chat session not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async resetState(req: Request, res: Response, next: NextFunction) {
+        try {
+            const session = await this.service.getById(req.params.id, req.user!.id);
+            if (!session) return res.status(404).json({ error: { code: '404', message: 'Chat session not found' } });
+            await this.chatGraphService.resetSessionState(session.id);
+            res.status(204).send();
+        } catch (err) {
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{id}:
+     *   delete:
+     *     summary: Delete a chat session
+     *     description: Deletes the chat session with its messages, social posts and persisted graph state (checkpoints).
+     *     tags: [Chat Sessions]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *     responses:
+     *       204:
+     *         description: Chat session deleted
+     *       401:
+     *         description: Unauthorized
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Chat session not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async destroy(req: Request, res: Response, next: NextFunction) {
+        try {
+            const session = await this.service.getById(req.params.id, req.user!.id);
+            if (!session) return res.status(404).json({ error: { code: '404', message: 'Chat session not found' } });
+            // Checkpoints are keyed by thread_id only, nothing cascades to them
+            await this.chatGraphService.resetSessionState(session.id);
+            await this.service.delete(session.id, req.user!.id);
+            res.status(204).send();
+        } catch (err) {
+            next(err);
+        }
+    }
 }
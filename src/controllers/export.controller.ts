@@ -0,0 +1,247 @@
+import { NextFunction, Request, Response } from 'express';
+import { ExportService } from '../services/domain';
+import { ExportFile, ExportFormat } from '../services/export';
+
+export class ExportController {
+    private exportService: ExportService;
+
+    constructor() {
+        this.exportService = new ExportService();
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{id}/export:
+     *   get:
+     *     summary: Export a chat session
+     *     description: Downloads the conversation and social posts of a chat session as Markdown, JSON or a self-contained HTML file
+     *     tags: [Chat Sessions]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: query
+     *         name: format
+     *         required: false
+     *         schema:
+     *           type: string
+     *           enum: [markdown, json, html]
+     *           default: markdown
+     *     responses:
+     *       200:
+     *         description: Export file (sent as an attachment)
+     *         content:
+     *           text/markdown:
+     *             schema:
+     *               type: string
+     *           application/json:
+     *             schema:
+     *               type: object
+     *           text/html:
+     *             schema:
+     *               type: string
+     *       404:
+     *         description: Chat session not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async chatSession(req: Request, res: Response, next: NextFunction) {
+        try {
+            const file = await this.exportService.exportChatSession(req.params.id, req.user!.id, this.format(req));
+            this.send(res, file);
+        } catch (err) {
+            if (err instanceof Error && err.message === 'Chat session not found') {
+                return res.status(404).json({ error: { code: '404', message: err.message } });
+            }
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/export:
+     *   get:
+     *     summary: Export the social posts of a chat session
+     *     description: |
+     *       Downloads all social posts of a chat session as one file. In Markdown, code examples are
+     *       rendered as fenced code blocks and visual elements as callouts.
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: query
+     *         name: format
+     *         required: false
+     *         schema:
+     *           type: string
+     *           enum: [markdown, json, html]
+     *           default: markdown
+     *     responses:
+     *       200:
+     *         description: Export file (sent as an attachment)
+     *         content:
+     *           text/markdown:
+     *             schema:
+     *               type: string
+     *           application/json:
+     *             schema:
+     *               type: object
+     *           text/html:
+     *             schema:
+     *               type: string
+     *       404:
+     *         description: Chat session not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async sessionSocialPosts(req: Request, res: Response, next: NextFunction) {
+        try {
+            const file = await this.exportService.exportSessionSocialPosts(req.params.sessionId, req.user!.id, this.format(req));
+            this.send(res, file);
+        } catch (err) {
+            if (err instanceof Error && err.message === 'Chat session not found') {
+                return res.status(404).json({ error: { code: '404', message: err.message } });
+            }
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /exports/social-posts:
+     *   get:
+     *     summary: Bulk export social posts as a ZIP
+     *     description: |
+     *       Downloads a ZIP with every social post of the user (across chat sessions), one file per post
+     *       in a folder per platform, plus a manifest.json. Filter by platform and creation date.
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: format
+     *         required: false
+     *         schema:
+     *           type: string
+     *           enum: [markdown, json, html]
+     *           default: markdown
+     *         description: Format of the post files inside the archive
+     *       - in: query
+     *         name: platform
+     *         required: false
+     *         schema:
+     *           type: string
+     *           example: linkedin
+     *       - in: query
+     *         name: from
+     *         required: false
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Only posts created at or after this date
+     *       - in: query
+     *         name: to
+     *         required: false
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Only posts created at or before this date
+     *     responses:
+     *       200:
+     *         description: ZIP archive
+     *         content:
+     *           application/zip:
+     *             schema:
+     *               type: string
+     *               format: binary
+     *       400:
+     *         description: Invalid filters
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async socialPostsArchive(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { platform, from, to } = req.query as Record<string, string | undefined>;
+
+            const file = await this.exportService.exportSocialPostsArchive(req.user!.id, {
+                platform,
+                from: from ? new Date(from) : undefined,
+                to: to ? new Date(to) : undefined
+            }, this.format(req));
+            this.send(res, file);
+        } catch (err) {
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /exports/highlights:
+     *   get:
+     *     summary: Export all highlights
+     *     description: |
+     *       Downloads every highlight of the user with its note, grouped by post (most recently
+     *       highlighted posts first, highlights in reading order).
+     *     tags: [Highlights]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: format
+     *         required: false
+     *         schema:
+     *           type: string
+     *           enum: [markdown, json, html]
+     *           default: markdown
+     *     responses:
+     *       200:
+     *         description: Export file (sent as an attachment)
+     *         content:
+     *           text/markdown:
+     *             schema:
+     *               type: string
+     *           application/json:
+     *             schema:
+     *               type: object
+     *           text/html:
+     *             schema:
+     *               type: string
+     */
+    async highlights(req: Request, res: Response, next: NextFunction) {
+        try {
+            const file = await this.exportService.exportHighlights(req.user!.id, this.format(req));
+            this.send(res, file);
+        } catch (err) {
+            next(err);
+        }
+    }
+
+    private format(req: Request): ExportFormat {
+        return (req.query.format as ExportFormat | undefined) || 'markdown';
+    }
+
+    private send(res: Response, file: ExportFile) {
+        res.setHeader('Content-Type', file.contentType);
+        res.attachment(file.filename);
+        res.send(file.body);
+    }
+}
@@ -1,12 +1,17 @@
 import { NextFunction, Request, Response } from 'express';
-import { FeedsService } from '../services/domain';
+import { HttpError } from '../middleware/error.middleware';
+import { DEFAULT_HEALTH_WINDOW_DAYS, FeedHealthService, FeedOpmlService, FeedsService } from '../services/domain';
 import { logger } from '../utils/logger';
 
 export class FeedsController {
     private feedsService: FeedsService;
+    private feedOpmlService: FeedOpmlService;
+    private feedHealthService: FeedHealthService;
 
     constructor() {
         this.feedsService = new FeedsService();
+        this.feedOpmlService = new FeedOpmlService();
+        this.feedHealthService = new FeedHealthService();
     }
 
     /**
@@ -14,7 +19,9 @@ export class FeedsController {
      * /feeds/search:
      *   get:
      *     summary: Search for feeds
-     *     description: Search for feeds in the global registry by name or URL with fuzzy matching
+     *     description: |
+     *       Full-text search of feeds in the global registry by name or URL, with web search syntax
+     *       ("quoted phrases", -excluded words, OR). The last word also matches as a prefix.
      *     tags: [Feeds]
      *     security:
      *       - bearerAuth: []
@@ -458,4 +465,282 @@ export class FeedsController {
             next(error);
         }
     }
+
+    /**
+     * @swagger
+     * /feeds/import:
+     *   post:
+     *     summary: Import subscriptions from OPML
+     *     description: |
+     *       Subscribes the user to every feed of an OPML file (Feedly, Inoreader, ...).
+     *       Outline folders become categories (nested folders keep their parent), outline titles
+     *       become custom feed names. Feeds the user already follows are left unchanged.
+     *       Send the file as the raw request body (`text/xml`, `application/xml` or `text/x-opml`)
+     *       or as JSON `{ "opml": "<opml ...>" }`. At most 500 feeds per file.
+     *     tags: [Feeds]
+     *     security:
+     *       - bearerAuth: []
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         text/xml:
+     *           schema:
+     *             type: string
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               opml:
+     *                 type: string
+     *     responses:
+     *       200:
+     *         description: Per-feed import report
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     total:
+     *                       type: integer
+     *                     subscribed:
+     *                       type: integer
+     *                     already_subscribed:
+     *                       type: integer
+     *                     failed:
+     *                       type: integer
+     *                     categories_created:
+     *                       type: integer
+     *                     results:
+     *                       type: array
+     *                       items:
+     *                         type: object
+     *                         properties:
+     *                           url:
+     *                             type: string
+     *                           title:
+     *                             type: string
+     *                             nullable: true
+     *                           category:
+     *                             type: string
+     *                             nullable: true
+     *                             example: Tech / JavaScript
+     *                           status:
+     *                             type: string
+     *                             enum: [subscribed, already_subscribed, failed]
+     *                           subscription_id:
+     *                             type: string
+     *                             format: uuid
+     *                           error:
+     *                             type: string
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Missing, invalid or too large OPML file
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async importOpml(req: Request, res: Response, next: NextFunction) {
+        try {
+            const xml = typeof req.body === 'string' ? req.body : req.body?.opml;
+            if (!xml || typeof xml !== 'string' || !xml.trim()) {
+                throw new HttpError(400, 'OPML file is required');
+            }
+
+            const report = await this.feedOpmlService.importOpml(req.user!.id, xml);
+            res.status(200).json({ data: report, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /feeds/export:
+     *   get:
+     *     summary: Export subscriptions as OPML
+     *     description: Downloads the user's subscriptions as an OPML 2.0 file, grouped by (nested) category
+     *     tags: [Feeds]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: OPML file
+     *         content:
+     *           text/x-opml:
+     *             schema:
+     *               type: string
+     */
+    async exportOpml(req: Request, res: Response, next: NextFunction) {
+        try {
+            const opml = await this.feedOpmlService.exportOpml(req.user!.id);
+
+            res.setHeader('Content-Type', 'text/x-opml; charset=utf-8');
+            res.attachment('qirata-subscriptions.opml');
+            res.send(opml);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /feeds/health:
+     *   get:
+     *     summary: Health of subscribed feeds
+     *     description: |
+     *       Fetch statistics of every feed the user follows over the last `days` days, least healthy first.
+     *       The grade (A-F) combines success rate, latency, time since the last successful fetch and the error trend;
+     *       it is null for feeds not fetched within the window.
+     *     tags: [Feeds]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: query
+     *         name: days
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 30
+     *           default: 7
+     *     responses:
+     *       200:
+     *         description: Health per feed
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/FeedHealth'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       401:
+     *         description: Unauthorized - Authentication required
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async getFeedsHealth(req: Request, res: Response, next: NextFunction) {
+        try {
+            const days = req.query.days ? Number(req.query.days) : DEFAULT_HEALTH_WINDOW_DAYS;
+            const health = await this.feedHealthService.getUserFeedsHealth(req.user!.id, days);
+
+            res.status(200).json({ data: health, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /feeds/{feedId}/health:
+     *   get:
+     *     summary: Health of a subscribed feed
+     *     description: Fetch statistics of the feed over the last `days` days, with daily figures and its most recent errors
+     *     tags: [Feeds]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *       - in: query
+     *         name: days
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 30
+     *           default: 7
+     *     responses:
+     *       200:
+     *         description: Feed health
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedHealthDetail'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Subscription not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async getFeedHealth(req: Request, res: Response, next: NextFunction) {
+        try {
+            const days = req.query.days ? Number(req.query.days) : DEFAULT_HEALTH_WINDOW_DAYS;
+            const health = await this.feedHealthService.getFeedHealth(req.user!.id, req.params.feedId, days);
+
+            res.status(200).json({ data: health, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /feeds/{feedId}/reactivate:
+     *   post:
+     *     summary: Re-activate a failing feed
+     *     description: |
+     *       Feeds go to `error` after 5 consecutive failed fetches (still retried with backoff) and to `inactive`
+     *       once they have not been fetched successfully for FEED_INACTIVE_AFTER_DAYS (no longer fetched).
+     *       Re-activation resets the error count and queues a fetch right away.
+     *     tags: [Feeds]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: feedId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: Feed re-activated
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/FeedHealthDetail'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Subscription not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async reactivateFeed(req: Request, res: Response, next: NextFunction) {
+        try {
+            const health = await this.feedHealthService.reactivateFeed(req.user!.id, req.params.feedId);
+
+            res.status(200).json({ data: health, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
 }
@@ -0,0 +1,276 @@
+import { NextFunction, Request, Response } from 'express';
+import { CreateHighlightDto, HighlightService, UpdateHighlightDto } from '../services/domain';
+import { logger } from '../utils/logger';
+
+export class HighlightController {
+    private highlightService: HighlightService;
+
+    constructor() {
+        this.highlightService = new HighlightService();
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/highlights:
+     *   get:
+     *     summary: Get the highlights of a post
+     *     description: |
+     *       Retrieves the user's highlights on the post's expanded content in reading order. Each highlight
+     *       is re-anchored in the current content: when the post was expanded again, its range follows the
+     *       quote. Highlights whose quote is no longer in the content come last with anchored = false.
+     *     tags: [Highlights]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Post ID
+     *     responses:
+     *       200:
+     *         description: List of highlights
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/Highlight'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Post not found or access denied
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async index(req: Request, res: Response, next: NextFunction) {
+        try {
+            const highlights = await this.highlightService.getPostHighlights(req.params.id, req.user!.id);
+            res.json({ data: highlights, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/highlights:
+     *   post:
+     *     summary: Highlight a passage of a post
+     *     description: |
+     *       Highlights a passage of the post's expanded content, optionally with a note. Quote and range
+     *       refer to the plain text of the content (tags removed, entities decoded, whitespace collapsed).
+     *       The range and the context help pick the right occurrence of the quote; the stored range and
+     *       context are the ones found in the content.
+     *     tags: [Highlights]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Post ID
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - quote_exact
+     *             properties:
+     *               quote_exact:
+     *                 type: string
+     *                 maxLength: 5000
+     *                 example: "Generics let a function work over many types"
+     *               quote_prefix:
+     *                 type: string
+     *                 maxLength: 200
+     *                 description: Text just before the quote
+     *               quote_suffix:
+     *                 type: string
+     *                 maxLength: 200
+     *                 description: Text just after the quote
+     *               position_start:
+     *                 type: integer
+     *                 minimum: 0
+     *               position_end:
+     *                 type: integer
+     *                 minimum: 0
+     *               note:
+     *                 type: string
+     *                 maxLength: 2000
+     *                 nullable: true
+     *               color:
+     *                 type: string
+     *                 enum: [yellow, green, blue, pink, purple]
+     *                 default: yellow
+     *     responses:
+     *       201:
+     *         description: Highlight created successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Highlight'
+     *                 status:
+     *                   type: integer
+     *                   example: 201
+     *       400:
+     *         description: Bad request
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Post not found, or the post has no expanded content
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       422:
+     *         description: Quote not found in the post content
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async create(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: CreateHighlightDto = req.body;
+            const highlight = await this.highlightService.createHighlight(req.params.id, data, req.user!.id);
+
+            logger.info('Highlight created:', { id: highlight.id, post_id: highlight.post_id });
+            res.status(201).json({ data: highlight, status: 201 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/highlights/{highlightId}:
+     *   put:
+     *     summary: Update a highlight
+     *     description: Changes the note or the color of a highlight. A null note removes it.
+     *     tags: [Highlights]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Post ID
+     *       - in: path
+     *         name: highlightId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Highlight ID
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               note:
+     *                 type: string
+     *                 maxLength: 2000
+     *                 nullable: true
+     *               color:
+     *                 type: string
+     *                 enum: [yellow, green, blue, pink, purple]
+     *     responses:
+     *       200:
+     *         description: Highlight updated successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Highlight'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Highlight not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: UpdateHighlightDto = req.body;
+            const highlight = await this.highlightService.updateHighlight(req.params.id, req.params.highlightId, data, req.user!.id);
+
+            logger.info('Highlight updated:', { id: highlight.id });
+            res.json({ data: highlight, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/highlights/{highlightId}:
+     *   delete:
+     *     summary: Delete a highlight
+     *     tags: [Highlights]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Post ID
+     *       - in: path
+     *         name: highlightId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Highlight ID
+     *     responses:
+     *       204:
+     *         description: Highlight deleted successfully
+     *       404:
+     *         description: Highlight not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async destroy(req: Request, res: Response, next: NextFunction) {
+        try {
+            await this.highlightService.deleteHighlight(req.params.id, req.params.highlightId, req.user!.id);
+
+            logger.info('Highlight deleted:', { id: req.params.highlightId });
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+}
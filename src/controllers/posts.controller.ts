@@ -1,14 +1,16 @@
 import { NextFunction, Request, Response } from 'express';
 import { HttpError } from '../middleware/error.middleware';
-import { PostsService } from '../services/domain';
+import { PostsService, TagService } from '../services/domain';
 import { logger } from '../utils/logger';
 import { SSEResponse } from '../utils/sse';
 
 export class PostsController {
     private postsService: PostsService;
+    private tagService: TagService;
 
     constructor() {
         this.postsService = new PostsService();
+        this.tagService = new TagService();
     }
 
     /**
@@ -42,6 +44,15 @@ export class PostsController {
      *         name: search
      *         schema:
      *           type: string
+     *         description: |
+     *           Full-text search in titles, content and expanded content, with web search syntax
+     *           ("quoted phrases", -excluded words, OR). Matching posts include `search_rank`,
+     *           `title_highlight` and `content_snippet`.
+     *       - in: query
+     *         name: bookmarked
+     *         schema:
+     *           type: boolean
+     *         description: Filter posts by bookmark - true for bookmarked posts, false for the others, omit for all posts
      *       - in: query
      *         name: feed_id
      *         schema:
@@ -55,12 +66,34 @@ export class PostsController {
      *           format: uuid
      *         description: Filter posts by category ID
      *       - in: query
+     *         name: tag_ids
+     *         schema:
+     *           type: array
+     *           items:
+     *             type: string
+     *             format: uuid
+     *         style: form
+     *         explode: false
+     *         description: Only posts carrying every one of these tags (comma-separated)
+     *       - in: query
+     *         name: date_from
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Posts published from this date (undated posts by date added)
+     *       - in: query
+     *         name: date_to
+     *         schema:
+     *           type: string
+     *           format: date-time
+     *         description: Posts published until this date (undated posts by date added)
+     *       - in: query
      *         name: sortBy
      *         schema:
      *           type: string
-     *           enum: [added_date, published_date]
+     *           enum: [added_date, published_date, relevance]
      *           default: added_date
-     *         description: Sort posts by added date (sequence) or published date
+     *         description: Sort posts by added date (sequence), published date or search relevance (with search only, ignored otherwise)
      *       - in: query
      *         name: sortOrder
      *         schema:
@@ -68,6 +101,14 @@ export class PostsController {
      *           enum: [ASC, DESC]
      *           default: DESC
      *         description: Sort order - ascending or descending
+     *       - in: query
+     *         name: include_duplicates
+     *         schema:
+     *           type: boolean
+     *           default: false
+     *         description: |
+     *           List every copy of articles syndicated through several feeds. By default only the first-seen copy
+     *           among the user's feeds is listed; `source_count` tells how many copies exist (see GET /posts/{id}/sources).
      *     responses:
      *       200:
      *         description: Success
@@ -99,6 +140,7 @@ export class PostsController {
 
             const filters = {
                 read: req.query.read !== undefined ? req.query.read === 'true' : undefined,
+                bookmarked: req.query.bookmarked !== undefined ? req.query.bookmarked === 'true' : undefined,
                 link_id: req.query.link_id as string,
                 search: req.query.search as string,
                 feed_id: req.query.feed_id as string,
@@ -106,7 +148,11 @@ export class PostsController {
                 limit: pageSize,
                 offset: (page - 1) * pageSize,
                 sortBy: req.query.sortBy as string,
-                sortOrder: req.query.sortOrder as 'ASC' | 'DESC'
+                sortOrder: req.query.sortOrder as 'ASC' | 'DESC',
+                include_duplicates: req.query.include_duplicates === 'true',
+                tag_ids: req.query.tag_ids as string[] | undefined,
+                date_from: req.query.date_from ? new Date(req.query.date_from as string) : undefined,
+                date_to: req.query.date_to ? new Date(req.query.date_to as string) : undefined
             };
 
             const [posts, total] = await this.postsService.getPosts(filters, req.user!.id);
@@ -127,6 +173,273 @@ export class PostsController {
         }
     }
 
+    /**
+     * @swagger
+     * /posts/bookmarks:
+     *   get:
+     *     summary: Get bookmarked posts
+     *     description: |
+     *       The user's bookmarked posts (read later), most recently bookmarked first. Posts of feeds the user
+     *       unsubscribed from are included, with `subscribed` set to false.
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: query
+     *         name: page
+     *         schema:
+     *           type: integer
+     *           default: 1
+     *       - in: query
+     *         name: pageSize
+     *         schema:
+     *           type: integer
+     *           default: 9
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     items:
+     *                       type: array
+     *                       items:
+     *                         $ref: '#/components/schemas/BookmarkedPost'
+     *                     total:
+     *                       type: integer
+     *                     page:
+     *                       type: integer
+     *                     pageSize:
+     *                       type: integer
+     *                     totalPages:
+     *                       type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     */
+    async bookmarks(req: Request, res: Response, next: NextFunction) {
+        try {
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 9;
+
+            const [posts, total] = await this.postsService.getBookmarks(req.user!.id, pageSize, (page - 1) * pageSize);
+
+            res.json({
+                data: {
+                    items: posts,
+                    total,
+                    page,
+                    pageSize,
+                    totalPages: Math.ceil(total / pageSize)
+                },
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/bookmark:
+     *   patch:
+     *     summary: Bookmark a post or remove its bookmark
+     *     description: |
+     *       Saves a post to read later, with an optional note. Bookmarked posts stay available after
+     *       unsubscribing from their feed. Removing the bookmark also removes its note.
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required: [bookmarked]
+     *             properties:
+     *               bookmarked:
+     *                 type: boolean
+     *               note:
+     *                 type: string
+     *                 nullable: true
+     *                 maxLength: 2000
+     *                 description: Note on the bookmark (null clears it, omitted keeps the current note)
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/PostBookmark'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Validation error
+     *       404:
+     *         description: Post not found or access denied
+     */
+    async bookmark(req: Request, res: Response, next: NextFunction) {
+        try {
+            const bookmark = await this.postsService.setBookmark(
+                req.params.id,
+                req.user!.id,
+                req.body.bookmarked,
+                req.body.note
+            );
+
+            res.json({
+                data: bookmark,
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/semantic-search:
+     *   get:
+     *     summary: Search posts by meaning
+     *     description: |
+     *       Posts of the user's feeds closest in meaning to a free-text query (vector embeddings of titles,
+     *       content and expanded content), most similar first. Only the first-seen copy of syndicated articles
+     *       is listed. Posts not embedded yet are not found.
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: query
+     *         name: q
+     *         required: true
+     *         schema:
+     *           type: string
+     *           maxLength: 500
+     *         description: What the posts should be about
+     *       - in: query
+     *         name: page
+     *         schema:
+     *           type: integer
+     *           default: 1
+     *       - in: query
+     *         name: pageSize
+     *         schema:
+     *           type: integer
+     *           default: 9
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     items:
+     *                       type: array
+     *                       items:
+     *                         $ref: '#/components/schemas/SimilarPost'
+     *                     page:
+     *                       type: integer
+     *                     pageSize:
+     *                       type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Missing or invalid query
+     */
+    async semanticSearch(req: Request, res: Response, next: NextFunction) {
+        try {
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 9;
+
+            const posts = await this.postsService.semanticSearch(
+                req.query.q as string,
+                req.user!.id,
+                pageSize,
+                (page - 1) * pageSize
+            );
+
+            res.json({
+                data: {
+                    items: posts,
+                    page,
+                    pageSize
+                },
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/related:
+     *   get:
+     *     summary: Get posts related to a post
+     *     description: Posts of the user's feeds closest in meaning to the post, most similar first. Other copies of the post's article are excluded.
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *       - in: query
+     *         name: limit
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *           maximum: 20
+     *           default: 5
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/SimilarPost'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Post not found or access denied
+     */
+    async related(req: Request, res: Response, next: NextFunction) {
+        try {
+            const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
+            const posts = await this.postsService.getRelatedPosts(req.params.id, req.user!.id, limit);
+
+            res.json({
+                data: posts,
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * @swagger
      * /posts/{id}/discuss:
@@ -323,6 +636,110 @@ export class PostsController {
         }
     }
 
+    /**
+     * @swagger
+     * /posts/{id}/sources:
+     *   get:
+     *     summary: Get every source of a post's article
+     *     description: Copies of the same article from different feeds (same canonical URL or near-identical content), first-seen first
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/PostSource'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Post not found or access denied
+     */
+    async sources(req: Request, res: Response, next: NextFunction) {
+        try {
+            const sources = await this.postsService.getPostSources(req.params.id, req.user!.id);
+
+            res.json({
+                data: sources,
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /posts/{id}/tags:
+     *   put:
+     *     summary: Set the tags of a post
+     *     description: Replaces the user's tags on the post. An empty list removes them all.
+     *     tags: [Posts]
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required: [tag_ids]
+     *             properties:
+     *               tag_ids:
+     *                 type: array
+     *                 maxItems: 20
+     *                 items:
+     *                   type: string
+     *                   format: uuid
+     *     responses:
+     *       200:
+     *         description: The post's tags
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/Tag'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Post or tag not found
+     */
+    async tags(req: Request, res: Response, next: NextFunction) {
+        try {
+            const tags = await this.tagService.setPostTags(req.params.id, req.body.tag_ids, req.user!.id);
+
+            res.json({
+                data: tags,
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
     /**
      * @swagger
      * /posts/{id}/read:
@@ -0,0 +1,350 @@
+import { NextFunction, Request, Response } from 'express';
+import { CreateSavedSearchDto, SavedSearchService, UpdateSavedSearchDto } from '../services/domain';
+import { logger } from '../utils/logger';
+
+export class SavedSearchController {
+    private savedSearchService: SavedSearchService;
+
+    constructor() {
+        this.savedSearchService = new SavedSearchService();
+    }
+
+    /**
+     * @swagger
+     * /saved-searches:
+     *   post:
+     *     summary: Create a saved search
+     *     description: Saves a combination of post filters as a named smart folder
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - name
+     *               - filters
+     *             properties:
+     *               name:
+     *                 type: string
+     *                 example: "Unread Rust news"
+     *                 maxLength: 100
+     *               filters:
+     *                 $ref: '#/components/schemas/SavedSearchFilters'
+     *     responses:
+     *       201:
+     *         description: Saved search created successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SavedSearch'
+     *                 status:
+     *                   type: integer
+     *                   example: 201
+     *       400:
+     *         description: Bad request
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Tag or category in the filters not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Saved search with this name already exists
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async create(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: CreateSavedSearchDto = req.body;
+            const savedSearch = await this.savedSearchService.createSavedSearch(data, req.user!.id);
+
+            logger.info('Saved search created:', { id: savedSearch.id, name: savedSearch.name });
+            res.status(201).json({ data: savedSearch, status: 201 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /saved-searches:
+     *   get:
+     *     summary: Get all saved searches
+     *     description: Retrieves the user's saved searches ordered by name, each with its unread count
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: List of saved searches
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/SavedSearch'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     */
+    async index(req: Request, res: Response, next: NextFunction) {
+        try {
+            const savedSearches = await this.savedSearchService.getUserSavedSearches(req.user!.id);
+            res.json({ data: savedSearches, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /saved-searches/{id}:
+     *   get:
+     *     summary: Get a saved search
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Saved search ID
+     *     responses:
+     *       200:
+     *         description: Saved search with its unread count
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SavedSearch'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Saved search not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async show(req: Request, res: Response, next: NextFunction) {
+        try {
+            const savedSearch = await this.savedSearchService.getSavedSearch(req.params.id, req.user!.id);
+            res.json({ data: savedSearch, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /saved-searches/{id}/posts:
+     *   get:
+     *     summary: Get the posts of a saved search
+     *     description: Posts matching the saved filters, in the saved order (as GET /posts would return them)
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Saved search ID
+     *       - in: query
+     *         name: page
+     *         schema:
+     *           type: integer
+     *           default: 1
+     *       - in: query
+     *         name: pageSize
+     *         schema:
+     *           type: integer
+     *           default: 9
+     *     responses:
+     *       200:
+     *         description: Success
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     items:
+     *                       type: array
+     *                       items:
+     *                         $ref: '#/components/schemas/PostSummary'
+     *                     total:
+     *                       type: integer
+     *                     page:
+     *                       type: integer
+     *                     pageSize:
+     *                       type: integer
+     *                     totalPages:
+     *                       type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Saved search not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async posts(req: Request, res: Response, next: NextFunction) {
+        try {
+            const page = req.query.page ? parseInt(req.query.page as string) : 1;
+            const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : 9;
+
+            const [posts, total] = await this.savedSearchService.getSavedSearchPosts(
+                req.params.id,
+                req.user!.id,
+                pageSize,
+                (page - 1) * pageSize
+            );
+
+            res.json({
+                data: {
+                    items: posts,
+                    total,
+                    page,
+                    pageSize,
+                    totalPages: Math.ceil(total / pageSize)
+                },
+                status: 200
+            });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /saved-searches/{id}:
+     *   put:
+     *     summary: Update a saved search
+     *     description: Renames a saved search or replaces its filters
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Saved search ID
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               name:
+     *                 type: string
+     *                 maxLength: 100
+     *               filters:
+     *                 $ref: '#/components/schemas/SavedSearchFilters'
+     *     responses:
+     *       200:
+     *         description: Saved search updated successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SavedSearch'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Saved search, or a tag or category in the filters, not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Saved search with this name already exists
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: UpdateSavedSearchDto = req.body;
+            const savedSearch = await this.savedSearchService.updateSavedSearch(req.params.id, data, req.user!.id);
+
+            logger.info('Saved search updated:', { id: savedSearch.id, name: savedSearch.name });
+            res.json({ data: savedSearch, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /saved-searches/{id}:
+     *   delete:
+     *     summary: Delete a saved search
+     *     tags: [Saved Searches]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Saved search ID
+     *     responses:
+     *       204:
+     *         description: Saved search deleted successfully
+     *       404:
+     *         description: Saved search not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async destroy(req: Request, res: Response, next: NextFunction) {
+        try {
+            await this.savedSearchService.deleteSavedSearch(req.params.id, req.user!.id);
+
+            logger.info('Saved search deleted:', { id: req.params.id });
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,305 @@
+import { NextFunction, Request, Response } from 'express';
+import { SocialPostRevisionsService } from '../services/domain';
+
+const NOT_FOUND_MESSAGES = ['Social post not found', 'Revision not found'];
+
+export class SocialPostRevisionsController {
+    private revisionsService: SocialPostRevisionsService;
+
+    constructor() {
+        this.revisionsService = new SocialPostRevisionsService();
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/revisions:
+     *   get:
+     *     summary: List the revisions of a social post
+     *     description: Returns every saved version of a social post (AI create/edit, manual updates and reverts), newest first
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *     responses:
+     *       200:
+     *         description: List of revisions
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/SocialPostRevision'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Social post not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async index(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const revisions = await this.revisionsService.list(sessionId, postId, req.user!.id);
+            res.json({ data: revisions, status: 200 });
+        } catch (err) {
+            this.handleError(err, res, next);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/revisions/{version}:
+     *   get:
+     *     summary: Get a revision of a social post
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *       - in: path
+     *         name: version
+     *         required: true
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *         description: Revision version number
+     *     responses:
+     *       200:
+     *         description: The revision
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SocialPostRevision'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Social post or revision not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async show(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const revision = await this.revisionsService.findOne(sessionId, postId, req.user!.id, Number(req.params.version));
+            res.json({ data: revision, status: 200 });
+        } catch (err) {
+            this.handleError(err, res, next);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/revisions/{version}/diff:
+     *   get:
+     *     summary: Diff a revision against another one
+     *     description: |
+     *       Line diff of the post content between two versions. Compares against the previous
+     *       version unless `against` is given. Code examples and visual elements are reported as changed or not.
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *       - in: path
+     *         name: version
+     *         required: true
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *         description: Revision version number
+     *       - in: query
+     *         name: against
+     *         required: false
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *         description: Version to compare with (defaults to version - 1)
+     *     responses:
+     *       200:
+     *         description: Content diff between the two versions
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     from:
+     *                       type: object
+     *                       properties:
+     *                         version:
+     *                           type: integer
+     *                         created_at:
+     *                           type: string
+     *                           format: date-time
+     *                     to:
+     *                       type: object
+     *                       properties:
+     *                         version:
+     *                           type: integer
+     *                         created_at:
+     *                           type: string
+     *                           format: date-time
+     *                     content:
+     *                       type: array
+     *                       items:
+     *                         type: object
+     *                         properties:
+     *                           type:
+     *                             type: string
+     *                             enum: [added, removed, unchanged]
+     *                           value:
+     *                             type: string
+     *                     code_examples_changed:
+     *                       type: boolean
+     *                     visual_elements_changed:
+     *                       type: boolean
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Social post or revision not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async diff(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const against = req.query.against ? Number(req.query.against) : undefined;
+
+            const diff = await this.revisionsService.diff(sessionId, postId, req.user!.id, Number(req.params.version), against);
+            res.json({ data: diff, status: 200 });
+        } catch (err) {
+            this.handleError(err, res, next);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/revisions/{version}/revert:
+     *   post:
+     *     summary: Revert a social post to a revision
+     *     description: Restores the content of the given version. The restore is saved as a new revision, so it can be undone too.
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *       - in: path
+     *         name: version
+     *         required: true
+     *         schema:
+     *           type: integer
+     *           minimum: 1
+     *         description: Revision version number to restore
+     *     responses:
+     *       200:
+     *         description: Social post reverted successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SocialPost'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Social post or revision not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Social post is already publishing or published
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async revert(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const post = await this.revisionsService.revert(sessionId, postId, req.user!.id, Number(req.params.version));
+            res.json({ data: post, status: 200 });
+        } catch (err) {
+            this.handleError(err, res, next);
+        }
+    }
+
+    private handleError(err: unknown, res: Response, next: NextFunction) {
+        if (err instanceof Error && NOT_FOUND_MESSAGES.includes(err.message)) {
+            return res.status(404).json({ error: { code: '404', message: err.message } });
+        }
+        next(err);
+    }
+}
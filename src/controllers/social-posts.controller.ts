@@ -1,11 +1,14 @@
 import { NextFunction, Request, Response } from 'express';
-import { SocialPostsService } from '../services/domain';
+import { SocialPostStatus } from '../entities/social-post.entity';
+import { SocialPostPublishingService, SocialPostsService } from '../services/domain';
 
 export class SocialPostsController {
     private socialPostsService: SocialPostsService;
+    private publishingService: SocialPostPublishingService;
 
     constructor() {
         this.socialPostsService = new SocialPostsService();
+        this.publishingService = new SocialPostPublishingService();
     }
 
     /**
@@ -25,6 +28,13 @@ export class SocialPostsController {
      *           type: string
      *           format: uuid
      *         description: Chat session ID
+     *       - in: query
+     *         name: status
+     *         required: false
+     *         schema:
+     *           type: string
+     *           enum: [draft, scheduled, publishing, published, failed]
+     *         description: Only return posts with this publishing status
      *     responses:
      *       200:
      *         description: List of social posts
@@ -56,7 +66,8 @@ export class SocialPostsController {
     async index(req: Request, res: Response, next: NextFunction) {
         try {
             const sessionId = req.params.sessionId;
-            const posts = await this.socialPostsService.findByChatSession(sessionId, req.user!.id);
+            const status = req.query.status as SocialPostStatus | undefined;
+            const posts = await this.socialPostsService.findByChatSession(sessionId, req.user!.id, status);
             res.json({ data: posts, status: 200 });
         } catch (err) {
             next(err);
@@ -68,7 +79,14 @@ export class SocialPostsController {
      * /chat-sessions/{sessionId}/social-posts/{postId}:
      *   put:
      *     summary: Update a social post
-     *     description: Updates the content of an existing social post in a chat session
+     *     description: |
+     *       Updates the content of an existing social post in a chat session.
+     *       For thread platforms (Twitter) send `thread` to edit individual posts: posts over the
+     *       character limit are re-split automatically and `content` is rebuilt from the thread.
+     *       Posts that are publishing or published cannot be edited.
+     *       Sending only `content` keeps the existing split points: unchanged posts stay as they are and
+     *       the edited text becomes one post (split only if over the limit). Set `resplit` to split the
+     *       whole content again.
      *     tags: [Social Posts]
      *     security:
      *       - bearerAuth: []
@@ -93,12 +111,20 @@ export class SocialPostsController {
      *         application/json:
      *           schema:
      *             type: object
-     *             required:
-     *               - content
      *             properties:
      *               content:
      *                 type: string
-     *                 description: The updated social post content
+     *                 description: The updated social post content (required unless thread is sent)
+     *               thread:
+     *                 type: array
+     *                 items:
+     *                   type: string
+     *                 description: Ordered thread posts (thread platforms only)
+     *                 example: ["1/ TypeScript tips you should know 🧵", "2/ Prefer unknown over any..."]
+     *               resplit:
+     *                 type: boolean
+     *                 default: false
+     *                 description: Split `content` into a new thread instead of keeping the current posts (thread platforms only)
      *               image_urls:
      *                 type: array
      *                 items:
@@ -160,15 +186,23 @@ export class SocialPostsController {
      *           application/json:
      *             schema:
      *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Social post is already publishing or published
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
      */
     async update(req: Request, res: Response, next: NextFunction) {
         try {
             const sessionId = req.params.sessionId;
             const postId = req.params.postId;
-            const { content, image_urls, code_examples, visual_elements } = req.body;
+            const { content, thread, resplit, image_urls, code_examples, visual_elements } = req.body;
 
             const updatedPost = await this.socialPostsService.update(sessionId, postId, req.user!.id, {
                 content,
+                thread,
+                resplit,
                 image_urls,
                 code_examples,
                 visual_elements
@@ -230,4 +264,211 @@ export class SocialPostsController {
             next(err);
         }
     }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/schedule:
+     *   post:
+     *     summary: Schedule a social post
+     *     description: |
+     *       Queues the post for publishing at `scheduled_at`. The social publisher cron task publishes due posts
+     *       through the configured publisher (`SOCIAL_PUBLISHER`) and retries failures with backoff.
+     *       Rescheduling a scheduled or failed post resets its attempts.
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required: [scheduled_at]
+     *             properties:
+     *               scheduled_at:
+     *                 type: string
+     *                 format: date-time
+     *                 description: When to publish (must be in the future)
+     *                 example: '2025-06-01T09:00:00Z'
+     *     responses:
+     *       200:
+     *         description: Social post scheduled
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SocialPost'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       400:
+     *         description: Invalid or past scheduled_at
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Social post not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Social post is already publishing or published
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *   delete:
+     *     summary: Cancel a scheduled social post
+     *     description: Moves a scheduled or failed post back to draft
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *     responses:
+     *       200:
+     *         description: Schedule cancelled
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SocialPost'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Social post not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Social post is not scheduled
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async schedule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const post = await this.publishingService.schedule(sessionId, postId, req.user!.id, new Date(req.body.scheduled_at));
+            res.json({ data: post, status: 200 });
+        } catch (err) {
+            if (err instanceof Error && err.message === 'Social post not found') {
+                return res.status(404).json({ error: { code: '404', message: err.message } });
+            }
+            next(err);
+        }
+    }
+
+    async unschedule(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const post = await this.publishingService.unschedule(sessionId, postId, req.user!.id);
+            res.json({ data: post, status: 200 });
+        } catch (err) {
+            if (err instanceof Error && err.message === 'Social post not found') {
+                return res.status(404).json({ error: { code: '404', message: err.message } });
+            }
+            next(err);
+        }
+    }
+
+    /**
+     * @swagger
+     * /chat-sessions/{sessionId}/social-posts/{postId}/publish:
+     *   post:
+     *     summary: Publish a social post now
+     *     description: Queues the post for the next social publisher run (within a minute with the default schedule)
+     *     tags: [Social Posts]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: sessionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Chat session ID
+     *       - in: path
+     *         name: postId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Social post ID
+     *     responses:
+     *       202:
+     *         description: Social post queued for publishing
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/SocialPost'
+     *                 status:
+     *                   type: integer
+     *                   example: 202
+     *       404:
+     *         description: Social post not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Social post is already publishing or published
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async publish(req: Request, res: Response, next: NextFunction) {
+        try {
+            const { sessionId, postId } = req.params;
+            const post = await this.publishingService.publishNow(sessionId, postId, req.user!.id);
+            res.status(202).json({ data: post, status: 202 });
+        } catch (err) {
+            if (err instanceof Error && err.message === 'Social post not found') {
+                return res.status(404).json({ error: { code: '404', message: err.message } });
+            }
+            next(err);
+        }
+    }
 }
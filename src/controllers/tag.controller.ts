@@ -0,0 +1,207 @@
+import { NextFunction, Request, Response } from 'express';
+import { CreateTagDto, TagService, UpdateTagDto } from '../services/domain';
+import { logger } from '../utils/logger';
+
+export class TagController {
+    private tagService: TagService;
+
+    constructor() {
+        this.tagService = new TagService();
+    }
+
+    /**
+     * @swagger
+     * /tags:
+     *   post:
+     *     summary: Create a new tag
+     *     description: Creates a tag to label posts with (see PUT /posts/{id}/tags)
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             required:
+     *               - name
+     *             properties:
+     *               name:
+     *                 type: string
+     *                 example: "to-share"
+     *                 maxLength: 50
+     *     responses:
+     *       201:
+     *         description: Tag created successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Tag'
+     *                 status:
+     *                   type: integer
+     *                   example: 201
+     *       400:
+     *         description: Bad request
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Tag with this name already exists
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async create(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: CreateTagDto = req.body;
+            const tag = await this.tagService.createTag(data, req.user!.id);
+
+            logger.info('Tag created:', { id: tag.id, name: tag.name });
+            res.status(201).json({ data: tag, status: 201 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /tags:
+     *   get:
+     *     summary: Get all tags
+     *     description: Retrieves the user's tags ordered by name, with the number of posts carrying each
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     responses:
+     *       200:
+     *         description: List of tags
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: array
+     *                   items:
+     *                     $ref: '#/components/schemas/Tag'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     */
+    async index(req: Request, res: Response, next: NextFunction) {
+        try {
+            const tags = await this.tagService.getUserTags(req.user!.id);
+            res.json({ data: tags, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /tags/{id}:
+     *   put:
+     *     summary: Rename a tag
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Tag ID
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/json:
+     *           schema:
+     *             type: object
+     *             properties:
+     *               name:
+     *                 type: string
+     *                 maxLength: 50
+     *     responses:
+     *       200:
+     *         description: Tag updated successfully
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   $ref: '#/components/schemas/Tag'
+     *                 status:
+     *                   type: integer
+     *                   example: 200
+     *       404:
+     *         description: Tag not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       409:
+     *         description: Tag with this name already exists
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async update(req: Request, res: Response, next: NextFunction) {
+        try {
+            const data: UpdateTagDto = req.body;
+            const tag = await this.tagService.updateTag(req.params.id, data, req.user!.id);
+
+            logger.info('Tag updated:', { id: tag.id, name: tag.name });
+            res.json({ data: tag, status: 200 });
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /tags/{id}:
+     *   delete:
+     *     summary: Delete a tag
+     *     description: Deletes a tag. It is removed from its posts and from the filters of saved searches; saved searches that had no other filter are deleted.
+     *     tags: [Tags]
+     *     security:
+     *       - bearerAuth: []
+     *     parameters:
+     *       - in: path
+     *         name: id
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *         description: Tag ID
+     *     responses:
+     *       204:
+     *         description: Tag deleted successfully
+     *       404:
+     *         description: Tag not found
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async destroy(req: Request, res: Response, next: NextFunction) {
+        try {
+            await this.tagService.deleteTag(req.params.id, req.user!.id);
+
+            logger.info('Tag deleted:', { id: req.params.id });
+            res.status(204).send();
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -22,7 +22,7 @@ export class ChatController {
         const sessionId = socket.data.sessionId!
         const { userId } = socket.data
 
-        this.handleActiveStream(sessionId, socket)
+        const abortController = this.handleActiveStream(sessionId, socket)
 
         try {
             // Delegate to the new ChatGraphService (StateGraph implementation)
@@ -31,7 +31,9 @@ export class ChatController {
                 socket,
                 sessionId,
                 userId,
-                emit
+                focusHighlights: data.focusHighlights === true,
+                emit,
+                signal: abortController.signal
             });
         } catch (error) {
             logger.error(`Error in chat workflow for session ${sessionId}:`, error);
@@ -40,11 +42,18 @@ export class ChatController {
                 error: 'Failed to process message',
                 details: error instanceof Error ? error.message : 'Unknown error'
             });
+        } finally {
+            // Only release the slot if a newer message has not replaced this stream
+            if (socket.data.activeStreams?.get(sessionId) === abortController) {
+                socket.data.activeStreams.delete(sessionId);
+            }
         }
     }
 
     /**
      * Handle stream interruption
+     * The running graph emits the definitive `chat:stream:interrupted` (with partial output)
+     * once it has stopped; this handler only answers directly when nothing is running.
      */
     async handleInterrupt(
         data: StreamInterruptData,
@@ -55,18 +64,18 @@ export class ChatController {
         const sessionId = socket.data.sessionId!;
 
         try {
-            // Cancel the AI workflow first and get feedback
             const abortController = socket.data.activeStreams?.get(sessionId);
-            abortController?.abort(reason)
-            const wasCancelled = abortController?.signal.aborted;
 
-            // Notify client with detailed feedback
-            const message = wasCancelled ? 'Stream interrupted successfully' : 'No active stream to interrupt';
-            logger.warn(`${message} ${sessionId}`);
+            if (abortController && !abortController.signal.aborted) {
+                logger.warn(`Interrupting stream ${sessionId}`);
+                abortController.abort(reason || 'user request');
+                return;
+            }
 
+            logger.warn(`No active stream to interrupt ${sessionId}`);
             emit('chat:stream:interrupted', {
                 sessionId,
-                message,
+                message: 'No active stream to interrupt',
                 reason: reason || 'user request'
             });
         } catch (error) {
@@ -89,6 +98,8 @@ export class ChatController {
     ): Promise<void> {
         try {
             if (socket.data.activeStreams) {
+                // Stop any graph still running for this socket before forgetting it
+                socket.data.activeStreams.forEach(controller => controller.abort('client disconnected'));
                 socket.data.activeStreams.clear();
             }
 
@@ -98,15 +109,17 @@ export class ChatController {
         }
     }
 
-    private handleActiveStream(sessionId: string, socket: AuthenticatedSocket): void {
+    private handleActiveStream(sessionId: string, socket: AuthenticatedSocket): AbortController {
         // Prepare the context and save it in the memory
         if (socket.data.activeStreams?.has(sessionId)) {
             const activeStreams = socket.data.activeStreams.get(sessionId);
-            activeStreams?.abort();
+            activeStreams?.abort('superseded by a new message');
             socket.data.activeStreams.delete(sessionId);
         }
 
         const abortController = new AbortController();
         socket.data.activeStreams?.set(sessionId, abortController);
+
+        return abortController;
     }
 }
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { NextFunction, Request, Response } from 'express';
+import { FeedsService, WebSubService } from '../services/domain';
+
+/**
+ * Callback endpoints called by WebSub hubs. Public: hubs authenticate with the
+ * unguessable subscription ID in the URL and the HMAC signature of each notification.
+ */
+export class WebSubController {
+    private feedsService: FeedsService;
+    private webSubService: WebSubService;
+
+    constructor() {
+        this.feedsService = new FeedsService();
+        this.webSubService = new WebSubService();
+    }
+
+    /**
+     * @swagger
+     * /websub/callback/{subscriptionId}:
+     *   get:
+     *     summary: WebSub intent verification
+     *     description: |
+     *       Called by the hub to confirm a subscribe or unsubscribe request (or to report that it was denied).
+     *       Echoes `hub.challenge` when the request matches a pending subscription.
+     *     tags: [WebSub]
+     *     parameters:
+     *       - in: path
+     *         name: subscriptionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *       - in: query
+     *         name: hub.mode
+     *         required: true
+     *         schema:
+     *           type: string
+     *           enum: [subscribe, unsubscribe, denied]
+     *       - in: query
+     *         name: hub.topic
+     *         required: true
+     *         schema:
+     *           type: string
+     *       - in: query
+     *         name: hub.challenge
+     *         schema:
+     *           type: string
+     *       - in: query
+     *         name: hub.lease_seconds
+     *         schema:
+     *           type: integer
+     *       - in: query
+     *         name: hub.reason
+     *         schema:
+     *           type: string
+     *     responses:
+     *       200:
+     *         description: The challenge, as plain text
+     *         content:
+     *           text/plain:
+     *             schema:
+     *               type: string
+     *       404:
+     *         description: Unknown subscription or topic, or no matching request pending
+     */
+    async verify(req: Request, res: Response, next: NextFunction) {
+        try {
+            const leaseSeconds = parseInt(String(req.query['hub.lease_seconds'] ?? ''));
+            const challenge = await this.webSubService.verifyIntent(req.params.subscriptionId, {
+                mode: String(req.query['hub.mode'] ?? ''),
+                topic: String(req.query['hub.topic'] ?? ''),
+                challenge: req.query['hub.challenge'] !== undefined ? String(req.query['hub.challenge']) : undefined,
+                leaseSeconds: isNaN(leaseSeconds) ? undefined : leaseSeconds,
+                reason: req.query['hub.reason'] !== undefined ? String(req.query['hub.reason']) : undefined
+            });
+
+            if (challenge === null) {
+                return res.status(404).json({ error: { code: '404', message: 'Unknown subscription or topic' } });
+            }
+
+            res.status(200).type('text/plain').send(challenge);
+        } catch (error) {
+            next(error);
+        }
+    }
+
+    /**
+     * @swagger
+     * /websub/callback/{subscriptionId}:
+     *   post:
+     *     summary: WebSub content notification
+     *     description: |
+     *       Called by the hub with the updated feed (RSS, Atom or JSON Feed) as the raw body, signed with
+     *       `X-Hub-Signature: sha256=<hex>`. New entries are stored as posts. Notifications with an invalid
+     *       signature are acknowledged but ignored.
+     *     tags: [WebSub]
+     *     parameters:
+     *       - in: path
+     *         name: subscriptionId
+     *         required: true
+     *         schema:
+     *           type: string
+     *           format: uuid
+     *       - in: header
+     *         name: X-Hub-Signature
+     *         required: true
+     *         schema:
+     *           type: string
+     *     requestBody:
+     *       required: true
+     *       content:
+     *         application/atom+xml:
+     *           schema:
+     *             type: string
+     *         application/rss+xml:
+     *           schema:
+     *             type: string
+     *         application/feed+json:
+     *           schema:
+     *             type: string
+     *     responses:
+     *       202:
+     *         description: Notification received
+     *         content:
+     *           application/json:
+     *             schema:
+     *               type: object
+     *               properties:
+     *                 data:
+     *                   type: object
+     *                   properties:
+     *                     inserted:
+     *                       type: integer
+     *                 status:
+     *                   type: integer
+     *                   example: 202
+     *       400:
+     *         description: The body is not a valid feed
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     *       404:
+     *         description: Unknown subscription
+     *         content:
+     *           application/json:
+     *             schema:
+     *               $ref: '#/components/schemas/Error'
+     */
+    async notify(req: Request, res: Response, next: NextFunction) {
+        try {
+            const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+            const inserted = await this.feedsService.ingestPushedContent(
+                req.params.subscriptionId,
+                body,
+                req.get('X-Hub-Signature')
+            );
+
+            res.status(202).json({ data: { inserted }, status: 202 });
+        } catch (error) {
+            next(error);
+        }
+    }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddThreadToSocialPosts1921000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Add thread column - JSONB ordered array of { text, length } posts (Twitter threads)
+        await queryRunner.addColumn("social_posts", new TableColumn({
+            name: "thread",
+            type: "jsonb",
+            isNullable: true
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("social_posts", "thread");
+    }
+
+}
@@ -0,0 +1,111 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreateSocialPostRevisions1922000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "social_post_revisions",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "social_post_id",
+                        type: "uuid",
+                        isNullable: false,
+                    },
+                    {
+                        name: "user_id",
+                        type: "varchar",
+                        isNullable: false,
+                    },
+                    {
+                        name: "version",
+                        type: "integer",
+                        isNullable: false,
+                    },
+                    {
+                        name: "action",
+                        type: "varchar",
+                        length: "20",
+                        isNullable: false,
+                    },
+                    {
+                        name: "content",
+                        type: "text",
+                        isNullable: false,
+                    },
+                    {
+                        name: "thread",
+                        type: "jsonb",
+                        isNullable: true,
+                    },
+                    {
+                        name: "code_examples",
+                        type: "jsonb",
+                        isNullable: true,
+                    },
+                    {
+                        name: "visual_elements",
+                        type: "jsonb",
+                        isNullable: true,
+                    },
+                    {
+                        name: "user_message",
+                        type: "text",
+                        isNullable: true,
+                    },
+                    {
+                        name: "reverted_from_version",
+                        type: "integer",
+                        isNullable: true,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "social_post_revisions",
+            new TableForeignKey({
+                columnNames: ["social_post_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "social_posts",
+                onDelete: "CASCADE",
+            })
+        );
+
+        // One row per version of a post; also serves listing a post's history
+        await queryRunner.createIndex(
+            "social_post_revisions",
+            new TableIndex({
+                name: "UQ_SOCIAL_POST_REVISIONS_POST_VERSION",
+                columnNames: ["social_post_id", "version"],
+                isUnique: true,
+            })
+        );
+
+        // Existing posts start their history with their current content as version 1
+        await queryRunner.query(`
+            INSERT INTO social_post_revisions
+                (social_post_id, user_id, version, action, content, thread, code_examples, visual_elements, created_at)
+            SELECT id, user_id, 1, 'create', content, thread, code_examples, visual_elements, created_at
+            FROM social_posts
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("social_post_revisions");
+    }
+
+}
@@ -0,0 +1,76 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+
+export class AddPublishingStatusToSocialPosts1923000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Publishing lifecycle: draft -> scheduled -> publishing -> published | failed
+        await queryRunner.addColumns("social_posts", [
+            new TableColumn({
+                name: "status",
+                type: "varchar",
+                length: "20",
+                default: "'draft'"
+            }),
+            new TableColumn({
+                name: "scheduled_at",
+                type: "timestamp with time zone",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "publish_attempts",
+                type: "integer",
+                default: 0
+            }),
+            new TableColumn({
+                name: "next_attempt_at",
+                type: "timestamp with time zone",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "publishing_started_at",
+                type: "timestamp with time zone",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "last_publish_error",
+                type: "text",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "external_id",
+                type: "varchar",
+                length: "255",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "external_url",
+                type: "text",
+                isNullable: true
+            })
+        ]);
+
+        // Posts published before scheduling existed
+        await queryRunner.query(`UPDATE "social_posts" SET "status" = 'published' WHERE "published_at" IS NOT NULL`);
+
+        // The publisher task polls scheduled posts by due time
+        await queryRunner.createIndex("social_posts", new TableIndex({
+            name: "IDX_SOCIAL_POSTS_STATUS_NEXT_ATTEMPT",
+            columnNames: ["status", "next_attempt_at"]
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("social_posts", "IDX_SOCIAL_POSTS_STATUS_NEXT_ATTEMPT");
+        await queryRunner.dropColumns("social_posts", [
+            "status",
+            "scheduled_at",
+            "publish_attempts",
+            "next_attempt_at",
+            "publishing_started_at",
+            "last_publish_error",
+            "external_id",
+            "external_url"
+        ]);
+    }
+
+}
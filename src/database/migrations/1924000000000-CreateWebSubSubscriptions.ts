@@ -0,0 +1,119 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreateWebSubSubscriptions1924000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "websub_subscriptions",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "feed_id",
+                        type: "uuid",
+                        isNullable: false,
+                        isUnique: true,
+                    },
+                    {
+                        name: "hub_url",
+                        type: "varchar",
+                        length: "2000",
+                        isNullable: false,
+                    },
+                    {
+                        name: "topic_url",
+                        type: "varchar",
+                        length: "2000",
+                        isNullable: false,
+                    },
+                    {
+                        name: "secret",
+                        type: "varchar",
+                        length: "64",
+                        isNullable: false,
+                    },
+                    {
+                        name: "status",
+                        type: "varchar",
+                        length: "20",
+                        default: "'pending'",
+                    },
+                    {
+                        name: "lease_seconds",
+                        type: "integer",
+                        isNullable: true,
+                    },
+                    {
+                        name: "lease_expires_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "requested_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "verified_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "last_notification_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "last_error",
+                        type: "text",
+                        isNullable: true,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "websub_subscriptions",
+            new TableForeignKey({
+                columnNames: ["feed_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "feeds",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "websub_subscriptions",
+            new TableIndex({
+                name: "idx_websub_subscriptions_status",
+                columnNames: ["status"],
+            })
+        );
+
+        // Lease renewal scans subscriptions by expiry
+        await queryRunner.createIndex(
+            "websub_subscriptions",
+            new TableIndex({
+                name: "idx_websub_subscriptions_lease_expires",
+                columnNames: ["lease_expires_at"],
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("websub_subscriptions");
+    }
+
+}
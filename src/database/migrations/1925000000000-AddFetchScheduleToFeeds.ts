@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+
+export class AddFetchScheduleToFeeds1925000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumns("feeds", [
+            new TableColumn({
+                name: "next_fetch_at",
+                type: "timestamp with time zone",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "fetch_interval_minutes",
+                type: "integer",
+                isNullable: true
+            }),
+            // Admin overrides of the global interval bounds
+            new TableColumn({
+                name: "min_fetch_interval_minutes",
+                type: "integer",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "max_fetch_interval_minutes",
+                type: "integer",
+                isNullable: true
+            })
+        ]);
+
+        // The fetcher only picks feeds that are due
+        await queryRunner.createIndex(
+            "feeds",
+            new TableIndex({
+                name: "idx_feeds_next_fetch",
+                columnNames: ["next_fetch_at"],
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("feeds", "idx_feeds_next_fetch");
+        await queryRunner.dropColumns("feeds", [
+            "next_fetch_at",
+            "fetch_interval_minutes",
+            "min_fetch_interval_minutes",
+            "max_fetch_interval_minutes"
+        ]);
+    }
+
+}
@@ -0,0 +1,129 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+
+export class CreateJobsTable1926000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "jobs",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "type",
+                        type: "varchar",
+                        length: "50",
+                        isNullable: false,
+                    },
+                    {
+                        name: "payload",
+                        type: "jsonb",
+                        default: "'{}'",
+                    },
+                    {
+                        name: "status",
+                        type: "varchar",
+                        length: "20",
+                        default: "'queued'",
+                    },
+                    {
+                        name: "priority",
+                        type: "integer",
+                        default: 0,
+                    },
+                    {
+                        name: "attempts",
+                        type: "integer",
+                        default: 0,
+                    },
+                    {
+                        name: "max_attempts",
+                        type: "integer",
+                        default: 5,
+                    },
+                    {
+                        name: "run_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                    {
+                        name: "locked_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "locked_by",
+                        type: "varchar",
+                        length: "100",
+                        isNullable: true,
+                    },
+                    {
+                        name: "finished_at",
+                        type: "timestamp with time zone",
+                        isNullable: true,
+                    },
+                    {
+                        name: "last_error",
+                        type: "text",
+                        isNullable: true,
+                    },
+                    {
+                        name: "result",
+                        type: "jsonb",
+                        isNullable: true,
+                    },
+                    {
+                        name: "dedupe_key",
+                        type: "varchar",
+                        length: "255",
+                        isNullable: true,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        // Claim query: due queued jobs
+        await queryRunner.createIndex(
+            "jobs",
+            new TableIndex({
+                name: "idx_jobs_claim",
+                columnNames: ["status", "run_at"],
+            })
+        );
+
+        await queryRunner.createIndex(
+            "jobs",
+            new TableIndex({
+                name: "idx_jobs_type",
+                columnNames: ["type"],
+            })
+        );
+
+        // Enqueue is a no-op while a job with the same key is pending
+        await queryRunner.createIndex(
+            "jobs",
+            new TableIndex({
+                name: "UQ_JOBS_PENDING_DEDUPE_KEY",
+                columnNames: ["dedupe_key"],
+                isUnique: true,
+                where: `"status" IN ('queued', 'running')`,
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("jobs");
+    }
+
+}
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableForeignKey, TableIndex } from "typeorm";
+import { canonicalizeUrl } from "../../utils/canonical-url.util";
+
+const BACKFILL_BATCH_SIZE = 1000;
+
+export class AddDeduplicationToPosts1927000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumns("posts", [
+            new TableColumn({
+                name: "canonical_url",
+                type: "varchar",
+                length: "2000",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "content_fingerprint",
+                type: "varchar",
+                length: "16",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "duplicate_of_id",
+                type: "uuid",
+                isNullable: true
+            })
+        ]);
+
+        await queryRunner.createForeignKey(
+            "posts",
+            new TableForeignKey({
+                name: "FK_POSTS_DUPLICATE_OF",
+                columnNames: ["duplicate_of_id"],
+                referencedTableName: "posts",
+                referencedColumnNames: ["id"],
+                onDelete: "SET NULL"
+            })
+        );
+
+        await queryRunner.createIndices("posts", [
+            new TableIndex({
+                name: "idx_posts_canonical_url",
+                columnNames: ["canonical_url"],
+            }),
+            new TableIndex({
+                name: "idx_posts_duplicate_of",
+                columnNames: ["duplicate_of_id"],
+            }),
+            // Fingerprint candidates are looked up around the publication date
+            new TableIndex({
+                name: "idx_posts_published_date",
+                columnNames: ["published_date"],
+            })
+        ]);
+
+        // Canonical URLs of existing posts; they are not grouped retroactively
+        let lastSequenceId = 0;
+        while (true) {
+            const rows: Array<{ id: string; sequence_id: number; external_link: string }> = await queryRunner.query(
+                `SELECT "id", "sequence_id", "external_link" FROM "posts" WHERE "sequence_id" > $1 ORDER BY "sequence_id" LIMIT $2`,
+                [lastSequenceId, BACKFILL_BATCH_SIZE]
+            );
+            if (rows.length === 0) break;
+
+            for (const row of rows) {
+                const canonicalUrl = canonicalizeUrl(row.external_link);
+                if (canonicalUrl) {
+                    await queryRunner.query(`UPDATE "posts" SET "canonical_url" = $1 WHERE "id" = $2`, [canonicalUrl, row.id]);
+                }
+            }
+            lastSequenceId = rows[rows.length - 1].sequence_id;
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("posts", "idx_posts_published_date");
+        await queryRunner.dropIndex("posts", "idx_posts_duplicate_of");
+        await queryRunner.dropIndex("posts", "idx_posts_canonical_url");
+        await queryRunner.dropForeignKey("posts", "FK_POSTS_DUPLICATE_OF");
+        await queryRunner.dropColumns("posts", [
+            "canonical_url",
+            "content_fingerprint",
+            "duplicate_of_id"
+        ]);
+    }
+
+}
@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreateFeedUrlHistory1928000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "feed_url_history",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "feed_id",
+                        type: "uuid",
+                        isNullable: false,
+                    },
+                    {
+                        name: "old_url",
+                        type: "varchar",
+                        length: "2000",
+                        isNullable: false,
+                    },
+                    {
+                        name: "new_url",
+                        type: "varchar",
+                        length: "2000",
+                        isNullable: false,
+                    },
+                    {
+                        name: "reason",
+                        type: "varchar",
+                        length: "20",
+                        isNullable: false,
+                    },
+                    {
+                        name: "status_code",
+                        type: "integer",
+                        isNullable: true,
+                    },
+                    {
+                        name: "merged",
+                        type: "boolean",
+                        default: false,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "feed_url_history",
+            new TableForeignKey({
+                columnNames: ["feed_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "feeds",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "feed_url_history",
+            new TableIndex({
+                name: "idx_feed_url_history_feed",
+                columnNames: ["feed_id"],
+            })
+        );
+
+        // Subscriptions look up old URLs
+        await queryRunner.createIndex(
+            "feed_url_history",
+            new TableIndex({
+                name: "idx_feed_url_history_old_url",
+                columnNames: ["old_url"],
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("feed_url_history");
+    }
+
+}
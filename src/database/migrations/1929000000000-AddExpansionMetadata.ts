@@ -0,0 +1,64 @@
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+
+export class AddExpansionMetadata1929000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumn("feeds", new TableColumn({
+            name: "always_expand",
+            type: "boolean",
+            default: false
+        }));
+
+        await queryRunner.addColumns("post_expanded", [
+            new TableColumn({
+                name: "content_source",
+                type: "varchar",
+                length: "20",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "expanded_by",
+                type: "varchar",
+                length: "20",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "word_count",
+                type: "integer",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "quality_score",
+                type: "real",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "content_check_confidence",
+                type: "real",
+                isNullable: true
+            })
+        ]);
+
+        // The expansion pipeline checks for existing content before every expansion
+        await queryRunner.createIndex(
+            "post_expanded",
+            new TableIndex({
+                name: "idx_post_expanded_post",
+                columnNames: ["post_id"],
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("post_expanded", "idx_post_expanded_post");
+        await queryRunner.dropColumns("post_expanded", [
+            "content_source",
+            "expanded_by",
+            "word_count",
+            "quality_score",
+            "content_check_confidence"
+        ]);
+        await queryRunner.dropColumn("feeds", "always_expand");
+    }
+
+}
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+const BACKFILL_BATCH_SIZE = 1000;
+
+export class AddFullTextSearch1930000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Posts: title (A), feed content (B) and expanded content (C). Expanded content lives in
+        // another table, so the vector is kept up to date by triggers instead of a generated column.
+        await queryRunner.query(`ALTER TABLE "posts" ADD "search_vector" tsvector`);
+
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION posts_search_vector_update() RETURNS trigger AS $$
+            BEGIN
+                NEW.search_vector :=
+                    setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+                    setweight(to_tsvector('english', left(coalesce(NEW.content, ''), 100000)), 'B') ||
+                    setweight(to_tsvector('english', left(coalesce(
+                        (SELECT string_agg(pe.content, ' ') FROM post_expanded pe WHERE pe.post_id = NEW.id), ''
+                    ), 100000)), 'C');
+                RETURN NEW;
+            END
+            $$ LANGUAGE plpgsql
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER trg_posts_search_vector
+            BEFORE INSERT OR UPDATE OF title, content ON posts
+            FOR EACH ROW EXECUTE FUNCTION posts_search_vector_update()
+        `);
+
+        // Re-index the post when its expanded content changes (touching the title fires the trigger above)
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION post_expanded_search_vector_refresh() RETURNS trigger AS $$
+            BEGIN
+                UPDATE posts SET title = title WHERE id = COALESCE(NEW.post_id, OLD.post_id);
+                RETURN NULL;
+            END
+            $$ LANGUAGE plpgsql
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER trg_post_expanded_search_vector
+            AFTER INSERT OR DELETE OR UPDATE OF content ON post_expanded
+            FOR EACH ROW EXECUTE FUNCTION post_expanded_search_vector_refresh()
+        `);
+
+        await queryRunner.query(`CREATE INDEX "idx_posts_search_vector" ON "posts" USING GIN ("search_vector")`);
+
+        // Feeds: name (A) and URL (B)
+        await queryRunner.query(`
+            ALTER TABLE "feeds" ADD "search_vector" tsvector GENERATED ALWAYS AS (
+                setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+                setweight(to_tsvector('simple', coalesce("url", '')), 'B')
+            ) STORED
+        `);
+        await queryRunner.query(`CREATE INDEX "idx_feeds_search_vector" ON "feeds" USING GIN ("search_vector")`);
+
+        // Index existing posts
+        const [{ max }]: Array<{ max: number | null }> = await queryRunner.query(`SELECT MAX("sequence_id") AS "max" FROM "posts"`);
+        for (let from = 0; from < (max || 0); from += BACKFILL_BATCH_SIZE) {
+            await queryRunner.query(
+                `UPDATE "posts" SET "title" = "title" WHERE "sequence_id" > $1 AND "sequence_id" <= $2`,
+                [from, from + BACKFILL_BATCH_SIZE]
+            );
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "idx_feeds_search_vector"`);
+        await queryRunner.query(`ALTER TABLE "feeds" DROP COLUMN "search_vector"`);
+        await queryRunner.query(`DROP TRIGGER trg_post_expanded_search_vector ON post_expanded`);
+        await queryRunner.query(`DROP FUNCTION post_expanded_search_vector_refresh()`);
+        await queryRunner.query(`DROP TRIGGER trg_posts_search_vector ON posts`);
+        await queryRunner.query(`DROP FUNCTION posts_search_vector_update()`);
+        await queryRunner.query(`DROP INDEX "idx_posts_search_vector"`);
+        await queryRunner.query(`ALTER TABLE "posts" DROP COLUMN "search_vector"`);
+    }
+
+}
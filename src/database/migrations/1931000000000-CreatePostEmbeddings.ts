@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreatePostEmbeddings1931000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // pgvector; installing it may need superuser rights
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS "vector"`);
+
+        await queryRunner.query(`
+            CREATE TABLE "post_embeddings" (
+                "id" uuid NOT NULL DEFAULT gen_random_uuid(),
+                "post_id" uuid NOT NULL,
+                "embedding" vector(384) NOT NULL,
+                "model" varchar(100) NOT NULL,
+                "content_hash" varchar(64) NOT NULL,
+                "created_at" timestamp with time zone NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                "updated_at" timestamp with time zone NOT NULL DEFAULT CURRENT_TIMESTAMP,
+                CONSTRAINT "PK_post_embeddings" PRIMARY KEY ("id"),
+                CONSTRAINT "UQ_post_embeddings_post" UNIQUE ("post_id")
+            )
+        `);
+
+        await queryRunner.createForeignKey(
+            "post_embeddings",
+            new TableForeignKey({
+                columnNames: ["post_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "posts",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "post_embeddings",
+            new TableIndex({
+                name: "idx_post_embeddings_model",
+                columnNames: ["model"],
+            })
+        );
+
+        // Nearest neighbours by cosine distance
+        await queryRunner.query(
+            `CREATE INDEX "idx_post_embeddings_embedding" ON "post_embeddings" USING hnsw ("embedding" vector_cosine_ops)`
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("post_embeddings");
+    }
+
+}
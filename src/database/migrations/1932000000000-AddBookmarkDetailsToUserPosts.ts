@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddBookmarkDetailsToUserPosts1932000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.addColumns("user_posts", [
+            new TableColumn({
+                name: "bookmarked_at",
+                type: "timestamp with time zone",
+                isNullable: true
+            }),
+            new TableColumn({
+                name: "bookmark_note",
+                type: "text",
+                isNullable: true
+            })
+        ]);
+
+        // Existing bookmarks: the entry's creation is the best known bookmark time
+        await queryRunner.query(`UPDATE user_posts SET bookmarked_at = created_at WHERE bookmarked = true`);
+
+        // Bookmarks are listed by bookmark time
+        await queryRunner.query(`DROP INDEX IF EXISTS idx_user_posts_bookmarked`);
+        await queryRunner.query(`
+            CREATE INDEX idx_user_posts_bookmarked
+            ON user_posts (user_id, bookmarked_at DESC)
+            WHERE bookmarked = true
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS idx_user_posts_bookmarked`);
+        await queryRunner.query(`
+            CREATE INDEX idx_user_posts_bookmarked
+            ON user_posts (user_id, post_id)
+            WHERE bookmarked = true
+        `);
+        await queryRunner.dropColumns("user_posts", ["bookmarked_at", "bookmark_note"]);
+    }
+
+}
@@ -0,0 +1,210 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreateTagsAndSavedSearches1933000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "tags",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "user_id",
+                        type: "varchar",
+                        isNullable: false,
+                    },
+                    {
+                        name: "name",
+                        type: "varchar",
+                        length: "50",
+                        isNullable: false,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "tags",
+            new TableForeignKey({
+                columnNames: ["user_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "user",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "tags",
+            new TableIndex({
+                name: "idx_tags_user",
+                columnNames: ["user_id"],
+            })
+        );
+
+        await queryRunner.createIndex(
+            "tags",
+            new TableIndex({
+                name: "uq_tags_user_name",
+                columnNames: ["user_id", "name"],
+                isUnique: true,
+            })
+        );
+
+        await queryRunner.createTable(
+            new Table({
+                name: "post_tags",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "tag_id",
+                        type: "uuid",
+                        isNullable: false,
+                    },
+                    {
+                        name: "post_id",
+                        type: "uuid",
+                        isNullable: false,
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "post_tags",
+            new TableForeignKey({
+                columnNames: ["tag_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "tags",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createForeignKey(
+            "post_tags",
+            new TableForeignKey({
+                columnNames: ["post_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "posts",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "post_tags",
+            new TableIndex({
+                name: "uq_post_tags_tag_post",
+                columnNames: ["tag_id", "post_id"],
+                isUnique: true,
+            })
+        );
+
+        // Tag filters and tag lists look up the tags of posts
+        await queryRunner.createIndex(
+            "post_tags",
+            new TableIndex({
+                name: "idx_post_tags_post",
+                columnNames: ["post_id"],
+            })
+        );
+
+        await queryRunner.createTable(
+            new Table({
+                name: "saved_searches",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "user_id",
+                        type: "varchar",
+                        isNullable: false,
+                    },
+                    {
+                        name: "name",
+                        type: "varchar",
+                        length: "100",
+                        isNullable: false,
+                    },
+                    {
+                        name: "filters",
+                        type: "jsonb",
+                        default: "'{}'",
+                    },
+                    {
+                        name: "updated_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "saved_searches",
+            new TableForeignKey({
+                columnNames: ["user_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "user",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createIndex(
+            "saved_searches",
+            new TableIndex({
+                name: "idx_saved_searches_user",
+                columnNames: ["user_id"],
+            })
+        );
+
+        await queryRunner.createIndex(
+            "saved_searches",
+            new TableIndex({
+                name: "uq_saved_searches_user_name",
+                columnNames: ["user_id", "name"],
+                isUnique: true,
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("saved_searches");
+        await queryRunner.dropTable("post_tags");
+        await queryRunner.dropTable("tags");
+    }
+
+}
@@ -0,0 +1,120 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex } from "typeorm";
+
+export class CreateHighlights1934000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.createTable(
+            new Table({
+                name: "highlights",
+                columns: [
+                    {
+                        name: "id",
+                        type: "uuid",
+                        isPrimary: true,
+                        generationStrategy: "uuid",
+                        default: "gen_random_uuid()",
+                    },
+                    {
+                        name: "user_id",
+                        type: "varchar",
+                        isNullable: false,
+                    },
+                    {
+                        name: "post_id",
+                        type: "uuid",
+                        isNullable: false,
+                    },
+                    {
+                        name: "quote_exact",
+                        type: "text",
+                        isNullable: false,
+                    },
+                    {
+                        name: "quote_prefix",
+                        type: "text",
+                        default: "''",
+                    },
+                    {
+                        name: "quote_suffix",
+                        type: "text",
+                        default: "''",
+                    },
+                    {
+                        name: "position_start",
+                        type: "integer",
+                        isNullable: false,
+                    },
+                    {
+                        name: "position_end",
+                        type: "integer",
+                        isNullable: false,
+                    },
+                    {
+                        name: "note",
+                        type: "text",
+                        isNullable: true,
+                    },
+                    {
+                        name: "color",
+                        type: "varchar",
+                        length: "20",
+                        default: "'yellow'",
+                    },
+                    {
+                        name: "updated_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                    {
+                        name: "created_at",
+                        type: "timestamp with time zone",
+                        default: "CURRENT_TIMESTAMP",
+                    },
+                ],
+            }),
+            true
+        );
+
+        await queryRunner.createForeignKey(
+            "highlights",
+            new TableForeignKey({
+                columnNames: ["user_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "user",
+                onDelete: "CASCADE",
+            })
+        );
+
+        await queryRunner.createForeignKey(
+            "highlights",
+            new TableForeignKey({
+                columnNames: ["post_id"],
+                referencedColumnNames: ["id"],
+                referencedTableName: "posts",
+                onDelete: "CASCADE",
+            })
+        );
+
+        // Highlights are listed per user and post
+        await queryRunner.createIndex(
+            "highlights",
+            new TableIndex({
+                name: "idx_highlights_user_post",
+                columnNames: ["user_id", "post_id"],
+            })
+        );
+
+        await queryRunner.createIndex(
+            "highlights",
+            new TableIndex({
+                name: "idx_highlights_post",
+                columnNames: ["post_id"],
+            })
+        );
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("highlights");
+    }
+
+}
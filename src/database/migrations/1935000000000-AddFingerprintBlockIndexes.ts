@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+// Fingerprints are 16 hex characters, compared on 4 blocks of 4
+const BLOCKS = [1, 5, 9, 13];
+
+export class AddFingerprintBlockIndexes1935000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Duplicate candidates share at least one fingerprint block with the new post
+        for (const [index, start] of BLOCKS.entries()) {
+            await queryRunner.query(`
+                CREATE INDEX IF NOT EXISTS idx_posts_fingerprint_block_${index}
+                ON posts (substr(content_fingerprint, ${start}, 4))
+                WHERE content_fingerprint IS NOT NULL
+            `);
+        }
+
+        // Undated posts are looked up by the date they were added
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS idx_posts_undated_created_at
+            ON posts (created_at)
+            WHERE published_date IS NULL
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS idx_posts_undated_created_at`);
+        for (const index of BLOCKS.keys()) {
+            await queryRunner.query(`DROP INDEX IF EXISTS idx_posts_fingerprint_block_${index}`);
+        }
+    }
+
+}
@@ -0,0 +1,19 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+export class AddVerifiedSelfUrlToFeeds1936000000000 implements MigrationInterface {
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Self link a feed was moved to after verification, so it is not verified again
+        await queryRunner.addColumn("feeds", new TableColumn({
+            name: "verified_self_url",
+            type: "varchar",
+            length: "2000",
+            isNullable: true
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("feeds", "verified_self_url");
+    }
+
+}
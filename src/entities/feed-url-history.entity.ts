@@ -0,0 +1,52 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from "typeorm";
+import { IsIn, IsInt, IsOptional, IsUrl, MaxLength } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+export const FEED_URL_CHANGE_REASONS = ['redirect', 'self_link'] as const;
+export type FeedUrlChangeReason = typeof FEED_URL_CHANGE_REASONS[number];
+
+/**
+ * Former URL of a feed that moved permanently (301/308 redirect or a verified self link).
+ * Subscribing to an old URL resolves to the feed it moved to. When a moved feed is merged
+ * into an existing feed, its history goes with it.
+ */
+@Entity("feed_url_history")
+export class FeedUrlHistory extends BaseEntity {
+    @Column({ type: "uuid" })
+    @Index("idx_feed_url_history_feed")
+    feed_id!: string;
+
+    @ManyToOne("Feed", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "feed_id" })
+    feed!: any;
+
+    @Column({ type: "varchar", length: 2000 })
+    @Index("idx_feed_url_history_old_url")
+    @IsUrl()
+    @MaxLength(2000)
+    old_url: string = "";
+
+    @Column({ type: "varchar", length: 2000 })
+    @IsUrl()
+    @MaxLength(2000)
+    new_url: string = "";
+
+    @Column({ type: "varchar", length: 20 })
+    @IsIn(FEED_URL_CHANGE_REASONS)
+    reason: FeedUrlChangeReason = 'redirect';
+
+    // Status of the redirect (301/308), null for self links
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @IsOptional()
+    status_code?: number | null;
+
+    // Whether the feed moved onto an existing feed, which absorbed its subscriptions and posts
+    @Column({ type: "boolean", default: false })
+    merged: boolean = false;
+
+    constructor(partial: Partial<FeedUrlHistory> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
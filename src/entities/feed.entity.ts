@@ -1,5 +1,5 @@
 import { Entity, Column, Index, OneToMany } from "typeorm";
-import { IsUrl, MaxLength, IsOptional, IsNotEmpty, IsNumber, IsIn } from "class-validator";
+import { IsUrl, MaxLength, IsOptional, IsNotEmpty, IsNumber, IsIn, IsInt, Min, IsBoolean } from "class-validator";
 import { BaseEntity } from "./base.entity";
 
 @Entity("feeds")
@@ -54,6 +54,44 @@ export class Feed extends BaseEntity {
     @IsNumber()
     subscriber_count: number = 0;
 
+    // Computed after every fetch from the feed's publish cadence, idle fetches and errors
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @Index("idx_feeds_next_fetch")
+    @IsOptional()
+    next_fetch_at?: Date | null;
+
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @IsOptional()
+    fetch_interval_minutes?: number | null;
+
+    // Admin overrides of FEED_MIN_FETCH_INTERVAL_MINUTES / FEED_MAX_FETCH_INTERVAL_MINUTES
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    min_fetch_interval_minutes?: number | null;
+
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @Min(1)
+    @IsOptional()
+    max_fetch_interval_minutes?: number | null;
+
+    // Expand every new post in the background, so discussions start without scraping
+    @Column({ type: "boolean", default: false })
+    @IsBoolean()
+    always_expand: boolean = false;
+
+    // Self link verified and followed last, so it is not verified again on every fetch
+    @Column({ type: "varchar", length: 2000, nullable: true })
+    @IsOptional()
+    verified_self_url?: string | null;
+
+    // Full-text index of name (A) and URL (B), generated by the database
+    @Column({ type: "tsvector", nullable: true, select: false, insert: false, update: false })
+    search_vector?: string | null;
+
     @OneToMany("UserFeed", "feed")
     user_feeds!: any[];
 
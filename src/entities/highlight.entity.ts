@@ -0,0 +1,77 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn, UpdateDateColumn } from "typeorm";
+import { IsIn, IsInt, IsNotEmpty, IsOptional, MaxLength, Min } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+export const HIGHLIGHT_COLORS = ['yellow', 'green', 'blue', 'pink', 'purple'] as const;
+export type HighlightColor = typeof HIGHLIGHT_COLORS[number];
+
+export const HIGHLIGHT_QUOTE_MAX_LENGTH = 5000;
+export const HIGHLIGHT_NOTE_MAX_LENGTH = 2000;
+
+/**
+ * A passage of a post's expanded content highlighted by a user, with an optional note.
+ *
+ * The passage is stored as a text quote (exact text with some context on each side) and a
+ * character range, both over the plain text of the expanded content (see text-anchor.util).
+ * The quote is authoritative: when the content is expanded again and the range no longer
+ * holds the quote, the highlight is re-anchored by searching for it.
+ */
+@Entity("highlights")
+@Index("idx_highlights_user_post", ["user_id", "post_id"])
+export class Highlight extends BaseEntity {
+    @Column({ type: "varchar" })
+    @IsNotEmpty()
+    user_id!: string;
+
+    @ManyToOne("User", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "user_id" })
+    user!: any;
+
+    @Column({ type: "uuid" })
+    @Index("idx_highlights_post")
+    @IsNotEmpty()
+    post_id!: string;
+
+    @ManyToOne("Post", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post!: any;
+
+    @Column({ type: "text" })
+    @MaxLength(HIGHLIGHT_QUOTE_MAX_LENGTH)
+    @IsNotEmpty()
+    quote_exact: string = "";
+
+    @Column({ type: "text", default: "" })
+    quote_prefix: string = "";
+
+    @Column({ type: "text", default: "" })
+    quote_suffix: string = "";
+
+    // Range of the quote in the content it was created on
+    @Column({ type: "integer" })
+    @IsInt()
+    @Min(0)
+    position_start: number = 0;
+
+    @Column({ type: "integer" })
+    @IsInt()
+    @Min(0)
+    position_end: number = 0;
+
+    @Column({ type: "text", nullable: true })
+    @MaxLength(HIGHLIGHT_NOTE_MAX_LENGTH)
+    @IsOptional()
+    note?: string | null;
+
+    @Column({ type: "varchar", length: 20, default: "yellow" })
+    @IsIn(HIGHLIGHT_COLORS)
+    color: HighlightColor = "yellow";
+
+    @UpdateDateColumn({ type: "timestamp with time zone" })
+    updated_at: Date = new Date();
+
+    constructor(partial: Partial<Highlight> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
@@ -5,8 +5,17 @@ export { Settings } from './settings.entity';
 export { ChatSession } from './chat-session.entity';
 export { Message } from './message.entity';
 export { SocialPost } from './social-post.entity';
+export { SocialPostRevision } from './social-post-revision.entity';
 export { Feed } from './feed.entity';
 export { FeedFetchLog } from './feed-fetch-log.entity';
 export { UserFeed } from './user-feed.entity';
 export { UserPost } from './user-post.entity';
-export { Category } from './category.entity';
\ No newline at end of file
+export { Category } from './category.entity';
+export { WebSubSubscription } from './websub-subscription.entity';
+export { Job } from './job.entity';
+export { FeedUrlHistory } from './feed-url-history.entity';
+export { PostEmbedding } from './post-embedding.entity';
+export { Tag } from './tag.entity';
+export { PostTag } from './post-tag.entity';
+export { SavedSearch } from './saved-search.entity';
+export { Highlight } from './highlight.entity';
@@ -0,0 +1,78 @@
+import { Entity, Column, Index } from "typeorm";
+import { IsIn, IsInt, IsNotEmpty, IsOptional, MaxLength, Min } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+export const JOB_STATUSES = ['queued', 'running', 'completed', 'failed'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+/**
+ * Background job in the Postgres-backed queue.
+ * Workers claim queued jobs with FOR UPDATE SKIP LOCKED, so several workers (or cron
+ * instances) never run the same job twice.
+ */
+@Entity("jobs")
+@Index("idx_jobs_claim", ["status", "run_at"])
+@Index("UQ_JOBS_PENDING_DEDUPE_KEY", ["dedupe_key"], { unique: true, where: `"status" IN ('queued', 'running')` })
+export class Job extends BaseEntity {
+    @Column({ type: "varchar", length: 50 })
+    @Index("idx_jobs_type")
+    @IsNotEmpty()
+    @MaxLength(50)
+    type: string = "";
+
+    @Column({ type: "jsonb", default: () => "'{}'" })
+    payload: Record<string, any> = {};
+
+    @Column({ type: "varchar", length: 20, default: "queued" })
+    @IsIn(JOB_STATUSES)
+    status: JobStatus = 'queued';
+
+    // Higher runs first among due jobs
+    @Column({ type: "integer", default: 0 })
+    @IsInt()
+    priority: number = 0;
+
+    @Column({ type: "integer", default: 0 })
+    @IsInt()
+    attempts: number = 0;
+
+    @Column({ type: "integer", default: 5 })
+    @IsInt()
+    @Min(1)
+    max_attempts: number = 5;
+
+    // Earliest time the job may run (pushed back by retries)
+    @Column({ type: "timestamp with time zone", default: () => "CURRENT_TIMESTAMP" })
+    run_at: Date = new Date();
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    locked_at?: Date | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    @IsOptional()
+    locked_by?: string | null;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    finished_at?: Date | null;
+
+    @Column({ type: "text", nullable: true })
+    @IsOptional()
+    last_error?: string | null;
+
+    @Column({ type: "jsonb", nullable: true })
+    @IsOptional()
+    result?: Record<string, any> | null;
+
+    // At most one queued/running job per key (e.g. one pending fetch per feed)
+    @Column({ type: "varchar", length: 255, nullable: true })
+    @IsOptional()
+    @MaxLength(255)
+    dedupe_key?: string | null;
+
+    constructor(partial: Partial<Job> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
@@ -0,0 +1,40 @@
+import { Entity, Column, Index, OneToOne, JoinColumn, UpdateDateColumn } from "typeorm";
+import { IsNotEmpty, MaxLength } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+/**
+ * Embedding of a post's title, content and expanded content, for semantic search and
+ * related posts. Nearest neighbours are found through an HNSW index (pgvector, cosine distance).
+ */
+@Entity("post_embeddings")
+export class PostEmbedding extends BaseEntity {
+    @Column({ type: "uuid", unique: true })
+    post_id!: string;
+
+    @OneToOne("Post", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post!: any;
+
+    // EMBEDDING_DIMENSIONS values, compared by cosine distance
+    @Column({ type: "vector", length: 384 })
+    embedding: number[] = [];
+
+    // Embedder that produced the vector ("provider:model"); only vectors of the same embedder are compared
+    @Column({ type: "varchar", length: 100 })
+    @Index("idx_post_embeddings_model")
+    @IsNotEmpty()
+    @MaxLength(100)
+    model: string = "";
+
+    // SHA-256 of the embedded text, to skip re-embedding unchanged posts
+    @Column({ type: "varchar", length: 64 })
+    content_hash: string = "";
+
+    @UpdateDateColumn({ type: "timestamp with time zone" })
+    updated_at: Date = new Date();
+
+    constructor(partial: Partial<PostEmbedding> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
@@ -1,10 +1,17 @@
-import { IsNotEmpty } from "class-validator";
-import { Column, CreateDateColumn, Entity, JoinColumn, OneToOne, UpdateDateColumn } from "typeorm";
+import { IsIn, IsInt, IsNotEmpty, IsNumber, IsOptional } from "class-validator";
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, OneToOne, UpdateDateColumn } from "typeorm";
 import { BaseEntity } from "./base.entity";
 
+export const EXPANDED_CONTENT_SOURCES = ['feed', 'scraped'] as const;
+export type ExpandedContentSource = typeof EXPANDED_CONTENT_SOURCES[number];
+
+export const EXPANSION_TRIGGERS = ['discussion', 'pipeline'] as const;
+export type ExpansionTrigger = typeof EXPANSION_TRIGGERS[number];
+
 @Entity("post_expanded")
 export class PostExpanded extends BaseEntity {
     @Column({ type: "uuid" })
+    @Index("idx_post_expanded_post")
     post_id: string = "";
 
     @OneToOne("Post", { onDelete: "CASCADE" })
@@ -18,6 +25,36 @@ export class PostExpanded extends BaseEntity {
     @Column({ type: "text", nullable: true })
     summary?: string;
 
+    // The feed's own content (judged full) or a scrape of the article page.
+    // This and the following metadata are null on content expanded before they were recorded.
+    @Column({ type: "varchar", length: 20, nullable: true })
+    @IsIn(EXPANDED_CONTENT_SOURCES)
+    @IsOptional()
+    content_source?: ExpandedContentSource | null;
+
+    // A user opening a discussion, or the eager expansion pipeline
+    @Column({ type: "varchar", length: 20, nullable: true })
+    @IsIn(EXPANSION_TRIGGERS)
+    @IsOptional()
+    expanded_by?: ExpansionTrigger | null;
+
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @IsOptional()
+    word_count?: number | null;
+
+    // 0-1 from length, paragraph structure and coverage of the feed content
+    @Column({ type: "real", nullable: true })
+    @IsNumber()
+    @IsOptional()
+    quality_score?: number | null;
+
+    // Confidence of the full-content check that chose the source
+    @Column({ type: "real", nullable: true })
+    @IsNumber()
+    @IsOptional()
+    content_check_confidence?: number | null;
+
     @CreateDateColumn({ type: "timestamp with time zone" })
     created_at: Date = new Date();
 
@@ -0,0 +1,32 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn } from "typeorm";
+import { IsNotEmpty } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+/**
+ * A tag attached to a post. The tag's user is the user who tagged the post.
+ */
+@Entity("post_tags")
+@Index("uq_post_tags_tag_post", ["tag_id", "post_id"], { unique: true })
+export class PostTag extends BaseEntity {
+    @Column({ type: "uuid" })
+    @IsNotEmpty()
+    tag_id!: string;
+
+    @ManyToOne("Tag", "post_tags", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "tag_id" })
+    tag!: any;
+
+    @Column({ type: "uuid" })
+    @Index("idx_post_tags_post")
+    @IsNotEmpty()
+    post_id!: string;
+
+    @ManyToOne("Post", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "post_id" })
+    post!: any;
+
+    constructor(partial: Partial<PostTag> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
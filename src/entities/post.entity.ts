@@ -33,6 +33,7 @@ export class Post extends BaseEntity {
     external_link: string = "";
 
     @Column({ type: "timestamp with time zone", nullable: true })
+    @Index("idx_posts_published_date")
     @IsOptional()
     @Transform(({ value }) => value ? new Date(value) : undefined)
     published_date?: Date;
@@ -46,6 +47,31 @@ export class Post extends BaseEntity {
     @JoinColumn({ name: "feed_id" })
     feed?: any;
 
+    // Normalized article URL (tracking parameters stripped, rel=canonical once known)
+    @Column({ type: "varchar", length: 2000, nullable: true })
+    @Index("idx_posts_canonical_url")
+    @IsOptional()
+    canonical_url?: string | null;
+
+    // SimHash of title and content, for copies of an article under different URLs
+    @Column({ type: "varchar", length: 16, nullable: true })
+    @IsOptional()
+    content_fingerprint?: string | null;
+
+    // First-seen copy of the article; null for posts that are not a duplicate
+    @Column({ type: "uuid", nullable: true })
+    @Index("idx_posts_duplicate_of")
+    @IsOptional()
+    duplicate_of_id?: string | null;
+
+    @ManyToOne("Post", { onDelete: "SET NULL", nullable: true })
+    @JoinColumn({ name: "duplicate_of_id" })
+    duplicate_of?: any;
+
+    // Full-text index of title (A), content (B) and expanded content (C), maintained by triggers
+    @Column({ type: "tsvector", nullable: true, select: false, insert: false, update: false })
+    search_vector?: string | null;
+
     @OneToMany("UserPost", "post")
     user_posts!: any[];
 
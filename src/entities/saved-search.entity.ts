@@ -0,0 +1,54 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn, UpdateDateColumn } from "typeorm";
+import { MaxLength, IsNotEmpty } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+/**
+ * Post filters a saved search persists (same meaning as the GET /posts query parameters).
+ * Dates are ISO 8601 strings.
+ */
+export interface SavedSearchFilters {
+    search?: string;
+    feed_id?: string;
+    category_id?: string;
+    read?: boolean;
+    bookmarked?: boolean;
+    // Posts carrying every one of these tags
+    tag_ids?: string[];
+    date_from?: string;
+    date_to?: string;
+    include_duplicates?: boolean;
+    sortBy?: string;
+    sortOrder?: 'ASC' | 'DESC';
+}
+
+/**
+ * A named combination of post filters (smart folder), listed with its unread count
+ */
+@Entity("saved_searches")
+@Index("uq_saved_searches_user_name", ["user_id", "name"], { unique: true })
+export class SavedSearch extends BaseEntity {
+    @Column({ type: "varchar" })
+    @Index("idx_saved_searches_user")
+    @IsNotEmpty()
+    user_id!: string;
+
+    @ManyToOne("User", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "user_id" })
+    user!: any;
+
+    @Column({ type: "varchar", length: 100 })
+    @MaxLength(100)
+    @IsNotEmpty()
+    name: string = "";
+
+    @Column({ type: "jsonb", default: () => "'{}'" })
+    filters: SavedSearchFilters = {};
+
+    @UpdateDateColumn({ type: "timestamp with time zone" })
+    updated_at: Date = new Date();
+
+    constructor(partial: Partial<SavedSearch> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
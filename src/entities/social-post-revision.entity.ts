@@ -0,0 +1,86 @@
+import { Entity, Column, ManyToOne, JoinColumn, Index } from "typeorm";
+import { IsIn, IsInt, IsNotEmpty, IsOptional, Min } from "class-validator";
+import { BaseEntity } from "./base.entity";
+import { CodeExample, ThreadPost, VisualElement } from "./social-post.entity";
+
+export const SOCIAL_POST_REVISION_ACTIONS = ['create', 'edit', 'manual', 'revert'] as const;
+export type SocialPostRevisionAction = typeof SOCIAL_POST_REVISION_ACTIONS[number];
+
+/**
+ * Snapshot of a social post after each create, edit or revert.
+ * The post's latest revision always matches the social_posts row.
+ */
+@Entity("social_post_revisions")
+@Index("UQ_SOCIAL_POST_REVISIONS_POST_VERSION", ["social_post_id", "version"], { unique: true })
+export class SocialPostRevision extends BaseEntity {
+    @Column({ type: "uuid" })
+    social_post_id!: string;
+
+    @ManyToOne("SocialPost", "revisions", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "social_post_id" })
+    social_post!: any;
+
+    @Column({ type: "varchar" })
+    @IsNotEmpty()
+    user_id!: string;
+
+    @Column({ type: "integer" })
+    @IsInt()
+    @Min(1)
+    version: number = 1;
+
+    @Column({ type: "varchar", length: 20 })
+    @IsIn(SOCIAL_POST_REVISION_ACTIONS)
+    action: SocialPostRevisionAction = 'create';
+
+    @Column({ type: "text" })
+    content: string = "";
+
+    @Column({
+        type: "jsonb",
+        nullable: true,
+        transformer: {
+            to: (value: ThreadPost[] | null) => value ? JSON.stringify(value) : null,
+            from: (value: string) => value ? JSON.parse(value) : null
+        }
+    })
+    @IsOptional()
+    thread?: ThreadPost[] | null;
+
+    @Column({
+        type: "jsonb",
+        nullable: true,
+        transformer: {
+            to: (value: CodeExample[]) => value ? JSON.stringify(value) : null,
+            from: (value: string) => value ? JSON.parse(value) : null
+        }
+    })
+    @IsOptional()
+    code_examples?: CodeExample[];
+
+    @Column({
+        type: "jsonb",
+        nullable: true,
+        transformer: {
+            to: (value: VisualElement[]) => value ? JSON.stringify(value) : null,
+            from: (value: string) => value ? JSON.parse(value) : null
+        }
+    })
+    @IsOptional()
+    visual_elements?: VisualElement[];
+
+    // Chat message that triggered the create/edit (null for manual edits and API reverts)
+    @Column({ type: "text", nullable: true })
+    @IsOptional()
+    user_message?: string | null;
+
+    // Version restored by a revert
+    @Column({ type: "integer", nullable: true })
+    @IsOptional()
+    reverted_from_version?: number | null;
+
+    constructor(partial: Partial<SocialPostRevision> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
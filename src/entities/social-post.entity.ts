@@ -1,4 +1,4 @@
-import { Entity, Column, ManyToOne, JoinColumn, Index } from "typeorm";
+import { Entity, Column, ManyToOne, OneToMany, JoinColumn, Index } from "typeorm";
 import { IsNotEmpty, MaxLength, IsArray, IsUrl, IsOptional, IsString } from "class-validator";
 import { BaseEntity } from "./base.entity";
 
@@ -9,6 +9,17 @@ export enum SocialPlatform {
     INSTAGRAM = "instagram"
 }
 
+export enum SocialPostStatus {
+    DRAFT = "draft",
+    SCHEDULED = "scheduled",
+    PUBLISHING = "publishing",
+    PUBLISHED = "published",
+    FAILED = "failed"
+}
+
+// The content of a post being or already published is frozen
+export const FROZEN_SOCIAL_POST_STATUSES = [SocialPostStatus.PUBLISHING, SocialPostStatus.PUBLISHED];
+
 export interface CodeExample {
     language: string;
     code: string;
@@ -21,6 +32,11 @@ export interface VisualElement {
     suggestion?: string;
 }
 
+export interface ThreadPost {
+    text: string;
+    length: number;
+}
+
 @Entity("social_posts")
 export class SocialPost extends BaseEntity {
     @Column({ type: "varchar" })
@@ -77,6 +93,32 @@ export class SocialPost extends BaseEntity {
     @Column({ type: "timestamp with time zone", nullable: true })
     published_at?: Date;
 
+    @Column({ type: "varchar", length: 20, default: SocialPostStatus.DRAFT })
+    status: SocialPostStatus = SocialPostStatus.DRAFT;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    scheduled_at?: Date | null;
+
+    // Failed publishes are retried with backoff until the attempt limit is reached
+    @Column({ type: "integer", default: 0 })
+    publish_attempts: number = 0;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    next_attempt_at?: Date | null;
+
+    // Set when a publisher run claims the post, used to detect interrupted runs
+    @Column({ type: "timestamp with time zone", nullable: true })
+    publishing_started_at?: Date | null;
+
+    @Column({ type: "text", nullable: true })
+    last_publish_error?: string | null;
+
+    @Column({ type: "varchar", length: 255, nullable: true })
+    external_id?: string | null;
+
+    @Column({ type: "text", nullable: true })
+    external_url?: string | null;
+
     @Column({
         type: "jsonb",
         nullable: true,
@@ -101,6 +143,21 @@ export class SocialPost extends BaseEntity {
     @IsOptional()
     visual_elements?: VisualElement[];
 
+    @Column({
+        type: "jsonb",
+        nullable: true,
+        transformer: {
+            to: (value: ThreadPost[] | null) => value ? JSON.stringify(value) : null,
+            from: (value: string) => value ? JSON.parse(value) : null
+        }
+    })
+    @IsArray()
+    @IsOptional()
+    thread?: ThreadPost[] | null;
+
+    @OneToMany("SocialPostRevision", "social_post")
+    revisions!: any[];
+
     constructor(partial: Partial<SocialPost> = {}) {
         super();
         Object.assign(this, partial);
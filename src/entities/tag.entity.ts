@@ -0,0 +1,33 @@
+import { Entity, Column, Index, ManyToOne, JoinColumn, OneToMany } from "typeorm";
+import { MaxLength, IsNotEmpty } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+/**
+ * User-defined label for posts. Unlike categories, which group feeds, tags are attached to
+ * individual posts (through post_tags) and are private to their user.
+ */
+@Entity("tags")
+@Index("uq_tags_user_name", ["user_id", "name"], { unique: true })
+export class Tag extends BaseEntity {
+    @Column({ type: "varchar" })
+    @Index("idx_tags_user")
+    @IsNotEmpty()
+    user_id!: string;
+
+    @ManyToOne("User", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "user_id" })
+    user!: any;
+
+    @Column({ type: "varchar", length: 50 })
+    @MaxLength(50)
+    @IsNotEmpty()
+    name: string = "";
+
+    @OneToMany("PostTag", "tag")
+    post_tags!: any[];
+
+    constructor(partial: Partial<Tag> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
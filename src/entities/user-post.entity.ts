@@ -1,7 +1,9 @@
 import { Entity, Column, Index, ManyToOne, JoinColumn } from "typeorm";
-import { IsNotEmpty, IsBoolean, IsOptional } from "class-validator";
+import { IsNotEmpty, IsBoolean, IsOptional, MaxLength } from "class-validator";
 import { BaseEntity } from "./base.entity";
 
+export const BOOKMARK_NOTE_MAX_LENGTH = 2000;
+
 @Entity("user_posts")
 @Index("uq_user_posts_user_post", ["user_id", "post_id"], { unique: true })
 export class UserPost extends BaseEntity {
@@ -31,6 +33,16 @@ export class UserPost extends BaseEntity {
     @IsBoolean()
     bookmarked: boolean = false;
 
+    // Set when the post is bookmarked, cleared with the bookmark
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    bookmarked_at?: Date | null;
+
+    @Column({ type: "text", nullable: true })
+    @IsOptional()
+    @MaxLength(BOOKMARK_NOTE_MAX_LENGTH)
+    bookmark_note?: string | null;
+
     @Column({ type: "timestamp with time zone", default: () => "CURRENT_TIMESTAMP" })
     created_at: Date = new Date();
 
@@ -0,0 +1,74 @@
+import { Entity, Column, Index, OneToOne, JoinColumn } from "typeorm";
+import { IsIn, IsInt, IsNotEmpty, IsOptional, IsUrl, MaxLength } from "class-validator";
+import { BaseEntity } from "./base.entity";
+
+export const WEBSUB_SUBSCRIPTION_STATUSES = ['pending', 'active', 'unsubscribing', 'unsubscribed', 'failed'] as const;
+export type WebSubSubscriptionStatus = typeof WEBSUB_SUBSCRIPTION_STATUSES[number];
+
+/**
+ * WebSub (PubSubHubbub) subscription of a feed to the hub it advertises.
+ * One per feed; polling keeps running whatever the status, so a failed or expired
+ * subscription only means new posts arrive at the next scheduled fetch.
+ */
+@Entity("websub_subscriptions")
+export class WebSubSubscription extends BaseEntity {
+    @Column({ type: "uuid", unique: true })
+    feed_id!: string;
+
+    @OneToOne("Feed", { onDelete: "CASCADE" })
+    @JoinColumn({ name: "feed_id" })
+    feed!: any;
+
+    @Column({ type: "varchar", length: 2000 })
+    @IsUrl()
+    @MaxLength(2000)
+    hub_url: string = "";
+
+    // Topic registered with the hub (the feed's self URL, falling back to the feed URL)
+    @Column({ type: "varchar", length: 2000 })
+    @IsUrl()
+    @MaxLength(2000)
+    topic_url: string = "";
+
+    // HMAC secret the hub signs notifications with
+    @Column({ type: "varchar", length: 64 })
+    @IsNotEmpty()
+    secret: string = "";
+
+    @Column({ type: "varchar", length: 20, default: "pending" })
+    @Index("idx_websub_subscriptions_status")
+    @IsIn(WEBSUB_SUBSCRIPTION_STATUSES)
+    status: WebSubSubscriptionStatus = 'pending';
+
+    @Column({ type: "integer", nullable: true })
+    @IsInt()
+    @IsOptional()
+    lease_seconds?: number | null;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @Index("idx_websub_subscriptions_lease_expires")
+    @IsOptional()
+    lease_expires_at?: Date | null;
+
+    // Last (un)subscribe request sent to the hub
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    requested_at?: Date | null;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    verified_at?: Date | null;
+
+    @Column({ type: "timestamp with time zone", nullable: true })
+    @IsOptional()
+    last_notification_at?: Date | null;
+
+    @Column({ type: "text", nullable: true })
+    @IsOptional()
+    last_error?: string | null;
+
+    constructor(partial: Partial<WebSubSubscription> = {}) {
+        super();
+        Object.assign(this, partial);
+    }
+}
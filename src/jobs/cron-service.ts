@@ -1,20 +1,44 @@
 import * as cron from 'node-cron';
 import dotenv from 'dotenv';
+import AppDataSource from '../config/database.config';
+import { JobWorker } from '../services/queue';
+import { registerJobHandlers } from './handlers';
 import { feedFetcherTask } from './tasks/feed-fetcher.task';
+import { feedLogCleanupTask } from './tasks/feed-log-cleanup.task';
+import { postEmbeddingBackfillTask } from './tasks/post-embedding-backfill.task';
+import { socialPublisherTask } from './tasks/social-publisher.task';
+import { webSubRenewalTask } from './tasks/websub-renewal.task';
 import { logger } from '../utils/logger';
 
 // Load environment variables
 dotenv.config();
 
 // Cron schedule configuration (can be overridden via environment variables)
-const FEED_FETCHER_SCHEDULE = process.env.FEED_FETCHER_SCHEDULE || '0 2 * * *'; // Default: Daily at 2 AM
+const FEED_FETCHER_SCHEDULE = process.env.FEED_FETCHER_SCHEDULE || '*/5 * * * *'; // Default: Every 5 minutes (only due feeds are fetched)
+const SOCIAL_PUBLISHER_SCHEDULE = process.env.SOCIAL_PUBLISHER_SCHEDULE || '* * * * *'; // Default: Every minute
+const WEBSUB_RENEWAL_SCHEDULE = process.env.WEBSUB_RENEWAL_SCHEDULE || '0 * * * *'; // Default: Hourly
+const FEED_LOG_CLEANUP_SCHEDULE = process.env.FEED_LOG_CLEANUP_SCHEDULE || '30 3 * * *'; // Default: Daily at 03:30
+const POST_EMBEDDING_BACKFILL_SCHEDULE = process.env.POST_EMBEDDING_BACKFILL_SCHEDULE || '*/10 * * * *'; // Default: Every 10 minutes
+
+// Job worker configuration
+const JOB_WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || '5');
+const JOB_WORKER_POLL_INTERVAL_MS = parseInt(process.env.JOB_WORKER_POLL_INTERVAL_MS || '2000');
+
+const jobWorker = registerJobHandlers(new JobWorker({
+    concurrency: JOB_WORKER_CONCURRENCY,
+    pollIntervalMs: JOB_WORKER_POLL_INTERVAL_MS
+}));
+
+// Skip a tick while the previous run of the same task is still going
+let feedFetcherRunning = false;
+let socialPublisherRunning = false;
 
 /**
  * Cron Service Entry Point
  *
  * Runs independently from the main Express API
- * Schedules tasks without maintaining persistent DB connections
- * Each task handles its own DB connection lifecycle
+ * Keeps one DB connection open for the job worker and the scheduled tasks
+ * Several instances can run side by side: jobs are claimed with SKIP LOCKED
  */
 async function startCronService(): Promise<void> {
     try {
@@ -22,21 +46,92 @@ async function startCronService(): Promise<void> {
         logger.info('Initializing Cron Service');
         logger.info('========================================');
 
+        await AppDataSource.initialize();
+        logger.info('✓ Database connected');
+
+        jobWorker.start();
+        logger.info('✓ Job worker started');
+
         // Schedule Feed Fetcher Task
         cron.schedule(FEED_FETCHER_SCHEDULE, async () => {
+            if (feedFetcherRunning) {
+                logger.warn('Feed fetcher still running, skipping this tick');
+                return;
+            }
+
+            feedFetcherRunning = true;
             try {
                 logger.info('Cron job triggered: Feed Fetcher');
                 await feedFetcherTask();
                 logger.info('Feed fetcher task completed successfully');
             } catch (error) {
                 logger.error('Error running scheduled feed fetcher task:', error);
+            } finally {
+                feedFetcherRunning = false;
             }
         });
 
         logger.info('✓ Feed fetcher task scheduled successfully');
+
+        // Schedule Social Publisher Task
+        cron.schedule(SOCIAL_PUBLISHER_SCHEDULE, async () => {
+            if (socialPublisherRunning) {
+                logger.warn('Social publisher still running, skipping this tick');
+                return;
+            }
+
+            socialPublisherRunning = true;
+            try {
+                await socialPublisherTask();
+            } catch (error) {
+                logger.error('Error running scheduled social publisher task:', error);
+            } finally {
+                socialPublisherRunning = false;
+            }
+        });
+
+        logger.info('✓ Social publisher task scheduled successfully');
+
+        // Schedule WebSub Renewal Task
+        cron.schedule(WEBSUB_RENEWAL_SCHEDULE, async () => {
+            try {
+                await webSubRenewalTask();
+            } catch (error) {
+                logger.error('Error running scheduled WebSub renewal task:', error);
+            }
+        });
+
+        logger.info('✓ WebSub renewal task scheduled successfully');
+
+        // Schedule Feed Log Cleanup Task
+        cron.schedule(FEED_LOG_CLEANUP_SCHEDULE, async () => {
+            try {
+                await feedLogCleanupTask();
+            } catch (error) {
+                logger.error('Error running scheduled feed log cleanup task:', error);
+            }
+        });
+
+        logger.info('✓ Feed log cleanup task scheduled successfully');
+
+        // Schedule Post Embedding Backfill Task
+        cron.schedule(POST_EMBEDDING_BACKFILL_SCHEDULE, async () => {
+            try {
+                await postEmbeddingBackfillTask();
+            } catch (error) {
+                logger.error('Error running scheduled post embedding backfill task:', error);
+            }
+        });
+
+        logger.info('✓ Post embedding backfill task scheduled successfully');
         logger.info('========================================');
         logger.info('Cron Service is running');
         logger.info(`Feed Fetcher Schedule: ${FEED_FETCHER_SCHEDULE}`);
+        logger.info(`Social Publisher Schedule: ${SOCIAL_PUBLISHER_SCHEDULE}`);
+        logger.info(`WebSub Renewal Schedule: ${WEBSUB_RENEWAL_SCHEDULE}`);
+        logger.info(`Feed Log Cleanup Schedule: ${FEED_LOG_CLEANUP_SCHEDULE}`);
+        logger.info(`Post Embedding Backfill Schedule: ${POST_EMBEDDING_BACKFILL_SCHEDULE}`);
+        logger.info(`Job Worker Concurrency: ${JOB_WORKER_CONCURRENCY}`);
         logger.info('Press Ctrl+C to stop');
         logger.info('========================================');
 
@@ -51,6 +146,10 @@ async function gracefulShutdown(signal: string): Promise<void> {
     logger.info(`\n${signal} received, shutting down gracefully...`);
 
     try {
+        await jobWorker.stop();
+        if (AppDataSource.isInitialized) {
+            await AppDataSource.destroy();
+        }
         logger.info('✓ Cron service stopped');
         process.exit(0);
     } catch (error) {
@@ -0,0 +1,18 @@
+import { Job } from '../../entities/job.entity';
+import { FeedsService } from '../../services/domain/feeds.service';
+import { JobError } from '../../services/queue';
+
+/**
+ * Fetch one feed (job payload: { feedId }).
+ * Fetch errors are recorded on the feed by fetchFeed, which also reschedules it with backoff,
+ * so these jobs are enqueued with a single attempt.
+ */
+export async function feedFetchHandler(job: Job): Promise<Record<string, any>> {
+    const feedId = job.payload.feedId;
+    if (typeof feedId !== 'string') {
+        throw new JobError('Missing feedId in job payload', false);
+    }
+
+    const { feed, insertedCount } = await new FeedsService().fetchFeed(feedId);
+    return { url: feed.url, insertedCount };
+}
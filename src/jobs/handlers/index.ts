@@ -0,0 +1,16 @@
+import { JobTypes, JobWorker } from '../../services/queue';
+import { feedFetchHandler } from './feed-fetch.handler';
+import { postCanonicalUrlHandler } from './post-canonical-url.handler';
+import { postEmbedHandler } from './post-embed.handler';
+import { postExpandHandler } from './post-expand.handler';
+
+/**
+ * Register the handler of every job type the cron service processes
+ */
+export function registerJobHandlers(worker: JobWorker): JobWorker {
+    return worker
+        .register(JobTypes.FEED_FETCH, feedFetchHandler)
+        .register(JobTypes.POST_CANONICAL_URL, postCanonicalUrlHandler)
+        .register(JobTypes.POST_EXPAND, postExpandHandler)
+        .register(JobTypes.POST_EMBED, postEmbedHandler);
+}
@@ -0,0 +1,41 @@
+import * as cheerio from 'cheerio';
+import { Job } from '../../entities/job.entity';
+import { PostRepository } from '../../repositories';
+import { PostDeduplicationService } from '../../services/content/post-deduplication.service';
+import { RobotsDisallowedError } from '../../services/content/request-scheduler.service';
+import scraper from '../../services/content/scraper.service';
+import { JobError } from '../../services/queue';
+
+/**
+ * Read the rel="canonical" URL of a post's page and regroup the post with other copies
+ * of the article (job payload: { postId }).
+ */
+export async function postCanonicalUrlHandler(job: Job): Promise<Record<string, any>> {
+    const postId = job.payload.postId;
+    if (typeof postId !== 'string') {
+        throw new JobError('Missing postId in job payload', false);
+    }
+
+    const post = await PostRepository.findOne({ where: { id: postId } });
+    if (!post) {
+        throw new JobError(`Post ${postId} not found`, false);
+    }
+
+    let html: string;
+    try {
+        html = await scraper.scrapeHtml(post.external_link);
+    } catch (error) {
+        if (error instanceof RobotsDisallowedError) {
+            throw new JobError(error.message, false);
+        }
+        throw error;
+    }
+
+    const canonicalUrl = scraper.extractCanonicalUrl(cheerio.load(html), post.external_link);
+    if (!canonicalUrl) {
+        return { canonicalUrl: null, regrouped: false };
+    }
+
+    const regrouped = await new PostDeduplicationService().applyCanonicalUrl(post.id, canonicalUrl);
+    return { canonicalUrl, regrouped };
+}
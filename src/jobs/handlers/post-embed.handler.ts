@@ -0,0 +1,21 @@
+import { Job } from '../../entities/job.entity';
+import { PostEmbeddingService } from '../../services/content/post-embedding.service';
+import { JobError } from '../../services/queue';
+
+/**
+ * Embed a post for semantic search (job payload: { postId }).
+ * Posts whose text did not change since their last embedding are left as they are.
+ */
+export async function postEmbedHandler(job: Job): Promise<Record<string, any>> {
+    const postId = job.payload.postId;
+    if (typeof postId !== 'string') {
+        throw new JobError('Missing postId in job payload', false);
+    }
+
+    const result = await new PostEmbeddingService().embedPosts([postId]);
+    if (result.embedded === 0 && result.unchanged === 0) {
+        throw new JobError(`Post ${postId} not found`, false);
+    }
+
+    return { embedded: result.embedded > 0 };
+}
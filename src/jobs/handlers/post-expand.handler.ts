@@ -0,0 +1,34 @@
+import { Job } from '../../entities/job.entity';
+import { PostExpansionService } from '../../services/content/post-expansion.service';
+import { JobError } from '../../services/queue';
+import { HttpError } from '../../middleware/error.middleware';
+
+/**
+ * Expand a new post ahead of its discussion (job payload: { postId }).
+ * Posts that already have expanded content are left as they are.
+ */
+export async function postExpandHandler(job: Job): Promise<Record<string, any>> {
+    const postId = job.payload.postId;
+    if (typeof postId !== 'string') {
+        throw new JobError('Missing postId in job payload', false);
+    }
+
+    try {
+        const expanded = await new PostExpansionService().expandPost(postId);
+        if (!expanded) {
+            return { expanded: false };
+        }
+
+        return {
+            expanded: true,
+            source: expanded.content_source,
+            wordCount: expanded.word_count,
+            qualityScore: expanded.quality_score
+        };
+    } catch (error) {
+        if (error instanceof HttpError && error.status === 404) {
+            throw new JobError(`Post ${postId} not found`, false);
+        }
+        throw error;
+    }
+}
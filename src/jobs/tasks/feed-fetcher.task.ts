@@ -1,131 +1,72 @@
+import requestScheduler from '../../services/content/request-scheduler.service';
 import { FeedsService } from '../../services/domain/feeds.service';
+import { JobQueueService, JobTypes } from '../../services/queue';
 import AppDataSource from '../../config/database.config';
 import { logger } from '../../utils/logger';
 
+// Feeds enqueued per run; the rest are picked up by the next run
+const ENQUEUE_BATCH_SIZE = 1000;
+
 /**
  * Feed Fetcher Task
  *
- * Fetches all active feeds in parallel batches
- * Logs progress and handles errors gracefully
+ * Enqueues a fetch job for every active feed that is due (next_fetch_at reached).
+ * The job worker does the fetching; a feed already waiting in the queue is not enqueued twice.
  */
 export async function feedFetcherTask(): Promise<void> {
     const startTime = Date.now();
-    logger.info('========================================');
-    logger.info('Starting feed fetcher task');
-    logger.info('========================================');
+
+    // Only close the connection if this task opened it (the job worker keeps one open)
+    let initializedHere = false;
 
     try {
         // Ensure database is initialized
         if (!AppDataSource.isInitialized) {
             logger.info('Initializing database connection...');
             await AppDataSource.initialize();
+            initializedHere = true;
             logger.info('Database connected');
         }
 
         const feedService = new FeedsService();
+        const jobQueue = new JobQueueService();
 
-        // Get feeds that need to be fetched (max 1000)
-        const feeds = await feedService.getFeedsToFetch(1000);
+        const feeds = await feedService.getFeedsToFetch(ENQUEUE_BATCH_SIZE);
 
         if (!feeds || feeds.length === 0) {
-            logger.info('No feeds to fetch');
+            logger.debug('No feeds due for fetching');
             return;
         }
 
-        logger.info(`Found ${feeds.length} feeds to process`);
-
-        // Process feeds in batches of 10
-        const BATCH_SIZE = 10;
-        let successCount = 0;
-        let errorCount = 0;
-        let notModifiedCount = 0;
-        let totalNewPosts = 0;
-
-        for (let i = 0; i < feeds.length; i += BATCH_SIZE) {
-            const batch = feeds.slice(i, i + BATCH_SIZE);
-            const batchNumber = Math.floor(i / BATCH_SIZE) + 1;
-            const totalBatches = Math.ceil(feeds.length / BATCH_SIZE);
-
-            logger.info(`Processing batch ${batchNumber}/${totalBatches} (${batch.length} feeds)`);
-
-            // Process batch in parallel using Promise.allSettled
-            const results = await Promise.allSettled(
-                batch.map(async (feed) => {
-                    try {
-                        const result = await feedService.fetchFeed(feed.id);
-                        return {
-                            feedId: feed.id,
-                            feedUrl: feed.url,
-                            success: true,
-                            insertedCount: result.insertedCount,
-                        };
-                    } catch (error) {
-                        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-                        logger.error(`Error fetching feed ${feed.url}:`, errorMessage);
-                        return {
-                            feedId: feed.id,
-                            feedUrl: feed.url,
-                            success: false,
-                            error: errorMessage,
-                        };
-                    }
-                })
-            );
-
-            // Process results
-            results.forEach((result, index) => {
-                if (result.status === 'fulfilled') {
-                    if (result.value.success) {
-                        successCount++;
-                        const insertedCount = result.value.insertedCount ?? 0;
-                        if (insertedCount > 0) {
-                            totalNewPosts += insertedCount;
-                            logger.info(
-                                `✓ ${result.value.feedUrl}: ${insertedCount} new posts`
-                            );
-                        } else {
-                            notModifiedCount++;
-                            logger.debug(`○ ${result.value.feedUrl}: Not modified (304)`);
-                        }
-                    } else {
-                        errorCount++;
-                        logger.error(`✗ ${result.value.feedUrl}: ${result.value.error}`);
-                    }
-                } else {
-                    errorCount++;
-                    logger.error(`✗ Batch item ${index} failed:`, result.reason);
-                }
+        let enqueuedCount = 0;
+        for (const feed of feeds) {
+            const job = await jobQueue.enqueue(JobTypes.FEED_FETCH, { feedId: feed.id }, {
+                dedupeKey: `${JobTypes.FEED_FETCH}:${feed.id}`,
+                // Feeds many users follow go first
+                priority: Math.min(feed.subscriber_count, 1000),
+                maxAttempts: 1
             });
+            if (job) enqueuedCount++;
+        }
+
+        logger.info(
+            `Feed fetcher: ${feeds.length} feeds due, ${enqueuedCount} enqueued, ` +
+            `${feeds.length - enqueuedCount} already queued (${Date.now() - startTime}ms)`
+        );
 
-            // Log progress after each batch
-            const processed = Math.min(i + BATCH_SIZE, feeds.length);
+        // Fetches run in this process, so its request scheduler holds the feed fetching counts
+        const { totals } = requestScheduler.getMetrics();
+        if (totals.deferred > 0 || totals.rateLimited > 0) {
             logger.info(
-                `Progress: ${processed}/${feeds.length} feeds processed ` +
-                `(${successCount} success, ${errorCount} errors)`
+                `Feed hosts since startup: ${totals.requests} requests, ${totals.delayed} delayed, ` +
+                `${totals.deferred} deferred, ${totals.rateLimited} rate limited`
             );
         }
-
-        // Calculate duration
-        const duration = Date.now() - startTime;
-        const durationSeconds = (duration / 1000).toFixed(2);
-
-        // Log final summary
-        logger.info('========================================');
-        logger.info('Feed fetcher task completed');
-        logger.info(`Total feeds processed: ${feeds.length}`);
-        logger.info(`Successful: ${successCount}`);
-        logger.info(`Not modified (304): ${notModifiedCount}`);
-        logger.info(`Errors: ${errorCount}`);
-        logger.info(`Total new posts created: ${totalNewPosts}`);
-        logger.info(`Duration: ${durationSeconds}s`);
-        logger.info('========================================');
-
     } catch (error) {
         logger.error('Fatal error in feed fetcher task:', error);
         throw error;
     } finally {
-        // Close database connection after task completion
-        if (AppDataSource.isInitialized) {
+        if (initializedHere && AppDataSource.isInitialized) {
             await AppDataSource.destroy();
             logger.info('Database connection closed');
         }
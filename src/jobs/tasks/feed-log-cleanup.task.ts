@@ -0,0 +1,24 @@
+import AppDataSource from '../../config/database.config';
+import { FeedLoggerService } from '../../services/content/feed-logger.service';
+import { logger } from '../../utils/logger';
+
+const FEED_LOG_RETENTION_DAYS = parseInt(process.env.FEED_LOG_RETENTION_DAYS || '30');
+
+/**
+ * Feed Log Cleanup Task
+ *
+ * Deletes feed fetch logs older than FEED_LOG_RETENTION_DAYS.
+ * Feed health reports look back 30 days at most.
+ */
+export async function feedLogCleanupTask(): Promise<void> {
+    try {
+        if (!AppDataSource.isInitialized) {
+            await AppDataSource.initialize();
+        }
+
+        await new FeedLoggerService().cleanupOldLogs(FEED_LOG_RETENTION_DAYS);
+    } catch (error) {
+        logger.error('Fatal error in feed log cleanup task:', error);
+        throw error;
+    }
+}
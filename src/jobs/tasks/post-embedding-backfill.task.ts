@@ -0,0 +1,26 @@
+import AppDataSource from '../../config/database.config';
+import { PostEmbeddingService } from '../../services/content/post-embedding.service';
+import { logger } from '../../utils/logger';
+
+const POST_EMBEDDING_BACKFILL_BATCH = parseInt(process.env.POST_EMBEDDING_BACKFILL_BATCH || '200');
+
+/**
+ * Post Embedding Backfill Task
+ *
+ * Embeds up to POST_EMBEDDING_BACKFILL_BATCH posts that have no vector of the configured
+ * embedder, newest first: posts from before semantic search, or every post after switching embedders.
+ */
+export async function postEmbeddingBackfillTask(): Promise<void> {
+    if (process.env.POST_EMBEDDINGS === 'false') return;
+
+    try {
+        if (!AppDataSource.isInitialized) {
+            await AppDataSource.initialize();
+        }
+
+        await new PostEmbeddingService().backfill(POST_EMBEDDING_BACKFILL_BATCH);
+    } catch (error) {
+        logger.error('Fatal error in post embedding backfill task:', error);
+        throw error;
+    }
+}
@@ -0,0 +1,36 @@
+import AppDataSource from '../../config/database.config';
+import { SocialPostPublishingService } from '../../services/domain/social-post-publishing.service';
+import { logger } from '../../utils/logger';
+
+// Posts published per run; the rest are picked up by the next run
+const PUBLISH_BATCH_SIZE = 50;
+
+/**
+ * Social Publisher Task
+ *
+ * Publishes scheduled social posts that are due (including retries)
+ * through the configured publisher adapter
+ */
+export async function socialPublisherTask(): Promise<void> {
+    try {
+        if (!AppDataSource.isInitialized) {
+            await AppDataSource.initialize();
+        }
+
+        const publishingService = new SocialPostPublishingService();
+        const summary = await publishingService.publishDue(PUBLISH_BATCH_SIZE);
+
+        if (summary.claimed === 0) {
+            logger.debug('No social posts due for publishing');
+            return;
+        }
+
+        logger.info(
+            `Social publisher: ${summary.claimed} due, ${summary.published} published, ` +
+            `${summary.retrying} retrying, ${summary.failed} failed`
+        );
+    } catch (error) {
+        logger.error('Fatal error in social publisher task:', error);
+        throw error;
+    }
+}
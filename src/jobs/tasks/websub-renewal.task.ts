@@ -0,0 +1,41 @@
+import AppDataSource from '../../config/database.config';
+import { WebSubService } from '../../services/domain/websub.service';
+import { logger } from '../../utils/logger';
+
+// Subscriptions handled per run; the rest are picked up by the next run
+const RENEWAL_BATCH_SIZE = 100;
+
+/**
+ * WebSub Renewal Task
+ *
+ * Renews WebSub leases that are about to expire, retries failed or unverified
+ * subscriptions, and cancels subscriptions of feeds that lost all their subscribers
+ */
+export async function webSubRenewalTask(): Promise<void> {
+    try {
+        const webSubService = new WebSubService();
+        if (!webSubService.isEnabled()) {
+            logger.debug('WebSub disabled (WEBSUB_CALLBACK_BASE_URL not set), skipping lease renewal');
+            return;
+        }
+
+        if (!AppDataSource.isInitialized) {
+            await AppDataSource.initialize();
+        }
+
+        const summary = await webSubService.renewDue(RENEWAL_BATCH_SIZE);
+
+        if (summary.due === 0) {
+            logger.debug('No WebSub subscriptions due for renewal');
+            return;
+        }
+
+        logger.info(
+            `WebSub renewal: ${summary.due} due, ${summary.renewed} renewed, ` +
+            `${summary.unsubscribed} unsubscribed, ${summary.failed} failed`
+        );
+    } catch (error) {
+        logger.error('Fatal error in WebSub renewal task:', error);
+        throw error;
+    }
+}
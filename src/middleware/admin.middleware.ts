@@ -0,0 +1,23 @@
+import { NextFunction, Request, Response } from 'express';
+
+/**
+ * Restricts a route to administrators: users whose email is listed in ADMIN_EMAILS (comma-separated)
+ * and verified. Sign-up does not require verification, so an unverified account must not get admin
+ * access just by registering a listed address first.
+ * Must run after authMiddleware.
+ */
+export const adminMiddleware = (req: Request, res: Response, next: NextFunction): void => {
+    const adminEmails = (process.env.ADMIN_EMAILS || '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean);
+
+    if (req.user?.emailVerified && adminEmails.includes(req.user.email.toLowerCase())) {
+        return next();
+    }
+
+    res.status(403).json({
+        error: "FORBIDDEN",
+        message: "Administrator access required."
+    });
+};
@@ -10,6 +10,7 @@ declare global {
                 id: string;
                 email: string;
                 name: string;
+                emailVerified: boolean;
             };
             session?: {
                 id: string;
@@ -38,7 +39,8 @@ export const authMiddleware = async (
             req.user = {
                 id: session.user.id,
                 email: session.user.email,
-                name: session.user.name
+                name: session.user.name,
+                emailVerified: session.user.emailVerified
             };
             req.session = {
                 id: session.session.id
@@ -64,7 +66,8 @@ export const authMiddleware = async (
                     req.user = {
                         id: sessionFromToken.user.id,
                         email: sessionFromToken.user.email,
-                        name: sessionFromToken.user.name
+                        name: sessionFromToken.user.name,
+                        emailVerified: sessionFromToken.user.emailVerified
                     };
                     req.session = {
                         id: sessionFromToken.session.id
@@ -29,6 +29,8 @@ export const validate = (validations: ValidationChain[]) => {
     };
 };
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 // Common validation chains
 export const commonValidation = {
     id: (field: string = 'id') => [
@@ -50,7 +52,7 @@ export const commonValidation = {
         .toInt(),
       query('sortBy')
         .optional()
-        .isIn(['added_date', 'published_date', 'title'])
+        .isIn(['added_date', 'published_date', 'title', 'relevance'])
         .withMessage('Invalid sort field'),
       query('sortOrder')
         .optional()
@@ -71,6 +73,29 @@ export const commonValidation = {
         .toInt()
     ],
 
+    // Tag and date filters of post listings; tag_ids is a comma-separated list or a repeated parameter
+    postFilters: [
+        query('tag_ids')
+            .optional()
+            .customSanitizer((value: string | string[]) =>
+                (Array.isArray(value) ? value : String(value).split(','))
+                    .map(id => String(id).trim())
+                    .filter(Boolean)
+            )
+            .custom((ids: string[]) => ids.length <= 20 && ids.every(id => UUID_PATTERN.test(id)))
+            .withMessage('tag_ids must be at most 20 tag UUIDs'),
+        query('date_from')
+            .optional()
+            .isISO8601()
+            .withMessage('date_from must be a valid ISO 8601 date')
+            .toDate(),
+        query('date_to')
+            .optional()
+            .isISO8601()
+            .withMessage('date_to must be a valid ISO 8601 date')
+            .toDate()
+    ],
+
     search: [
         query('search')
             .optional()
@@ -0,0 +1,46 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { Highlight } from '../entities/highlight.entity';
+
+export interface HighlightRepository extends Repository<Highlight> {
+    findByPostAndUserId(postId: string, userId: string): Promise<Highlight[]>;
+    findByIdAndPostAndUserId(id: string, postId: string, userId: string): Promise<Highlight | null>;
+    findAllWithPostByUserId(userId: string): Promise<Highlight[]>;
+}
+
+export const HighlightRepository = AppDataSource.getRepository(Highlight).extend({
+    /**
+     * Find the highlights of a user on a post, in reading order
+     */
+    async findByPostAndUserId(postId: string, userId: string): Promise<Highlight[]> {
+        return this.find({
+            where: { post_id: postId, user_id: userId },
+            order: { position_start: 'ASC', created_at: 'ASC' }
+        });
+    },
+
+    /**
+     * Find a single highlight by id, post_id and user_id
+     */
+    async findByIdAndPostAndUserId(id: string, postId: string, userId: string): Promise<Highlight | null> {
+        return this.findOne({
+            where: { id, post_id: postId, user_id: userId }
+        });
+    },
+
+    /**
+     * Find every highlight of a user with its post (id, title and link), most recently
+     * highlighted posts first and in reading order within a post
+     */
+    async findAllWithPostByUserId(userId: string): Promise<Highlight[]> {
+        return this.createQueryBuilder('highlight')
+            .innerJoin('highlight.post', 'post')
+            .addSelect(['post.id', 'post.title', 'post.external_link'])
+            .addSelect('MAX(highlight.created_at) OVER (PARTITION BY highlight.post_id)', 'last_highlighted_at')
+            .where('highlight.user_id = :userId', { userId })
+            .orderBy('last_highlighted_at', 'DESC')
+            .addOrderBy('highlight.post_id', 'ASC')
+            .addOrderBy('highlight.position_start', 'ASC')
+            .getMany();
+    }
+});
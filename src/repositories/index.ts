@@ -1,7 +1,13 @@
 export { CategoryRepository } from './category.repository';
 export { ChatSessionRepository } from './chat-session.repository';
+export { HighlightRepository } from './highlight.repository';
+export { JobsRepository } from './jobs.repository';
 export { MessagesRepository } from './messages.repository';
 export { PostExpandedRepository } from './post-expanded.repository';
 export { PostRepository } from './post.repository';
+export { SavedSearchRepository } from './saved-search.repository';
+export { SocialPostRevisionsRepository } from './social-post-revisions.repository';
 export { SocialPostsRepository } from './social-posts.repository';
+export { TagRepository } from './tag.repository';
 export { UserPostRepository } from './user-post.repository';
+export { WebSubSubscriptionsRepository } from './websub-subscriptions.repository';
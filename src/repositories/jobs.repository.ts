@@ -0,0 +1,130 @@
+import { In, LessThan, Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { Job, JobStatus } from '../entities/job.entity';
+
+export interface EnqueueJobOptions {
+    runAt?: Date;
+    priority?: number;
+    maxAttempts?: number;
+    dedupeKey?: string;
+}
+
+export interface JobListFilters {
+    type?: string;
+    status?: JobStatus;
+}
+
+export interface JobsRepository extends Repository<Job> {
+    enqueue(type: string, payload: Record<string, any>, options?: EnqueueJobOptions): Promise<Job | null>;
+    claim(types: string[], workerId: string, limit: number): Promise<Job[]>;
+    findStaleRunning(lockedBefore: Date): Promise<Job[]>;
+    deleteFinishedBefore(before: Date): Promise<number>;
+    countByTypeAndStatus(): Promise<Array<{ type: string; status: JobStatus; count: number }>>;
+    findWithFilters(filters: JobListFilters, limit?: number, offset?: number): Promise<{ items: Job[]; total: number }>;
+}
+
+export const JobsRepository = AppDataSource.getRepository(Job).extend({
+    /**
+     * Add a job to the queue
+     * @returns The job, or null when a job with the same dedupe key is already queued or running
+     */
+    async enqueue(type: string, payload: Record<string, any>, options: EnqueueJobOptions = {}): Promise<Job | null> {
+        const rows: Array<{ id: string }> = await this.query(
+            `INSERT INTO "jobs" ("type", "payload", "run_at", "priority", "max_attempts", "dedupe_key")
+             VALUES ($1, $2::jsonb, $3, $4, $5, $6)
+             ON CONFLICT ("dedupe_key") WHERE "status" IN ('queued', 'running') DO NOTHING
+             RETURNING "id"`,
+            [
+                type,
+                JSON.stringify(payload),
+                options.runAt ?? new Date(),
+                options.priority ?? 0,
+                options.maxAttempts ?? 5,
+                options.dedupeKey ?? null
+            ]
+        );
+
+        if (rows.length === 0) return null;
+        return this.findOne({ where: { id: rows[0].id } });
+    },
+
+    /**
+     * Claim due jobs of the given types for a worker (highest priority, then oldest first).
+     * FOR UPDATE SKIP LOCKED lets concurrent workers claim disjoint sets of jobs.
+     */
+    async claim(types: string[], workerId: string, limit: number): Promise<Job[]> {
+        if (types.length === 0 || limit <= 0) return [];
+
+        const rows: Array<{ id: string }> = await this.query(
+            `UPDATE "jobs"
+             SET "status" = 'running', "attempts" = "attempts" + 1, "locked_at" = now(), "locked_by" = $1
+             WHERE "id" IN (
+                 SELECT "id" FROM "jobs"
+                 WHERE "status" = 'queued' AND "run_at" <= now() AND "type" = ANY($2)
+                 ORDER BY "priority" DESC, "run_at" ASC
+                 LIMIT $3
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING "id"`,
+            [workerId, types, limit]
+        );
+
+        if (rows.length === 0) return [];
+        return this.find({
+            where: { id: In(rows.map(row => row.id)) },
+            order: { priority: 'DESC', run_at: 'ASC' },
+        });
+    },
+
+    /**
+     * Running jobs whose worker took the lock before the given time (crashed or hung)
+     */
+    async findStaleRunning(lockedBefore: Date): Promise<Job[]> {
+        return this.find({
+            where: { status: 'running', locked_at: LessThan(lockedBefore) },
+        });
+    },
+
+    /**
+     * Delete completed and failed jobs finished before the given time
+     */
+    async deleteFinishedBefore(before: Date): Promise<number> {
+        const result = await this.delete({
+            status: In(['completed', 'failed']),
+            finished_at: LessThan(before),
+        });
+        return result.affected ?? 0;
+    },
+
+    /**
+     * Job counts per type and status
+     */
+    async countByTypeAndStatus(): Promise<Array<{ type: string; status: JobStatus; count: number }>> {
+        const rows: Array<{ type: string; status: JobStatus; count: string }> = await this.createQueryBuilder('job')
+            .select('job.type', 'type')
+            .addSelect('job.status', 'status')
+            .addSelect('COUNT(*)', 'count')
+            .groupBy('job.type')
+            .addGroupBy('job.status')
+            .orderBy('job.type', 'ASC')
+            .getRawMany();
+
+        return rows.map(row => ({ ...row, count: Number(row.count) }));
+    },
+
+    /**
+     * List jobs, newest first
+     */
+    async findWithFilters(filters: JobListFilters, limit = 50, offset = 0): Promise<{ items: Job[]; total: number }> {
+        const [items, total] = await this.findAndCount({
+            where: {
+                ...(filters.type && { type: filters.type }),
+                ...(filters.status && { status: filters.status }),
+            },
+            order: { created_at: 'DESC' },
+            take: limit,
+            skip: offset,
+        });
+        return { items, total };
+    },
+});
@@ -6,6 +6,7 @@ export interface MessagesRepository extends Repository<Message> {
     findRecent(sessionId: string, userId: string, limit?: number): Promise<Message[]>;
     findWithCursor(sessionId: string, userId: string, cursor?: string, limit?: number): Promise<{ items: Message[]; hasMore: boolean; nextCursor: string | null }>;
     countBySession(sessionId: string, userId: string): Promise<number>;
+    findAllBySession(sessionId: string, userId: string): Promise<Message[]>;
 }
 
 export const MessagesRepository = AppDataSource.getRepository(Message).extend({
@@ -65,5 +66,15 @@ export const MessagesRepository = AppDataSource.getRepository(Message).extend({
         return this.count({
             where: { chat_session_id: sessionId, user_id: userId }
         });
+    },
+
+    /**
+     * Get the full conversation of a chat session (oldest first)
+     */
+    async findAllBySession(sessionId: string, userId: string): Promise<Message[]> {
+        return this.find({
+            where: { chat_session_id: sessionId, user_id: userId },
+            order: { created_at: 'ASC' }
+        });
     }
 });
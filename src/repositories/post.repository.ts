@@ -3,6 +3,9 @@ import AppDataSource from '../config/database.config';
 import { Post } from '../entities/post.entity';
 import { PostFilters } from '../types/posts.types';
 
+// Users see posts of the feeds they follow (uf), and posts they bookmarked (up) after unsubscribing
+const POST_ACCESS_CONDITION = '(uf.id IS NOT NULL OR up.bookmarked = true)';
+
 export interface PostRepository extends Repository<Post> {
     findWithUserAccess(id: string, userId: string): Promise<Post | null>;
     findWithExpandedAndUserAccess(id: string, userId: string): Promise<Post | null>;
@@ -13,17 +16,20 @@ export interface PostRepository extends Repository<Post> {
 
 export const PostRepository = AppDataSource.getRepository(Post).extend({
     /**
-     * Find a single post with user access verification via user_feeds
-     * Returns post with user-specific fields (user_read_at, user_bookmarked) mapped
+     * Find a single post with user access verification: the user follows its feed or bookmarked it
+     * Returns post with user-specific fields (user_read_at, user_bookmarked, ...) mapped
      */
     async findWithUserAccess(id: string, userId: string): Promise<Post | null> {
         const result = await this.createQueryBuilder('post')
-            .innerJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
+            .leftJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
             .leftJoinAndSelect('post.feed', 'feed')
             .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId })
             .addSelect('up.read_at', 'user_read_at')
             .addSelect('up.bookmarked', 'user_bookmarked')
+            .addSelect('up.bookmarked_at', 'user_bookmarked_at')
+            .addSelect('up.bookmark_note', 'user_bookmark_note')
             .where('post.id = :id', { id })
+            .andWhere(POST_ACCESS_CONDITION)
             .getRawAndEntities();
 
         if (!result.entities.length) {
@@ -36,23 +42,28 @@ export const PostRepository = AppDataSource.getRepository(Post).extend({
         return {
             ...post,
             user_read_at: raw.user_read_at,
-            user_bookmarked: raw.user_bookmarked
+            user_bookmarked: raw.user_bookmarked,
+            user_bookmarked_at: raw.user_bookmarked_at,
+            user_bookmark_note: raw.user_bookmark_note
         } as Post;
     },
 
     /**
-     * Find a single post with expanded content and user access verification via user_feeds
+     * Find a single post with expanded content and user access verification (followed feed or bookmark)
      * Returns post with expanded relation and user-specific fields mapped
      */
     async findWithExpandedAndUserAccess(id: string, userId: string): Promise<Post | null> {
         const result = await this.createQueryBuilder('post')
-            .innerJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
+            .leftJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
             .leftJoinAndSelect('post.feed', 'feed')
             .leftJoinAndSelect('post.expanded', 'expanded')
             .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId })
             .addSelect('up.read_at', 'user_read_at')
             .addSelect('up.bookmarked', 'user_bookmarked')
+            .addSelect('up.bookmarked_at', 'user_bookmarked_at')
+            .addSelect('up.bookmark_note', 'user_bookmark_note')
             .where('post.id = :id', { id })
+            .andWhere(POST_ACCESS_CONDITION)
             .getRawAndEntities();
 
         if (!result.entities.length) {
@@ -65,7 +76,9 @@ export const PostRepository = AppDataSource.getRepository(Post).extend({
         return {
             ...post,
             user_read_at: raw.user_read_at,
-            user_bookmarked: raw.user_bookmarked
+            user_bookmarked: raw.user_bookmarked,
+            user_bookmarked_at: raw.user_bookmarked_at,
+            user_bookmark_note: raw.user_bookmark_note
         } as Post;
     },
 
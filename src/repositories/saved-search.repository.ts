@@ -0,0 +1,61 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { SavedSearch } from '../entities/saved-search.entity';
+
+export interface SavedSearchRepository extends Repository<SavedSearch> {
+    findByUserId(userId: string): Promise<SavedSearch[]>;
+    findByIdAndUserId(id: string, userId: string): Promise<SavedSearch | null>;
+    findDuplicate(userId: string, name: string): Promise<SavedSearch | null>;
+    removeTagFromFilters(userId: string, tagId: string): Promise<void>;
+}
+
+export const SavedSearchRepository = AppDataSource.getRepository(SavedSearch).extend({
+    /**
+     * Find all saved searches of a user, ordered by name ASC
+     */
+    async findByUserId(userId: string): Promise<SavedSearch[]> {
+        return this.find({
+            where: { user_id: userId },
+            order: { name: 'ASC' }
+        });
+    },
+
+    /**
+     * Find a single saved search by id and user_id
+     */
+    async findByIdAndUserId(id: string, userId: string): Promise<SavedSearch | null> {
+        return this.findOne({
+            where: { id, user_id: userId }
+        });
+    },
+
+    /**
+     * Find a saved search with the same user_id and name (for uniqueness check)
+     */
+    async findDuplicate(userId: string, name: string): Promise<SavedSearch | null> {
+        return this.findOne({
+            where: { user_id: userId, name }
+        });
+    },
+
+    /**
+     * Drop a deleted tag from the tag filters of the user's saved searches.
+     * Searches left with no filter at all (that tag was their only one; sorting and
+     * include_duplicates do not filter) are deleted rather than turned into "every post".
+     */
+    async removeTagFromFilters(userId: string, tagId: string): Promise<void> {
+        await this.query(
+            `DELETE FROM "saved_searches"
+             WHERE "user_id" = $1
+               AND "filters"->'tag_ids' = jsonb_build_array($2::text)
+               AND ("filters" - 'tag_ids' - 'sortBy' - 'sortOrder' - 'include_duplicates') = '{}'::jsonb`,
+            [userId, tagId]
+        );
+        await this.query(
+            `UPDATE "saved_searches"
+             SET "filters" = jsonb_set("filters", '{tag_ids}', ("filters"->'tag_ids') - $2::text), "updated_at" = CURRENT_TIMESTAMP
+             WHERE "user_id" = $1 AND "filters"->'tag_ids' ? $2::text`,
+            [userId, tagId]
+        );
+    }
+});
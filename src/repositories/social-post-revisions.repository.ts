@@ -0,0 +1,42 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { SocialPostRevision } from '../entities/social-post-revision.entity';
+
+export interface SocialPostRevisionsRepository extends Repository<SocialPostRevision> {
+    findByPost(postId: string, userId: string): Promise<SocialPostRevision[]>;
+    findVersion(postId: string, userId: string, version: number): Promise<SocialPostRevision | null>;
+    findLatestVersion(postId: string): Promise<number>;
+}
+
+export const SocialPostRevisionsRepository = AppDataSource.getRepository(SocialPostRevision).extend({
+    /**
+     * Get all revisions of a social post, newest first
+     */
+    async findByPost(postId: string, userId: string): Promise<SocialPostRevision[]> {
+        return this.find({
+            where: { social_post_id: postId, user_id: userId },
+            order: { version: 'DESC' },
+        });
+    },
+
+    /**
+     * Find one revision of a social post by version number
+     */
+    async findVersion(postId: string, userId: string, version: number): Promise<SocialPostRevision | null> {
+        return this.findOne({
+            where: { social_post_id: postId, user_id: userId, version },
+        });
+    },
+
+    /**
+     * Highest version recorded for a social post (0 when it has no history yet)
+     */
+    async findLatestVersion(postId: string): Promise<number> {
+        const result = await this.createQueryBuilder('revision')
+            .select('MAX(revision.version)', 'max')
+            .where('revision.social_post_id = :postId', { postId })
+            .getRawOne<{ max: number | null }>();
+
+        return Number(result?.max ?? 0);
+    },
+});
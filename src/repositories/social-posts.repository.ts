@@ -1,22 +1,38 @@
-import { Repository } from 'typeorm';
+import { Between, In, LessThan, LessThanOrEqual, MoreThanOrEqual, Not, Repository } from 'typeorm';
 import AppDataSource from '../config/database.config';
-import { SocialPost, SocialPlatform, CodeExample, VisualElement } from '../entities/social-post.entity';
+import { SocialPost, SocialPlatform, SocialPostStatus, CodeExample, VisualElement, ThreadPost, FROZEN_SOCIAL_POST_STATUSES } from '../entities/social-post.entity';
+
+export interface SocialPostExportFilters {
+    platform?: string;
+    from?: Date;
+    to?: Date;
+}
 
 export interface SocialPostsRepository extends Repository<SocialPost> {
-    findByChatSession(sessionId: string, userId: string): Promise<SocialPost[]>;
+    findByChatSession(sessionId: string, userId: string, status?: SocialPostStatus): Promise<SocialPost[]>;
     findByIdAndUser(postId: string, userId: string): Promise<SocialPost | null>;
     findBySessionAndUser(postId: string, sessionId: string, userId: string): Promise<SocialPost | null>;
     findBySessionAndPlatform(sessionId: string, userId: string, platform: SocialPlatform): Promise<SocialPost | null>;
-    updateContent(postId: string, userId: string, data: { content: string; image_urls?: string[]; code_examples?: CodeExample[]; visual_elements?: VisualElement[] }, existing: SocialPost): Promise<SocialPost>;
+    updateContent(postId: string, userId: string, data: { content: string; image_urls?: string[]; code_examples?: CodeExample[]; visual_elements?: VisualElement[]; thread?: ThreadPost[] | null }, existing: SocialPost): Promise<SocialPost | null>;
+    findForExport(userId: string, filters: SocialPostExportFilters): Promise<SocialPost[]>;
+    claimDueForPublishing(limit: number): Promise<SocialPost[]>;
+    failStalePublishing(staleBefore: Date): Promise<number>;
+}
+
+function createdAtRange(from?: Date, to?: Date) {
+    if (from && to) return Between(from, to);
+    if (from) return MoreThanOrEqual(from);
+    if (to) return LessThanOrEqual(to);
+    return undefined;
 }
 
 export const SocialPostsRepository = AppDataSource.getRepository(SocialPost).extend({
     /**
      * Get all social posts for a chat session ordered by creation date
      */
-    async findByChatSession(sessionId: string, userId: string): Promise<SocialPost[]> {
+    async findByChatSession(sessionId: string, userId: string, status?: SocialPostStatus): Promise<SocialPost[]> {
         return this.find({
-            where: { chat_session_id: sessionId, user_id: userId },
+            where: { chat_session_id: sessionId, user_id: userId, ...(status && { status }) },
             order: { created_at: 'DESC' },
         });
     },
@@ -49,24 +65,83 @@ export const SocialPostsRepository = AppDataSource.getRepository(SocialPost).ext
     },
 
     /**
-     * Update content and structured fields of a social post
+     * Update content and structured fields of a social post, unless it is (being) published
+     * @returns The updated post, or null when it was not updated (frozen or gone)
      */
     async updateContent(
         postId: string,
         userId: string,
-        data: { content: string; image_urls?: string[]; code_examples?: CodeExample[]; visual_elements?: VisualElement[] },
+        data: { content: string; image_urls?: string[]; code_examples?: CodeExample[]; visual_elements?: VisualElement[]; thread?: ThreadPost[] | null },
         existing: SocialPost
-    ): Promise<SocialPost> {
-        await this.update(
-            { id: postId, user_id: userId },
+    ): Promise<SocialPost | null> {
+        const result = await this.update(
+            { id: postId, user_id: userId, status: Not(In(FROZEN_SOCIAL_POST_STATUSES)) },
             {
                 content: data.content,
                 image_urls: data.image_urls ?? existing.image_urls,
                 code_examples: data.code_examples ?? existing.code_examples,
                 visual_elements: data.visual_elements ?? existing.visual_elements,
+                thread: data.thread !== undefined ? data.thread : existing.thread,
             }
         );
+        if (!result.affected) {
+            return null;
+        }
 
         return (await this.findOne({ where: { id: postId, user_id: userId } }))!;
     },
+
+    /**
+     * Get all social posts of a user across sessions, optionally by platform and creation date range
+     */
+    async findForExport(userId: string, filters: SocialPostExportFilters): Promise<SocialPost[]> {
+        const createdAt = createdAtRange(filters.from, filters.to);
+
+        return this.find({
+            where: {
+                user_id: userId,
+                ...(filters.platform && { platform: filters.platform as SocialPlatform }),
+                ...(createdAt && { created_at: createdAt }),
+            },
+            order: { created_at: 'ASC' },
+        });
+    },
+
+    /**
+     * Atomically move due scheduled posts to "publishing" and count the attempt.
+     * SKIP LOCKED lets concurrent publisher runs claim disjoint posts.
+     */
+    async claimDueForPublishing(limit: number): Promise<SocialPost[]> {
+        const rows: Array<{ id: string }> = await this.query(
+            `UPDATE "social_posts"
+             SET "status" = $1, "publish_attempts" = "publish_attempts" + 1, "publishing_started_at" = now()
+             WHERE "id" IN (
+                 SELECT "id" FROM "social_posts"
+                 WHERE "status" = $2 AND "next_attempt_at" <= now()
+                 ORDER BY "next_attempt_at" ASC
+                 LIMIT $3
+                 FOR UPDATE SKIP LOCKED
+             )
+             RETURNING "id"`,
+            [SocialPostStatus.PUBLISHING, SocialPostStatus.SCHEDULED, limit]
+        );
+
+        if (rows.length === 0) return [];
+        return this.find({
+            where: { id: In(rows.map(row => row.id)) },
+            order: { next_attempt_at: 'ASC' },
+        });
+    },
+
+    /**
+     * Mark posts stuck in "publishing" (publisher crashed mid-run) as failed.
+     * They are not retried automatically: the platform may have received them.
+     */
+    async failStalePublishing(staleBefore: Date): Promise<number> {
+        const result = await this.update(
+            { status: SocialPostStatus.PUBLISHING, publishing_started_at: LessThan(staleBefore) },
+            { status: SocialPostStatus.FAILED, next_attempt_at: null, publishing_started_at: null, last_publish_error: 'Publishing was interrupted before completion' }
+        );
+        return result.affected ?? 0;
+    },
 });
@@ -0,0 +1,59 @@
+import { In, Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { Tag } from '../entities/tag.entity';
+
+export interface TagRepository extends Repository<Tag> {
+    findByUserIdWithCounts(userId: string): Promise<Array<Tag & { post_count: number }>>;
+    findByIdAndUserId(id: string, userId: string): Promise<Tag | null>;
+    findByIdsAndUserId(ids: string[], userId: string): Promise<Tag[]>;
+    findDuplicate(userId: string, name: string): Promise<Tag | null>;
+}
+
+export const TagRepository = AppDataSource.getRepository(Tag).extend({
+    /**
+     * Find all tags of a user ordered by name, with the number of posts carrying each
+     */
+    async findByUserIdWithCounts(userId: string): Promise<Array<Tag & { post_count: number }>> {
+        const result = await this.createQueryBuilder('tag')
+            .addSelect('(SELECT COUNT(*) FROM post_tags pt WHERE pt.tag_id = tag.id)', 'post_count')
+            .where('tag.user_id = :userId', { userId })
+            .orderBy('tag.name', 'ASC')
+            .getRawAndEntities();
+
+        return result.entities.map((tag, index) => ({
+            ...tag,
+            post_count: Number(result.raw[index].post_count)
+        }) as Tag & { post_count: number });
+    },
+
+    /**
+     * Find a single tag by id and user_id
+     */
+    async findByIdAndUserId(id: string, userId: string): Promise<Tag | null> {
+        return this.findOne({
+            where: { id, user_id: userId }
+        });
+    },
+
+    /**
+     * Find the tags among the given ids that belong to the user
+     */
+    async findByIdsAndUserId(ids: string[], userId: string): Promise<Tag[]> {
+        if (ids.length === 0) return [];
+
+        return this.find({
+            where: { id: In(ids), user_id: userId },
+            order: { name: 'ASC' }
+        });
+    },
+
+    /**
+     * Find a tag with the same user_id and name, ignoring case (for uniqueness check)
+     */
+    async findDuplicate(userId: string, name: string): Promise<Tag | null> {
+        return this.createQueryBuilder('tag')
+            .where('tag.user_id = :userId', { userId })
+            .andWhere('LOWER(tag.name) = LOWER(:name)', { name })
+            .getOne();
+    }
+});
@@ -0,0 +1,35 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/database.config';
+import { WebSubSubscription } from '../entities/websub-subscription.entity';
+
+export interface WebSubSubscriptionsRepository extends Repository<WebSubSubscription> {
+    findByFeed(feedId: string): Promise<WebSubSubscription | null>;
+    findDueForRenewal(renewBefore: Date, retryBefore: Date, limit?: number): Promise<WebSubSubscription[]>;
+}
+
+export const WebSubSubscriptionsRepository = AppDataSource.getRepository(WebSubSubscription).extend({
+    /**
+     * Find the WebSub subscription of a feed
+     */
+    async findByFeed(feedId: string): Promise<WebSubSubscription | null> {
+        return this.findOne({ where: { feed_id: feedId } });
+    },
+
+    /**
+     * Subscriptions that need a new hub request (with their feed): active leases expiring
+     * before `renewBefore`, and pending/failed/unsubscribing requests last sent before `retryBefore`
+     */
+    async findDueForRenewal(renewBefore: Date, retryBefore: Date, limit = 100): Promise<WebSubSubscription[]> {
+        return this.createQueryBuilder('subscription')
+            .innerJoinAndSelect('subscription.feed', 'feed')
+            .where(
+                `(subscription.status = 'active' AND subscription.lease_expires_at < :renewBefore)
+                OR (subscription.status IN ('pending', 'failed', 'unsubscribing')
+                    AND (subscription.requested_at IS NULL OR subscription.requested_at < :retryBefore))`,
+                { renewBefore, retryBefore }
+            )
+            .orderBy('subscription.lease_expires_at', 'ASC', 'NULLS FIRST')
+            .limit(limit)
+            .getMany();
+    }
+});
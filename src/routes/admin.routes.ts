@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import { AdminCrawlerController } from '../controllers/admin-crawler.controller';
+import { AdminFeedsController } from '../controllers/admin-feeds.controller';
+import { AdminJobsController } from '../controllers/admin-jobs.controller';
+import { JOB_STATUSES } from '../entities/job.entity';
+import { adminMiddleware } from '../middleware/admin.middleware';
+import { commonValidation, validate } from '../middleware/validation.middleware';
+
+const intervalValidation = (field: string) =>
+    body(field)
+        .optional({ values: 'undefined' })
+        .custom(value => value === null || (Number.isInteger(value) && value >= 1))
+        .withMessage(`${field} must be a positive integer (minutes) or null`);
+
+export function createAdminRouter(): Router {
+    const router = Router();
+    const crawlerController = new AdminCrawlerController();
+    const feedsController = new AdminFeedsController();
+    const jobsController = new AdminJobsController();
+
+    router.use(adminMiddleware);
+
+    // GET /feeds/:feedId/schedule - Fetch schedule of a feed
+    router.get(
+        '/feeds/:feedId/schedule',
+        validate(commonValidation.id('feedId')),
+        feedsController.getSchedule.bind(feedsController)
+    );
+
+    // PATCH /feeds/:feedId/schedule - Override fetch interval bounds
+    router.patch(
+        '/feeds/:feedId/schedule',
+        validate([
+            ...commonValidation.id('feedId'),
+            intervalValidation('min_fetch_interval_minutes'),
+            intervalValidation('max_fetch_interval_minutes')
+        ]),
+        feedsController.updateSchedule.bind(feedsController)
+    );
+
+    // GET /feeds/:feedId/expansion - Eager expansion settings of a feed
+    router.get(
+        '/feeds/:feedId/expansion',
+        validate(commonValidation.id('feedId')),
+        feedsController.getExpansion.bind(feedsController)
+    );
+
+    // PATCH /feeds/:feedId/expansion - Turn eager expansion on or off
+    router.patch(
+        '/feeds/:feedId/expansion',
+        validate([
+            ...commonValidation.id('feedId'),
+            body('always_expand').isBoolean({ strict: true }).withMessage('always_expand must be a boolean')
+        ]),
+        feedsController.updateExpansion.bind(feedsController)
+    );
+
+    // GET /jobs - List background jobs
+    router.get(
+        '/jobs',
+        validate([
+            query('type').optional().isString().trim().notEmpty().withMessage('type must be a non-empty string'),
+            query('status').optional().isIn(JOB_STATUSES).withMessage(`status must be one of: ${JOB_STATUSES.join(', ')}`),
+            query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100').toInt(),
+            query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer').toInt()
+        ]),
+        jobsController.index.bind(jobsController)
+    );
+
+    // GET /jobs/stats - Job counts per type and status
+    router.get(
+        '/jobs/stats',
+        jobsController.stats.bind(jobsController)
+    );
+
+    // GET /jobs/:jobId - Get a job
+    router.get(
+        '/jobs/:jobId',
+        validate(commonValidation.id('jobId')),
+        jobsController.show.bind(jobsController)
+    );
+
+    // POST /jobs/:jobId/retry - Requeue a failed job
+    router.post(
+        '/jobs/:jobId/retry',
+        validate(commonValidation.id('jobId')),
+        jobsController.retry.bind(jobsController)
+    );
+
+    // GET /crawler/metrics - Per-host politeness metrics
+    router.get(
+        '/crawler/metrics',
+        crawlerController.metrics.bind(crawlerController)
+    );
+
+    return router;
+}
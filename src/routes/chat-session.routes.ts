@@ -1,13 +1,16 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
 import { ChatSessionController } from '../controllers/chat-session.controller';
+import { ExportController } from '../controllers/export.controller';
 import { commonValidation, validate } from '../middleware/validation.middleware';
+import { exportFormatValidation } from './exports.routes';
 import { createMessagesRouter } from './messages.routes';
 import { createSocialPostsRouter } from './social-posts.routes';
 
 export function createChatSessionRouter(): Router {
     const router = Router();
     const controller = new ChatSessionController();
+    const exportController = new ExportController();
 
     // Chat session CRUD
     router.post(
@@ -31,6 +34,12 @@ export function createChatSessionRouter(): Router {
         controller.show.bind(controller)
     );
 
+    router.delete(
+        '/:id',
+        validate(commonValidation.id()),
+        controller.destroy.bind(controller)
+    );
+
     // Favorite toggle endpoint
     router.patch(
         '/:id/favorite',
@@ -38,6 +47,26 @@ export function createChatSessionRouter(): Router {
         controller.toggleFavorite.bind(controller)
     );
 
+    // Persisted graph state (checkpoints) of the chat flow
+    router.get(
+        '/:id/state',
+        validate(commonValidation.id()),
+        controller.state.bind(controller)
+    );
+
+    router.delete(
+        '/:id/state',
+        validate(commonValidation.id()),
+        controller.resetState.bind(controller)
+    );
+
+    // Download the session as Markdown, JSON or HTML
+    router.get(
+        '/:id/export',
+        validate([...commonValidation.id(), exportFormatValidation()]),
+        exportController.chatSession.bind(exportController)
+    );
+
     // Mount sub-resource routers
     router.use('/:sessionId/messages', createMessagesRouter());
     router.use('/:sessionId/social-posts', createSocialPostsRouter());
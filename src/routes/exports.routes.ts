@@ -0,0 +1,35 @@
+import { Router } from 'express';
+import { query } from 'express-validator';
+import { ExportController } from '../controllers/export.controller';
+import { validate } from '../middleware/validation.middleware';
+import { EXPORT_FORMATS } from '../services/export';
+
+/**
+ * Validation of the `format` query shared by every export endpoint
+ */
+export const exportFormatValidation = () =>
+    query('format').optional().isIn(EXPORT_FORMATS).withMessage(`Format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+
+export function createExportsRouter(): Router {
+    const router = Router();
+    const controller = new ExportController();
+
+    router.get(
+        '/social-posts',
+        validate([
+            exportFormatValidation(),
+            query('platform').optional().isString().trim().notEmpty().withMessage('Platform must be a non-empty string'),
+            query('from').optional().isISO8601().withMessage('from must be an ISO 8601 date'),
+            query('to').optional().isISO8601().withMessage('to must be an ISO 8601 date')
+        ]),
+        controller.socialPostsArchive.bind(controller)
+    );
+
+    router.get(
+        '/highlights',
+        validate([exportFormatValidation()]),
+        controller.highlights.bind(controller)
+    );
+
+    return router;
+}
@@ -1,4 +1,4 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
 import { body, query, param } from 'express-validator';
 import { FeedsController } from '../controllers/feeds.controller';
 import { commonValidation, validate } from '../middleware/validation.middleware';
@@ -121,6 +121,53 @@ export function createFeedsRouter(): Router {
         feedsController.getUserSubscriptions.bind(feedsController)
     );
 
+    // POST /import - Import subscriptions from an OPML file (raw XML body or JSON { opml })
+    router.post(
+        '/import',
+        express.text({ type: ['text/xml', 'application/xml', 'text/x-opml'], limit: '5mb' }),
+        feedsController.importOpml.bind(feedsController)
+    );
+
+    // GET /export - Export subscriptions as OPML
+    router.get(
+        '/export',
+        feedsController.exportOpml.bind(feedsController)
+    );
+
+    // GET /health - Health of subscribed feeds
+    router.get(
+        '/health',
+        validate([
+            query('days')
+                .optional()
+                .isInt({ min: 1, max: 30 })
+                .withMessage('days must be between 1 and 30')
+                .toInt()
+        ]),
+        feedsController.getFeedsHealth.bind(feedsController)
+    );
+
+    // GET /:feedId/health - Health of a subscribed feed
+    router.get(
+        '/:feedId/health',
+        validate([
+            ...commonValidation.id('feedId'),
+            query('days')
+                .optional()
+                .isInt({ min: 1, max: 30 })
+                .withMessage('days must be between 1 and 30')
+                .toInt()
+        ]),
+        feedsController.getFeedHealth.bind(feedsController)
+    );
+
+    // POST /:feedId/reactivate - Put a failing or inactive feed back into rotation
+    router.post(
+        '/:feedId/reactivate',
+        validate(commonValidation.id('feedId')),
+        feedsController.reactivateFeed.bind(feedsController)
+    );
+
     // DELETE /subscriptions/:feedId - Unsubscribe from feed
     router.delete(
         '/subscriptions/:feedId',
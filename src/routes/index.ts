@@ -4,23 +4,36 @@ import { authMiddleware } from '../middleware/auth.middleware';
 import { apiLimiter } from '../middleware/rateLimit.middleware';
 import { createChatSessionRouter } from './chat-session.routes';
 import { createPostsRouter } from './posts.routes';
+import { createTagRouter } from './tag.routes';
+import { createSavedSearchRouter } from './saved-search.routes';
 import { createSettingsRouter } from './settings.routes';
 import { createCategoryRouter } from './category.routes';
 import { createFeedsRouter } from './feeds.routes';
+import { createExportsRouter } from './exports.routes';
+import { createWebSubRouter } from './websub.routes';
+import { createAdminRouter } from './admin.routes';
 
 export function createRouter(): Router {
     const router = Router();
 
     // Apply global middleware
     router.use('/', apiLimiter);
+
+    // Public routes (called by external services, authenticated on their own)
+    router.use('/websub', createWebSubRouter());
+
     router.use('/', authMiddleware);
 
     // Mount feature routers
     router.use('/posts', createPostsRouter());
+    router.use('/tags', createTagRouter());
+    router.use('/saved-searches', createSavedSearchRouter());
     router.use('/settings', createSettingsRouter());
     router.use('/chat-sessions', createChatSessionRouter());
     router.use('/categories', createCategoryRouter());
     router.use('/feeds', createFeedsRouter());
+    router.use('/exports', createExportsRouter());
+    router.use('/admin', createAdminRouter());
 
     return router;
 }
\ No newline at end of file
@@ -1,11 +1,24 @@
 import { Router } from 'express';
 import { body, query } from 'express-validator';
+import { HighlightController } from '../controllers/highlight.controller';
 import { PostsController } from '../controllers/posts.controller';
+import { HIGHLIGHT_COLORS, HIGHLIGHT_NOTE_MAX_LENGTH, HIGHLIGHT_QUOTE_MAX_LENGTH } from '../entities/highlight.entity';
+import { BOOKMARK_NOTE_MAX_LENGTH } from '../entities/user-post.entity';
 import { validate, commonValidation } from '../middleware/validation.middleware';
 
 export function createPostsRouter(): Router {
   const router = Router();
   const postsController = new PostsController();
+  const highlightController = new HighlightController();
+
+  const highlightNoteValidation = () =>
+    body('note')
+      .optional({ values: 'null' })
+      .isString()
+      .isLength({ max: HIGHLIGHT_NOTE_MAX_LENGTH })
+      .withMessage(`note must be a string of at most ${HIGHLIGHT_NOTE_MAX_LENGTH} characters`);
+  const highlightColorValidation = () =>
+    body('color').optional().isIn(HIGHLIGHT_COLORS).withMessage(`color must be one of: ${HIGHLIGHT_COLORS.join(', ')}`);
 
   // DEPRECATED: Sources endpoint has been deprecated in favor of feed subscriptions
   // Use /api/v1/feeds/subscriptions instead
@@ -20,15 +33,35 @@ export function createPostsRouter(): Router {
     validate([
       ...commonValidation.pagination,
       ...commonValidation.search,
+      ...commonValidation.postFilters,
       body('read').optional().isBoolean(),
       body('link_id').optional().isUUID(),
       body('source').optional().isString().trim(),
       query('feed_id').optional().isUUID().withMessage('feed_id must be a valid UUID'),
-      query('category_id').optional().isUUID().withMessage('category_id must be a valid UUID')
+      query('category_id').optional().isUUID().withMessage('category_id must be a valid UUID'),
+      query('include_duplicates').optional().isBoolean().withMessage('include_duplicates must be a boolean'),
+      query('bookmarked').optional().isBoolean().withMessage('bookmarked must be a boolean')
     ]),
     postsController.index.bind(postsController)
   );
 
+  // REST API: GET /posts/bookmarks - Bookmarked posts, most recently bookmarked first (before /:id)
+  router.get(
+    '/bookmarks',
+    validate(commonValidation.pagination),
+    postsController.bookmarks.bind(postsController)
+  );
+
+  // REST API: GET /posts/semantic-search - Posts closest in meaning to a query (before /:id)
+  router.get(
+    '/semantic-search',
+    validate([
+      ...commonValidation.pagination,
+      query('q').isString().trim().isLength({ min: 1, max: 500 }).withMessage('q must be between 1 and 500 characters')
+    ]),
+    postsController.semanticSearch.bind(postsController)
+  );
+
   // REST API: GET /posts/:id - Get a specific post with expanded content
   router.get(
     '/:id',
@@ -36,6 +69,89 @@ export function createPostsRouter(): Router {
     postsController.show.bind(postsController)
   );
 
+  // REST API: GET /posts/:id/sources - Copies of the post's article from other feeds
+  router.get(
+    '/:id/sources',
+    validate(commonValidation.id()),
+    postsController.sources.bind(postsController)
+  );
+
+  // REST API: GET /posts/:id/related - Posts closest in meaning to a post
+  router.get(
+    '/:id/related',
+    validate([
+      ...commonValidation.id(),
+      query('limit').optional().isInt({ min: 1, max: 20 }).withMessage('limit must be between 1 and 20').toInt()
+    ]),
+    postsController.related.bind(postsController)
+  );
+
+  // REST API: PUT /posts/:id/tags - Replace the user's tags on a post
+  router.put(
+    '/:id/tags',
+    validate([
+      ...commonValidation.id(),
+      body('tag_ids').isArray({ max: 20 }).withMessage('tag_ids must be an array of at most 20 tags'),
+      body('tag_ids.*').isUUID().withMessage('Each tag ID must be a valid UUID')
+    ]),
+    postsController.tags.bind(postsController)
+  );
+
+  // REST API: GET /posts/:id/highlights - The user's highlights on the post, re-anchored in the current content
+  router.get(
+    '/:id/highlights',
+    validate(commonValidation.id()),
+    highlightController.index.bind(highlightController)
+  );
+
+  // REST API: POST /posts/:id/highlights - Highlight a passage of the expanded content
+  router.post(
+    '/:id/highlights',
+    validate([
+      ...commonValidation.id(),
+      body('quote_exact')
+        .isString()
+        .trim()
+        .isLength({ min: 1, max: HIGHLIGHT_QUOTE_MAX_LENGTH })
+        .withMessage(`quote_exact must be between 1 and ${HIGHLIGHT_QUOTE_MAX_LENGTH} characters`),
+      body(['quote_prefix', 'quote_suffix'])
+        .optional()
+        .isString()
+        .isLength({ max: 200 })
+        .withMessage('Quote context must be a string of at most 200 characters'),
+      body('position_start').optional().isInt({ min: 0 }).withMessage('position_start must be a non-negative integer').toInt(),
+      body('position_end')
+        .optional()
+        .isInt({ min: 0 })
+        .withMessage('position_end must be a non-negative integer')
+        .toInt()
+        .custom((end: number, { req }) => req.body.position_start === undefined || end >= Number(req.body.position_start))
+        .withMessage('position_end must not be before position_start'),
+      highlightNoteValidation(),
+      highlightColorValidation()
+    ]),
+    highlightController.create.bind(highlightController)
+  );
+
+  // REST API: PUT /posts/:id/highlights/:highlightId - Change the note or color of a highlight
+  router.put(
+    '/:id/highlights/:highlightId',
+    validate([
+      ...commonValidation.id(),
+      ...commonValidation.id('highlightId'),
+      highlightNoteValidation(),
+      highlightColorValidation()
+    ]),
+    highlightController.update.bind(highlightController)
+  );
+
+  // REST API: DELETE /posts/:id/highlights/:highlightId - Delete a highlight
+  router.delete(
+    '/:id/highlights/:highlightId',
+    validate([...commonValidation.id(), ...commonValidation.id('highlightId')]),
+    highlightController.destroy.bind(highlightController)
+  );
+
   // REST API: PATCH /posts/:id/read - Mark post as read (resource state change)
   router.patch(
     '/:id/read',
@@ -43,6 +159,21 @@ export function createPostsRouter(): Router {
     postsController.read.bind(postsController)
   );
 
+  // REST API: PATCH /posts/:id/bookmark - Bookmark a post (or remove the bookmark), with an optional note
+  router.patch(
+    '/:id/bookmark',
+    validate([
+      ...commonValidation.id(),
+      body('bookmarked').isBoolean({ strict: true }).withMessage('bookmarked must be a boolean'),
+      body('note')
+        .optional({ values: 'null' })
+        .isString()
+        .isLength({ max: BOOKMARK_NOTE_MAX_LENGTH })
+        .withMessage(`note must be a string of at most ${BOOKMARK_NOTE_MAX_LENGTH} characters`)
+    ]),
+    postsController.bookmark.bind(postsController)
+  );
+
   // REST API: GET /posts/:id/discuss - Start discussion with AI (triggers content prep + chat session)
   router.get(
     '/:id/discuss',
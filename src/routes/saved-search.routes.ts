@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import { body, ValidationChain } from 'express-validator';
+import { SavedSearchController } from '../controllers/saved-search.controller';
+import { commonValidation, validate } from '../middleware/validation.middleware';
+
+/**
+ * Validation of the saved post filters (body.filters), the same filters GET /posts accepts
+ */
+function filtersValidation(): ValidationChain[] {
+    return [
+        body('filters.search').optional().isString().trim().isLength({ max: 500 }).withMessage('filters.search must be at most 500 characters'),
+        body('filters.feed_id').optional().isUUID().withMessage('filters.feed_id must be a valid UUID'),
+        body('filters.category_id').optional().isUUID().withMessage('filters.category_id must be a valid UUID'),
+        body('filters.read').optional().isBoolean({ strict: true }).withMessage('filters.read must be a boolean'),
+        body('filters.bookmarked').optional().isBoolean({ strict: true }).withMessage('filters.bookmarked must be a boolean'),
+        body('filters.include_duplicates').optional().isBoolean({ strict: true }).withMessage('filters.include_duplicates must be a boolean'),
+        body('filters.tag_ids').optional().isArray({ max: 20 }).withMessage('filters.tag_ids must be an array of at most 20 tags'),
+        body('filters.tag_ids.*').isUUID().withMessage('Each tag ID must be a valid UUID'),
+        body('filters.date_from').optional().isISO8601().withMessage('filters.date_from must be a valid ISO 8601 date'),
+        body('filters.date_to').optional().isISO8601().withMessage('filters.date_to must be a valid ISO 8601 date'),
+        body('filters.sortBy')
+            .optional()
+            .isIn(['added_date', 'published_date', 'relevance'])
+            .withMessage('Invalid sort field'),
+        body('filters.sortOrder')
+            .optional()
+            .isIn(['ASC', 'DESC'])
+            .withMessage('Sort order must be ASC or DESC')
+    ];
+}
+
+export function createSavedSearchRouter(): Router {
+    const router = Router();
+    const savedSearchController = new SavedSearchController();
+
+    // POST /saved-searches - Create saved search
+    router.post(
+        '/',
+        validate([
+            body('name')
+                .isString()
+                .trim()
+                .isLength({ min: 1, max: 100 })
+                .withMessage('Saved search name must be between 1 and 100 characters'),
+            body('filters')
+                .isObject()
+                .withMessage('filters must be an object'),
+            ...filtersValidation()
+        ]),
+        savedSearchController.create.bind(savedSearchController)
+    );
+
+    // GET /saved-searches - Get all saved searches with unread counts
+    router.get(
+        '/',
+        savedSearchController.index.bind(savedSearchController)
+    );
+
+    // GET /saved-searches/:id - Get specific saved search
+    router.get(
+        '/:id',
+        validate(commonValidation.id()),
+        savedSearchController.show.bind(savedSearchController)
+    );
+
+    // GET /saved-searches/:id/posts - Posts matching the saved search
+    router.get(
+        '/:id/posts',
+        validate([
+            ...commonValidation.id(),
+            ...commonValidation.pagination
+        ]),
+        savedSearchController.posts.bind(savedSearchController)
+    );
+
+    // PUT /saved-searches/:id - Rename saved search or replace its filters
+    router.put(
+        '/:id',
+        validate([
+            ...commonValidation.id(),
+            body('name')
+                .optional()
+                .isString()
+                .trim()
+                .isLength({ min: 1, max: 100 })
+                .withMessage('Saved search name must be between 1 and 100 characters'),
+            body('filters')
+                .optional()
+                .isObject()
+                .withMessage('filters must be an object'),
+            ...filtersValidation()
+        ]),
+        savedSearchController.update.bind(savedSearchController)
+    );
+
+    // DELETE /saved-searches/:id - Delete saved search
+    router.delete(
+        '/:id',
+        validate(commonValidation.id()),
+        savedSearchController.destroy.bind(savedSearchController)
+    );
+
+    return router;
+}
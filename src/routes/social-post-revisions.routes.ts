@@ -0,0 +1,45 @@
+import { Router } from 'express';
+import { param, query } from 'express-validator';
+import { SocialPostRevisionsController } from '../controllers/social-post-revisions.controller';
+import { commonValidation, validate } from '../middleware/validation.middleware';
+
+export function createSocialPostRevisionsRouter(): Router {
+    const router = Router({ mergeParams: true });
+    const controller = new SocialPostRevisionsController();
+
+    const postParams = () => [
+        ...commonValidation.id('sessionId'),
+        ...commonValidation.id('postId')
+    ];
+    const versionParam = () => param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer');
+
+    router.get(
+        '/',
+        validate(postParams()),
+        controller.index.bind(controller)
+    );
+
+    router.get(
+        '/:version',
+        validate([...postParams(), versionParam()]),
+        controller.show.bind(controller)
+    );
+
+    router.get(
+        '/:version/diff',
+        validate([
+            ...postParams(),
+            versionParam(),
+            query('against').optional().isInt({ min: 1 }).withMessage('Against must be a positive integer')
+        ]),
+        controller.diff.bind(controller)
+    );
+
+    router.post(
+        '/:version/revert',
+        validate([...postParams(), versionParam()]),
+        controller.revert.bind(controller)
+    );
+
+    return router;
+}
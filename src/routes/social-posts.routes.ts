@@ -1,26 +1,45 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
+import { SocialPostStatus } from '../entities/social-post.entity';
+import { ExportController } from '../controllers/export.controller';
 import { SocialPostsController } from '../controllers/social-posts.controller';
 import { commonValidation, validate } from '../middleware/validation.middleware';
+import { exportFormatValidation } from './exports.routes';
+import { createSocialPostRevisionsRouter } from './social-post-revisions.routes';
 
 export function createSocialPostsRouter(): Router {
     const router = Router({ mergeParams: true });
     const controller = new SocialPostsController();
+    const exportController = new ExportController();
 
     router.get(
         '/',
         validate([
             ...commonValidation.id('sessionId'),
+            query('status').optional().isIn(Object.values(SocialPostStatus)).withMessage('Invalid status'),
         ]),
         controller.index.bind(controller)
     );
 
+    router.get(
+        '/export',
+        validate([
+            ...commonValidation.id('sessionId'),
+            exportFormatValidation()
+        ]),
+        exportController.sessionSocialPosts.bind(exportController)
+    );
+
     router.put(
         '/:postId',
         validate([
             ...commonValidation.id('sessionId'),
             ...commonValidation.id('postId'),
-            body('content').isString().trim().notEmpty().withMessage('Content is required'),
+            body('content').if(body('thread').not().exists()).isString().trim().notEmpty().withMessage('Content is required'),
+            body('content').optional().isString().withMessage('Content must be a string'),
+            body('thread').optional().isArray({ min: 1 }).withMessage('Thread must be a non-empty array'),
+            body('thread.*').optional().isString().trim().notEmpty().withMessage('Each thread post must be a non-empty string'),
+            body('resplit').optional().isBoolean({ strict: true }).withMessage('Resplit must be a boolean'),
             body('image_urls').optional().isArray().withMessage('Image URLs must be an array'),
             body('image_urls.*').optional().isURL().withMessage('Each image URL must be valid'),
             body('code_examples').optional().isArray().withMessage('Code examples must be an array'),
@@ -44,5 +63,35 @@ export function createSocialPostsRouter(): Router {
         controller.destroy.bind(controller)
     );
 
+    router.post(
+        '/:postId/schedule',
+        validate([
+            ...commonValidation.id('sessionId'),
+            ...commonValidation.id('postId'),
+            body('scheduled_at').isISO8601().withMessage('scheduled_at must be an ISO 8601 date-time')
+        ]),
+        controller.schedule.bind(controller)
+    );
+
+    router.delete(
+        '/:postId/schedule',
+        validate([
+            ...commonValidation.id('sessionId'),
+            ...commonValidation.id('postId')
+        ]),
+        controller.unschedule.bind(controller)
+    );
+
+    router.post(
+        '/:postId/publish',
+        validate([
+            ...commonValidation.id('sessionId'),
+            ...commonValidation.id('postId')
+        ]),
+        controller.publish.bind(controller)
+    );
+
+    router.use('/:postId/revisions', createSocialPostRevisionsRouter());
+
     return router;
 }
@@ -0,0 +1,52 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { TagController } from '../controllers/tag.controller';
+import { commonValidation, validate } from '../middleware/validation.middleware';
+
+export function createTagRouter(): Router {
+    const router = Router();
+    const tagController = new TagController();
+
+    // POST /tags - Create new tag
+    router.post(
+        '/',
+        validate([
+            body('name')
+                .isString()
+                .trim()
+                .isLength({ min: 1, max: 50 })
+                .withMessage('Tag name must be between 1 and 50 characters')
+        ]),
+        tagController.create.bind(tagController)
+    );
+
+    // GET /tags - Get all user tags with post counts
+    router.get(
+        '/',
+        tagController.index.bind(tagController)
+    );
+
+    // PUT /tags/:id - Rename tag
+    router.put(
+        '/:id',
+        validate([
+            ...commonValidation.id(),
+            body('name')
+                .optional()
+                .isString()
+                .trim()
+                .isLength({ min: 1, max: 50 })
+                .withMessage('Tag name must be between 1 and 50 characters')
+        ]),
+        tagController.update.bind(tagController)
+    );
+
+    // DELETE /tags/:id - Delete tag (removes it from posts and saved searches)
+    router.delete(
+        '/:id',
+        validate(commonValidation.id()),
+        tagController.destroy.bind(tagController)
+    );
+
+    return router;
+}
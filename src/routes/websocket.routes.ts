@@ -26,6 +26,11 @@ export const socketRoutes: Record<string, SocketRoute> = {
                 required: true,
                 minLength: 1,
                 maxLength: 10000
+            },
+            {
+                field: 'focusHighlights',
+                type: 'boolean',
+                required: false
             }
         ]
     },
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { WebSubController } from '../controllers/websub.controller';
+import { commonValidation, validate } from '../middleware/validation.middleware';
+
+/**
+ * Public WebSub callback routes (mounted before authentication).
+ * POST bodies arrive as raw Buffers, see the raw body parser in app.ts.
+ */
+export function createWebSubRouter(): Router {
+    const router = Router();
+    const controller = new WebSubController();
+
+    // GET /callback/:subscriptionId - Hub verification of intent
+    router.get(
+        '/callback/:subscriptionId',
+        validate(commonValidation.id('subscriptionId')),
+        controller.verify.bind(controller)
+    );
+
+    // POST /callback/:subscriptionId - Content pushed by the hub
+    router.post(
+        '/callback/:subscriptionId',
+        validate(commonValidation.id('subscriptionId')),
+        controller.notify.bind(controller)
+    );
+
+    return router;
+}
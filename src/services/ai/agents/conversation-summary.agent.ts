@@ -1,10 +1,11 @@
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
 import { Message } from "../../../entities";
 import { createDebugCallback } from '../../../utils/debug-callback';
 import { logger } from "../../../utils/logger";
+import { createChatModel, ModelPreferences } from '../models';
 
 
 // Static system message (cacheable)
@@ -36,7 +37,8 @@ const SYSTEM_MESSAGE = `You are an expert conversation analyst specialized in cr
 - Focus on actionable insights for future interactions`;
 
 interface ConversationSummaryOptions {
-    model?: ChatOpenAI;
+    model?: BaseChatModel;
+    modelPreferences?: ModelPreferences;
     messages: Message[];
     existingSummary: string;
     postSummary?: string;
@@ -44,7 +46,8 @@ interface ConversationSummaryOptions {
 
 export async function generateConversationSummary(options: ConversationSummaryOptions): Promise<string> {
     const {
-        model = new ChatOpenAI({ model: 'mistral:7b', temperature: 0.5 }),
+        modelPreferences,
+        model = createChatModel('summary', modelPreferences),
         messages,
         existingSummary,
         postSummary
@@ -1,13 +1,14 @@
 import { BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 import { createDebugCallback } from '../../../utils/debug-callback';
 import { logger } from '../../../utils/logger';
+import { createChatModel, ModelPreferences } from '../models';
 
 type IsFullContentOptions = {
     title: string;
     content: string;
+    modelPreferences?: ModelPreferences;
 };
 
 type IsFullContentResult = {
@@ -52,7 +53,7 @@ const responseSchema = z.object({
 });
 
 export default async function fullContentCheck(options: IsFullContentOptions): Promise<IsFullContentResult> {
-    const { title, content } = options;
+    const { title, content, modelPreferences } = options;
 
     if (!content || content.trim().length === 0) {
         return {
@@ -75,10 +76,7 @@ export default async function fullContentCheck(options: IsFullContentOptions): P
     try {
         logger.info('[AI: FullContentAgent] Evaluating content completeness with AI');
 
-        const model = new ChatOpenAI({
-            model: 'gpt-5-mini',
-            openAIApiKey: process.env.OPENAI_API_KEY
-        });
+        const model = createChatModel('content-check', modelPreferences);
 
         const messages = buildMessagesArray(title, content);
         const prompt = ChatPromptTemplate.fromMessages(messages);
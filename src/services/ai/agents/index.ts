@@ -7,3 +7,4 @@ export { default as socialPostCreateAgent } from './social-post-create.agent';
 export { default as socialPostEditAgent } from './social-post-edit.agent';
 export { default as socialPostSelectorAgent } from './social-post-selector.agent';
 
+export * from './types';
@@ -1,9 +1,10 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
+import { createChatModel } from '../models';
+import { AgentRunOptions } from './types';
 
 // Enhanced input schema with better context
 const IntentRouterInput = z.object({
@@ -56,15 +57,9 @@ Output (STRICT JSON):
   "reasoning": string
 }`;
 
-export default async function intentAgent(options: z.infer<typeof IntentRouterInput>): Promise<z.infer<typeof IntentRouterOutput>> {
+export default async function intentAgent(options: z.infer<typeof IntentRouterInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof IntentRouterOutput>> {
     // Initialize model
-    const model = new ChatOpenAI({
-        model: 'gpt-5-mini',
-        reasoning: {
-            effort: "low"
-        },
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+    const model = createChatModel('intent', modelPreferences);
 
     // Create agent
     const agent = createAgent({
@@ -76,9 +71,8 @@ export default async function intentAgent(options: z.infer<typeof IntentRouterIn
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('intent-router')
-        ]
+        callbacks: withDebugCallback('intent-router', callbacks),
+        signal
     });
 
 
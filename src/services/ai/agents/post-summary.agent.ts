@@ -1,12 +1,13 @@
 import { BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { StringOutputParser } from "@langchain/core/output_parsers";
 import { ChatPromptTemplate } from '@langchain/core/prompts';
-import { ChatOpenAI } from '@langchain/openai';
 import { createDebugCallback } from '../../../utils/debug-callback';
 import { logger } from "../../../utils/logger";
+import { createChatModel, ModelPreferences } from '../models';
 
 type SummarizeOptions = {
     postContent: string;
+    modelPreferences?: ModelPreferences;
 }
 
 // Static system message (cacheable)
@@ -38,9 +39,9 @@ const SYSTEM_MESSAGE = `You are an expert content analyst specialized in summari
 - Structure information for easy AI comprehension`;
 
 async function postSummaryAgent(options: SummarizeOptions): Promise<string> {
-    const model = new ChatOpenAI({ model: 'gpt-4.1-mini', temperature: 0.7, openAIApiKey: process.env.OPENAI_API_KEY })
+    const { postContent, modelPreferences } = options;
 
-    const { postContent } = options;
+    const model = createChatModel('summary', modelPreferences);
 
     if (!postContent || postContent.trim().length === 0) {
         logger.warn('Empty post content provided for summarization');
@@ -1,9 +1,10 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
+import { createChatModel } from '../models';
+import { AgentRunOptions } from './types';
 
 const SocialIntentInput = z.object({
     lastMessages: z.array(z.object({
@@ -13,17 +14,17 @@ const SocialIntentInput = z.object({
     message: z.string().describe('The current user message'),
 });
 
-export const SocialIntentActionList = z.enum(['CREATE', 'EDIT']);
+export const SocialIntentActionList = z.enum(['CREATE', 'EDIT', 'REVERT']);
 
 export const SocialIntentOutput = z.object({
-    action: SocialIntentActionList.describe('Whether the user wants to create a new social post or edit an existing one'),
+    action: SocialIntentActionList.describe('Whether the user wants to create a new social post, edit an existing one or restore its previous version'),
     confidence: z.number().min(0).max(1).describe('Confidence score between 0 and 1'),
     reasoning: z.string().describe('Brief explanation for the classification decision'),
 });
 
 const CACHED_SYSTEM_PROMPT = `You are a social post intent classifier for Qirata.
 
-Task: Based on the conversation history, determine whether the user wants to CREATE a new social post or EDIT an existing one.
+Task: Based on the conversation history, determine whether the user wants to CREATE a new social post, EDIT an existing one or REVERT an existing one to its previous version.
 
 Output "CREATE" when:
 - The user asks to write, generate, or draft a new social post.
@@ -33,20 +34,17 @@ Output "EDIT" when:
 - The user references a previously generated post (e.g. "make it shorter", "change the tone", "add hashtags").
 - The user says "try again" or "redo it" referring to an earlier post.
 
+Output "REVERT" when:
+- The user wants to undo the last change to a post without describing a new change (e.g. "go back to the previous version", "undo that", "revert it", "I liked the old one better").
+
 Rules:
 - Use the conversation history to determine the user's intent.
 - If no prior post exists in the conversation, always output "CREATE".
 - Set confidence between 0 and 1 based on how clear the intent is.
-- Provide a brief reasoning explaining why you chose CREATE or EDIT.`;
-
-export default async function socialIntentAgent(options: z.infer<typeof SocialIntentInput>): Promise<z.infer<typeof SocialIntentOutput>> {
-    const model = new ChatOpenAI({
-        model: 'gpt-5-mini',
-        reasoning: {
-            effort: "low"
-        },
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+- Provide a brief reasoning explaining why you chose CREATE, EDIT or REVERT.`;
+
+export default async function socialIntentAgent(options: z.infer<typeof SocialIntentInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof SocialIntentOutput>> {
+    const model = createChatModel('intent', modelPreferences);
 
     const agent = createAgent({
         model,
@@ -57,9 +55,8 @@ export default async function socialIntentAgent(options: z.infer<typeof SocialIn
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('social-action')
-        ]
+        callbacks: withDebugCallback('social-action', callbacks),
+        signal
     });
 
     return result.structuredResponse;
@@ -1,9 +1,11 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
+import { createChatModel } from '../models';
+import { describePlatformNames, PLATFORM_IDS, PLATFORM_PROFILES } from '../platforms';
+import { AgentRunOptions } from './types';
 
 // Input schema for platform detection
 const SocialPlatformInput = z.object({
@@ -11,52 +13,52 @@ const SocialPlatformInput = z.object({
     lastMessages: z.array(z.string()).max(5).describe('Previous conversation messages for context'),
 });
 
-export const SocialPlatformList = z.enum(['twitter', 'linkedin']);
+// Platform ids come from the platform profiles (twitter, linkedin, facebook, instagram + custom)
+export const SocialPlatformList = z.enum(PLATFORM_IDS);
 
 // Output schema for platform detection
 export const SocialPlatformOutput = z.object({
-    platform: SocialPlatformList
-        .optional()
-        .describe('The detected social media platform. Null if unclear'),
+    platforms: z.array(SocialPlatformList)
+        .describe('Every platform the user explicitly asked for. Empty if unclear'),
     message: z.string()
         .describe('Response message explaining the detection or asking for clarification'),
     suggestedOptions: z.array(z.string())
-        .max(2)
+        .max(PLATFORM_PROFILES.length)
         .describe('Short, direct platform options when clarification is needed')
 });
 
-const CACHED_SYSTEM_PROMPT = `You are Qirata's social platform detector.
+const PLATFORM_DETECTION_RULES = PLATFORM_PROFILES
+    .map(profile => `Include "${profile.id}" in platforms when:\n- The user explicitly mentions ${profile.aliases.join(', ')}.`)
+    .join('\n\n');
+
+const PLATFORM_OPTIONS = JSON.stringify(PLATFORM_PROFILES.map(profile => profile.name));
 
-Task: Determine whether the user wants to post on Twitter (X) or LinkedIn.
+const CACHED_SYSTEM_PROMPT = `You are Qirata's social platform detector.
 
-Output platform = "twitter" when:
-- The user explicitly mentions Twitter, X, or tweet.
+Task: Determine which platforms the user wants to post on: ${describePlatformNames()}.
+The user may ask for several platforms at once (e.g. "a thread for Twitter and a LinkedIn post"); return all of them.
 
-Output platform = "linkedin" when:
-- The user explicitly mentions LinkedIn.
+${PLATFORM_DETECTION_RULES}
 
-Output platform = null when:
+Output platforms = [] when:
 - No platform is mentioned or it's ambiguous.
 
-When platform is detected:
-- Set message to a short confirmation (e.g. "Got it, creating for Twitter.").
+When platforms are detected:
+- Set message to a short confirmation (e.g. "Got it, creating for ${PLATFORM_PROFILES[0].name} and ${PLATFORM_PROFILES[1].name}.").
 - Set suggestedOptions to an empty array.
 
-When platform is null:
+When platforms is empty:
 - Set message to a short question asking which platform they want.
-- Set suggestedOptions to ["Twitter", "LinkedIn"].
+- Set suggestedOptions to ${PLATFORM_OPTIONS}.
 
 Rules:
 - Only detect from explicit mentions. Do NOT guess based on content style.
-- Handle Arabic platform names (e.g. تويتر, لينكدإن).
-- Use conversation history for context (e.g. if they said "Twitter" earlier).`;
+- Handle Arabic platform names as well.
+- Use conversation history for context (e.g. if they said "${PLATFORM_PROFILES[0].name}" earlier).`;
 
-export default async function socialPlatformAgent(options: z.infer<typeof SocialPlatformInput>): Promise<z.infer<typeof SocialPlatformOutput>> {
+export default async function socialPlatformAgent(options: z.infer<typeof SocialPlatformInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof SocialPlatformOutput>> {
     // Initialize model
-    const model = new ChatOpenAI({
-        model: 'gpt-5-mini',
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+    const model = createChatModel('intent', modelPreferences);
 
     // Create agent
     const agent = createAgent({
@@ -68,9 +70,8 @@ export default async function socialPlatformAgent(options: z.infer<typeof Social
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('platform')
-        ]
+        callbacks: withDebugCallback('platform', callbacks),
+        signal
     });
 
     // Validate with Zod and return
@@ -1,10 +1,12 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
 import { SocialPlatformList } from './social-platform.agent';
+import { createChatModel } from '../models';
+import { formatAllPlatformRules, getPlatformProfile } from '../platforms';
+import { AgentRunOptions, formatHighlights, HighlightsInput } from './types';
 
 // Input schema for social post creation
 const SocialPostCreateInput = z.object({
@@ -15,7 +17,8 @@ const SocialPostCreateInput = z.object({
     })).max(10).describe('Previous conversation messages for context'),
     postContent: z.string().describe('Full content of the article/post to create social media content from'),
     platform: SocialPlatformList.describe('Target social media platform'),
-    socialMediaContentPreferences: z.string().nullable().describe('User preferences for social media content style')
+    socialMediaContentPreferences: z.string().nullable().describe('User preferences for social media content style'),
+    highlights: HighlightsInput.optional().describe('Passages of the article the user highlighted, to build the post around')
 });
 
 // Output schema for social post creation
@@ -23,6 +26,9 @@ export const SocialPostCreateOutput = z.object({
     message: z.string().describe('Response message to the user about the generated post'),
     structuredPost: z.object({
         postContent: z.string().describe('Main text content for the social media post'),
+        thread: z.array(z.string())
+            .nullable()
+            .describe('Ordered posts of a thread (thread platforms such as Twitter only), null otherwise'),
         codeExamples: z.array(z.object({
             language: z.string().describe('Programming language'),
             code: z.string().describe('The actual code content'),
@@ -37,54 +43,75 @@ export const SocialPostCreateOutput = z.object({
     }).describe('Structured social post content with code examples and visual elements')
 });
 
+/**
+ * Output schema with the target platform's hard length limit on the post text.
+ * A post that is too long fails validation and the agent is asked to retry.
+ * Thread platforms require the thread instead; over-long thread posts are re-split when saved.
+ */
+function outputSchemaFor(platform: string) {
+    const profile = getPlatformProfile(platform);
+    if (!profile) return SocialPostCreateOutput;
+
+    const { structuredPost } = SocialPostCreateOutput.shape;
+    if (profile.thread) {
+        return SocialPostCreateOutput.extend({
+            structuredPost: structuredPost.extend({
+                thread: z.array(z.string())
+                    .min(1)
+                    .max(profile.thread.maxPosts)
+                    .describe(`Ordered posts of the thread, each at most ${profile.maxLength} characters`)
+            })
+        });
+    }
+
+    return SocialPostCreateOutput.extend({
+        structuredPost: structuredPost.extend({
+            postContent: z.string()
+                .max(profile.maxLength)
+                .describe(`Main text content for the social media post (at most ${profile.maxLength} characters)`)
+        })
+    });
+}
+
 const CACHED_SYSTEM_PROMPT = `You are Qirata's expert Social Media Content Creator.
 Your goal is to craft high-engagement posts from the provided article content and context.
 
 ### RULES
-- Always follow the platform-specific rules for Twitter and LinkedIn.
+- Always follow the platform-specific rules of the target platform.
 - Extract any code snippets from the article and place them in the 'codeExamples' section. Do not include code in the main post content.
 - If a visual element (like a diagram) would enhance the post, describe it in the 'visualElements' section with clear instructions for creation.
 - Use the conversation history to identify which specific points interested the user and highlight those in the post.
-- Only create one post per request, even if multiple platforms are mentioned. Focus on the most recently requested platform.
+- When the user's highlights of the article are provided, build the post around those passages and their notes, using the rest of the article only as supporting context.
+- Create the post for the target platform only. When the user asks for several platforms, each one is generated in a separate request; ignore instructions meant for the other platforms.
 
 ### PLATFORM RULES (Apply Strict Adherence)
-1. **Twitter:** - Style: Thread-style or punchy single tweet.
-   - Constraints: <280 characters per tweet. 1-3 tags.
-   - Tone: Concise, engaging, hashtag-friendly.
-2. **LinkedIn:** - Style: Professional, spaced for readability.
-   - Constraints: 1300-1600 characters. 3-5 tags.
-   - Tone: Professional, thoughtful, industry insights.
-   - **The Hook:** The first sentence MUST be a "scroll-stopper" (provocative question, surprising stat, or bold claim).
+${formatAllPlatformRules()}
 
 ### CONTENT HANDLING
 - **Text:** Place the main narrative in the 'postContent' field.
+- **Threads:** For thread platforms, place every post of the thread, in order, in 'thread' and repeat the first post (the hook) in 'postContent'. For other platforms set 'thread' to null.
 - **Code Extraction (CRITICAL):** If the article contains code, YOU MUST EXTRACT IT. Do not leave code in the body text. Move it to the 'codeExamples' array.
 - **Visuals:** If a diagram would help, describe it in 'visualElements'.
 `;
 
-export default async function socialPostCreateAgent(options: z.infer<typeof SocialPostCreateInput>): Promise<z.infer<typeof SocialPostCreateOutput>> {
+export default async function socialPostCreateAgent(options: z.infer<typeof SocialPostCreateInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof SocialPostCreateOutput>> {
     // Initialize model
-    const model = new ChatOpenAI({
-        model: 'gpt-5.2',
-        reasoning: {
-            effort: "medium"
-        },
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+    const model = createChatModel('create', modelPreferences);
 
     // Create agent
     const agent = createAgent({
         model,
         tools: [],
-        responseFormat: toolStrategy(SocialPostCreateOutput)
+        responseFormat: toolStrategy(outputSchemaFor(options.platform))
     });
 
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('social-post-create')
-        ]
+        callbacks: withDebugCallback('social-post-create', callbacks),
+        // Lets streamed tokens be attributed to a platform when several posts are generated in parallel
+        metadata: { platform: options.platform },
+        signal
     });
 
     // Validate with Zod and return
@@ -106,6 +133,10 @@ function buildMessagesArray(options: z.infer<typeof SocialPostCreateInput>): Bas
 
     contextBlock += `Article Content:\n${options.postContent}`;
 
+    if (options.highlights?.length) {
+        contextBlock += `\n\nUser Highlights (focus the post on these passages):\n${formatHighlights(options.highlights)}`;
+    }
+
     messages.push(new HumanMessage(contextBlock));
 
     // 3. Conversation History (Only if relevant)
@@ -1,9 +1,12 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
 import { createAgent, toolStrategy } from 'langchain';
+import { createChatModel } from '../models';
+import { formatAllPlatformRules, getPlatformProfile } from '../platforms';
+import { SocialPlatformList } from './social-platform.agent';
+import { AgentRunOptions } from './types';
 
 // Input schema for social post editing
 const SocialPostEditInput = z.object({
@@ -14,8 +17,9 @@ const SocialPostEditInput = z.object({
     })).max(10).describe('Previous conversation messages for context'),
     targetSocialPost: z.object({
         id: z.string(),
-        platform: z.enum(['twitter', 'linkedin']),
+        platform: SocialPlatformList,
         content: z.string(),
+        thread: z.array(z.string()).nullable(),
         codeExamples: z.array(z.object({
             language: z.string(),
             code: z.string(),
@@ -32,6 +36,9 @@ export const SocialPostEditOutput = z.object({
     suggestedOptions: z.array(z.string()).max(3).describe('3 short, direct actions relevant to the edited post'),
     structuredPost: z.object({
         postContent: z.string().describe('Updated text content for the social media post'),
+        thread: z.array(z.string())
+            .nullable()
+            .describe('Updated ordered posts of the thread (thread posts only), null otherwise'),
         codeExamples: z.array(z.object({
             language: z.string().describe('Programming language'),
             code: z.string().describe('The actual code content'),
@@ -46,6 +53,36 @@ export const SocialPostEditOutput = z.object({
     }).describe('Updated structured social post content')
 });
 
+/**
+ * Output schema with the post platform's hard length limit on the post text.
+ * A post that is too long fails validation and the agent is asked to retry.
+ * Thread platforms require the thread instead; over-long thread posts are re-split when saved.
+ */
+function outputSchemaFor(platform: string) {
+    const profile = getPlatformProfile(platform);
+    if (!profile) return SocialPostEditOutput;
+
+    const { structuredPost } = SocialPostEditOutput.shape;
+    if (profile.thread) {
+        return SocialPostEditOutput.extend({
+            structuredPost: structuredPost.extend({
+                thread: z.array(z.string())
+                    .min(1)
+                    .max(profile.thread.maxPosts)
+                    .describe(`Updated ordered posts of the thread, each at most ${profile.maxLength} characters`)
+            })
+        });
+    }
+
+    return SocialPostEditOutput.extend({
+        structuredPost: structuredPost.extend({
+            postContent: z.string()
+                .max(profile.maxLength)
+                .describe(`Updated text content for the social media post (at most ${profile.maxLength} characters)`)
+        })
+    });
+}
+
 const CACHED_SYSTEM_PROMPT = `You are Qirata's social media content editor.
 
 Task: Edit an existing social media post based on the user's specific request while preserving all unchanged elements.
@@ -69,10 +106,14 @@ Preserve unchanged elements when:
 - When in doubt, preserve the original and apply minimal changes
 
 Platform rules (apply strict adherence):
-- Twitter: Must stay under 280 characters, 1-3 hashtags. Concise, engaging, hashtag-friendly.
-- LinkedIn: Aim for 1300-1600 characters, 3-5 hashtags. Professional, thoughtful, industry insights.
+${formatAllPlatformRules()}
 - Preserve platform-specific formatting unless user requests changes.
 
+Threads (posts with numbered thread posts):
+- Edit only the thread posts the user refers to (e.g. "shorten tweet 3", "add a tweet after the first one"); keep the others verbatim
+- Return the full ordered thread in structuredPost.thread and its first post in structuredPost.postContent
+- For posts without a thread, set structuredPost.thread to null
+
 Code examples — critical rules:
 - NEVER include code in postContent — ALL code MUST go in structuredPost.codeExamples array
 - Exception: Only include code in postContent if the user EXPLICITLY requests it
@@ -94,27 +135,22 @@ Rules:
 - Handle Arabic edit requests as well.
 - Keep responses focused and provide 3 short, direct, actionable next steps.`;
 
-export default async function socialPostEditAgent(options: z.infer<typeof SocialPostEditInput>): Promise<z.infer<typeof SocialPostEditOutput>> {
+export default async function socialPostEditAgent(options: z.infer<typeof SocialPostEditInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof SocialPostEditOutput>> {
     // Initialize model
-    const model = new ChatOpenAI({
-        model: 'gpt-5.2',
-        temperature: 0.7,
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+    const model = createChatModel('edit', modelPreferences);
 
     // Create agent
     const agent = createAgent({
         model,
         tools: [],
-        responseFormat: toolStrategy(SocialPostEditOutput)
+        responseFormat: toolStrategy(outputSchemaFor(options.targetSocialPost.platform))
     });
 
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('social-post-edit')
-        ]
+        callbacks: withDebugCallback('social-post-edit', callbacks),
+        signal
     });
 
     // Validate with Zod and return
@@ -134,6 +170,11 @@ function buildMessagesArray(options: z.infer<typeof SocialPostEditInput>): BaseM
     // Add the post to edit (including code examples)
     let postContext = `Platform: ${options.targetSocialPost.platform}\nPost ID: ${options.targetSocialPost.id}\n\nContent:\n${options.targetSocialPost.content}`;
 
+    if (options.targetSocialPost.thread?.length) {
+        const threadStr = options.targetSocialPost.thread.map((post, i) => `${i + 1}/${options.targetSocialPost.thread!.length}: ${post}`).join('\n\n');
+        postContext += `\n\nThread:\n${threadStr}`;
+    }
+
     if (options.targetSocialPost.codeExamples && options.targetSocialPost.codeExamples.length > 0) {
         const codeStr = options.targetSocialPost.codeExamples.map((ce, i) =>
             `Code ${i + 1} (${ce.language}):\n${ce.code}${ce.description ? `\nDescription: ${ce.description}` : ''}`
@@ -1,9 +1,11 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
+import { createChatModel } from '../models';
+import { SocialPlatformList } from './social-platform.agent';
+import { AgentRunOptions } from './types';
 
 // Input schema for post selector
 const SocialPostSelectorInput = z.object({
@@ -14,7 +16,7 @@ const SocialPostSelectorInput = z.object({
     })).max(10).describe('Previous conversation messages for context'),
     socialPostsHistory: z.array(z.object({
         id: z.string(),
-        platform: z.enum(['twitter', 'linkedin']),
+        platform: SocialPlatformList,
         content: z.string(),
         codeExamples: z.array(z.object({
             language: z.string(),
@@ -74,11 +76,8 @@ Rules:
 - Handle Arabic references as well.
 - Truncate post content in suggested options to keep them short and readable.`;
 
-export default async function socialPostSelectorAgent(options: z.infer<typeof SocialPostSelectorInput>): Promise<z.infer<typeof SocialPostSelectorOutput>> {
-    const model = new ChatOpenAI({
-        model: 'gpt-5-mini',
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+export default async function socialPostSelectorAgent(options: z.infer<typeof SocialPostSelectorInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof SocialPostSelectorOutput>> {
+    const model = createChatModel('intent', modelPreferences);
 
     const agent = createAgent({
         model,
@@ -89,9 +88,8 @@ export default async function socialPostSelectorAgent(options: z.infer<typeof So
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [
-            createDebugCallback('social-post-selector')
-        ]
+        callbacks: withDebugCallback('social-post-selector', callbacks),
+        signal
     });
 
     return result.structuredResponse;
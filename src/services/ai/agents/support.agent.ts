@@ -1,9 +1,10 @@
 import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
-import { ChatOpenAI } from '@langchain/openai';
 import { z } from 'zod';
 
 import { createAgent, toolStrategy } from 'langchain';
-import { createDebugCallback } from '../../../utils/debug-callback';
+import { withDebugCallback } from '../../../utils/debug-callback';
+import { createChatModel } from '../models';
+import { AgentRunOptions } from './types';
 
 // Enhanced input schema for general support with post context
 const GeneralSupportInput = z.object({
@@ -41,14 +42,9 @@ YOUR ROLE:
 
 Keep responses concise and actionable for MVP.`;
 
-export async function supportAgent(options: z.infer<typeof GeneralSupportInput>): Promise<z.infer<typeof GeneralSupportOutput>> {
+export async function supportAgent(options: z.infer<typeof GeneralSupportInput>, { modelPreferences, signal, callbacks }: AgentRunOptions = {}): Promise<z.infer<typeof GeneralSupportOutput>> {
     // Define the llm model
-    const model = new ChatOpenAI({
-        model: 'gpt-4.1-mini',
-        temperature: 0.3,
-        maxTokens: 350,
-        openAIApiKey: process.env.OPENAI_API_KEY
-    });
+    const model = createChatModel('support', modelPreferences);
 
     // Create the agent
     const agent = createAgent({
@@ -60,7 +56,8 @@ export async function supportAgent(options: z.infer<typeof GeneralSupportInput>)
     const result = await agent.invoke({
         messages: buildMessagesArray(options)
     }, {
-        callbacks: [createDebugCallback('general-support')]
+        callbacks: withDebugCallback('general-support', callbacks),
+        signal
     });
 
 
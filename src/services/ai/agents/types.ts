@@ -0,0 +1,30 @@
+import { Callbacks } from '@langchain/core/callbacks/manager';
+import { z } from 'zod';
+import { ModelPreferences } from '../models';
+
+/**
+ * Per-run options shared by the graph agents
+ */
+export interface AgentRunOptions {
+    // Per-user model overrides (see services/ai/models)
+    modelPreferences?: ModelPreferences;
+    // Aborts the underlying LLM call when the user interrupts the stream
+    signal?: AbortSignal;
+    // Parent run callbacks, so the graph's event stream sees the agent's LLM calls
+    callbacks?: Callbacks;
+}
+
+// Passages of the post the user highlighted (with their notes), for agents asked to focus on them
+export const HighlightsInput = z.array(z.object({
+    quote: z.string(),
+    note: z.string().nullable()
+}));
+
+/**
+ * Highlights as a numbered list of quotes, each followed by the user's note
+ */
+export function formatHighlights(highlights: z.infer<typeof HighlightsInput>): string {
+    return highlights
+        .map((highlight, index) => `${index + 1}. "${highlight.quote}"` + (highlight.note ? `\n   User note: ${highlight.note}` : ''))
+        .join('\n');
+}
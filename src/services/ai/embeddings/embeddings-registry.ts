@@ -0,0 +1,76 @@
+import { Embeddings } from '@langchain/core/embeddings';
+import { OllamaEmbeddings } from '@langchain/ollama';
+import { OpenAIEmbeddings } from '@langchain/openai';
+import { logger } from '../../../utils/logger';
+import { HashingEmbeddings } from './hashing.embeddings';
+
+/**
+ * Size of the vectors stored in post_embeddings.embedding. Every embedder must produce it:
+ * changing it takes a migration and re-indexing all posts.
+ */
+export const EMBEDDING_DIMENSIONS = 384;
+
+export const EMBEDDING_PROVIDERS = ['local', 'openai', 'ollama'] as const;
+export type EmbeddingProvider = typeof EMBEDDING_PROVIDERS[number];
+
+export interface EmbedderConfig {
+    provider: EmbeddingProvider;
+    model: string;
+}
+
+// Models producing EMBEDDING_DIMENSIONS vectors (OpenAI shortens its vectors on request)
+const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProvider, string> = {
+    local: 'hashing',
+    openai: 'text-embedding-3-small',
+    ollama: 'all-minilm'
+};
+
+function isEmbeddingProvider(value: string): value is EmbeddingProvider {
+    return (EMBEDDING_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Embedder from EMBEDDINGS_PROVIDER (local, openai or ollama; default local) and EMBEDDINGS_MODEL
+ */
+export function resolveEmbedderConfig(): EmbedderConfig {
+    const provider = process.env.EMBEDDINGS_PROVIDER || 'local';
+    if (!isEmbeddingProvider(provider)) {
+        logger.warn(`[AI: Embeddings] Ignoring unknown EMBEDDINGS_PROVIDER "${provider}", using local embeddings`);
+        return { provider: 'local', model: DEFAULT_EMBEDDING_MODELS.local };
+    }
+
+    return { provider, model: process.env.EMBEDDINGS_MODEL || DEFAULT_EMBEDDING_MODELS[provider] };
+}
+
+/**
+ * Identifier of the configured embedder ("provider:model"), stored with every vector.
+ * Vectors of different embedders are not comparable.
+ */
+export function getEmbedderId(): string {
+    const config = resolveEmbedderConfig();
+    return `${config.provider}:${config.model}`;
+}
+
+/**
+ * Instantiate the configured embedder
+ */
+export function createEmbeddings(): Embeddings {
+    const config = resolveEmbedderConfig();
+
+    switch (config.provider) {
+        case 'openai':
+            return new OpenAIEmbeddings({
+                model: config.model,
+                dimensions: EMBEDDING_DIMENSIONS,
+                openAIApiKey: process.env.OPENAI_API_KEY
+            });
+        case 'ollama':
+            return new OllamaEmbeddings({
+                model: config.model,
+                baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434'
+            });
+        case 'local':
+        default:
+            return new HashingEmbeddings({ dimensions: EMBEDDING_DIMENSIONS });
+    }
+}
@@ -0,0 +1,78 @@
+import { Embeddings, EmbeddingsParams } from '@langchain/core/embeddings';
+
+interface HashingEmbeddingsParams extends EmbeddingsParams {
+    dimensions: number;
+}
+
+// Frequent words carry no topic; dropping them keeps short texts from looking alike
+const STOP_WORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+    'i', 'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+    'their', 'them', 'there', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'which', 'who', 'will',
+    'with', 'you', 'your'
+]);
+
+function tokenize(text: string): string[] {
+    return text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&[a-z#0-9]+;/gi, ' ')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+// 32-bit FNV-1a
+function hash(feature: string): number {
+    let value = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        value ^= feature.charCodeAt(i);
+        value = Math.imul(value, 0x01000193);
+    }
+    return value >>> 0;
+}
+
+/**
+ * Offline embeddings by feature hashing: words and word pairs are hashed into a fixed number
+ * of signed buckets, weighted by log term frequency and L2-normalized.
+ *
+ * Captures shared vocabulary rather than meaning (no synonyms), but needs no model download,
+ * network access or API key, and the same text always gets the same vector.
+ */
+export class HashingEmbeddings extends Embeddings {
+    private dimensions: number;
+
+    constructor(fields: HashingEmbeddingsParams) {
+        super(fields);
+        this.dimensions = fields.dimensions;
+    }
+
+    async embedDocuments(documents: string[]): Promise<number[][]> {
+        return documents.map(document => this.embed(document));
+    }
+
+    async embedQuery(document: string): Promise<number[]> {
+        return this.embed(document);
+    }
+
+    private embed(text: string): number[] {
+        const tokens = tokenize(text);
+        const counts = new Map<string, number>();
+        tokens.forEach((token, index) => {
+            counts.set(token, (counts.get(token) || 0) + 1);
+            if (index > 0) {
+                const pair = `${tokens[index - 1]} ${token}`;
+                counts.set(pair, (counts.get(pair) || 0) + 0.5);
+            }
+        });
+
+        const vector = new Array<number>(this.dimensions).fill(0);
+        counts.forEach((count, feature) => {
+            const hashed = hash(feature);
+            // The top bit picks the sign, so colliding features tend to cancel out
+            vector[hashed % this.dimensions] += (hashed & 0x80000000 ? -1 : 1) * (1 + Math.log(count));
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+}
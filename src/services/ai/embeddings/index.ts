@@ -0,0 +1,2 @@
+export * from './embeddings-registry';
+export * from './hashing.embeddings';
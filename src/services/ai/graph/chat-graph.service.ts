@@ -1,10 +1,15 @@
+import { Command } from '@langchain/langgraph';
+import { checkpointer, ensureCheckpointerSetup } from '../../../config/checkpointer.config';
 import { AuthenticatedSocket } from '../../../types/socket.types';
 import { logger } from '../../../utils/logger';
-import { ChatSessionService, MessagesService, PostsService, SettingsService, SocialPostsService } from '../../domain';
+import { ChatSessionService, HighlightService, MessagesService, PostsService, SettingsService, SocialPostsService } from '../../domain';
 import { chatGraph } from './chat.graph';
 import { ChatGraphConfigurable } from './configurable';
+import { isSupportedPlatform } from '../platforms';
+import { PlatformClarification } from './nodes/social-platform.node';
 import { PostProcessorManager } from './post-processors';
-import { ChatGraphUpdateType } from './state';
+import { ChatGraphState, ChatGraphUpdateType } from './state';
+import { TokenStreamer } from './token-streamer';
 
 /**
  * Service to orchestrate the Chat StateGraph execution.
@@ -18,6 +23,7 @@ export class ChatGraphService {
     private postProcessorManager = new PostProcessorManager();
     private settingsService = new SettingsService();
     private socialPostsService = new SocialPostsService();
+    private highlightService = new HighlightService();
 
     /**
      * Main entry point to run the chat graph
@@ -27,33 +33,94 @@ export class ChatGraphService {
         socket: AuthenticatedSocket;
         sessionId: string;
         userId: string;
+        // Ask PostQA and SocialPostCreate to focus on the user's highlights of the post
+        focusHighlights?: boolean;
         emit: (event: string, data: any) => void;
+        signal?: AbortSignal;
     }): Promise<void> {
-        const { message, socket, sessionId, userId, emit } = params;
+        const { message, socket, sessionId, userId, focusHighlights = false, emit, signal } = params;
 
         console.log(`🚀 [ChatGraph] Starting workflow for session ${sessionId}`);
 
         // 1. Prepare the langgraph state
-        const initialState = await this.prepareState(sessionId, userId, message);
+        const initialState = await this.prepareState(sessionId, userId, message, focusHighlights);
 
-        // 3. Prepare configuration (services)
-        const config: { configurable: ChatGraphConfigurable } = {
+        // 2. Resume the paused node if the last turn ended on a clarification question,
+        // keeping the original request as `message` and passing the reply as the resume value.
+        // The paused turn keeps its intents and clarification: they are not produced again on resume.
+        await ensureCheckpointerSetup();
+        const pendingInterrupt = await this.getPendingInterrupt(sessionId);
+        const {
+            message: _reply,
+            intentResult: _intentResult,
+            socialIntentResult: _socialIntentResult,
+            platformClarification: _platformClarification,
+            ...turnState
+        } = initialState;
+        const input = pendingInterrupt
+            ? new Command<string, ChatGraphUpdateType, never>({ resume: message, update: turnState })
+            : initialState;
+        if (pendingInterrupt) {
+            logger.info(`⏯️ [ChatGraph] Resuming session ${sessionId} at ${pendingInterrupt.node}`);
+        }
+
+        // 3. Prepare configuration (services + abort signal)
+        const config: { configurable: ChatGraphConfigurable; signal?: AbortSignal } = {
             configurable: {
                 thread_id: sessionId,
                 session_id: sessionId,
                 emit
-            }
+            },
+            signal
         };
 
+        // Latest graph values and streamed tokens, used to report partial output on interruption
+        let latestState: Partial<typeof ChatGraphState.State> = pendingInterrupt
+            ? { ...(await chatGraph.getState({ configurable: { thread_id: sessionId } })).values, ...turnState }
+            : initialState;
+        const tokenStreamer = new TokenStreamer(sessionId, emit, Object.keys(chatGraph.nodes));
+
         try {
+            if (signal?.aborted) {
+                this.emitInterrupted(emit, sessionId, signal, latestState, tokenStreamer);
+                return;
+            }
+
             // Emit start event
             emit('chat:stream:start', {
                 sessionId,
                 intentType: 'Processing your request...'
             });
 
-            // 4. Invoke the Graph
-            const result = await chatGraph.invoke(initialState, config);
+            // 4. Run the Graph, streaming node progress and answer tokens to the client
+            const events = chatGraph.streamEvents(input, { ...config, version: 'v2' });
+            for await (const event of events) {
+                tokenStreamer.handleEvent(event);
+
+                if (event.event !== 'on_chain_end') continue;
+
+                if (!event.metadata?.langgraph_node) {
+                    // Root graph run: its output is the final state
+                    latestState = event.data.output;
+                } else if (event.name === event.metadata.langgraph_node && event.name in chatGraph.nodes) {
+                    // Node run: its output is a state update
+                    latestState = { ...latestState, ...event.data.output };
+                }
+            }
+            let result = latestState as typeof ChatGraphState.State;
+
+            // The signal may fire after the last node finished: nothing must be persisted then either
+            if (signal?.aborted) {
+                this.emitInterrupted(emit, sessionId, signal, latestState, tokenStreamer);
+                return;
+            }
+
+            // The graph paused for clarification: the question becomes this turn's reply
+            const clarification = await this.getPendingInterrupt(sessionId);
+            if (clarification) {
+                const { question, suggestedOptions } = clarification.value as PlatformClarification;
+                result = { ...result, response: question, suggestedOptions };
+            }
 
             // 5. Process Result using Post-Processor Manager
             logger.info(`✅ [ChatGraph] Finished. Intent: ${result.intentResult?.intent}`);
@@ -75,7 +142,8 @@ export class ChatGraphService {
                 suggestedOptions: processedResult.suggestedOptions,
                 isSocialPost: processedResult.isSocialPost,
                 socialPostId: processedResult.socialPostId,
-                structuredPost: processedResult.structuredPost || null
+                structuredPost: processedResult.structuredPost || null,
+                structuredPosts: processedResult.structuredPosts || []
             });
 
             // 7. Save message and update session intent
@@ -92,6 +160,11 @@ export class ChatGraphService {
             );
 
         } catch (error) {
+            if (signal?.aborted) {
+                this.emitInterrupted(emit, sessionId, signal, latestState, tokenStreamer);
+                return;
+            }
+
             logger.error('❌ [ChatGraph] Execution failed:', error);
 
             emit('chat:stream:error', {
@@ -101,18 +174,87 @@ export class ChatGraphService {
         }
     }
 
-    private async prepareState(sessionId: string, userId: string, message: string): Promise<ChatGraphUpdateType> {
+    /**
+     * Emit the definitive interruption event with whatever the graph produced so far.
+     * Interrupted runs are never post-processed nor saved.
+     */
+    private emitInterrupted(
+        emit: (event: string, data: any) => void,
+        sessionId: string,
+        signal: AbortSignal,
+        partialState: Partial<typeof ChatGraphState.State>,
+        tokenStreamer: TokenStreamer
+    ): void {
+        logger.warn(`⏹️ [ChatGraph] Interrupted session ${sessionId}`);
+
+        emit('chat:stream:interrupted', {
+            sessionId,
+            message: 'Stream interrupted successfully',
+            reason: typeof signal.reason === 'string' ? signal.reason : 'user request',
+            partialResponse: partialState.response ?? tokenStreamer.partialResponse,
+            intent: partialState.intentResult?.intent ?? null
+        });
+    }
+
+    /**
+     * Inspect the persisted graph state of a chat session
+     */
+    async getSessionState(sessionId: string) {
+        await ensureCheckpointerSetup();
+        const snapshot = await chatGraph.getState({ configurable: { thread_id: sessionId } });
+        const pendingInterrupt = await this.getPendingInterrupt(sessionId);
+
+        return {
+            checkpointId: snapshot.config.configurable?.checkpoint_id ?? null,
+            createdAt: snapshot.createdAt ?? null,
+            next: snapshot.next,
+            pendingInterrupt,
+            values: snapshot.values
+        };
+    }
+
+    /**
+     * Drop every checkpoint of a chat session so the next message starts a fresh flow.
+     * Saved messages are not affected.
+     */
+    async resetSessionState(sessionId: string): Promise<void> {
+        await ensureCheckpointerSetup();
+        await checkpointer.deleteThread(sessionId);
+        logger.info(`🧹 [ChatGraph] Reset graph state for session ${sessionId}`);
+    }
+
+    /**
+     * The interrupt the session's graph is currently paused on, if any
+     */
+    private async getPendingInterrupt(sessionId: string): Promise<{ node: string; value: unknown } | null> {
+        const snapshot = await chatGraph.getState({ configurable: { thread_id: sessionId } });
+
+        for (const task of snapshot.tasks) {
+            if (task.interrupts.length > 0) {
+                return { node: task.name, value: task.interrupts[0].value };
+            }
+        }
+        return null;
+    }
+
+    private async prepareState(sessionId: string, userId: string, message: string, focusHighlights: boolean): Promise<ChatGraphUpdateType> {
         // 1. Load necessary data for the state in parallel
-        const [socialPosts, chatSession, lastMessages, socialMediaContentPreferences, postQAReplyPreferences] = await Promise.all([
+        const [socialPosts, chatSession, lastMessages, socialMediaContentPreferences, postQAReplyPreferences, modelPreferences] = await Promise.all([
             this.socialPostsService.findByChatSession(sessionId, userId),
             this.chatSessionService.getById(sessionId, userId),
             this.messagesService.getRecentMessages(sessionId, userId, 5),
             this.settingsService.getSocialMediaContentPreferences(userId),
-            this.settingsService.getPostQAReplyPreferences(userId)
+            this.settingsService.getPostQAReplyPreferences(userId),
+            this.settingsService.getAIModelPreferences(userId)
         ]);
 
         const post = await this.postsService.getPostWithExpanded(chatSession!.post_id!, userId)
 
+        // Highlights whose quote is no longer in the content are left out
+        const highlights = focusHighlights
+            ? (await this.highlightService.getPostHighlights(post!.id, userId)).filter(highlight => highlight.anchored)
+            : [];
+
         // 2. Prepare the initial state
         return {
             message,
@@ -120,6 +262,8 @@ export class ChatGraphService {
             userId,
             socialMediaContentPreferences,
             postQAReplyPreferences,
+            modelPreferences,
+            focusHighlights,
 
             // Map memory fields
             lastMessages: lastMessages.reverse().map(m => ({
@@ -135,12 +279,18 @@ export class ChatGraphService {
                 summary: post!.expanded!.summary || '',
                 content: post!.expanded!.content || ''
             },
+            highlights: highlights.map(highlight => ({
+                quote: highlight.quote_exact,
+                note: highlight.note ?? null
+            })),
 
             // social posts history for context
-            socialPostsHistory: socialPosts.map(sp => ({
+            // (posts on a platform without a profile cannot be selected or edited by the graph)
+            socialPostsHistory: socialPosts.filter(sp => isSupportedPlatform(sp.platform)).map(sp => ({
                 id: sp.id,
-                platform: sp.platform as 'twitter' | 'linkedin',
+                platform: sp.platform,
                 content: sp.content,
+                thread: sp.thread?.map(post => post.text) ?? null,
                 codeExamples: sp.code_examples?.map(ce => ({
                     language: ce.language,
                     code: ce.code,
@@ -148,9 +298,18 @@ export class ChatGraphService {
                 })) || [],
             })),
 
-            // Default empty values for outputs
-            response: undefined,
-            suggestedOptions: undefined
+            // Reset per-turn values left in the checkpoint by the previous turn
+            intentResult: null,
+            socialIntentResult: null,
+            socialPlatformResult: null,
+            platformClarification: null,
+            editingSocialPostId: null,
+            response: null,
+            suggestedOptions: null,
+            isSocialPost: false,
+            structuredPost: null,
+            generatedPosts: null,
+            error: null
         };
 
     }
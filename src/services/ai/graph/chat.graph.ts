@@ -1,5 +1,6 @@
 import { END, START, StateGraph } from '@langchain/langgraph';
-import { detectIntentNode, postQANode, socialPlatformNode, socialPostCreateNode, socialPostEditNode, socialPostSelectorNode, supportNode } from './nodes';
+import { checkpointer } from '../../../config/checkpointer.config';
+import { detectIntentNode, postQANode, socialPlatformAnswerNode, socialPlatformNode, socialPostCreateNode, socialPostEditNode, socialPostSelectorNode, supportNode } from './nodes';
 import { socialIntentNode } from './nodes/social-intent.node';
 import { intentRouter, socialIntentRouter, socialPlatformRouter, socialPostSelectorRouter } from './routers';
 import { ChatGraphState } from './state';
@@ -14,6 +15,7 @@ const workflow = new StateGraph(ChatGraphState)
 
     // Social flow
     .addNode('SocialPlatformClarification', socialPlatformNode)
+    .addNode('SocialPlatformAnswer', socialPlatformAnswerNode)
     .addNode('SocialPostCreate', socialPostCreateNode)
     .addNode('SocialPostSelector', socialPostSelectorNode)
     .addNode('SocialPostEdit', socialPostEditNode)
@@ -42,6 +44,12 @@ const workflow = new StateGraph(ChatGraphState)
         'SocialPlatformClarification',
         socialPlatformRouter,
         // Map of possible destinations
+        ['SocialPostCreate', 'SocialPlatformAnswer', END]
+    )
+    .addConditionalEdges(
+        'SocialPlatformAnswer',
+        socialPlatformRouter,
+        // Map of possible destinations
         ['SocialPostCreate', END]
     )
 
@@ -60,6 +68,7 @@ const workflow = new StateGraph(ChatGraphState)
     .addEdge('SocialPostCreate', END)
     .addEdge('SocialPostEdit', END);
 
-// Compile the graph
-export const chatGraph = workflow.compile();
+
+// Compile the graph with the Postgres checkpointer: state is persisted per chat session (thread_id)
+export const chatGraph = workflow.compile({ checkpointer });
                         
\ No newline at end of file
@@ -1,7 +1,10 @@
+import { RunnableConfig } from '@langchain/core/runnables';
 import { AuthenticatedSocket } from '../../../types/socket.types';
 import { SocialPostsService } from '../../domain/social-posts.service';
 import { MessagesService } from '../../domain/messages.service';
 import { PostsService } from '../../domain/posts.service';
+import { AgentRunOptions } from '../agents/types';
+import { ChatGraphState } from './state';
 
 /**
  * Type for services and external dependencies passed to graph nodes
@@ -15,3 +18,15 @@ export type ChatGraphConfigurable = {
 
     emit: (event: string, data: any) => void;
 };
+
+/**
+ * Options every node forwards to its agent: the user's model overrides plus the
+ * run's abort signal and callbacks (used for interruption and token streaming).
+ */
+export function getAgentRunOptions(state: typeof ChatGraphState.State, config: RunnableConfig): AgentRunOptions {
+    return {
+        modelPreferences: state.modelPreferences,
+        signal: config.signal,
+        callbacks: config.callbacks
+    };
+}
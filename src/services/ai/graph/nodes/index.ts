@@ -7,7 +7,7 @@
 
 export { detectIntentNode } from './intent.node';
 export { postQANode } from './post-qa.node';
-export { socialPlatformNode } from './social-platform.node';
+export { socialPlatformAnswerNode, socialPlatformNode } from './social-platform.node';
 export { socialPostCreateNode } from './social-post-create.node';
 export { socialPostEditNode } from './social-post-edit.node';
 export { socialPostSelectorNode } from './social-post-selector.node';
@@ -1,7 +1,7 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { logger } from '../../../../utils/logger';
 import { intentAgent } from '../../agents';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 
 /**
@@ -29,7 +29,7 @@ export async function detectIntentNode(state: typeof ChatGraphState.State, confi
         message,
         lastMessages: lastMessages,
         lastIntent
-    });
+    }, getAgentRunOptions(state, config));
 
     logger.info('[NODE: IntentNode] Intent detected:', {
         intent: result.intent,
@@ -1,6 +1,6 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { postQAAgent } from '../../agents/post-qa.agent';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 import { logger } from '../../../../utils/logger';
 
@@ -8,7 +8,8 @@ import { logger } from '../../../../utils/logger';
  * Post Q&A Node
  *
  * Answers user questions about the current post using the postQAAgent.
- * Uses post content directly from state (no extra fetch).
+ * Uses post content directly from state (no extra fetch). When the user asked to focus on
+ * their highlights, the answer is built around them.
  */
 export async function postQANode(
     state: typeof ChatGraphState.State,
@@ -31,8 +32,9 @@ export async function postQANode(
         postSummary: post?.summary || '',
         conversationSummary: undefined,
         postContent: post?.content || '',
-        replyPreferences: state.postQAReplyPreferences || ''
-    });
+        replyPreferences: state.postQAReplyPreferences || '',
+        highlights: state.focusHighlights ? state.highlights : undefined
+    }, getAgentRunOptions(state, config));
 
     return {
         response: qaResult.response,
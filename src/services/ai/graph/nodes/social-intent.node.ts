@@ -1,13 +1,13 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { logger } from '../../../../utils/logger';
 import { socialIntentAgent } from '../../agents';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 
 /**
  * Social Intent Node
  *
- * Determines the social intent (CREATE or EDIT) for a user's message.
+ * Determines the social intent (CREATE, EDIT or REVERT) for a user's message.
  * Uses conversation context and previous messages to classify intent.
  */
 export async function socialIntentNode(state: typeof ChatGraphState.State, config: RunnableConfig): Promise<ChatGraphUpdateType> {
@@ -28,7 +28,7 @@ export async function socialIntentNode(state: typeof ChatGraphState.State, confi
     const result = await socialIntentAgent({
         message,
         lastMessages
-    });
+    }, getAgentRunOptions(state, config));
 
     logger.info('[NODE: SocialIntentNode] Social intent determined:', {
         action: result.action,
@@ -1,15 +1,18 @@
 import { RunnableConfig } from '@langchain/core/runnables';
+import { interrupt } from '@langchain/langgraph';
 import { logger } from '../../../../utils/logger';
 import { socialPlatformAgent } from '../../agents';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 
 /**
- * Platform Clarification Node
+ * Platform Detection Node
  *
- * Pure formatting node that sets the response when platform detection needs clarification.
- * This is called when the platform agent determines it needs user input to identify
- * the target platform (Twitter vs LinkedIn).
+ * Detects the target platforms (platform profile ids) for new social posts; several
+ * platforms in one request fan out to one post each in SocialPostCreate.
+ * When the platform is unclear the clarification question is stored in the state and
+ * SocialPlatformAnswer asks it. Detection and question live in separate nodes so the
+ * detection is checkpointed: resuming the paused graph does not call the agent again.
  */
 export async function socialPlatformNode(state: typeof ChatGraphState.State, config: RunnableConfig): Promise<ChatGraphUpdateType> {
     logger.info("[NODE: SocialPlatformNode] Formatting social platform detection response");
@@ -28,16 +31,64 @@ export async function socialPlatformNode(state: typeof ChatGraphState.State, con
     const result = await socialPlatformAgent({
         message,
         lastMessages: lastMessages.map(msg => msg.user_message)
-    });
+    }, getAgentRunOptions(state, config));
+
+    const platforms = [...new Set(result.platforms)];
 
     logger.info('[NODE: SocialPlatformNode] Platform detection result:', {
-        platform: result.platform,
+        platforms,
     });
 
     // Return state update with grouped platformResult
     return {
-        socialPlatformResult: result.platform,
-        response: result.message || undefined,
-        suggestedOptions: result.suggestedOptions || undefined
+        socialPlatformResult: platforms.length > 0 ? platforms : null,
+        platformClarification: platforms.length > 0 ? null : {
+            question: result.message,
+            suggestedOptions: result.suggestedOptions
+        },
+        response: result.message || null,
+        suggestedOptions: result.suggestedOptions || null
     };
 }
+
+/**
+ * Platform Clarification Node
+ *
+ * Pauses the graph on an interrupt carrying the clarification question; the next chat message
+ * resumes this node with the user's answer (see ChatGraphService) instead of starting a new
+ * turn from DetectIntent. The platforms are then detected from the answer.
+ */
+export async function socialPlatformAnswerNode(state: typeof ChatGraphState.State, config: RunnableConfig): Promise<ChatGraphUpdateType> {
+    const { lastMessages, message, platformClarification } = state;
+
+    // Pause until the user answers; on resume this returns their reply
+    const answer = interrupt<PlatformClarification, string>(platformClarification!);
+
+    logger.info("[NODE: SocialPlatformAnswerNode] Detecting platforms from the clarification answer");
+
+    const result = await socialPlatformAgent({
+        message: answer,
+        lastMessages: [...lastMessages.map(msg => msg.user_message), message]
+    }, getAgentRunOptions(state, config));
+
+    const platforms = [...new Set(result.platforms)];
+
+    logger.info('[NODE: SocialPlatformAnswerNode] Platform detection result:', {
+        platforms,
+    });
+
+    return {
+        socialPlatformResult: platforms.length > 0 ? platforms : null,
+        platformClarification: null,
+        response: result.message || null,
+        suggestedOptions: result.suggestedOptions || null
+    };
+}
+
+/**
+ * Interrupt payload sent to the client while the graph waits for a platform choice
+ */
+export interface PlatformClarification {
+    question: string;
+    suggestedOptions: string[];
+}
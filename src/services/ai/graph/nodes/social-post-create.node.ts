@@ -1,15 +1,17 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { logger } from '../../../../utils/logger';
 import { socialPostCreateAgent } from '../../agents';
-import { ChatGraphConfigurable } from '../configurable';
+import { describePlatformNames, getPlatformProfile } from '../../platforms';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 
 /**
  * Social Post Generation Node
  *
- * Generates new social media posts using the social post create agent.
- * Uses the detected platform, post content, conversation context, and user preferences
- * to create engaging platform-optimized content.
+ * Generates new social media posts using the social post create agent, one per detected
+ * platform, in parallel. Uses the post content, conversation context, and user preferences
+ * to create engaging platform-optimized content. When the user asked to focus on their
+ * highlights, the posts are built around them.
  */
 export async function socialPostCreateNode(state: typeof ChatGraphState.State, config: RunnableConfig): Promise<ChatGraphUpdateType> {
     logger.info("[NODE: SocialPostCreateNode] Starting social post generation");
@@ -28,15 +30,17 @@ export async function socialPostCreateNode(state: typeof ChatGraphState.State, c
         lastMessages,
         post,
         socialPlatformResult,
-        socialMediaContentPreferences
+        socialMediaContentPreferences,
+        focusHighlights,
+        highlights
     } = state;
 
-    // Platform should be detected at this point
-    const platform = socialPlatformResult;
-    if (!platform) {
+    // Platforms should be detected at this point
+    const platforms = socialPlatformResult || [];
+    if (platforms.length === 0) {
         logger.error('[NODE: SocialPostCreateNode] No platform detected');
         return {
-            response: 'I need to know which platform to create content for. Please specify Twitter or LinkedIn.',
+            response: `I need to know which platform to create content for. Please specify ${describePlatformNames()}.`,
             isSocialPost: false,
             error: 'No platform detected'
         };
@@ -53,27 +57,56 @@ export async function socialPostCreateNode(state: typeof ChatGraphState.State, c
         };
     }
 
-    // Call the social post create agent
-    const result = await socialPostCreateAgent({
+    // Call the social post create agent once per platform, in parallel
+    const results = await Promise.allSettled(platforms.map(platform => socialPostCreateAgent({
         message,
         lastMessages,
         postContent,
         platform,
-        socialMediaContentPreferences: socialMediaContentPreferences || null
+        socialMediaContentPreferences: socialMediaContentPreferences || null,
+        highlights: focusHighlights ? highlights : undefined
+    }, getAgentRunOptions(state, config))));
+
+    // An interrupted run must not be reported as a partial success
+    config.signal?.throwIfAborted();
+
+    const generated = platforms.flatMap((platform, index) => {
+        const result = results[index];
+        if (result.status === 'rejected') {
+            logger.error(`[NODE: SocialPostCreateNode] Generation failed for ${platform}:`, result.reason);
+            return [];
+        }
+        return [{ platform, ...result.value }];
     });
 
-    logger.info('[NODE: SocialPostNode] Social post generated:', {
-        platform,
-        hasCodeExamples: !!result.structuredPost.codeExamples?.length,
-        hasVisualElements: !!result.structuredPost.visualElements?.length,
-        postLength: result.structuredPost.postContent.length
+    if (generated.length === 0) {
+        throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    generated.forEach(({ platform, structuredPost }) => {
+        logger.info('[NODE: SocialPostNode] Social post generated:', {
+            platform,
+            hasCodeExamples: !!structuredPost.codeExamples?.length,
+            hasVisualElements: !!structuredPost.visualElements?.length,
+            postLength: structuredPost.postContent.length
+        });
     });
 
-    // Return state update with the generated post
+    const platformName = (platform: string) => getPlatformProfile(platform)?.name ?? platform;
+    const failedPlatforms = platforms.filter(platform => !generated.some(post => post.platform === platform));
+    const responses = generated.length === 1
+        ? [generated[0].message]
+        : generated.map(post => `**${platformName(post.platform)}:** ${post.message}`);
+    if (failedPlatforms.length > 0) {
+        responses.push(`I couldn't generate the ${failedPlatforms.map(platformName).join(', ')} post this time. Please ask again to retry.`);
+    }
+
+    // Return state update with the generated posts (structuredPost keeps the first one for single-post clients)
     return {
-        response: result.message,
+        response: responses.join('\n\n'),
         isSocialPost: true,
-        structuredPost: result.structuredPost,
-        error: undefined
+        structuredPost: generated[0].structuredPost,
+        generatedPosts: generated.map(({ platform, structuredPost }) => ({ platform, structuredPost })),
+        error: null
     };
 }
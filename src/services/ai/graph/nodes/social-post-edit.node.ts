@@ -1,7 +1,7 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { logger } from '../../../../utils/logger';
 import { socialPostEditAgent } from '../../agents';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 
 /**
@@ -63,11 +63,12 @@ export async function socialPostEditNode(state: typeof ChatGraphState.State, con
             id: targetPost.id,
             platform: targetPost.platform,
             content: targetPost.content,
+            thread: targetPost.thread,
             codeExamples: targetPost.codeExamples || null,
         },
         postContent: post?.content || null,
         socialMediaContentPreferences: socialMediaContentPreferences || null
-    });
+    }, getAgentRunOptions(state, config));
 
     logger.info('[NODE: SocialPostEditNode] Social post edited:', {
         postId: targetPost.id,
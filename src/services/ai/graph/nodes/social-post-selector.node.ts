@@ -1,13 +1,13 @@
 import { RunnableConfig } from '@langchain/core/runnables';
 import { logger } from '../../../../utils/logger';
 import { socialPostSelectorAgent } from '../../agents';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 
 /**
  * Social Post Selector Node
  *
- * Determines which social post the user wants to edit from the available posts.
+ * Determines which social post the user wants to edit (or revert) from the available posts.
  * If it can identify the post, sets editingSocialPostId and routes to the edit node.
  * If it can't determine, returns suggested options asking the user to select.
  */
@@ -37,7 +37,7 @@ export async function socialPostSelectorNode(state: typeof ChatGraphState.State,
         message,
         lastMessages,
         socialPostsHistory,
-    });
+    }, getAgentRunOptions(state, config));
 
     logger.info('[NODE: SocialPostSelectorNode] Post selection result:', {
         selectedPostId: result.selectedPostId,
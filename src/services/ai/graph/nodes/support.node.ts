@@ -2,7 +2,7 @@ import { RunnableConfig } from '@langchain/core/runnables';
 import { supportAgent } from '../../agents/support.agent';
 import { ChatGraphState, ChatGraphUpdateType } from '../state';
 import { logger } from '../../../../utils/logger';
-import { ChatGraphConfigurable } from '../configurable';
+import { ChatGraphConfigurable, getAgentRunOptions } from '../configurable';
 
 /**
  * Support Node
@@ -29,7 +29,7 @@ export async function supportNode(state: typeof ChatGraphState.State, config: Ru
         lastMessages: lastMessages.map(msg => msg.user_message),
         postTitle: post!.title,
         postSummary: post?.summary,
-    });
+    }, getAgentRunOptions(state, config));
 
     logger.info('[NODE: SupportNode] Support response generated');
 
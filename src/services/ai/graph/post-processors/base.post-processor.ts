@@ -11,6 +11,16 @@ export interface PostProcessorResult {
     suggestedOptions: string[];
     isSocialPost: boolean;
     structuredPost?: any;
+    structuredPosts?: GeneratedSocialPost[];
+}
+
+/**
+ * A saved social post of a (possibly multi-platform) create request
+ */
+export interface GeneratedSocialPost {
+    socialPostId: string;
+    platform: string;
+    structuredPost: any;
 }
 
 export interface PostProcessorContext {
@@ -4,6 +4,7 @@ export * from './base.post-processor';
 // Post-processor implementations
 export * from './social-post-create.post-processor';
 export * from './social-post-edit.post-processor';
+export * from './social-post-revert.post-processor';
 export * from './default.post-processor';
 
 // Manager
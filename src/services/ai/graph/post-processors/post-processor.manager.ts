@@ -1,6 +1,7 @@
 import { IPostProcessor, PostProcessorContext, PostProcessorResult } from './base.post-processor';
 import { SocialPostCreatePostProcessor } from './social-post-create.post-processor';
 import { SocialPostEditPostProcessor } from './social-post-edit.post-processor';
+import { SocialPostRevertPostProcessor } from './social-post-revert.post-processor';
 import { DefaultPostProcessor } from './default.post-processor';
 import { logger } from '../../../../utils/logger';
 
@@ -20,6 +21,7 @@ export class PostProcessorManager {
     constructor() {
         // Order matters! Most specific processors first, default last
         this.processors = [
+            new SocialPostRevertPostProcessor(),
             new SocialPostEditPostProcessor(),
             new SocialPostCreatePostProcessor(),
             new DefaultPostProcessor() // Fallback - always last
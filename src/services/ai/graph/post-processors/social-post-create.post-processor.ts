@@ -1,62 +1,88 @@
 import { SocialPlatform } from '../../../../entities/social-post.entity';
+import { HttpError } from '../../../../middleware/error.middleware';
 import { logger } from '../../../../utils/logger';
+import { ChatSessionService } from '../../../domain/chat-session.service';
 import { SocialPostsService } from '../../../domain/social-posts.service';
 import { ChatGraphState } from '../state';
-import { IPostProcessor, PostProcessorContext, PostProcessorResult } from './base.post-processor';
+import { GeneratedSocialPost, IPostProcessor, PostProcessorContext, PostProcessorResult } from './base.post-processor';
 
 /**
  * Post-processor for handling new social post creation.
- * Saves the generated social post to the database.
+ * Upserts one social post per generated platform (a session keeps one post per platform).
+ * Platforms whose post is already published are left as they are.
  */
 export class SocialPostCreatePostProcessor implements IPostProcessor {
     private socialPostsService = new SocialPostsService();
+    private chatSessionService = new ChatSessionService();
 
     canHandle(result: typeof ChatGraphState.State): boolean {
         return !!(
             result.isSocialPost &&
-            result.structuredPost &&
-            result.socialPlatformResult &&
+            result.generatedPosts?.length &&
             !result.editingSocialPostId // Not an edit operation
         );
     }
 
     async process(context: PostProcessorContext): Promise<PostProcessorResult> {
-        const { result, sessionId, userId, postId } = context;
+        const { result, sessionId, userId } = context;
 
-        logger.info('[PostProcessor: SocialPostCreate] Creating new social post');
+        logger.info('[PostProcessor: SocialPostCreate] Saving generated social posts:', {
+            platforms: result.generatedPosts!.map(post => post.platform)
+        });
 
-        // Convert lowercase platform to SocialPlatform enum
-        const platformEnum = result.socialPlatformResult === 'twitter'
-            ? SocialPlatform.TWITTER
-            : SocialPlatform.LINKEDIN;
+        // The session links new posts to its article
+        const chatSession = await this.chatSessionService.getById(sessionId, userId);
 
-        // Transform structured post to match service interface
-        const socialPostData = {
-            content: result.structuredPost!.postContent,
-            platform: platformEnum,
-            code_examples: result.structuredPost!.codeExamples || [],
-            visual_elements: result.structuredPost!.visualElements || []
-        };
+        const structuredPosts: GeneratedSocialPost[] = [];
+        const publishedPlatforms: string[] = [];
+        for (const { platform, structuredPost } of result.generatedPosts!) {
+            // Platform ids from the platform profiles are stored as-is (SocialPlatform values + custom profiles)
+            let savedSocialPost;
+            try {
+                savedSocialPost = await this.socialPostsService.upsert(chatSession ?? sessionId, userId, {
+                    content: structuredPost.postContent,
+                    thread: structuredPost.thread,
+                    platform: platform as SocialPlatform,
+                    code_examples: structuredPost.codeExamples || [],
+                    visual_elements: structuredPost.visualElements || []
+                }, { action: 'create', userMessage: context.message });
+            } catch (error) {
+                if (error instanceof HttpError && error.status === 409) {
+                    logger.info('[PostProcessor: SocialPostCreate] Skipping published social post:', { platform });
+                    publishedPlatforms.push(platform);
+                    continue;
+                }
+                throw error;
+            }
 
-        // Create social post in database
-        const savedSocialPost = await this.socialPostsService.create(
-            sessionId,
-            userId,
-            postId!,
-            socialPostData
-        );
+            logger.info('[PostProcessor: SocialPostCreate] Social post saved:', {
+                id: savedSocialPost.id,
+                platform: savedSocialPost.platform
+            });
 
-        logger.info('[PostProcessor: SocialPostCreate] Social post created:', {
-            id: savedSocialPost.id,
-            platform: savedSocialPost.platform
-        });
+            // Return the saved text: threads are re-split and counted on save
+            structuredPosts.push({
+                socialPostId: savedSocialPost.id,
+                platform,
+                structuredPost: { ...structuredPost, postContent: savedSocialPost.content, thread: savedSocialPost.thread ?? null }
+            });
+        }
+
+        if (structuredPosts.length === 0) {
+            return {
+                response: `Your ${publishedPlatforms.join(' and ')} post has already been published in this chat, so it can no longer be changed. Start a new chat to write another one.`,
+                suggestedOptions: [],
+                isSocialPost: false
+            };
+        }
 
         return {
-            socialPostId: savedSocialPost.id,
+            socialPostId: structuredPosts[0].socialPostId,
             response: result.response || '',
             suggestedOptions: result.suggestedOptions || [],
             isSocialPost: true,
-            structuredPost: result.structuredPost
+            structuredPost: structuredPosts[0].structuredPost,
+            structuredPosts
         };
     }
 }
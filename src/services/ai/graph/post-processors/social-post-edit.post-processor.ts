@@ -1,7 +1,7 @@
 import { IPostProcessor, PostProcessorContext, PostProcessorResult } from './base.post-processor';
 import { ChatGraphState } from '../state';
 import { SocialPostsService } from '../../../domain/social-posts.service';
-import { SocialPlatform } from '../../../../entities/social-post.entity';
+import { HttpError } from '../../../../middleware/error.middleware';
 import { logger } from '../../../../utils/logger';
 
 /**
@@ -26,26 +26,35 @@ export class SocialPostEditPostProcessor implements IPostProcessor {
             postId: result.editingSocialPostId
         });
 
-        // Convert lowercase platform to SocialPlatform enum (if platform changed)
-        const platformEnum = result.socialPlatformResult === 'twitter'
-            ? SocialPlatform.TWITTER
-            : SocialPlatform.LINKEDIN;
-
-        // Transform structured post to match service interface
+        // Edits keep the post's platform: the edit flow does not run platform detection
         const updateData = {
             content: result.structuredPost!.postContent,
-            platform: platformEnum,
+            thread: result.structuredPost!.thread,
             code_examples: result.structuredPost!.codeExamples || [],
             visual_elements: result.structuredPost!.visualElements || []
         };
 
         // Update social post in database
-        const updatedSocialPost = await this.socialPostsService.update(
-            sessionId,
-            result.editingSocialPostId!,
-            userId,
-            updateData
-        );
+        let updatedSocialPost;
+        try {
+            updatedSocialPost = await this.socialPostsService.update(
+                sessionId,
+                result.editingSocialPostId!,
+                userId,
+                updateData,
+                { action: 'edit', userMessage: context.message }
+            );
+        } catch (error) {
+            // Published posts keep the content they went out with
+            if (error instanceof HttpError && error.status === 409) {
+                return {
+                    response: 'This post has already been published, so it can no longer be changed. Start a new chat to write another one.',
+                    suggestedOptions: [],
+                    isSocialPost: false
+                };
+            }
+            throw error;
+        }
 
         logger.info('[PostProcessor: SocialPostEdit] Social post updated:', {
             id: updatedSocialPost.id,
@@ -57,7 +66,8 @@ export class SocialPostEditPostProcessor implements IPostProcessor {
             response: result.response || '',
             suggestedOptions: result.suggestedOptions || [],
             isSocialPost: true,
-            structuredPost: result.structuredPost
+            // Return the saved text: threads are re-split and counted on save
+            structuredPost: { ...result.structuredPost, postContent: updatedSocialPost.content, thread: updatedSocialPost.thread ?? null }
         };
     }
 }
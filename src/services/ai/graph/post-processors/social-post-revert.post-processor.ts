@@ -0,0 +1,71 @@
+import { HttpError } from '../../../../middleware/error.middleware';
+import { logger } from '../../../../utils/logger';
+import { SocialPostRevisionsService } from '../../../domain/social-post-revisions.service';
+import { ChatGraphState } from '../state';
+import { IPostProcessor, PostProcessorContext, PostProcessorResult } from './base.post-processor';
+
+/**
+ * Post-processor for "go back to the previous version" requests.
+ * Restores the selected social post to the revision before its latest one.
+ */
+export class SocialPostRevertPostProcessor implements IPostProcessor {
+    private revisionsService = new SocialPostRevisionsService();
+
+    canHandle(result: typeof ChatGraphState.State): boolean {
+        return !!(
+            result.socialIntentResult === 'REVERT' &&
+            result.editingSocialPostId
+        );
+    }
+
+    async process(context: PostProcessorContext): Promise<PostProcessorResult> {
+        const { result, sessionId, userId, message } = context;
+
+        logger.info('[PostProcessor: SocialPostRevert] Reverting social post:', {
+            postId: result.editingSocialPostId
+        });
+
+        try {
+            const { post, version } = await this.revisionsService.revertToPrevious(
+                sessionId,
+                result.editingSocialPostId!,
+                userId,
+                message
+            );
+
+            logger.info('[PostProcessor: SocialPostRevert] Social post reverted:', {
+                id: post.id,
+                version
+            });
+
+            return {
+                socialPostId: post.id,
+                response: `Done! I restored version ${version} of your ${post.platform} post.`,
+                suggestedOptions: ['Make it shorter', 'Change the tone', 'Add hashtags'],
+                isSocialPost: true,
+                structuredPost: {
+                    postContent: post.content,
+                    thread: post.thread ?? null,
+                    codeExamples: post.code_examples || [],
+                    visualElements: post.visual_elements || []
+                }
+            };
+        } catch (error) {
+            if (error instanceof HttpError && error.status === 404 && error.message === 'No previous revision') {
+                return {
+                    response: 'This post has no earlier version to go back to yet.',
+                    suggestedOptions: [],
+                    isSocialPost: false
+                };
+            }
+            if (error instanceof HttpError && error.status === 409) {
+                return {
+                    response: 'This post has already been published, so it can no longer be changed.',
+                    suggestedOptions: [],
+                    isSocialPost: false
+                };
+            }
+            throw error;
+        }
+    }
+}
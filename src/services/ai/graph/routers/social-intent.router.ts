@@ -23,6 +23,7 @@ export function socialIntentRouter(state: typeof ChatGraphState.State): string {
             return 'SocialPlatformClarification';
 
         case 'EDIT':
+        case 'REVERT':
             return 'SocialPostSelector';
 
         default:
@@ -5,13 +5,17 @@ import { ChatGraphState } from '../state';
  * Platform Router
  *
  * Routes based on platform detection results:
- * - If platform is detected with confidence → proceed to social post generation
- * - If platform needs clarification → ask user for platform choice
+ * - If one or more platforms are detected → proceed to social post generation (one post per platform)
+ * - If platform needs clarification → ask user for platform choice (SocialPlatformAnswer)
  */
 export function socialPlatformRouter(state: typeof ChatGraphState.State): string {
     const socialPlatformResult = state.socialPlatformResult;
 
-    if (!socialPlatformResult) {
+    if (!socialPlatformResult?.length && state.platformClarification) {
+        return 'SocialPlatformAnswer';
+    }
+
+    if (!socialPlatformResult?.length) {
         console.warn('⚠️ [SocialPlatformRouter] No social platform result found, ending.');
         return END;
     }
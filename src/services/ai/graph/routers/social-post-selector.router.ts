@@ -6,10 +6,16 @@ import { ChatGraphState } from '../state';
  *
  * Routes based on post selection results:
  * - If a post was identified (editingSocialPostId is set) → proceed to SocialPostEdit
+ * - If a post was identified for a REVERT → END (SocialPostRevertPostProcessor restores the previous version)
  * - If no post was identified (needs user input) → END (response with suggested options already set)
  */
 export function socialPostSelectorRouter(state: typeof ChatGraphState.State): string {
-    const { editingSocialPostId } = state;
+    const { editingSocialPostId, socialIntentResult } = state;
+
+    if (editingSocialPostId && socialIntentResult === 'REVERT') {
+        console.log(`🔀 [SocialPostSelectorRouter] Post selected: ${editingSocialPostId}, reverting`);
+        return END;
+    }
 
     if (editingSocialPostId) {
         console.log(`🔀 [SocialPostSelectorRouter] Post selected: ${editingSocialPostId}, routing to edit`);
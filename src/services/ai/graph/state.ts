@@ -18,10 +18,20 @@ export const PostSchema = z.object({
     content: z.string().optional().describe('Full content of the post'),
 });
 
+// Passage of the post highlighted by the user, with their note
+export const HighlightSchema = z.object({
+    quote: z.string().describe('Highlighted passage of the post content'),
+    note: z.string().nullable().describe('Note the user attached to the passage'),
+});
+
 // Structured social post schema
 export const StructuredPostSchema = z.object({
     postContent: z.string()
         .describe('Main text content for the social media post'),
+    thread: z.array(z.string())
+        .nullable()
+        .optional()
+        .describe('Ordered posts of a thread (thread platforms such as Twitter)'),
     codeExamples: z.array(z.object({
         language: z.string().describe('Programming language'),
         code: z.string().describe('The actual code content'),
@@ -40,8 +50,11 @@ export const StructuredPostSchema = z.object({
 // social post schema for social posts history in state
 export const SocialPostSchema = z.object({
     id: z.string().describe('Social post identifier'),
-    platform: z.enum(['twitter', 'linkedin']).describe('Social media platform'),
+    platform: SocialPlatformList.describe('Social media platform'),
     content: z.string().describe('Content of the social post'),
+    thread: z.array(z.string())
+        .nullable()
+        .describe('Ordered posts of the thread, null for non-thread posts'),
     codeExamples: z.array(z.object({
         language: z.string().describe('Programming language'),
         code: z.string().describe('The actual code content'),
@@ -50,6 +63,12 @@ export const SocialPostSchema = z.object({
         .describe('Optional array of code snippets'),
 });
 
+// One generated post of a multi-platform create request
+export const GeneratedPostSchema = z.object({
+    platform: SocialPlatformList.describe('Target social media platform'),
+    structuredPost: StructuredPostSchema.describe('Generated post content'),
+});
+
 /**
  * Chat Graph State - Minimal version for intent detection
  *
@@ -61,6 +80,9 @@ export const ChatGraphState = new StateSchema({
     message: z.string().describe('Current user message'),
     sessionId: z.string().describe('Chat session identifier'),
     userId: z.string().describe('User identifier'),
+    focusHighlights: z.boolean()
+        .default(false)
+        .describe('Whether the user asked to focus on their highlights of the post in this turn'),
 
     // ===== Memory (loaded before invoke, read-only during graph) =====
     lastMessages: z.array(SimplifiedMessageSchema)
@@ -82,27 +104,49 @@ export const ChatGraphState = new StateSchema({
     socialPostsHistory: z.array(SocialPostSchema)
         .optional()
         .describe('History of social posts created in this session for context'),
+    modelPreferences: z.record(z.string(), z.string())
+        .optional()
+        .describe('Per-user "provider:model" overrides keyed by agent role'),
+    highlights: z.array(HighlightSchema)
+        .optional()
+        .describe('User highlights of the post in reading order (loaded only when focusing on them)'),
 
     // ===== Processing (written by nodes) =====
+    // Per-turn fields are nullable: the checkpointer keeps state between turns,
+    // so ChatGraphService resets them with null at the start of every run
     intentResult: IntentRouterOutput
+        .nullable()
         .optional()
         .describe('Result of the intent detection process'),
     socialIntentResult: SocialIntentActionList
+        .nullable()
+        .optional()
+        .describe('Result of the social intent classification (CREATE, EDIT or REVERT)'),
+    socialPlatformResult: z.array(SocialPlatformList)
+        .nullable()
         .optional()
-        .describe('Result of the social intent classification (CREATE or EDIT)'),
-    socialPlatformResult: SocialPlatformList
+        .describe('Result of the social platform detection (platform profile ids, one post each)'),
+
+    platformClarification: z.object({
+        question: z.string(),
+        suggestedOptions: z.array(z.string()),
+    })
+        .nullable()
         .optional()
-        .describe('Result of the social platform detection (twitter or linkedin)'),
+        .describe('Clarification question asked when no platform was detected, kept while waiting for the answer'),
 
     editingSocialPostId: z.string()
+        .nullable()
         .optional()
-        .describe('If editing an existing social post, the ID of that post'),
+        .describe('If editing or reverting an existing social post, the ID of that post'),
 
     // ===== Output (read after graph.invoke returns) =====
     response: z.string()
+        .nullable()
         .optional()
         .describe('Final AI response to user'),
     suggestedOptions: z.array(z.string())
+        .nullable()
         .optional()
         .describe('Suggested action options for the user'),
     isSocialPost: z.boolean()
@@ -112,7 +156,12 @@ export const ChatGraphState = new StateSchema({
         .nullable()
         .optional()
         .describe('Structured social post content with code and visual elements'),
+    generatedPosts: z.array(GeneratedPostSchema)
+        .nullable()
+        .optional()
+        .describe('Posts generated in this turn, one per requested platform'),
     error: z.string()
+        .nullable()
         .optional()
         .describe('Error message if something goes wrong'),
 });
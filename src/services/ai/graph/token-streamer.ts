@@ -0,0 +1,152 @@
+import { StreamEvent } from '@langchain/core/tracers/log_stream';
+import { START } from '@langchain/langgraph';
+
+/**
+ * Structured-output fields streamed to the client, per graph node.
+ * Agents answer through a tool call, so tokens arrive as partial JSON arguments;
+ * only the user-facing string fields are forwarded.
+ */
+const STREAMED_FIELDS: Record<string, string[]> = {
+    PostQA: ['response'],
+    Support: ['response'],
+    SocialPostCreate: ['message', 'postContent'],
+    SocialPostEdit: ['message', 'postContent']
+};
+
+// Fields whose text counts as the reply when a run is interrupted
+const RESPONSE_FIELDS = ['response', 'message'];
+
+interface RunBuffer {
+    node: string;
+    platform?: string;
+    args: string;
+    emitted: Record<string, string>;
+}
+
+/**
+ * Turns LangGraph `streamEvents` into `chat:stream:node` and `chat:stream:token` socket events.
+ */
+export class TokenStreamer {
+    private runs = new Map<string, RunBuffer>();
+    private nodes: Set<string>;
+
+    constructor(
+        private sessionId: string,
+        private emit: (event: string, data: any) => void,
+        nodeNames: string[]
+    ) {
+        this.nodes = new Set(nodeNames.filter(name => name !== START));
+    }
+
+    handleEvent(event: StreamEvent): void {
+        const node = topLevelNode(event);
+        if (!node) return;
+
+        switch (event.event) {
+            case 'on_chain_start':
+            case 'on_chain_end':
+                // Only the node runnable itself, not the agents/lambdas running inside it
+                if (event.name === node && event.metadata?.langgraph_node === node && this.nodes.has(node)) {
+                    this.emit('chat:stream:node', {
+                        sessionId: this.sessionId,
+                        node,
+                        status: event.event === 'on_chain_start' ? 'started' : 'completed'
+                    });
+                }
+                break;
+            case 'on_chat_model_stream':
+                if (STREAMED_FIELDS[node]) {
+                    this.handleChunk(event.run_id, node, event.data?.chunk, event.metadata?.platform);
+                }
+                break;
+        }
+    }
+
+    /**
+     * Text streamed so far for the reply fields, used as partial output on interruption
+     */
+    get partialResponse(): string | null {
+        const parts: string[] = [];
+        this.runs.forEach(run => {
+            RESPONSE_FIELDS.forEach(field => {
+                if (run.emitted[field]) parts.push(run.emitted[field]);
+            });
+        });
+        return parts.length > 0 ? parts.join('\n\n') : null;
+    }
+
+    private handleChunk(runId: string, node: string, chunk: any, platform?: string): void {
+        const argsDelta = (chunk?.tool_call_chunks || [])
+            .map((toolCallChunk: { args?: string }) => toolCallChunk.args || '')
+            .join('');
+        if (!argsDelta) return;
+
+        const run = this.runs.get(runId) || { node, platform, args: '', emitted: {} };
+        run.args += argsDelta;
+        this.runs.set(runId, run);
+
+        for (const field of STREAMED_FIELDS[node]) {
+            const value = readPartialStringField(run.args, field);
+            const previous = run.emitted[field] || '';
+            if (value === null || value.length <= previous.length) continue;
+
+            run.emitted[field] = value;
+            this.emit('chat:stream:token', {
+                sessionId: this.sessionId,
+                token: value.slice(previous.length),
+                node,
+                field,
+                // Set when the node generates posts for several platforms in parallel
+                ...(run.platform && { platform: run.platform })
+            });
+        }
+    }
+}
+
+/**
+ * Resolve the outer graph node from the checkpoint namespace,
+ * e.g. "PostQA:<id>|model_request:<id>" -> "PostQA"
+ */
+function topLevelNode(event: StreamEvent): string | undefined {
+    const namespace: string | undefined = event.metadata?.langgraph_checkpoint_ns;
+    if (namespace) {
+        return namespace.split('|')[0].split(':')[0];
+    }
+    return event.metadata?.langgraph_node;
+}
+
+/**
+ * Read the (possibly unterminated) value of a string field from partial JSON.
+ * Returns null until the field's opening quote has arrived.
+ */
+function readPartialStringField(json: string, field: string): string | null {
+    const match = new RegExp(`"${field}"\\s*:\\s*"`).exec(json);
+    if (!match) return null;
+
+    let value = '';
+    for (let i = match.index + match[0].length; i < json.length; i++) {
+        const char = json[i];
+
+        if (char === '"') break;
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+
+        // Escape sequence: stop if it is still incomplete
+        const next = json[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+            const hex = json.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+            continue;
+        }
+
+        value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[next] ?? next;
+        i += 1;
+    }
+
+    return value;
+}
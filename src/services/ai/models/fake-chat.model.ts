@@ -0,0 +1,141 @@
+import { CallbackManagerForLLMRun } from '@langchain/core/callbacks/manager';
+import { BaseChatModel, BaseChatModelParams, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { AIMessage, AIMessageChunk, BaseMessage } from '@langchain/core/messages';
+import { ChatGenerationChunk, ChatResult } from '@langchain/core/outputs';
+import { ToolDefinition } from '@langchain/core/language_models/base';
+import { convertToOpenAITool } from '@langchain/core/utils/function_calling';
+
+interface FakeChatModelParams extends BaseChatModelParams {
+    model?: string;
+    tools?: ToolDefinition[];
+}
+
+/**
+ * Deterministic offline stand-in for a real chat model.
+ *
+ * - Without bound tools it echoes the last human message back, prefixed with the model name.
+ * - With bound tools (e.g. `toolStrategy` structured responses) it calls the first tool
+ *   with arguments synthesised from the tool's JSON schema, so the agent always receives
+ *   a response that passes validation.
+ *
+ * The same input always produces the same output, which makes the graph runnable
+ * without network access or API keys. Streaming splits that output into small chunks.
+ */
+export class FakeChatModel extends BaseChatModel {
+    model: string;
+    private tools: ToolDefinition[];
+
+    constructor(fields: FakeChatModelParams = {}) {
+        super(fields);
+        this.model = fields.model || 'fake';
+        this.tools = fields.tools || [];
+    }
+
+    _llmType(): string {
+        return 'fake';
+    }
+
+    bindTools(tools: BindToolsInput[]): FakeChatModel {
+        return new FakeChatModel({
+            model: this.model,
+            tools: [...this.tools, ...tools.map(tool => convertToOpenAITool(tool))]
+        });
+    }
+
+    async _generate(messages: BaseMessage[], _options: this['ParsedCallOptions'], _runManager?: CallbackManagerForLLMRun): Promise<ChatResult> {
+        const tool = this.tools[0];
+
+        if (tool) {
+            const message = new AIMessage({
+                content: '',
+                tool_calls: [{
+                    id: `fake-call-${tool.function.name}`,
+                    name: tool.function.name,
+                    args: sampleFromSchema(tool.function.parameters) ?? {},
+                    type: 'tool_call'
+                }]
+            });
+            return { generations: [{ text: '', message }] };
+        }
+
+        const text = `[${this.model}] ${lastHumanText(messages)}`.trim();
+        return { generations: [{ text, message: new AIMessage(text) }] };
+    }
+
+    async *_streamResponseChunks(messages: BaseMessage[], options: this['ParsedCallOptions'], runManager?: CallbackManagerForLLMRun): AsyncGenerator<ChatGenerationChunk> {
+        const { generations } = await this._generate(messages, options);
+        const message = generations[0].message as AIMessage;
+        const toolCall = message.tool_calls?.[0];
+        const payload = toolCall ? JSON.stringify(toolCall.args) : generations[0].text;
+
+        for (let offset = 0; offset < payload.length; offset += STREAM_CHUNK_SIZE) {
+            const piece = payload.slice(offset, offset + STREAM_CHUNK_SIZE);
+            const chunk = new ChatGenerationChunk({
+                text: toolCall ? '' : piece,
+                message: toolCall
+                    ? new AIMessageChunk({
+                        content: '',
+                        tool_call_chunks: [{
+                            type: 'tool_call_chunk',
+                            index: 0,
+                            args: piece,
+                            ...(offset === 0 && { id: toolCall.id, name: toolCall.name })
+                        }]
+                    })
+                    : new AIMessageChunk(piece)
+            });
+
+            yield chunk;
+            await runManager?.handleLLMNewToken(chunk.text, undefined, undefined, undefined, undefined, { chunk });
+        }
+    }
+}
+
+const STREAM_CHUNK_SIZE = 8;
+
+function lastHumanText(messages: BaseMessage[]): string {
+    const human = [...messages].reverse().find(message => message.getType() === 'human');
+    return human ? human.text.slice(0, 500) : '';
+}
+
+/**
+ * Build the smallest value that satisfies a JSON schema
+ * (first enum value, minimum numbers, padded strings, required object keys).
+ */
+function sampleFromSchema(schema: Record<string, any> | undefined): any {
+    if (!schema) return null;
+
+    if ('const' in schema) return schema.const;
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+    if ('default' in schema) return schema.default;
+
+    const variants = schema.anyOf || schema.oneOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+        return sampleFromSchema(variants[0]);
+    }
+
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+    switch (type) {
+        case 'string':
+            return 'fake response'.padEnd(schema.minLength || 0, '.');
+        case 'number':
+        case 'integer':
+            return schema.minimum ?? schema.exclusiveMinimum ?? 0;
+        case 'boolean':
+            return false;
+        case 'null':
+            return null;
+        case 'array':
+            return Array.from({ length: schema.minItems || 0 }, () => sampleFromSchema(schema.items));
+        case 'object':
+        default: {
+            const result: Record<string, any> = {};
+            const required: string[] = schema.required || Object.keys(schema.properties || {});
+            for (const key of required) {
+                result[key] = sampleFromSchema(schema.properties?.[key]);
+            }
+            return result;
+        }
+    }
+}
@@ -0,0 +1,2 @@
+export * from './fake-chat.model';
+export * from './model-registry';
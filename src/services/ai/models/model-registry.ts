@@ -0,0 +1,149 @@
+import { ChatAnthropic } from '@langchain/anthropic';
+import { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { ChatOllama } from '@langchain/ollama';
+import { ChatOpenAI } from '@langchain/openai';
+import { logger } from '../../../utils/logger';
+import { FakeChatModel } from './fake-chat.model';
+
+/**
+ * Roles an agent can play. Several agents may share a role
+ * (e.g. every classifier in the social flow runs on the `intent` model).
+ */
+export const AGENT_ROLES = ['intent', 'support', 'qa', 'create', 'edit', 'summary', 'content-check'] as const;
+export type AgentRole = typeof AGENT_ROLES[number];
+
+export const MODEL_PROVIDERS = ['openai', 'ollama', 'anthropic', 'fake'] as const;
+export type ModelProvider = typeof MODEL_PROVIDERS[number];
+
+export interface ModelConfig {
+    provider: ModelProvider;
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    reasoningEffort?: 'low' | 'medium' | 'high';
+}
+
+/**
+ * Per-user overrides stored in the `ai_model_preferences` setting,
+ * mapping a role to a "provider:model" spec, e.g. { "qa": "anthropic:claude-sonnet-4-5" }
+ */
+export type ModelPreferences = Partial<Record<AgentRole, string>>;
+
+const DEFAULT_MODELS: Record<AgentRole, ModelConfig> = {
+    'intent': { provider: 'openai', model: 'gpt-5-mini', reasoningEffort: 'low' },
+    'support': { provider: 'openai', model: 'gpt-4.1-mini', temperature: 0.3, maxTokens: 350 },
+    'qa': { provider: 'openai', model: 'gpt-5.2', reasoningEffort: 'medium' },
+    'create': { provider: 'openai', model: 'gpt-5.2', reasoningEffort: 'medium' },
+    'edit': { provider: 'openai', model: 'gpt-5.2', temperature: 0.7 },
+    'summary': { provider: 'openai', model: 'gpt-4.1-mini', temperature: 0.7 },
+    'content-check': { provider: 'openai', model: 'gpt-5-mini' }
+};
+
+// Model used for a provider named without a model (e.g. AI_PROVIDER=ollama).
+// OpenAI keeps the role's built-in default.
+const PROVIDER_DEFAULT_MODELS: Record<ModelProvider, (role: AgentRole) => string> = {
+    openai: role => DEFAULT_MODELS[role].model,
+    ollama: () => process.env.OLLAMA_MODEL || 'mistral',
+    anthropic: () => process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+    fake: () => 'fake'
+};
+
+function isProvider(value: string): value is ModelProvider {
+    return (MODEL_PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Parse a "provider:model" spec. The model part may itself contain colons (e.g. "ollama:mistral:7b").
+ * A bare provider name ("openai", "ollama") falls back to that provider's default model.
+ * @param role - Role the spec is for: a bare "openai" stands for the role's default model
+ */
+export function parseModelSpec(spec: string, role: AgentRole = 'qa'): Pick<ModelConfig, 'provider' | 'model'> | null {
+    const [provider, ...rest] = spec.trim().split(':');
+    if (!isProvider(provider)) {
+        return null;
+    }
+
+    const model = rest.join(':');
+    if (model) {
+        return { provider, model };
+    }
+
+    return { provider, model: PROVIDER_DEFAULT_MODELS[provider](role) };
+}
+
+function envKey(role: AgentRole): string {
+    return `AI_MODEL_${role.toUpperCase().replace(/-/g, '_')}`;
+}
+
+/**
+ * Resolve the model configuration for a role.
+ *
+ * Precedence: user preference > AI_MODEL_<ROLE> env > AI_PROVIDER env > built-in default.
+ * Tuning (temperature, max tokens) is kept when the model is swapped; the reasoning
+ * effort only applies to the default OpenAI model it was chosen for.
+ */
+export function resolveModelConfig(role: AgentRole, preferences?: ModelPreferences): ModelConfig {
+    const defaults = DEFAULT_MODELS[role];
+    const candidates: Array<[string, string | undefined]> = [
+        ['user preference', preferences?.[role]],
+        [envKey(role), process.env[envKey(role)]],
+        ['AI_PROVIDER', process.env.AI_PROVIDER]
+    ];
+
+    for (const [source, spec] of candidates) {
+        if (!spec) continue;
+
+        const parsed = parseModelSpec(spec, role);
+        if (!parsed) {
+            logger.warn(`[AI: ModelRegistry] Ignoring invalid model spec "${spec}" from ${source} for role ${role}`);
+            continue;
+        }
+
+        if (parsed.provider === defaults.provider && parsed.model === defaults.model) {
+            return defaults;
+        }
+
+        return {
+            ...parsed,
+            temperature: defaults.temperature,
+            maxTokens: defaults.maxTokens
+        };
+    }
+
+    return defaults;
+}
+
+/**
+ * Instantiate the chat model configured for an agent role
+ */
+export function createChatModel(role: AgentRole, preferences?: ModelPreferences): BaseChatModel {
+    const config = resolveModelConfig(role, preferences);
+
+    switch (config.provider) {
+        case 'ollama':
+            return new ChatOllama({
+                model: config.model,
+                baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+                temperature: config.temperature,
+                numPredict: config.maxTokens
+            });
+        case 'anthropic':
+            return new ChatAnthropic({
+                model: config.model,
+                temperature: config.temperature,
+                maxTokens: config.maxTokens,
+                apiKey: process.env.ANTHROPIC_API_KEY
+            });
+        case 'fake':
+            return new FakeChatModel({ model: config.model });
+        case 'openai':
+        default:
+            return new ChatOpenAI({
+                model: config.model,
+                temperature: config.temperature,
+                maxTokens: config.maxTokens,
+                ...(config.reasoningEffort && { reasoning: { effort: config.reasoningEffort } }),
+                openAIApiKey: process.env.OPENAI_API_KEY
+            });
+    }
+}
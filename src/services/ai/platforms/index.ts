@@ -0,0 +1,2 @@
+export * from './platform-profiles';
+export * from './thread';
@@ -0,0 +1,175 @@
+import fs from 'fs';
+import { z } from 'zod';
+import { logger } from '../../../utils/logger';
+
+/**
+ * Definition of a social platform the social flow can write for.
+ * Detection, creation/editing rules, length limits and the platform options offered
+ * to the user are all derived from these profiles.
+ */
+export const PlatformProfileSchema = z.object({
+    id: z.string().regex(/^[a-z][a-z0-9_-]{1,49}$/).describe('Stored in social_posts.platform'),
+    name: z.string().min(1).describe('Display name, also used as the suggested option'),
+    aliases: z.array(z.string()).default([]).describe('Words that explicitly name the platform'),
+    style: z.string(),
+    tone: z.string(),
+    maxLength: z.number().int().positive().describe('Hard limit on the post text (per post for thread platforms)'),
+    thread: z.object({
+        maxPosts: z.number().int().positive()
+    }).optional().describe('Set when posts are published as threads of short posts'),
+    targetLength: z.object({
+        min: z.number().int().nonnegative(),
+        max: z.number().int().positive()
+    }).optional(),
+    hashtags: z.object({
+        min: z.number().int().nonnegative(),
+        max: z.number().int().nonnegative()
+    }),
+    rules: z.array(z.string()).default([])
+});
+
+export type PlatformProfile = z.infer<typeof PlatformProfileSchema>;
+
+const BUILT_IN_PROFILES: PlatformProfile[] = [
+    {
+        id: 'twitter',
+        name: 'Twitter',
+        aliases: ['Twitter', 'X', 'tweet', 'تويتر'],
+        style: 'Thread-style or punchy single tweet.',
+        tone: 'Concise, engaging, hashtag-friendly.',
+        maxLength: 280,
+        thread: { maxPosts: 25 },
+        hashtags: { min: 1, max: 3 },
+        rules: []
+    },
+    {
+        id: 'linkedin',
+        name: 'LinkedIn',
+        aliases: ['LinkedIn', 'لينكدإن', 'لينكدان'],
+        style: 'Professional, spaced for readability.',
+        tone: 'Professional, thoughtful, industry insights.',
+        maxLength: 3000,
+        targetLength: { min: 1300, max: 1600 },
+        hashtags: { min: 3, max: 5 },
+        rules: ['The first sentence MUST be a "scroll-stopper" (provocative question, surprising stat, or bold claim).']
+    },
+    {
+        id: 'facebook',
+        name: 'Facebook',
+        aliases: ['Facebook', 'FB', 'فيسبوك', 'فيس بوك'],
+        style: 'Conversational story with short paragraphs.',
+        tone: 'Friendly, relatable, community-oriented.',
+        maxLength: 63206,
+        targetLength: { min: 100, max: 500 },
+        hashtags: { min: 0, max: 2 },
+        rules: ['End with a question or call to action that invites comments.']
+    },
+    {
+        id: 'instagram',
+        name: 'Instagram',
+        aliases: ['Instagram', 'IG', 'insta', 'انستغرام', 'انستجرام'],
+        style: 'Visual-first caption: hook line, short body, hashtags at the end.',
+        tone: 'Energetic, personal, emoji-friendly.',
+        maxLength: 2200,
+        targetLength: { min: 150, max: 600 },
+        hashtags: { min: 5, max: 15 },
+        rules: [
+            'Always describe at least one visual (image or carousel slide) in visualElements; the caption accompanies it.',
+            'Links are not clickable in captions: refer to "link in bio" instead of pasting URLs.'
+        ]
+    }
+];
+
+/**
+ * Load extra profiles from the JSON file referenced by SOCIAL_PLATFORM_PROFILES.
+ * A profile with a built-in id replaces the built-in one; invalid entries are skipped.
+ */
+function loadCustomProfiles(): PlatformProfile[] {
+    const filePath = process.env.SOCIAL_PLATFORM_PROFILES;
+    if (!filePath) return [];
+
+    try {
+        const raw = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+        const entries: unknown[] = Array.isArray(raw) ? raw : [raw];
+
+        return entries.flatMap((entry, index) => {
+            const parsed = PlatformProfileSchema.safeParse(entry);
+            if (!parsed.success) {
+                logger.warn(`[AI: PlatformProfiles] Skipping invalid profile #${index} in ${filePath}: ${parsed.error.message}`);
+                return [];
+            }
+            return [parsed.data];
+        });
+    } catch (error) {
+        logger.error(`[AI: PlatformProfiles] Failed to load ${filePath}:`, error);
+        return [];
+    }
+}
+
+function mergeProfiles(builtIn: PlatformProfile[], custom: PlatformProfile[]): PlatformProfile[] {
+    const profiles = new Map(builtIn.map(profile => [profile.id, profile]));
+    custom.forEach(profile => profiles.set(profile.id, profile));
+    return [...profiles.values()];
+}
+
+export const PLATFORM_PROFILES: readonly PlatformProfile[] = mergeProfiles(BUILT_IN_PROFILES, loadCustomProfiles());
+
+export const PLATFORM_IDS = PLATFORM_PROFILES.map(profile => profile.id) as [string, ...string[]];
+
+export function getPlatformProfile(id: string): PlatformProfile | undefined {
+    return PLATFORM_PROFILES.find(profile => profile.id === id);
+}
+
+export function isSupportedPlatform(id: string): boolean {
+    return !!getPlatformProfile(id);
+}
+
+/**
+ * Display names of all platforms, e.g. "Twitter, LinkedIn, Facebook or Instagram"
+ */
+export function describePlatformNames(): string {
+    const names = PLATFORM_PROFILES.map(profile => profile.name);
+    return names.length > 1
+        ? `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+        : names[0];
+}
+
+function describeLength(profile: PlatformProfile): string {
+    if (profile.thread) {
+        return `<${profile.maxLength} characters per post, at most ${profile.thread.maxPosts} posts in 'thread' (a single post is a thread of one)`;
+    }
+    if (profile.targetLength) {
+        return `${profile.targetLength.min}-${profile.targetLength.max} characters (hard limit ${profile.maxLength})`;
+    }
+    return `<${profile.maxLength} characters`;
+}
+
+/**
+ * Prompt block with the style, constraints and tone of one platform
+ */
+export function formatPlatformRules(profile: PlatformProfile): string {
+    const constraints = [
+        describeLength(profile),
+        profile.hashtags.max === 0
+            ? 'no hashtags'
+            : `${profile.hashtags.min}-${profile.hashtags.max} hashtags`
+    ];
+
+    const lines = [
+        `**${profile.name}:** - Style: ${profile.style}`,
+        `   - Constraints: ${constraints.join('. ')}.`,
+        `   - Tone: ${profile.tone}`,
+        ...profile.rules.map(rule => `   - ${rule}`)
+    ];
+
+    return lines.join('\n');
+}
+
+/**
+ * Numbered rules block for every configured platform, used in system prompts
+ */
+export function formatAllPlatformRules(): string {
+    return PLATFORM_PROFILES
+        .map((profile, index) => `${index + 1}. ${formatPlatformRules(profile)}`)
+        .join('\n');
+}
@@ -0,0 +1,135 @@
+import { ThreadPost } from '../../../entities/social-post.entity';
+
+// Every URL counts as a t.co link, whatever its real length
+const URL_PATTERN = /https?:\/\/\S+/g;
+const URL_LENGTH = 23;
+
+// Code point ranges counted as one character; everything else (CJK, emoji, ...) counts as two
+const LIGHT_RANGES: Array<[number, number]> = [
+    [0x0000, 0x10ff],
+    [0x2000, 0x200d],
+    [0x2010, 0x201f],
+    [0x2032, 0x2037]
+];
+
+function codePointWeight(codePoint: number): number {
+    return LIGHT_RANGES.some(([start, end]) => codePoint >= start && codePoint <= end) ? 1 : 2;
+}
+
+/**
+ * Character count of a thread post as Twitter computes it (weighted code points, URLs as 23)
+ */
+export function countThreadPostLength(text: string): number {
+    let length = 0;
+    const withoutUrls = text.replace(URL_PATTERN, () => {
+        length += URL_LENGTH;
+        return '';
+    });
+
+    for (const char of withoutUrls) {
+        length += codePointWeight(char.codePointAt(0)!);
+    }
+    return length;
+}
+
+/**
+ * Split text that is too long for one thread post, preferring paragraph,
+ * then sentence, then word boundaries. Words longer than the limit are cut.
+ */
+export function splitThreadPost(text: string, maxLength: number): string[] {
+    const trimmed = text.trim();
+    if (countThreadPostLength(trimmed) <= maxLength) return trimmed ? [trimmed] : [];
+
+    const separators: Array<[RegExp, string]> = [
+        [/\n{2,}/, '\n\n'],
+        [/(?<=[.!?…])\s+/, ' '],
+        [/\s+/, ' ']
+    ];
+
+    for (const [pattern, joiner] of separators) {
+        const pieces = trimmed.split(pattern).filter(piece => piece.trim());
+        if (pieces.length > 1) {
+            return packPieces(pieces, joiner, maxLength);
+        }
+    }
+
+    return cutByLength(trimmed, maxLength);
+}
+
+/**
+ * Greedily pack consecutive pieces into posts under the limit, splitting further when a piece alone is too long
+ */
+function packPieces(pieces: string[], joiner: string, maxLength: number): string[] {
+    const posts: string[] = [];
+    let current = '';
+
+    for (const piece of pieces) {
+        const candidate = current ? `${current}${joiner}${piece}` : piece;
+        if (countThreadPostLength(candidate) <= maxLength) {
+            current = candidate;
+            continue;
+        }
+
+        if (current) posts.push(current.trim());
+        if (countThreadPostLength(piece) <= maxLength) {
+            current = piece;
+        } else {
+            posts.push(...splitThreadPost(piece, maxLength));
+            current = '';
+        }
+    }
+
+    if (current.trim()) posts.push(current.trim());
+    return posts;
+}
+
+function cutByLength(text: string, maxLength: number): string[] {
+    const posts: string[] = [];
+    let current = '';
+
+    for (const char of text) {
+        if (countThreadPostLength(current + char) > maxLength) {
+            posts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+
+    if (current) posts.push(current);
+    return posts;
+}
+
+/**
+ * Map edited content back onto an existing thread, keeping its split points: posts still found
+ * unchanged at the start and at the end of the content stay as they are, and the edited text
+ * between them becomes a single post.
+ */
+export function applyContentToThread(posts: string[], content: string): string[] {
+    const separator = '\n\n';
+    const head: string[] = [];
+    const tail: string[] = [];
+    let rest = content.trim();
+    let first = 0;
+    let last = posts.length - 1;
+
+    while (first <= last && (rest === posts[first] || rest.startsWith(posts[first] + separator))) {
+        rest = rest.slice(posts[first].length).trim();
+        head.push(posts[first++]);
+    }
+    while (first <= last && (rest === posts[last] || rest.endsWith(separator + posts[last]))) {
+        rest = rest.slice(0, rest.length - posts[last].length).trim();
+        tail.unshift(posts[last--]);
+    }
+
+    return [...head, ...(rest ? [rest] : []), ...tail];
+}
+
+/**
+ * Normalize an ordered list of thread posts: drop empty posts, re-split the ones over
+ * the limit and attach the character count of each post.
+ */
+export function buildThread(posts: string[], maxLength: number): ThreadPost[] {
+    return posts
+        .flatMap(post => splitThreadPost(post, maxLength))
+        .map(text => ({ text, length: countThreadPostLength(text) }));
+}
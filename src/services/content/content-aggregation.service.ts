@@ -1,5 +1,6 @@
 import { logger } from '../../utils/logger';
 import agentqlService from './agentql.service';
+import requestScheduler from './request-scheduler.service';
 import scraper from './scraper.service';
 
 interface ContentAggregationResult {
@@ -56,6 +57,16 @@ export class ContentAggregationService {
     }
 
     private async extractContentWithFallback(url: string) {
+        // AgentQL fetches the page on our behalf, so robots.txt applies to it as well
+        if (!(await this.isAllowedByRobots(url))) {
+            logger.warn(`Skipping ${url}: disallowed by robots.txt`);
+            return {
+                postContent: '',
+                readMoreUrl: [],
+                isHumanVerificationRequired: false
+            };
+        }
+
         try {
             // Try direct URL extraction first (most efficient)
             logger.info(`Attempting direct AgentQL extraction for: ${url}`);
@@ -82,6 +93,16 @@ export class ContentAggregationService {
         }
     }
 
+    private async isAllowedByRobots(url: string): Promise<boolean> {
+        try {
+            return await requestScheduler.isAllowed(url);
+        } catch (error) {
+            // The host is rate limited: let the extraction itself deal with it
+            logger.warn(`Could not check robots.txt for ${url}:`, error);
+            return true;
+        }
+    }
+
     private async fallbackToHtmlExtraction(url: string) {
         try {
             logger.info(`Starting HTML fallback extraction for: ${url}`);
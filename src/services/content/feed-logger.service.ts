@@ -3,12 +3,37 @@ import AppDataSource from '../../config/database.config';
 import { FeedFetchLog } from '../../entities/feed-fetch-log.entity';
 import { logger } from '../../utils/logger';
 
+export interface FeedFetchStats {
+    feed_id: string;
+    total: number;
+    successful: number;
+    not_modified: number;
+    avg_response_time_ms: number | null;
+    last_success_at: Date | null;
+    // Error rates of the first and second half of the window
+    first_half_error_rate: number | null;
+    second_half_error_rate: number | null;
+}
+
+export interface FeedFetchDailyStats {
+    day: string;
+    total: number;
+    errors: number;
+    avg_response_time_ms: number | null;
+}
+
+export interface FeedFetchErrorSummary {
+    error_message: string;
+    count: number;
+    last_seen_at: Date;
+}
+
 /**
  * FeedLoggerService - Manages feed fetch logging
  *
  * Responsibilities:
  * - Log all feed fetch attempts with status and timing
- * - Retrieve recent fetch logs for monitoring
+ * - Retrieve recent fetch logs and aggregated statistics for monitoring
  * - Cleanup old logs to manage storage
  */
 export class FeedLoggerService {
@@ -78,6 +103,95 @@ export class FeedLoggerService {
         }
     }
 
+    /**
+     * Aggregate fetch statistics of feeds since a date
+     * @param feedIds - The feed IDs
+     * @param since - Start of the window
+     * @returns One entry per feed with at least one logged fetch in the window
+     */
+    async getStats(feedIds: string[], since: Date): Promise<FeedFetchStats[]> {
+        if (feedIds.length === 0) return [];
+
+        // Comparing both halves of the window shows whether a feed is getting better or worse
+        const midpoint = new Date((since.getTime() + Date.now()) / 2);
+
+        const rows = await this.feedFetchLogRepository.createQueryBuilder('log')
+            .select('log.feed_id', 'feed_id')
+            .addSelect('COUNT(*)', 'total')
+            .addSelect('COUNT(*) FILTER (WHERE log.error_message IS NULL)', 'successful')
+            .addSelect('COUNT(*) FILTER (WHERE log.status_code = 304)', 'not_modified')
+            .addSelect('AVG(log.response_time_ms) FILTER (WHERE log.error_message IS NULL)', 'avg_response_time_ms')
+            .addSelect('MAX(log.fetched_at) FILTER (WHERE log.error_message IS NULL)', 'last_success_at')
+            .addSelect('COUNT(*) FILTER (WHERE log.fetched_at < :midpoint)', 'first_half_total')
+            .addSelect('COUNT(*) FILTER (WHERE log.fetched_at < :midpoint AND log.error_message IS NOT NULL)', 'first_half_errors')
+            .addSelect('COUNT(*) FILTER (WHERE log.fetched_at >= :midpoint)', 'second_half_total')
+            .addSelect('COUNT(*) FILTER (WHERE log.fetched_at >= :midpoint AND log.error_message IS NOT NULL)', 'second_half_errors')
+            .where('log.feed_id IN (:...feedIds)', { feedIds })
+            .andWhere('log.fetched_at >= :since', { since })
+            .setParameter('midpoint', midpoint)
+            .groupBy('log.feed_id')
+            .getRawMany();
+
+        const rate = (errors: string, total: string) => Number(total) > 0 ? Number(errors) / Number(total) : null;
+
+        return rows.map(row => ({
+            feed_id: row.feed_id,
+            total: Number(row.total),
+            successful: Number(row.successful),
+            not_modified: Number(row.not_modified),
+            avg_response_time_ms: row.avg_response_time_ms !== null ? Math.round(Number(row.avg_response_time_ms)) : null,
+            last_success_at: row.last_success_at ? new Date(row.last_success_at) : null,
+            first_half_error_rate: rate(row.first_half_errors, row.first_half_total),
+            second_half_error_rate: rate(row.second_half_errors, row.second_half_total)
+        }));
+    }
+
+    /**
+     * Fetches, errors and latency of a feed per day since a date
+     */
+    async getDailyStats(feedId: string, since: Date): Promise<FeedFetchDailyStats[]> {
+        const rows = await this.feedFetchLogRepository.createQueryBuilder('log')
+            .select(`to_char(date_trunc('day', log.fetched_at), 'YYYY-MM-DD')`, 'day')
+            .addSelect('COUNT(*)', 'total')
+            .addSelect('COUNT(*) FILTER (WHERE log.error_message IS NOT NULL)', 'errors')
+            .addSelect('AVG(log.response_time_ms) FILTER (WHERE log.error_message IS NULL)', 'avg_response_time_ms')
+            .where('log.feed_id = :feedId', { feedId })
+            .andWhere('log.fetched_at >= :since', { since })
+            .groupBy('day')
+            .orderBy('day', 'ASC')
+            .getRawMany();
+
+        return rows.map(row => ({
+            day: row.day,
+            total: Number(row.total),
+            errors: Number(row.errors),
+            avg_response_time_ms: row.avg_response_time_ms !== null ? Math.round(Number(row.avg_response_time_ms)) : null
+        }));
+    }
+
+    /**
+     * Most recent distinct errors of a feed since a date
+     */
+    async getRecentErrors(feedId: string, since: Date, limit: number = 5): Promise<FeedFetchErrorSummary[]> {
+        const rows = await this.feedFetchLogRepository.createQueryBuilder('log')
+            .select('log.error_message', 'error_message')
+            .addSelect('COUNT(*)', 'count')
+            .addSelect('MAX(log.fetched_at)', 'last_seen_at')
+            .where('log.feed_id = :feedId', { feedId })
+            .andWhere('log.fetched_at >= :since', { since })
+            .andWhere('log.error_message IS NOT NULL')
+            .groupBy('log.error_message')
+            .orderBy('last_seen_at', 'DESC')
+            .limit(limit)
+            .getRawMany();
+
+        return rows.map(row => ({
+            error_message: row.error_message,
+            count: Number(row.count),
+            last_seen_at: new Date(row.last_seen_at)
+        }));
+    }
+
     /**
      * Delete logs older than the specified number of days
      * @param daysToKeep - Number of days to keep logs (default: 30)
@@ -0,0 +1,136 @@
+import { IsNull, Not, Repository } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { Feed } from '../../entities/feed.entity';
+import { FeedFetchLog } from '../../entities/feed-fetch-log.entity';
+import { Post } from '../../entities/post.entity';
+import { WebSubSubscription } from '../../entities/websub-subscription.entity';
+import { logger } from '../../utils/logger';
+
+// Global interval bounds; feeds can override them with min/max_fetch_interval_minutes
+const MIN_INTERVAL_MINUTES = parseInt(process.env.FEED_MIN_FETCH_INTERVAL_MINUTES || '15');
+const MAX_INTERVAL_MINUTES = parseInt(process.env.FEED_MAX_FETCH_INTERVAL_MINUTES || '1440');
+
+// Used until a feed has enough dated posts to measure its cadence
+const DEFAULT_INTERVAL_MINUTES = 180;
+const CADENCE_SAMPLE_SIZE = 20;
+const IDLE_SAMPLE_SIZE = 10;
+const JITTER_RATIO = 0.1;
+
+export interface FeedFetchOutcome {
+    failed: boolean;
+}
+
+export interface FeedSchedule {
+    intervalMinutes: number;
+    nextFetchAt: Date;
+}
+
+/**
+ * FeedSchedulerService - Decides when each feed is polled next
+ *
+ * The interval starts from half the feed's typical gap between posts (so a post waits at most
+ * about half a gap) and is stretched by up to 2x when recent fetches brought nothing new (304 or
+ * no new posts). After an error the feed is retried at the minimum interval, doubled for every
+ * consecutive error. Feeds with an active WebSub subscription are polled at the maximum interval.
+ * Everything is clamped to the feed's bounds.
+ */
+export class FeedSchedulerService {
+    private postRepository: Repository<Post>;
+    private feedFetchLogRepository: Repository<FeedFetchLog>;
+    private webSubSubscriptionRepository: Repository<WebSubSubscription>;
+
+    constructor() {
+        this.postRepository = AppDataSource.getRepository(Post);
+        this.feedFetchLogRepository = AppDataSource.getRepository(FeedFetchLog);
+        this.webSubSubscriptionRepository = AppDataSource.getRepository(WebSubSubscription);
+    }
+
+    /**
+     * Interval bounds of a feed in minutes, after admin overrides
+     */
+    getBounds(feed: Feed): { min: number; max: number } {
+        const min = feed.min_fetch_interval_minutes ?? MIN_INTERVAL_MINUTES;
+        const max = Math.max(feed.max_fetch_interval_minutes ?? MAX_INTERVAL_MINUTES, min);
+        return { min, max };
+    }
+
+    /**
+     * Compute the next fetch of a feed after a fetch attempt.
+     * Expects the feed's fetch_error_count to be up to date.
+     */
+    async computeNextFetch(feed: Feed, outcome: FeedFetchOutcome): Promise<FeedSchedule> {
+        const { min, max } = this.getBounds(feed);
+        let interval: number;
+
+        try {
+            if (outcome.failed) {
+                interval = min * 2 ** Math.min(feed.fetch_error_count, 10);
+            } else if (await this.hasActiveWebSub(feed.id)) {
+                interval = max;
+            } else {
+                const cadence = await this.getPublishCadenceMinutes(feed.id);
+                const idleRate = await this.getIdleRate(feed.id);
+                interval = (cadence !== null ? cadence / 2 : DEFAULT_INTERVAL_MINUTES) * (1 + idleRate);
+            }
+        } catch (error) {
+            logger.error(`Error computing fetch schedule for feed ${feed.id}:`, error);
+            interval = DEFAULT_INTERVAL_MINUTES;
+        }
+
+        // Jitter spreads feeds with the same cadence over time
+        interval *= 1 + (Math.random() * 2 - 1) * JITTER_RATIO;
+        const intervalMinutes = Math.round(Math.min(Math.max(interval, min), max));
+
+        return {
+            intervalMinutes,
+            nextFetchAt: new Date(Date.now() + intervalMinutes * 60 * 1000)
+        };
+    }
+
+    /**
+     * Typical time between posts: the median gap of the latest posts, or the time since the
+     * latest post when that is longer (a feed that went quiet is polled less)
+     * @returns Minutes, or null without enough dated posts
+     */
+    private async getPublishCadenceMinutes(feedId: string): Promise<number | null> {
+        const posts = await this.postRepository.find({
+            select: ['published_date'],
+            where: { feed_id: feedId, published_date: Not(IsNull()) },
+            order: { published_date: 'DESC' },
+            take: CADENCE_SAMPLE_SIZE
+        });
+
+        const dates = posts.map(post => new Date(post.published_date!).getTime());
+        if (dates.length < 2) return null;
+
+        // Posts published together (same timestamp) count as one
+        const gaps = dates.slice(1).map((date, index) => dates[index] - date).filter(gap => gap > 0);
+        if (gaps.length === 0) return null;
+
+        gaps.sort((a, b) => a - b);
+        const median = gaps[Math.floor(gaps.length / 2)];
+        const sinceLatest = Math.max(Date.now() - dates[0], 0);
+
+        return Math.max(median, sinceLatest) / (60 * 1000);
+    }
+
+    /**
+     * Share of recent successful fetches that brought nothing new (304 or no new posts)
+     */
+    private async getIdleRate(feedId: string): Promise<number> {
+        const logs = await this.feedFetchLogRepository.find({
+            where: { feed_id: feedId, error_message: IsNull() },
+            order: { fetched_at: 'DESC' },
+            take: IDLE_SAMPLE_SIZE
+        });
+
+        if (logs.length === 0) return 0;
+        return logs.filter(log => !log.was_modified || log.new_posts_count === 0).length / logs.length;
+    }
+
+    private async hasActiveWebSub(feedId: string): Promise<boolean> {
+        return this.webSubSubscriptionRepository.exists({
+            where: { feed_id: feedId, status: 'active' }
+        });
+    }
+}
@@ -0,0 +1,133 @@
+import { FeedEntry, RSSFeed } from '../../types/content.types';
+
+/**
+ * JSON Feed (https://www.jsonfeed.org/version/1.1/) support.
+ * Items are mapped onto the same FeedEntry/RSSFeed shapes feedparser produces for RSS and Atom.
+ */
+
+interface JsonFeedAuthor {
+    name?: string;
+    url?: string;
+}
+
+interface JsonFeedAttachment {
+    url: string;
+    mime_type?: string;
+}
+
+interface JsonFeedItem {
+    id?: string | number;
+    url?: string;
+    external_url?: string;
+    title?: string;
+    content_html?: string;
+    content_text?: string;
+    summary?: string;
+    image?: string;
+    banner_image?: string;
+    date_published?: string;
+    date_modified?: string;
+    authors?: JsonFeedAuthor[];
+    author?: JsonFeedAuthor; // JSON Feed 1.0
+    tags?: string[];
+    attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeedHub {
+    type: string;
+    url: string;
+}
+
+interface JsonFeedDocument {
+    version: string;
+    title?: string;
+    home_page_url?: string;
+    feed_url?: string;
+    description?: string;
+    language?: string;
+    hubs?: JsonFeedHub[];
+    items?: JsonFeedItem[];
+}
+
+const VERSION_PREFIX = 'https://jsonfeed.org/version/';
+
+// Titleless items (microblog posts) get a title from the start of their text
+const DERIVED_TITLE_LENGTH = 80;
+
+/**
+ * Parse content as a JSON Feed document, or return null when it is not one
+ */
+function readJsonFeed(content: string): JsonFeedDocument | null {
+    const trimmed = content.trimStart();
+    if (!trimmed.startsWith('{')) return null;
+
+    try {
+        const document = JSON.parse(trimmed);
+        return typeof document?.version === 'string' && document.version.startsWith(VERSION_PREFIX)
+            ? document
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+export function isJsonFeed(content: string): boolean {
+    return readJsonFeed(content) !== null;
+}
+
+function stripHtml(html: string): string {
+    return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function deriveTitle(item: JsonFeedItem): string {
+    const text = item.content_text || item.summary || stripHtml(item.content_html || '');
+    if (text.length <= DERIVED_TITLE_LENGTH) return text;
+    return `${text.slice(0, DERIVED_TITLE_LENGTH).replace(/\s+\S*$/, '')}…`;
+}
+
+function parseDate(value?: string): Date | undefined {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toFeedEntry(item: JsonFeedItem): FeedEntry {
+    const authors = item.authors || (item.author ? [item.author] : []);
+    const imageAttachment = item.attachments?.find(attachment => attachment.mime_type?.startsWith('image'));
+
+    return {
+        title: item.title?.trim() || deriveTitle(item),
+        link: item.url || item.external_url || '',
+        pubDate: parseDate(item.date_published) || parseDate(item.date_modified),
+        description: item.summary || item.content_text,
+        content: item.content_html || item.content_text || item.summary,
+        author: authors.map(author => author.name).filter(Boolean).join(', ') || undefined,
+        categories: item.tags || [],
+        guid: item.id !== undefined ? String(item.id) : item.url,
+        image_url: item.image || item.banner_image || imageAttachment?.url
+    };
+}
+
+/**
+ * Parse a JSON Feed (1.0 or 1.1) document
+ * @param content - Raw response body
+ * @param url - Feed URL
+ */
+export function parseJsonFeed(content: string, url: string): RSSFeed {
+    const document = readJsonFeed(content);
+    if (!document) {
+        throw new Error('Invalid JSON Feed document');
+    }
+
+    return {
+        title: document.title || '',
+        description: document.description,
+        link: url,
+        language: document.language,
+        entries: (document.items || []).map(toFeedEntry),
+        hubs: (document.hubs || [])
+            .filter(hub => hub.url && hub.type?.toLowerCase() === 'websub')
+            .map(hub => hub.url),
+        selfUrl: document.feed_url
+    };
+}
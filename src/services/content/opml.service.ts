@@ -0,0 +1,103 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * A feed subscription found in (or written to) an OPML file
+ */
+export interface OpmlFeed {
+    xmlUrl: string;
+    title?: string;
+    htmlUrl?: string;
+    // Folder names from the root down, e.g. ['Tech', 'JavaScript']
+    folderPath: string[];
+}
+
+/**
+ * Folder tree used to build an OPML document
+ */
+export interface OpmlFolder {
+    title: string;
+    feeds: Array<Omit<OpmlFeed, 'folderPath'>>;
+    folders: OpmlFolder[];
+}
+
+export class OpmlService {
+    /**
+     * Parse an OPML document (Feedly, Inoreader, NetNewsWire, ...) into a flat list of feeds.
+     * Outlines with an xmlUrl are feeds; outlines without one are folders, at any depth.
+     */
+    parse(xml: string): { title?: string; feeds: OpmlFeed[] } {
+        const $ = cheerio.load(xml, { xml: true });
+
+        const body = $('opml > body');
+        if (body.length === 0) {
+            throw new Error('Not an OPML document');
+        }
+
+        const feeds: OpmlFeed[] = [];
+        const walk = (outlines: typeof body, folderPath: string[]) => {
+            outlines.each((_, outline) => {
+                const $outline = $(outline);
+                const xmlUrl = $outline.attr('xmlUrl')?.trim();
+                const title = ($outline.attr('title') || $outline.attr('text'))?.trim() || undefined;
+
+                if (xmlUrl) {
+                    feeds.push({ xmlUrl, title, htmlUrl: $outline.attr('htmlUrl')?.trim() || undefined, folderPath });
+                } else {
+                    walk($outline.children('outline'), title ? [...folderPath, title] : folderPath);
+                }
+            });
+        };
+        walk(body.children('outline'), []);
+
+        return { title: $('opml > head > title').first().text().trim() || undefined, feeds };
+    }
+
+    /**
+     * Build an OPML 2.0 document from a folder tree (the root's feeds are top-level outlines)
+     */
+    build(title: string, root: OpmlFolder): string {
+        const lines = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<opml version="2.0">',
+            '  <head>',
+            `    <title>${escapeXml(title)}</title>`,
+            `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+            '  </head>',
+            '  <body>',
+            ...this.renderFolderContents(root, 2),
+            '  </body>',
+            '</opml>',
+            ''
+        ];
+        return lines.join('\n');
+    }
+
+    private renderFolderContents(folder: OpmlFolder, depth: number): string[] {
+        const indent = '  '.repeat(depth);
+        const lines: string[] = [];
+
+        folder.folders.forEach(child => {
+            const name = escapeXml(child.title);
+            lines.push(`${indent}<outline text="${name}" title="${name}">`);
+            lines.push(...this.renderFolderContents(child, depth + 1));
+            lines.push(`${indent}</outline>`);
+        });
+
+        folder.feeds.forEach(feed => {
+            const name = escapeXml(feed.title || feed.xmlUrl);
+            const htmlUrl = feed.htmlUrl ? ` htmlUrl="${escapeXml(feed.htmlUrl)}"` : '';
+            lines.push(`${indent}<outline type="rss" text="${name}" title="${name}" xmlUrl="${escapeXml(feed.xmlUrl)}"${htmlUrl}/>`);
+        });
+
+        return lines;
+    }
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
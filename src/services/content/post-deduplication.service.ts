@@ -0,0 +1,166 @@
+import { Brackets, In, Not } from 'typeorm';
+import { Post } from '../../entities/post.entity';
+import { PostRepository } from '../../repositories';
+import { canonicalizeUrl } from '../../utils/canonical-url.util';
+import { hammingDistance, simhash } from '../../utils/simhash.util';
+import { logger } from '../../utils/logger';
+
+// Fingerprints at most this many bits apart are the same article (out of 64)
+const MAX_FINGERPRINT_DISTANCE = 3;
+// Fingerprints at most 3 bits apart share at least one of 4 blocks exactly (pigeonhole),
+// so candidates are pre-filtered on an equal block (16 bits, 4 hex characters each)
+const FINGERPRINT_BLOCKS = 4;
+const FINGERPRINT_BLOCK_LENGTH = 4;
+// Copies of an article are published around the same time
+const CANDIDATE_WINDOW_MS = 3 * 24 * 60 * 60 * 1000;
+const MAX_CANDIDATES = 500;
+
+export interface PostDedupKeys {
+    canonical_url: string | null;
+    content_fingerprint: string | null;
+}
+
+/**
+ * PostDeduplicationService - Groups copies of the same article syndicated through different feeds
+ *
+ * A post is a duplicate of an earlier post with the same canonical URL or a near-identical
+ * title and content (SimHash). Duplicates point to the first-seen post of their group
+ * (duplicate_of_id), so groups stay one level deep.
+ */
+export class PostDeduplicationService {
+    /**
+     * Canonical URL and content fingerprint of a new post
+     */
+    computeKeys(link: string, title: string, content?: string): PostDedupKeys {
+        return {
+            canonical_url: canonicalizeUrl(link),
+            content_fingerprint: simhash(`${title} ${content || ''}`)
+        };
+    }
+
+    /**
+     * Attach freshly inserted posts to the duplicate group of an earlier copy, if any.
+     * Never throws: deduplication must not fail the feed fetch.
+     * @returns Number of posts found to be duplicates
+     */
+    async assignDuplicates(postIds: string[]): Promise<number> {
+        if (postIds.length === 0) return 0;
+
+        let duplicates = 0;
+        try {
+            const posts = await PostRepository.find({ where: { id: In(postIds) }, order: { sequence_id: 'ASC' } });
+
+            for (const post of posts) {
+                const primaryId = await this.findPrimaryId(post);
+                if (!primaryId) continue;
+
+                await this.attach(post.id, primaryId);
+                duplicates++;
+            }
+        } catch (error) {
+            logger.error('Error assigning duplicate posts:', error);
+        }
+
+        return duplicates;
+    }
+
+    /**
+     * Record the canonical URL a post's page declares (rel="canonical") and regroup the post
+     * @returns Whether the post joined another group
+     */
+    async applyCanonicalUrl(postId: string, url: string): Promise<boolean> {
+        const canonicalUrl = canonicalizeUrl(url);
+        const post = await PostRepository.findOne({ where: { id: postId } });
+        if (!canonicalUrl || !post || post.canonical_url === canonicalUrl) return false;
+
+        post.canonical_url = canonicalUrl;
+        await PostRepository.update({ id: post.id }, { canonical_url: canonicalUrl });
+
+        const primaryId = await this.findPrimaryId(post);
+        if (!primaryId || primaryId === post.duplicate_of_id) return false;
+
+        await this.attach(post.id, primaryId);
+        return true;
+    }
+
+    /**
+     * All posts of a post's duplicate group, first-seen first
+     */
+    async getGroup(post: Post): Promise<Post[]> {
+        const primaryId = post.duplicate_of_id || post.id;
+
+        return PostRepository.find({
+            where: [{ id: primaryId }, { duplicate_of_id: primaryId }],
+            relations: ['feed'],
+            order: { sequence_id: 'ASC' }
+        });
+    }
+
+    /**
+     * Find the first-seen post of an earlier copy of the given post
+     */
+    private async findPrimaryId(post: Post): Promise<string | null> {
+        if (post.canonical_url) {
+            const sameUrl = await PostRepository.findOne({
+                where: { canonical_url: post.canonical_url, id: Not(post.id) },
+                order: { sequence_id: 'ASC' }
+            });
+            if (sameUrl && sameUrl.sequence_id < post.sequence_id) {
+                return sameUrl.duplicate_of_id || sameUrl.id;
+            }
+        }
+
+        if (!post.content_fingerprint) return null;
+
+        const match = (await this.findFingerprintCandidates(post)).find(candidate =>
+            hammingDistance(candidate.content_fingerprint!, post.content_fingerprint!) <= MAX_FINGERPRINT_DISTANCE
+        );
+        return match ? match.duplicate_of_id || match.id : null;
+    }
+
+    /**
+     * Earlier posts sharing a fingerprint block with the post, dated within the window around it,
+     * closest in date first. Dates are the publication date, or when the post was added for
+     * undated posts (on both sides).
+     */
+    private async findFingerprintCandidates(post: Post): Promise<Post[]> {
+        const reference = new Date(post.published_date || post.created_at);
+        const window = {
+            from: new Date(reference.getTime() - CANDIDATE_WINDOW_MS),
+            to: new Date(reference.getTime() + CANDIDATE_WINDOW_MS)
+        };
+
+        const blocks: Record<string, string> = {};
+        for (let i = 0; i < FINGERPRINT_BLOCKS; i++) {
+            blocks[`block${i}`] = post.content_fingerprint!.substr(i * FINGERPRINT_BLOCK_LENGTH, FINGERPRINT_BLOCK_LENGTH);
+        }
+        const blockCondition = Object.keys(blocks)
+            .map((name, i) => `substr(post.content_fingerprint, ${i * FINGERPRINT_BLOCK_LENGTH + 1}, ${FINGERPRINT_BLOCK_LENGTH}) = :${name}`)
+            .join(' OR ');
+
+        return PostRepository.createQueryBuilder('post')
+            .select(['post.id', 'post.sequence_id', 'post.content_fingerprint', 'post.duplicate_of_id'])
+            .addSelect('ABS(EXTRACT(EPOCH FROM (COALESCE(post.published_date, post.created_at) - CAST(:reference AS timestamptz))))', 'date_distance')
+            .where(new Brackets(dated => dated
+                .where('post.published_date BETWEEN :from AND :to')
+                .orWhere('post.published_date IS NULL AND post.created_at BETWEEN :from AND :to')
+            ))
+            .andWhere('post.sequence_id < :sequenceId', { sequenceId: post.sequence_id })
+            .andWhere('post.content_fingerprint IS NOT NULL')
+            .andWhere(`(${blockCondition})`, blocks)
+            .setParameters({ ...window, reference })
+            .orderBy('date_distance', 'ASC')
+            .limit(MAX_CANDIDATES)
+            .getMany();
+    }
+
+    /**
+     * Make a post (and any duplicates pointing at it) part of the primary's group
+     */
+    private async attach(postId: string, primaryId: string): Promise<void> {
+        if (postId === primaryId) return;
+
+        await PostRepository.update({ id: postId }, { duplicate_of_id: primaryId });
+        await PostRepository.update({ duplicate_of_id: postId }, { duplicate_of_id: primaryId });
+    }
+}
@@ -0,0 +1,197 @@
+import crypto from 'crypto';
+import { Embeddings } from '@langchain/core/embeddings';
+import { In, Repository } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { PostEmbedding } from '../../entities/post-embedding.entity';
+import { PostExpanded } from '../../entities/post-expanded.entity';
+import { Post } from '../../entities/post.entity';
+import { logger } from '../../utils/logger';
+import { createEmbeddings, EMBEDDING_DIMENSIONS, getEmbedderId } from '../ai/embeddings';
+import { JobQueueService, JobTypes } from '../queue';
+
+// Embedded text: the title, then the feed content and the expanded content, up to this length
+const MAX_EMBEDDED_TEXT_LENGTH = 8000;
+// Posts embedded per embedder call
+const EMBED_BATCH_SIZE = 16;
+
+export interface PostEmbeddingResult {
+    embedded: number;
+    // Posts whose text and embedder did not change since their last embedding
+    unchanged: number;
+}
+
+/**
+ * PostEmbeddingService - Keeps a vector embedding of every post for semantic search
+ *
+ * New posts are embedded by the post.embed job, and again when they get expanded content.
+ * A periodic backfill embeds the posts still missing a vector of the configured embedder
+ * (older posts, or all of them after switching embedders).
+ */
+export class PostEmbeddingService {
+    private postEmbeddingRepository: Repository<PostEmbedding>;
+    private postRepository: Repository<Post>;
+    private postExpandedRepository: Repository<PostExpanded>;
+    private jobQueueService: JobQueueService;
+    private embeddings: Embeddings | null = null;
+
+    constructor() {
+        this.postEmbeddingRepository = AppDataSource.getRepository(PostEmbedding);
+        this.postRepository = AppDataSource.getRepository(Post);
+        this.postExpandedRepository = AppDataSource.getRepository(PostExpanded);
+        this.jobQueueService = new JobQueueService();
+    }
+
+    /**
+     * Queue the embedding of posts (POST_EMBEDDINGS=false disables it).
+     * Never throws: embedding must not fail the feed fetch or the expansion.
+     * @returns Number of queued jobs
+     */
+    async enqueue(postIds: string[]): Promise<number> {
+        if (process.env.POST_EMBEDDINGS === 'false' || postIds.length === 0) return 0;
+
+        let queued = 0;
+        try {
+            for (const postId of postIds) {
+                const job = await this.jobQueueService.enqueue(JobTypes.POST_EMBED, { postId }, {
+                    dedupeKey: `${JobTypes.POST_EMBED}:${postId}`,
+                    // Behind canonical URL lookups, which can regroup the post
+                    priority: -2,
+                    maxAttempts: 3
+                });
+                if (job) queued++;
+            }
+        } catch (error) {
+            logger.error('Error enqueueing post embeddings:', error);
+        }
+
+        return queued;
+    }
+
+    /**
+     * Embed posts with the configured embedder. Posts whose text is unchanged since they were
+     * embedded by the same embedder are skipped.
+     */
+    async embedPosts(postIds: string[]): Promise<PostEmbeddingResult> {
+        const result: PostEmbeddingResult = { embedded: 0, unchanged: 0 };
+        if (postIds.length === 0) return result;
+
+        const model = getEmbedderId();
+        const [posts, expanded, existing] = await Promise.all([
+            this.postRepository.find({ select: ['id', 'title', 'content'], where: { id: In(postIds) } }),
+            this.postExpandedRepository.find({ select: ['post_id', 'content'], where: { post_id: In(postIds) } }),
+            this.postEmbeddingRepository.find({ select: ['post_id', 'model', 'content_hash'], where: { post_id: In(postIds) } })
+        ]);
+        const expandedByPost = new Map(expanded.map(entry => [entry.post_id, entry.content]));
+        const existingByPost = new Map(existing.map(entry => [entry.post_id, entry]));
+
+        const pending: Array<{ postId: string; text: string; hash: string }> = [];
+        for (const post of posts) {
+            const text = this.buildText(post, expandedByPost.get(post.id));
+            const hash = crypto.createHash('sha256').update(text).digest('hex');
+            const current = existingByPost.get(post.id);
+
+            if (current && current.model === model && current.content_hash === hash) {
+                result.unchanged++;
+                continue;
+            }
+            pending.push({ postId: post.id, text, hash });
+        }
+
+        for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+            const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+            const vectors = await this.getEmbeddings().embedDocuments(batch.map(entry => entry.text));
+
+            await this.postEmbeddingRepository.upsert(batch.map((entry, index) => ({
+                post_id: entry.postId,
+                embedding: this.checkDimensions(vectors[index]),
+                model,
+                content_hash: entry.hash,
+                updated_at: new Date()
+            })), ['post_id']);
+            result.embedded += batch.length;
+        }
+
+        return result;
+    }
+
+    /**
+     * Embed the most recent posts that have no vector of the configured embedder yet
+     * @param limit - Maximum number of posts to embed
+     */
+    async backfill(limit: number): Promise<PostEmbeddingResult> {
+        const rows = await this.postRepository.createQueryBuilder('post')
+            .select('post.id', 'id')
+            .leftJoin('post_embeddings', 'pe', 'pe.post_id = post.id AND pe.model = :model', { model: getEmbedderId() })
+            .where('pe.id IS NULL')
+            .orderBy('post.sequence_id', 'DESC')
+            .limit(limit)
+            .getRawMany<{ id: string }>();
+
+        const result = await this.embedPosts(rows.map(row => row.id));
+        if (result.embedded > 0) {
+            logger.info(`Embedded ${result.embedded} posts missing a vector of ${getEmbedderId()}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Vector of a post from the configured embedder, embedding the post first when it has none
+     */
+    async getPostVector(postId: string): Promise<number[] | null> {
+        const model = getEmbedderId();
+        let stored = await this.postEmbeddingRepository.findOne({ where: { post_id: postId, model } });
+
+        if (!stored) {
+            await this.embedPosts([postId]);
+            stored = await this.postEmbeddingRepository.findOne({ where: { post_id: postId, model } });
+        }
+
+        return stored?.embedding || null;
+    }
+
+    /**
+     * Vector of a search query, comparable to the stored post vectors
+     */
+    async embedQuery(query: string): Promise<number[]> {
+        return this.checkDimensions(await this.getEmbeddings().embedQuery(query));
+    }
+
+    /**
+     * Vector as a pgvector literal, for query parameters
+     */
+    toVectorLiteral(vector: number[]): string {
+        return `[${vector.join(',')}]`;
+    }
+
+    private buildText(post: Pick<Post, 'title' | 'content'>, expandedContent?: string): string {
+        const parts = [post.title, this.toPlainText(post.content || '')];
+        if (expandedContent) {
+            parts.push(this.toPlainText(expandedContent));
+        }
+
+        return parts.filter(Boolean).join('\n\n').slice(0, MAX_EMBEDDED_TEXT_LENGTH);
+    }
+
+    private toPlainText(html: string): string {
+        return html
+            .replace(/<[^>]*>/g, ' ')
+            .replace(/&[a-z#0-9]+;/gi, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    private checkDimensions(vector: number[]): number[] {
+        if (vector.length !== EMBEDDING_DIMENSIONS) {
+            throw new Error(`Embedder ${getEmbedderId()} returned ${vector.length} dimensions, expected ${EMBEDDING_DIMENSIONS}`);
+        }
+        return vector;
+    }
+
+    private getEmbeddings(): Embeddings {
+        if (!this.embeddings) {
+            this.embeddings = createEmbeddings();
+        }
+        return this.embeddings;
+    }
+}
@@ -0,0 +1,271 @@
+import { In, Repository } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { Feed } from '../../entities/feed.entity';
+import { ExpandedContentSource, ExpansionTrigger, PostExpanded } from '../../entities/post-expanded.entity';
+import { Post } from '../../entities/post.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { PostExpandedRepository, PostRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+import { fullContentCheckAgent } from '../ai/agents';
+import { JobQueueService, JobTypes } from '../queue';
+import contentAggregation from './content-aggregation.service';
+import { PostEmbeddingService } from './post-embedding.service';
+
+// Feeds whose posts are opened this often are expanded without always_expand (POST_EXPANSION_PREDICT=true)
+const PREDICT_ENABLED = process.env.POST_EXPANSION_PREDICT === 'true';
+const MIN_OPEN_RATE = parseFloat(process.env.POST_EXPANSION_MIN_OPEN_RATE || '0.3');
+// Open rate is measured on the feed's posts of this period, once there are enough of them
+const OPEN_RATE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+const OPEN_RATE_MIN_POSTS = 10;
+
+// Quality score: full marks from this many words and paragraphs
+const FULL_ARTICLE_WORDS = 400;
+const FULL_ARTICLE_PARAGRAPHS = 5;
+
+export interface ExtractionQuality {
+    word_count: number;
+    quality_score: number;
+}
+
+export interface ExpansionDetails {
+    source: ExpandedContentSource;
+    trigger: ExpansionTrigger;
+    contentCheckConfidence?: number;
+}
+
+export interface FeedExpansionSettings {
+    feed_id: string;
+    url: string;
+    always_expand: boolean;
+    // Share of the feed's recent posts opened by at least one user, null with too few posts
+    predicted_open_rate: number | null;
+    // Whether new posts are currently expanded in the background
+    expands_new_posts: boolean;
+    expanded_posts: number;
+}
+
+/**
+ * PostExpansionService - Produces the full content of posts (PostExpanded)
+ *
+ * Content is expanded on demand when a discussion starts, or ahead of time by the post.expand
+ * job for new posts of feeds marked always_expand and of feeds whose posts are usually opened.
+ * Either way the feed content is used when the full-content check judges it complete, and the
+ * article page is scraped otherwise. Every expansion records its source and extraction quality.
+ */
+export class PostExpansionService {
+    private feedRepository: Repository<Feed>;
+    private jobQueueService: JobQueueService;
+    private postEmbeddingService: PostEmbeddingService;
+
+    constructor() {
+        this.feedRepository = AppDataSource.getRepository(Feed);
+        this.jobQueueService = new JobQueueService();
+        this.postEmbeddingService = new PostEmbeddingService();
+    }
+
+    /**
+     * Queue the background expansion of new posts when their feed qualifies.
+     * Copies of known articles are skipped: feeds list the first-seen post of a group.
+     * Never throws: expansion must not fail the feed fetch.
+     * @returns Number of queued expansions
+     */
+    async enqueueExpansions(feed: Feed, postIds: string[]): Promise<number> {
+        if (postIds.length === 0) return 0;
+
+        try {
+            if (!(await this.shouldExpandFeed(feed))) return 0;
+
+            const posts = await PostRepository.find({ select: ['id', 'duplicate_of_id'], where: { id: In(postIds) } });
+            let queued = 0;
+            for (const post of posts) {
+                if (post.duplicate_of_id) continue;
+
+                const job = await this.jobQueueService.enqueue(JobTypes.POST_EXPAND, { postId: post.id }, {
+                    dedupeKey: `${JobTypes.POST_EXPAND}:${post.id}`,
+                    // Behind feed fetches and canonical URL lookups
+                    priority: -2,
+                    maxAttempts: 2
+                });
+                if (job) queued++;
+            }
+
+            return queued;
+        } catch (error) {
+            logger.error(`Error enqueueing post expansions for feed ${feed.id}:`, error);
+            return 0;
+        }
+    }
+
+    /**
+     * Expand a post in the background, unless it already has expanded content
+     * @returns The stored content, or null when the post was already expanded
+     * @throws Error when neither the feed content nor the article page gave any content
+     */
+    async expandPost(postId: string): Promise<PostExpanded | null> {
+        const post = await PostRepository.findOne({ where: { id: postId } });
+        if (!post) {
+            throw new HttpError(404, 'Post not found');
+        }
+
+        if (await PostExpandedRepository.existsByPostId(post.id)) return null;
+
+        const contentCheck = await fullContentCheckAgent({ title: post.title, content: post.content || '' });
+        let content = post.content || '';
+        let source: ExpandedContentSource = 'feed';
+
+        if (!contentCheck.isFull) {
+            content = await this.scrapeContent(post.external_link);
+            source = 'scraped';
+        }
+
+        if (!content || content.trim().length === 0) {
+            throw new Error(`No content could be extracted for post ${post.id}`);
+        }
+
+        // A discussion may have expanded the post in the meantime
+        if (await PostExpandedRepository.existsByPostId(post.id)) return null;
+
+        return this.saveExpanded(post, content, {
+            source,
+            trigger: 'pipeline',
+            contentCheckConfidence: contentCheck.confidence
+        });
+    }
+
+    /**
+     * Store the expanded content of a post with its extraction metadata, and queue the post
+     * to be embedded again with it
+     */
+    async saveExpanded(post: Post, content: string, details: ExpansionDetails): Promise<PostExpanded> {
+        const quality = this.assessQuality(content, post.content || '');
+
+        const expanded = await PostExpandedRepository.save(PostExpandedRepository.create({
+            post_id: post.id,
+            content,
+            content_source: details.source,
+            expanded_by: details.trigger,
+            word_count: quality.word_count,
+            quality_score: quality.quality_score,
+            content_check_confidence: details.contentCheckConfidence ?? null
+        }));
+
+        await this.postEmbeddingService.enqueue([post.id]);
+        return expanded;
+    }
+
+    /**
+     * Rough quality of extracted content (0-1): half from length, a fifth from paragraph
+     * structure and the rest from how much of the feed content it covers
+     */
+    assessQuality(content: string, feedContent: string): ExtractionQuality {
+        const words = this.countWords(content);
+        const feedWords = this.countWords(feedContent);
+        const paragraphs = content.split(/\n\s*\n|<\/p>|<br\s*\/?>\s*<br\s*\/?>/i).filter(part => part.trim()).length;
+
+        const length = Math.min(words / FULL_ARTICLE_WORDS, 1) * 0.5;
+        const structure = Math.min(paragraphs / FULL_ARTICLE_PARAGRAPHS, 1) * 0.2;
+        const coverage = (feedWords === 0 ? 1 : Math.min(words / feedWords, 1)) * 0.3;
+
+        return {
+            word_count: words,
+            quality_score: Math.round((length + structure + coverage) * 100) / 100
+        };
+    }
+
+    /**
+     * Expansion settings of a feed, with its predicted open rate
+     * @param feedId - The feed ID
+     */
+    async getFeedSettings(feedId: string): Promise<FeedExpansionSettings> {
+        const feed = await this.feedRepository.findOne({ where: { id: feedId } });
+        if (!feed) {
+            throw new HttpError(404, 'Feed not found');
+        }
+
+        try {
+            const [openRate, expandedPosts] = await Promise.all([
+                this.predictOpenRate(feed.id),
+                PostExpandedRepository.createQueryBuilder('expanded')
+                    .innerJoin('expanded.post', 'post')
+                    .where('post.feed_id = :feedId', { feedId: feed.id })
+                    .getCount()
+            ]);
+
+            return {
+                feed_id: feed.id,
+                url: feed.url,
+                always_expand: feed.always_expand,
+                predicted_open_rate: openRate,
+                expands_new_posts: feed.always_expand || this.isPredictedOpen(openRate),
+                expanded_posts: expandedPosts
+            };
+        } catch (error) {
+            logger.error(`Error getting expansion settings of feed ${feedId}:`, error);
+            throw new HttpError(500, 'Failed to get expansion settings');
+        }
+    }
+
+    /**
+     * Mark a feed to have every new post expanded in the background (or stop doing so)
+     * @param feedId - The feed ID
+     * @param alwaysExpand - New value of always_expand
+     */
+    async setAlwaysExpand(feedId: string, alwaysExpand: boolean): Promise<FeedExpansionSettings> {
+        const result = await this.feedRepository.update({ id: feedId }, { always_expand: alwaysExpand });
+        if (!result.affected) {
+            throw new HttpError(404, 'Feed not found');
+        }
+
+        logger.info(`Feed ${feedId}: always_expand set to ${alwaysExpand}`);
+        return this.getFeedSettings(feedId);
+    }
+
+    private async shouldExpandFeed(feed: Feed): Promise<boolean> {
+        if (feed.always_expand) return true;
+        if (!PREDICT_ENABLED) return false;
+
+        return this.isPredictedOpen(await this.predictOpenRate(feed.id));
+    }
+
+    private isPredictedOpen(openRate: number | null): boolean {
+        return PREDICT_ENABLED && openRate !== null && openRate >= MIN_OPEN_RATE;
+    }
+
+    /**
+     * Share of the feed's posts of the last 30 days that at least one user opened
+     * @returns The rate, or null with fewer than 10 posts in the window
+     */
+    private async predictOpenRate(feedId: string): Promise<number | null> {
+        const row = await PostRepository.createQueryBuilder('post')
+            .select('COUNT(*)', 'total')
+            .addSelect(
+                'COUNT(*) FILTER (WHERE EXISTS (SELECT 1 FROM user_posts up WHERE up.post_id = post.id AND up.read_at IS NOT NULL))',
+                'opened'
+            )
+            .where('post.feed_id = :feedId', { feedId })
+            .andWhere('post.created_at >= :since', { since: new Date(Date.now() - OPEN_RATE_WINDOW_MS) })
+            .getRawOne<{ total: string; opened: string }>();
+
+        const total = parseInt(row?.total || '0');
+        if (total < OPEN_RATE_MIN_POSTS) return null;
+
+        return Math.round((parseInt(row?.opened || '0') / total) * 100) / 100;
+    }
+
+    private async scrapeContent(url: string): Promise<string> {
+        const generator = contentAggregation.aggregateContentWithProgress(url);
+        while (true) {
+            const { value, done } = await generator.next();
+            if (done) return value.content;
+        }
+    }
+
+    private countWords(text: string): number {
+        return text
+            .replace(/<[^>]*>/g, ' ')
+            .replace(/&[a-z#0-9]+;/gi, ' ')
+            .split(/\s+/)
+            .filter(Boolean)
+            .length;
+    }
+}
@@ -0,0 +1,385 @@
+import axios from 'axios';
+import { FetchOptions, FetchWithHeadersResponse, fetchWithHeaders } from '../../utils/http.util';
+import { logger } from '../../utils/logger';
+import { ALLOW_ALL, DISALLOW_ALL, RobotsPolicy, isPathAllowed, parseRobotsTxt } from './robots.parser';
+
+export const BOT_USER_AGENT = 'Mozilla/5.0 (compatible; QirataBot/1.0; +https://qirata.com/bot)';
+const BOT_AGENT_TOKEN = 'QirataBot';
+
+// Politeness per host (e.g. example.com:443)
+const HOST_CONCURRENCY = parseInt(process.env.CRAWL_HOST_CONCURRENCY || '2');
+const HOST_MIN_DELAY_MS = parseInt(process.env.CRAWL_HOST_MIN_DELAY_MS || '1000');
+// A request that would wait longer than this for its host is deferred (HostDeferredError)
+const MAX_WAIT_MS = parseInt(process.env.CRAWL_MAX_WAIT_MS || '30000');
+// Caps Crawl-delay and Retry-After values, so a single site cannot stall a worker for days
+const MAX_CRAWL_DELAY_MS = parseInt(process.env.CRAWL_MAX_CRAWL_DELAY_SECONDS || '60') * 1000;
+const MAX_RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+const ROBOTS_CACHE_TTL_MS = parseInt(process.env.ROBOTS_CACHE_TTL_HOURS || '24') * 60 * 60 * 1000;
+// robots.txt that could not be fetched (5xx, network) is retried sooner
+const ROBOTS_ERROR_TTL_MS = 60 * 60 * 1000;
+const ROBOTS_TIMEOUT_MS = 10000;
+const ROBOTS_MAX_SIZE = 500 * 1024;
+
+// Without Retry-After, a 429/503 backs the host off 1 min, doubling up to 1 hour
+const RATE_LIMIT_BASE_DELAY_MS = 60 * 1000;
+const RATE_LIMIT_MAX_DELAY_MS = 60 * 60 * 1000;
+const RATE_LIMIT_RETRIES = 2;
+
+const IDLE_HOST_TTL_MS = 60 * 60 * 1000;
+const METRICS_TOP_HOSTS = 50;
+
+/**
+ * The URL is disallowed for QirataBot by the site's robots.txt
+ */
+export class RobotsDisallowedError extends Error {
+    constructor(public readonly url: string) {
+        super(`Blocked by robots.txt: ${url}`);
+        this.name = 'RobotsDisallowedError';
+    }
+}
+
+/**
+ * The host is rate limited or busy beyond the wait budget; the request should be retried at retryAt
+ */
+export class HostDeferredError extends Error {
+    constructor(public readonly host: string, public readonly retryAt: Date) {
+        super(`Requests to ${host} deferred until ${retryAt.toISOString()}`);
+        this.name = 'HostDeferredError';
+    }
+}
+
+export interface ScheduledFetchOptions extends FetchOptions {
+    /** Check the URL against robots.txt first (requests sent as QirataBot) */
+    respectRobots?: boolean;
+    /** Longest wait for a slot on the host before deferring, in ms */
+    maxWaitMs?: number;
+}
+
+export interface HostRequestMetrics {
+    requests: number;
+    delayed: number;
+    delayMsTotal: number;
+    deferred: number;
+    rateLimited: number;
+    robotsBlocked: number;
+}
+
+export interface HostMetricsEntry extends HostRequestMetrics {
+    host: string;
+    active: number;
+    waiting: number;
+    blockedUntil: Date | null;
+}
+
+export interface RequestSchedulerMetrics {
+    since: Date;
+    totals: HostRequestMetrics;
+    hosts: HostMetricsEntry[];
+}
+
+interface HostState {
+    active: number;
+    waiters: Set<() => void>;
+    nextSlotAt: number;
+    blockedUntil: number;
+    rateLimitStreak: number;
+    lastUsedAt: number;
+    metrics: HostRequestMetrics;
+}
+
+interface RobotsCacheEntry {
+    policy: RobotsPolicy;
+    expiresAt: number;
+}
+
+function emptyMetrics(): HostRequestMetrics {
+    return { requests: 0, delayed: 0, delayMsTotal: 0, deferred: 0, rateLimited: 0, robotsBlocked: 0 };
+}
+
+/**
+ * RequestSchedulerService - Host-aware scheduling of outgoing crawler requests
+ *
+ * Responsibilities:
+ * - Fetch, cache and enforce robots.txt for QirataBot
+ * - Limit concurrent requests per host and space them by a minimum delay (or the site's Crawl-delay)
+ * - Back off hosts answering 429/503, honouring Retry-After
+ * - Count delayed and deferred requests per host
+ *
+ * State lives in memory, so limits apply per process (API server and cron worker each keep their own).
+ */
+export class RequestSchedulerService {
+    private hosts = new Map<string, HostState>();
+    private robotsCache = new Map<string, RobotsCacheEntry>();
+    private robotsPending = new Map<string, Promise<RobotsPolicy>>();
+    private metricsSince = new Date();
+    // Counters of pruned hosts, kept in the totals
+    private prunedMetrics = emptyMetrics();
+    private lastPruneAt = Date.now();
+
+    /**
+     * Fetch a URL once the host allows it. Resolves like fetchWithHeaders; statuses rejected by
+     * options.validateStatus (default: non-2xx) throw.
+     * @throws RobotsDisallowedError when respectRobots is set and robots.txt disallows the URL
+     * @throws HostDeferredError when the host stays unavailable beyond the wait budget
+     */
+    async fetch<T = any>(url: string, options: ScheduledFetchOptions = {}): Promise<FetchWithHeadersResponse<T>> {
+        const { respectRobots = false, maxWaitMs = MAX_WAIT_MS, ...fetchOptions } = options;
+        const host = new URL(url).host;
+
+        if (respectRobots && !(await this.isAllowed(url))) {
+            this.getState(host).metrics.robotsBlocked++;
+            throw new RobotsDisallowedError(url);
+        }
+
+        const acceptStatus = fetchOptions.validateStatus || ((status: number) => status >= 200 && status < 300);
+
+        for (let attempt = 0; attempt <= RATE_LIMIT_RETRIES; attempt++) {
+            await this.acquire(host, maxWaitMs);
+
+            let response: FetchWithHeadersResponse<T>;
+            try {
+                response = await fetchWithHeaders<T>(url, {
+                    ...fetchOptions,
+                    // Let 429/503 through to read Retry-After
+                    validateStatus: status => status === 429 || status === 503 || acceptStatus(status)
+                });
+            } finally {
+                this.release(host);
+            }
+
+            if (response.status !== 429 && response.status !== 503) {
+                this.getState(host).rateLimitStreak = 0;
+                return response;
+            }
+
+            this.backOff(host, response.headers['retry-after']);
+        }
+
+        const state = this.getState(host);
+        state.metrics.deferred++;
+        throw new HostDeferredError(host, new Date(state.blockedUntil));
+    }
+
+    /**
+     * Check a URL against the site's robots.txt for QirataBot (fetched and cached per origin)
+     */
+    async isAllowed(url: string): Promise<boolean> {
+        const parsed = new URL(url);
+        const policy = await this.getRobotsPolicy(parsed.origin);
+        return isPathAllowed(policy, `${parsed.pathname}${parsed.search}`);
+    }
+
+    getMetrics(): RequestSchedulerMetrics {
+        const totals = { ...this.prunedMetrics };
+        const hosts: HostMetricsEntry[] = [];
+        const now = Date.now();
+
+        this.hosts.forEach((state, host) => {
+            this.addMetrics(totals, state.metrics);
+            hosts.push({
+                host,
+                ...state.metrics,
+                active: state.active,
+                waiting: state.waiters.size,
+                blockedUntil: state.blockedUntil > now ? new Date(state.blockedUntil) : null
+            });
+        });
+
+        // Hosts that held requests back the most first
+        hosts.sort((a, b) => (b.deferred - a.deferred) || (b.delayMsTotal - a.delayMsTotal));
+
+        return { since: this.metricsSince, totals, hosts: hosts.slice(0, METRICS_TOP_HOSTS) };
+    }
+
+    /**
+     * Wait for a request slot on the host: below the concurrency limit, past the minimum delay
+     * since the previous request and past any rate-limit backoff
+     */
+    private async acquire(host: string, maxWaitMs: number): Promise<void> {
+        const state = this.getState(host);
+        const startedAt = Date.now();
+        const deadline = startedAt + maxWaitMs;
+        this.pruneIdleHosts();
+
+        while (true) {
+            const now = Date.now();
+            const readyAt = Math.max(state.nextSlotAt, state.blockedUntil);
+
+            if (state.active < HOST_CONCURRENCY && readyAt <= now) {
+                state.active++;
+                state.lastUsedAt = now;
+                state.nextSlotAt = now + this.getDelayMs(host);
+                state.metrics.requests++;
+                if (now > startedAt) {
+                    state.metrics.delayed++;
+                    state.metrics.delayMsTotal += now - startedAt;
+                }
+                return;
+            }
+
+            if (readyAt > deadline || now >= deadline) {
+                state.metrics.deferred++;
+                logger.warn(`Deferring request to ${host}: host busy or rate limited`);
+                throw new HostDeferredError(host, new Date(Math.max(readyAt, now + HOST_MIN_DELAY_MS)));
+            }
+
+            // Wake up when the host is ready, a slot is released or the wait budget runs out
+            const waitMs = (state.active < HOST_CONCURRENCY ? readyAt : deadline) - now;
+            await new Promise<void>(resolve => {
+                const wake = () => {
+                    clearTimeout(timer);
+                    state.waiters.delete(wake);
+                    resolve();
+                };
+                const timer = setTimeout(wake, waitMs);
+                state.waiters.add(wake);
+            });
+        }
+    }
+
+    private release(host: string): void {
+        const state = this.getState(host);
+        state.active = Math.max(state.active - 1, 0);
+        state.lastUsedAt = Date.now();
+        // Waiters re-check the host themselves
+        [...state.waiters].forEach(wake => wake());
+    }
+
+    private backOff(host: string, retryAfter?: string): void {
+        const state = this.getState(host);
+        const delay = this.parseRetryAfter(retryAfter)
+            ?? Math.min(RATE_LIMIT_BASE_DELAY_MS * 2 ** state.rateLimitStreak, RATE_LIMIT_MAX_DELAY_MS);
+
+        state.rateLimitStreak++;
+        state.blockedUntil = Math.max(state.blockedUntil, Date.now() + Math.min(delay, MAX_RETRY_AFTER_MS));
+        state.metrics.rateLimited++;
+
+        logger.warn(`${host} is rate limiting requests, backing off for ${Math.round(delay / 1000)}s`);
+    }
+
+    /**
+     * Retry-After as delay-seconds or an HTTP date
+     * @returns Delay in ms, or null when absent or invalid
+     */
+    private parseRetryAfter(value?: string): number | null {
+        if (!value) return null;
+
+        if (/^\d+$/.test(value.trim())) {
+            return parseInt(value.trim()) * 1000;
+        }
+
+        const date = Date.parse(value);
+        return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+    }
+
+    private getDelayMs(host: string): number {
+        const crawlDelaySeconds = this.findCachedPolicy(host)?.crawlDelaySeconds;
+        const crawlDelayMs = crawlDelaySeconds !== undefined ? Math.min(crawlDelaySeconds * 1000, MAX_CRAWL_DELAY_MS) : 0;
+        return Math.max(HOST_MIN_DELAY_MS, crawlDelayMs);
+    }
+
+    private findCachedPolicy(host: string): RobotsPolicy | undefined {
+        return this.robotsCache.get(`https://${host}`)?.policy ?? this.robotsCache.get(`http://${host}`)?.policy;
+    }
+
+    private async getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+        const cached = this.robotsCache.get(origin);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.policy;
+        }
+
+        // Concurrent requests to the same site share one robots.txt fetch
+        let pending = this.robotsPending.get(origin);
+        if (!pending) {
+            pending = this.fetchRobotsPolicy(origin).finally(() => this.robotsPending.delete(origin));
+            this.robotsPending.set(origin, pending);
+        }
+        return pending;
+    }
+
+    private async fetchRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+        const host = new URL(origin).host;
+        let policy: RobotsPolicy;
+        let ttl = ROBOTS_CACHE_TTL_MS;
+
+        try {
+            // robots.txt requests count against the host's politeness limits too
+            await this.acquire(host, MAX_WAIT_MS);
+            try {
+                const response = await axios.get<string>(`${origin}/robots.txt`, {
+                    headers: { 'User-Agent': BOT_USER_AGENT },
+                    responseType: 'text',
+                    timeout: ROBOTS_TIMEOUT_MS,
+                    maxContentLength: ROBOTS_MAX_SIZE,
+                    validateStatus: () => true
+                });
+
+                if (response.status >= 200 && response.status < 300) {
+                    policy = parseRobotsTxt(String(response.data), BOT_AGENT_TOKEN);
+                } else if (response.status >= 400 && response.status < 500) {
+                    // No robots.txt: everything is allowed
+                    policy = ALLOW_ALL;
+                } else {
+                    policy = DISALLOW_ALL;
+                    ttl = ROBOTS_ERROR_TTL_MS;
+                }
+            } finally {
+                this.release(host);
+            }
+        } catch (error) {
+            if (error instanceof HostDeferredError) throw error;
+
+            logger.warn(`Could not fetch robots.txt of ${origin}, treating the site as disallowed for now:`, error instanceof Error ? error.message : error);
+            policy = DISALLOW_ALL;
+            ttl = ROBOTS_ERROR_TTL_MS;
+        }
+
+        this.robotsCache.set(origin, { policy, expiresAt: Date.now() + ttl });
+        return policy;
+    }
+
+    /**
+     * Forget hosts that have been idle for an hour (checked every 10 minutes)
+     */
+    private pruneIdleHosts(): void {
+        const now = Date.now();
+        if (now - this.lastPruneAt < 10 * 60 * 1000) return;
+        this.lastPruneAt = now;
+
+        this.hosts.forEach((state, host) => {
+            if (state.active === 0 && state.waiters.size === 0 && state.blockedUntil < now && now - state.lastUsedAt > IDLE_HOST_TTL_MS) {
+                this.addMetrics(this.prunedMetrics, state.metrics);
+                this.hosts.delete(host);
+            }
+        });
+        this.robotsCache.forEach((entry, origin) => {
+            if (entry.expiresAt < now) this.robotsCache.delete(origin);
+        });
+    }
+
+    private addMetrics(target: HostRequestMetrics, source: HostRequestMetrics): void {
+        (Object.keys(target) as Array<keyof HostRequestMetrics>).forEach(key => {
+            target[key] += source[key];
+        });
+    }
+
+    private getState(host: string): HostState {
+        let state = this.hosts.get(host);
+        if (!state) {
+            state = {
+                active: 0,
+                waiters: new Set(),
+                nextSlotAt: 0,
+                blockedUntil: 0,
+                rateLimitStreak: 0,
+                lastUsedAt: Date.now(),
+                metrics: emptyMetrics()
+            };
+            this.hosts.set(host, state);
+        }
+        return state;
+    }
+}
+
+export default new RequestSchedulerService();
@@ -0,0 +1,108 @@
+/**
+ * robots.txt support (RFC 9309): groups, Allow/Disallow with * and $ wildcards, Crawl-delay.
+ */
+
+interface RobotsRule {
+    allow: boolean;
+    pattern: RegExp;
+    length: number;
+}
+
+interface RobotsGroup {
+    agents: string[];
+    rules: RobotsRule[];
+    crawlDelaySeconds?: number;
+}
+
+export interface RobotsPolicy {
+    rules: RobotsRule[];
+    crawlDelaySeconds?: number;
+}
+
+/** Policy of a site without (usable) robots.txt */
+export const ALLOW_ALL: RobotsPolicy = { rules: [] };
+
+/** Policy while robots.txt is unreachable: RFC 9309 requires assuming a complete disallow */
+export const DISALLOW_ALL: RobotsPolicy = {
+    rules: [{ allow: false, pattern: /^\//, length: 1 }]
+};
+
+function toPattern(path: string): RegExp {
+    const anchored = path.endsWith('$');
+    const source = (anchored ? path.slice(0, -1) : path)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Parse a robots.txt document into the policy that applies to a user agent.
+ * The group naming the agent's product token wins over the "*" group.
+ * @param content - robots.txt body
+ * @param agentToken - Product token of the crawler (e.g. "QirataBot")
+ */
+export function parseRobotsTxt(content: string, agentToken: string): RobotsPolicy {
+    const groups: RobotsGroup[] = [];
+    let current: RobotsGroup | null = null;
+    let lastWasAgent = false;
+
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*$/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator === -1) continue;
+
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+
+        if (field === 'user-agent') {
+            // Consecutive user-agent lines share one group
+            if (!current || !lastWasAgent) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+            lastWasAgent = true;
+            continue;
+        }
+
+        lastWasAgent = false;
+        if (!current) continue;
+
+        if ((field === 'allow' || field === 'disallow') && value) {
+            current.rules.push({ allow: field === 'allow', pattern: toPattern(value), length: value.length });
+        } else if (field === 'crawl-delay') {
+            const delay = parseFloat(value);
+            if (!isNaN(delay) && delay >= 0) current.crawlDelaySeconds = delay;
+        }
+    }
+
+    const token = agentToken.toLowerCase();
+    const matching = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+    const selected = matching.length > 0 ? matching : groups.filter(group => group.agents.includes('*'));
+    if (selected.length === 0) return ALLOW_ALL;
+
+    // Groups for the same agent are merged
+    return {
+        rules: selected.flatMap(group => group.rules),
+        crawlDelaySeconds: selected.find(group => group.crawlDelaySeconds !== undefined)?.crawlDelaySeconds
+    };
+}
+
+/**
+ * Check a path (with query string) against a policy: the most specific (longest) matching rule
+ * decides, and Allow wins a tie
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+    if (path === '/robots.txt') return true;
+
+    let decisive: RobotsRule | null = null;
+    for (const rule of policy.rules) {
+        if (!rule.pattern.test(path)) continue;
+        if (!decisive || rule.length > decisive.length || (rule.length === decisive.length && rule.allow)) {
+            decisive = rule;
+        }
+    }
+
+    return decisive ? decisive.allow : true;
+}
@@ -2,8 +2,10 @@ import FeedParser, { Item, Meta } from 'feedparser';
 import { Readable } from 'stream';
 import { FeedEntry, RSSFeed } from '../../types/content.types';
 import { HttpError } from '../../middleware/error.middleware';
-import { fetchWithTimeout, fetchWithHeaders, validateUrl } from '../../utils/http.util';
+import { fetchWithTimeout, validateUrl } from '../../utils/http.util';
 import { logger } from '../../utils/logger';
+import { isJsonFeed, parseJsonFeed } from './json-feed.parser';
+import requestScheduler from './request-scheduler.service';
 
 export type RssValidationErrorCode = 'invalid_structure' | 'no_entries' | 'missing_fields' | 'invalid_url' | 'blocked' | 'network_error' | 'parse_error' | 'unknown';
 
@@ -13,13 +15,25 @@ export interface RssValidationResult {
     errorCode?: RssValidationErrorCode;
 }
 
+export interface FeedMove {
+    url: string;
+    // Status of the first redirect
+    statusCode: number;
+}
+
 export interface FeedFetchResult {
     feed?: RSSFeed;
     etag?: string;
     lastModified?: Date;
     notModified: boolean;
+    // New location of a feed that answered with permanent redirects (301/308) only
+    movedTo?: FeedMove;
+    // The feed answered 410 Gone
+    gone?: boolean;
 }
 
+const PERMANENT_REDIRECT_STATUSES = [301, 308];
+
 export class RSSService {
     /**
      * Finds RSS, Atom, or other feed URLs from a given web page URL.
@@ -86,7 +100,8 @@ export class RSSService {
                     /\/syndication\//i,
                     /feed\.xml/i,
                     /rss\.xml/i,
-                    /atom\.xml/i
+                    /atom\.xml/i,
+                    /feed\.json$/i
                 ];
 
                 const isRssLike = feedPatterns.some(pattern => pattern.test(url));
@@ -119,6 +134,7 @@ export class RSSService {
             'application/rss+xml',
             'application/atom+xml',
             'application/rdf+xml',
+            'application/feed+json',
             'application/xml',
             'text/xml'
         ];
@@ -209,7 +225,7 @@ export class RSSService {
         const startTime = Date.now();
         const headers: Record<string, string> = {
             'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+            'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
             'Accept-Language': 'en-US,en;q=0.9',
             'Accept-Encoding': 'gzip, deflate, br',
             'DNT': '1',
@@ -225,21 +241,38 @@ export class RSSService {
         }
 
         try {
-            const response = await fetchWithHeaders<string>(url, {
+            // Feeds on the same host are fetched one after another, honouring 429/Retry-After
+            const response = await requestScheduler.fetch<string>(url, {
                 responseType: 'text',
-                headers
+                headers,
+                validateStatus: status => status < 500 // Don't throw on 304 Not Modified
             });
 
+            const movedTo = this.getPermanentLocation(url, response.url, response.redirects);
+            if (movedTo) {
+                logger.info(`Feed moved permanently (${movedTo.statusCode}): ${url} -> ${movedTo.url}`);
+            }
+
+            if (response.status === 410) {
+                logger.warn(`Feed is gone (410): ${url}`);
+                return { notModified: false, gone: true };
+            }
+
             // Check if content was not modified (304 status)
             if (response.status === 304) {
                 logger.info(`Feed not modified (304): ${url}`);
                 return {
                     notModified: true,
                     etag: etag,
-                    lastModified: lastModified
+                    lastModified: lastModified,
+                    movedTo
                 };
             }
 
+            if (response.status >= 400) {
+                throw new Error(`HTTP error ${response.status}`);
+            }
+
             // Log all response headers
             logger.info(`Response headers for ${url}:`, response.headers);
 
@@ -251,6 +284,7 @@ export class RSSService {
 
             // Parse the feed content
             const feed = await this.parseFeedContent(response.data, url);
+            this.applyLinkHeader(feed, response.headers['link']);
 
             logger.info(`Feed fetched and parsed in ${Date.now() - startTime}ms: ${url}`);
 
@@ -258,7 +292,8 @@ export class RSSService {
                 feed,
                 etag: newEtag,
                 lastModified: newLastModified,
-                notModified: false
+                notModified: false,
+                movedTo
             };
         } catch (error) {
             logger.error(`Error fetching feed with cache: ${url}`, error);
@@ -267,17 +302,27 @@ export class RSSService {
     }
 
     /**
-     * Parse feed content from XML string
-     * @param content - XML content
+     * Parse feed content: RSS/Atom/RDF XML through feedparser, or a JSON Feed document.
+     * Also used for content pushed by WebSub hubs.
+     * @param content - Feed body
      * @param url - Feed URL for logging
      * @returns Parsed RSS feed
      */
-    private async parseFeedContent(content: string, url: string): Promise<RSSFeed> {
+    async parseFeedContent(content: string, url: string): Promise<RSSFeed> {
+        if (isJsonFeed(content)) {
+            const feed = parseJsonFeed(content, url);
+            if (!this.validateFeed(feed)) {
+                throw new Error('Invalid feed structure');
+            }
+            return feed;
+        }
+
         return new Promise((resolve, reject) => {
             const feed: RSSFeed = {
                 title: '',
                 link: url,
-                entries: []
+                entries: [],
+                ...this.findWebSubLinksInXml(content)
             };
 
             const feedparser = new FeedParser({ addmeta: true });
@@ -324,7 +369,8 @@ export class RSSService {
                         author: item.author,
                         categories: item.categories || [],
                         guid: item.guid,
-                        image_url: imageUrl
+                        image_url: imageUrl,
+                        canonical_url: item.origlink || undefined
                     };
                     feed.entries.push(entry);
                 }
@@ -352,7 +398,7 @@ export class RSSService {
             responseType: 'text',
             headers: {
                 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-                'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml, */*',
+                'Accept': 'application/rss+xml, application/atom+xml, application/feed+json, application/xml, text/xml, */*',
                 'Accept-Language': 'en-US,en;q=0.9',
                 'Accept-Encoding': 'gzip, deflate, br',
                 'DNT': '1',
@@ -361,74 +407,65 @@ export class RSSService {
             }
         });
 
-        return new Promise((resolve, reject) => {
-            const feed: RSSFeed = {
-                title: '',
-                link: url,
-                entries: []
-            };
-
-            const feedparser = new FeedParser({ addmeta: true });
-            const stream = new Readable();
-            stream.push(response);
-            stream.push(null);
-
-            feedparser.on('error', reject);
+        const feed = await this.parseFeedContent(response, url);
+        logger.info(`Feed parsed in ${Date.now() - startTime}ms: ${url}`);
+        return feed;
+    }
 
-            feedparser.on('meta', (meta: Meta) => {
-                feed.title = meta.title;
-                feed.description = meta.description;
-                feed.language = meta.language;
-                feed.lastBuildDate = meta.date || undefined;
-            });
+    /**
+     * Finds WebSub discovery links (rel="hub" and rel="self") in RSS/Atom XML.
+     * Only the channel/feed header is searched since entries can carry their own self links.
+     */
+    private findWebSubLinksInXml(xml: string): { hubs: string[]; selfUrl?: string } {
+        const header = xml.split(/<(?:item|entry)[\s>]/i)[0];
+        const linkPattern = /<(?:[\w-]+:)?link\b[^>]*>/gi;
+        const hubs: string[] = [];
+        let selfUrl: string | undefined;
+        let match;
+
+        while ((match = linkPattern.exec(header)) !== null) {
+            const rel = match[0].match(/\brel=["']([^"']+)["']/i)?.[1].toLowerCase().split(/\s+/) || [];
+            const href = match[0].match(/\bhref=["']([^"']+)["']/i)?.[1].trim();
+            if (!href) continue;
+
+            if (rel.includes('hub') && !hubs.includes(href)) hubs.push(href);
+            if (rel.includes('self') && !selfUrl) selfUrl = href;
+        }
 
-            feedparser.on('readable', function (this: FeedParser) {
-                let item: Item;
-                while (item = this.read()) {
-                    // Extract image from media attributes first, then fallback to content extraction
-                    let imageUrl: string | undefined;
+        return { hubs, selfUrl };
+    }
 
-                    // Check for enclosures (RSS 2.0 style)
-                    if (item.enclosures && item.enclosures.length > 0) {
-                        const imageEnclosure = item.enclosures.find(enc =>
-                            enc.type && enc.type.startsWith('image')
-                        );
-                        if (imageEnclosure) {
-                            imageUrl = imageEnclosure.url;
-                        }
-                    }
+    /**
+     * Final URL of a fetch when every redirect on the way was permanent; a temporary redirect
+     * (302/303/307) anywhere in the chain means the feed still lives at the requested URL
+     */
+    private getPermanentLocation(requestedUrl: string, finalUrl: string, redirects: number[]): FeedMove | undefined {
+        if (redirects.length === 0 || finalUrl === requestedUrl || !validateUrl(finalUrl)) return undefined;
+        if (!redirects.every(status => PERMANENT_REDIRECT_STATUSES.includes(status))) return undefined;
+        return { url: finalUrl, statusCode: redirects[0] };
+    }
 
-                    // Check for item.image property
-                    if (!imageUrl && item.image) {
-                        imageUrl = typeof item.image === 'string' ? item.image : item.image.url;
-                    }
+    /**
+     * Merges WebSub links from an HTTP Link header into the parsed feed.
+     * Per the WebSub spec, header links take precedence over links in the document.
+     */
+    private applyLinkHeader(feed: RSSFeed, linkHeader?: string): void {
+        if (!linkHeader) return;
 
-                    const entry: FeedEntry = {
-                        title: item.title,
-                        link: item.link,
-                        pubDate: item.pubdate || item.date || undefined,
-                        description: item.description,
-                        content: item.summary || item.description,
-                        author: item.author,
-                        categories: item.categories || [],
-                        guid: item.guid,
-                        image_url: imageUrl
-                    };
-                    feed.entries.push(entry);
-                }
-            });
+        const headerHubs: string[] = [];
+        let headerSelf: string | undefined;
 
-            feedparser.on('end', () => {
-                logger.info(`Feed parsed in ${Date.now() - startTime}ms: ${url}`);
-                if (this.validateFeed(feed)) {
-                    resolve(feed);
-                } else {
-                    reject(new Error('Invalid feed structure'));
-                }
-            });
+        linkHeader.split(/,(?=\s*<)/).forEach(part => {
+            const match = part.match(/<([^>]+)>(.*)/);
+            if (!match) return;
 
-            stream.pipe(feedparser);
+            const rel = match[2].match(/;\s*rel="?([^";]+)"?/i)?.[1].toLowerCase().split(/\s+/) || [];
+            if (rel.includes('hub')) headerHubs.push(match[1].trim());
+            if (rel.includes('self') && !headerSelf) headerSelf = match[1].trim();
         });
+
+        feed.hubs = [...new Set([...headerHubs, ...(feed.hubs || [])])];
+        feed.selfUrl = headerSelf || feed.selfUrl;
     }
 
     validateFeed(feed: RSSFeed): boolean {
@@ -1,27 +1,31 @@
 import * as cheerio from 'cheerio';
 import sanitizeHtml from 'sanitize-html';
 import { ScrapedContent } from '../../types/content.types';
-import { fetchWithTimeout, validateUrl } from '../../utils/http.util';
+import { validateUrl } from '../../utils/http.util';
 import { logger } from '../../utils/logger';
+import requestScheduler, { BOT_USER_AGENT } from './request-scheduler.service';
 
 export class ScraperService {
-    private static readonly BOT_USER_AGENT = 'Mozilla/5.0 (compatible; QirataBot/1.0; +https://qirata.com/bot)';
-
+    /**
+     * Fetch a page as QirataBot, within robots.txt and the per-host politeness limits
+     * @throws RobotsDisallowedError, HostDeferredError
+     */
     async scrapeHtml(url: string, options?: { timeout?: number }): Promise<string> {
         if (!validateUrl(url)) {
             throw new Error('Invalid URL format');
         }
 
         const startTime = Date.now();
-        const html = await fetchWithTimeout(url, {
+        const response = await requestScheduler.fetch<string>(url, {
             headers: {
-                'User-Agent': ScraperService.BOT_USER_AGENT
+                'User-Agent': BOT_USER_AGENT
             },
-            timeout: options?.timeout || 30000
+            timeout: options?.timeout || 30000,
+            respectRobots: true
         });
 
         logger.info(`HTML scraped in ${Date.now() - startTime}ms: ${url}`);
-        return html;
+        return response.data;
     }
 
     // function to extract name from url
@@ -203,6 +207,21 @@ export class ScraperService {
         return metadata;
     }
 
+    /**
+     * URL the page declares as its canonical address (rel="canonical", then og:url)
+     * @param baseUrl - Page URL, to resolve relative links
+     */
+    extractCanonicalUrl($: cheerio.CheerioAPI, baseUrl: string): string | null {
+        const href = $('link[rel~="canonical"]').first().attr('href') || $('meta[property="og:url"]').first().attr('content');
+        if (!href) return null;
+
+        try {
+            return new URL(href.trim(), baseUrl).toString();
+        } catch {
+            return null;
+        }
+    }
+
     sanitizeContent(content: string): string {
         return sanitizeHtml(content, {
             allowedTags: [
@@ -202,6 +202,17 @@ export class ChatSessionService {
         }
     }
 
+    /**
+     * Delete a chat session with its messages and social posts
+     * @returns Whether the session existed
+     */
+    async delete(id: string, userId: string): Promise<boolean> {
+        const result = await ChatSessionRepository.delete({ id, user_id: userId });
+        this.sessionCache.delete(id);
+
+        return !!result.affected;
+    }
+
     async isOwner(id: string, userId: string): Promise<boolean> {
         try {
             return ChatSessionRepository.existsForUser(id, userId);
@@ -155,3 +155,45 @@ export const sendEmailVerification = async (email: string, verificationUrl: stri
 
     return await sendEmail({ to: email, subject, html });
 };
+
+/**
+ * Tell a subscriber that a feed they follow was removed by its publisher (410 Gone)
+ */
+export const sendFeedGoneEmail = async (email: string, feedName: string, feedUrl: string): Promise<boolean> => {
+    const subject = `"${feedName}" is no longer available`;
+    const html = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>Feed No Longer Available</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+            <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+                <div style="background-color: #f8f9fa; padding: 20px; text-align: center; border-radius: 8px 8px 0 0;">
+                    <h1 style="color: #2c3e50; margin: 0;">Qirata</h1>
+                </div>
+                
+                <div style="background-color: white; padding: 30px; border: 1px solid #e9ecef; border-top: none; border-radius: 0 0 8px 8px;">
+                    <h2 style="color: #2c3e50; margin-top: 0;">A Feed You Follow Is Gone</h2>
+                    
+                    <p>Hello,</p>
+                    
+                    <p>The publisher of <strong>${feedName}</strong> has removed its feed, so Qirata will no longer check it for new posts. The posts you already have stay in your library.</p>
+                    
+                    <p style="word-break: break-all; color: #6c757d;">${feedUrl}</p>
+                    
+                    <hr style="border: none; border-top: 1px solid #e9ecef; margin: 30px 0;">
+                    
+                    <p style="color: #6c757d; font-size: 14px;">
+                        If the site publishes a new feed, you can subscribe to it from its homepage. You can also unsubscribe from this feed in your feed settings.
+                    </p>
+                </div>
+            </div>
+        </body>
+        </html>
+    `;
+
+    return await sendEmail({ to: email, subject, html });
+};
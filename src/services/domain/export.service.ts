@@ -0,0 +1,151 @@
+import JSZip from 'jszip';
+import { SocialPost } from '../../entities/social-post.entity';
+import { ChatSessionRepository, HighlightRepository, MessagesRepository, SocialPostsRepository } from '../../repositories';
+import { SocialPostExportFilters } from '../../repositories/social-posts.repository';
+import { logger } from '../../utils/logger';
+import {
+    ChatSessionExport,
+    EXPORT_CONTENT_TYPES,
+    EXPORT_EXTENSIONS,
+    ExportFile,
+    ExportFormat,
+    HighlightsExport,
+    renderChatSessionHtml,
+    renderChatSessionJson,
+    renderChatSessionMarkdown,
+    renderHighlightsHtml,
+    renderHighlightsJson,
+    renderHighlightsMarkdown,
+    renderSocialPostsHtml,
+    renderSocialPostsJson,
+    renderSocialPostsMarkdown,
+    serializeSocialPost,
+    slugify
+} from '../export';
+
+export class ExportService {
+    /**
+     * Export a chat session with its conversation and social posts
+     */
+    async exportChatSession(sessionId: string, userId: string, format: ExportFormat): Promise<ExportFile> {
+        const session = await ChatSessionRepository.findById(sessionId, userId);
+        if (!session) {
+            throw new Error('Chat session not found');
+        }
+
+        const [messages, socialPosts] = await Promise.all([
+            MessagesRepository.findAllBySession(sessionId, userId),
+            SocialPostsRepository.findByChatSession(sessionId, userId)
+        ]);
+        const data: ChatSessionExport = { session, messages, socialPosts };
+
+        const renderers: Record<ExportFormat, (data: ChatSessionExport) => string> = {
+            markdown: renderChatSessionMarkdown,
+            json: renderChatSessionJson,
+            html: renderChatSessionHtml
+        };
+
+        logger.info(`Exporting chat session ${sessionId} as ${format}`);
+        return {
+            filename: `${slugify(session.title, 'chat-session')}.${EXPORT_EXTENSIONS[format]}`,
+            contentType: EXPORT_CONTENT_TYPES[format],
+            body: renderers[format](data)
+        };
+    }
+
+    /**
+     * Export the social posts of one chat session as a single file
+     */
+    async exportSessionSocialPosts(sessionId: string, userId: string, format: ExportFormat): Promise<ExportFile> {
+        const session = await ChatSessionRepository.findById(sessionId, userId);
+        if (!session) {
+            throw new Error('Chat session not found');
+        }
+
+        const posts = await SocialPostsRepository.findByChatSession(sessionId, userId);
+        const title = `${session.title} — social posts`;
+
+        logger.info(`Exporting ${posts.length} social posts of chat session ${sessionId} as ${format}`);
+        return {
+            filename: `${slugify(session.title, 'chat-session')}-social-posts.${EXPORT_EXTENSIONS[format]}`,
+            contentType: EXPORT_CONTENT_TYPES[format],
+            body: this.renderSocialPosts(title, posts, format)
+        };
+    }
+
+    /**
+     * ZIP of all the user's social posts: one file per post, grouped in a folder per platform,
+     * plus a manifest.json listing every exported post
+     */
+    async exportSocialPostsArchive(userId: string, filters: SocialPostExportFilters, format: ExportFormat): Promise<ExportFile> {
+        const posts = await SocialPostsRepository.findForExport(userId, filters);
+        const zip = new JSZip();
+        const extension = EXPORT_EXTENSIONS[format];
+
+        const manifest = posts.map(post => {
+            const date = new Date(post.created_at).toISOString().slice(0, 10);
+            const path = `${post.platform}/${date}-${post.id.slice(0, 8)}.${extension}`;
+            zip.file(path, this.renderSocialPosts(`${post.platform} post — ${date}`, [post], format));
+            return { path, ...serializeSocialPost(post) };
+        });
+
+        zip.file('manifest.json', JSON.stringify({
+            exported_at: new Date().toISOString(),
+            filters: {
+                platform: filters.platform ?? null,
+                from: filters.from?.toISOString() ?? null,
+                to: filters.to?.toISOString() ?? null
+            },
+            count: manifest.length,
+            social_posts: manifest
+        }, null, 2));
+
+        logger.info(`Exporting ${posts.length} social posts of user ${userId} as a ${format} archive`);
+        return {
+            filename: `social-posts-${new Date().toISOString().slice(0, 10)}.zip`,
+            contentType: 'application/zip',
+            body: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+        };
+    }
+
+    /**
+     * Export every highlight of the user with its note, grouped by post
+     */
+    async exportHighlights(userId: string, format: ExportFormat): Promise<ExportFile> {
+        const highlights = await HighlightRepository.findAllWithPostByUserId(userId);
+
+        const data: HighlightsExport = { posts: [] };
+        highlights.forEach(highlight => {
+            const current = data.posts[data.posts.length - 1];
+            if (current && current.post.id === highlight.post_id) {
+                current.highlights.push(highlight);
+            } else {
+                data.posts.push({ post: highlight.post, highlights: [highlight] });
+            }
+        });
+
+        const renderers: Record<ExportFormat, (data: HighlightsExport) => string> = {
+            markdown: renderHighlightsMarkdown,
+            json: renderHighlightsJson,
+            html: renderHighlightsHtml
+        };
+
+        logger.info(`Exporting ${highlights.length} highlights of user ${userId} as ${format}`);
+        return {
+            filename: `highlights-${new Date().toISOString().slice(0, 10)}.${EXPORT_EXTENSIONS[format]}`,
+            contentType: EXPORT_CONTENT_TYPES[format],
+            body: renderers[format](data)
+        };
+    }
+
+    private renderSocialPosts(title: string, posts: SocialPost[], format: ExportFormat): string {
+        switch (format) {
+            case 'markdown':
+                return renderSocialPostsMarkdown(title, posts);
+            case 'html':
+                return renderSocialPostsHtml(title, posts);
+            case 'json':
+                return renderSocialPostsJson(posts);
+        }
+    }
+}
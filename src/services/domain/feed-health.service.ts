@@ -0,0 +1,237 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { Feed } from '../../entities/feed.entity';
+import { UserFeed } from '../../entities/user-feed.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { logger } from '../../utils/logger';
+import {
+    FeedFetchDailyStats,
+    FeedFetchErrorSummary,
+    FeedFetchStats,
+    FeedLoggerService
+} from '../content/feed-logger.service';
+import { JobQueueService, JobTypes } from '../queue';
+
+export const DEFAULT_HEALTH_WINDOW_DAYS = 7;
+
+// Latency and staleness above these cost points in the health score
+const SLOW_RESPONSE_MS = 3000;
+const VERY_SLOW_RESPONSE_MS = 10000;
+const STALE_AFTER_MS = 3 * 24 * 60 * 60 * 1000;
+// Change in error rate between both halves of the window that counts as a trend
+const TREND_THRESHOLD = 0.1;
+
+export type FeedHealthGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+export type FeedErrorTrend = 'improving' | 'stable' | 'worsening';
+
+export interface FeedHealth {
+    feed_id: string;
+    name: string;
+    url: string;
+    status: string;
+    fetch_error_count: number;
+    window_days: number;
+    total_fetches: number;
+    success_rate: number | null;
+    avg_response_time_ms: number | null;
+    last_successful_fetch_at: Date | null;
+    not_modified_ratio: number | null;
+    error_trend: FeedErrorTrend;
+    next_fetch_at: Date | null;
+    // Null until the feed has been fetched within the window
+    grade: FeedHealthGrade | null;
+}
+
+export interface FeedHealthDetail extends FeedHealth {
+    daily: FeedFetchDailyStats[];
+    recent_errors: FeedFetchErrorSummary[];
+}
+
+const GRADE_ORDER: FeedHealthGrade[] = ['F', 'D', 'C', 'B', 'A'];
+
+/**
+ * FeedHealthService - Feed health reports built on the fetch logs
+ *
+ * Responsibilities:
+ * - Success rate, latency, 304 ratio and error trend of subscribed feeds
+ * - A health grade (A-F) per feed
+ * - Re-activating feeds that were turned off after failing for too long
+ */
+export class FeedHealthService {
+    private feedRepository: Repository<Feed>;
+    private userFeedRepository: Repository<UserFeed>;
+    private feedLoggerService: FeedLoggerService;
+    private jobQueueService: JobQueueService;
+
+    constructor() {
+        this.feedRepository = AppDataSource.getRepository(Feed);
+        this.userFeedRepository = AppDataSource.getRepository(UserFeed);
+        this.feedLoggerService = new FeedLoggerService();
+        this.jobQueueService = new JobQueueService();
+    }
+
+    /**
+     * Health of every feed the user follows, least healthy first
+     * @param userId - The user ID
+     * @param days - Size of the window in days
+     */
+    async getUserFeedsHealth(userId: string, days: number = DEFAULT_HEALTH_WINDOW_DAYS): Promise<FeedHealth[]> {
+        try {
+            const subscriptions = await this.userFeedRepository.find({
+                where: { user_id: userId },
+                relations: ['feed']
+            });
+            const feeds: Feed[] = subscriptions.map(subscription => subscription.feed).filter(Boolean);
+
+            const stats = await this.feedLoggerService.getStats(feeds.map(feed => feed.id), this.windowStart(days));
+            const statsByFeed = new Map(stats.map(entry => [entry.feed_id, entry]));
+
+            const health = feeds.map(feed => this.toHealth(feed, statsByFeed.get(feed.id), days));
+            const rank = (grade: FeedHealthGrade | null) => grade ? GRADE_ORDER.indexOf(grade) : GRADE_ORDER.length;
+
+            return health.sort((a, b) => rank(a.grade) - rank(b.grade) || a.name.localeCompare(b.name));
+        } catch (error) {
+            logger.error(`Error getting feed health for user ${userId}:`, error);
+            throw new HttpError(500, 'Failed to get feed health');
+        }
+    }
+
+    /**
+     * Health of one subscribed feed, with daily figures and its recent errors
+     * @param userId - The user ID
+     * @param feedId - The feed ID
+     * @param days - Size of the window in days
+     */
+    async getFeedHealth(userId: string, feedId: string, days: number = DEFAULT_HEALTH_WINDOW_DAYS): Promise<FeedHealthDetail> {
+        const feed = await this.findSubscribedFeed(userId, feedId);
+
+        try {
+            const since = this.windowStart(days);
+            const [stats, daily, recentErrors] = await Promise.all([
+                this.feedLoggerService.getStats([feed.id], since),
+                this.feedLoggerService.getDailyStats(feed.id, since),
+                this.feedLoggerService.getRecentErrors(feed.id, since)
+            ]);
+
+            return {
+                ...this.toHealth(feed, stats[0], days),
+                daily,
+                recent_errors: recentErrors
+            };
+        } catch (error) {
+            logger.error(`Error getting health of feed ${feedId}:`, error);
+            throw new HttpError(500, 'Failed to get feed health');
+        }
+    }
+
+    /**
+     * Put a feed in error or inactive state back into rotation and fetch it right away
+     * @param userId - The user ID (must follow the feed)
+     * @param feedId - The feed ID
+     */
+    async reactivateFeed(userId: string, feedId: string): Promise<FeedHealthDetail> {
+        const feed = await this.findSubscribedFeed(userId, feedId);
+
+        try {
+            await this.feedRepository.update({ id: feed.id }, {
+                status: 'active',
+                fetch_error_count: 0,
+                next_fetch_at: new Date()
+            });
+
+            await this.jobQueueService.enqueue(JobTypes.FEED_FETCH, { feedId: feed.id }, {
+                dedupeKey: `${JobTypes.FEED_FETCH}:${feed.id}`,
+                priority: Math.min(feed.subscriber_count, 1000),
+                maxAttempts: 1
+            });
+
+            logger.info(`Feed ${feed.url} re-activated by user ${userId} (was ${feed.status})`);
+        } catch (error) {
+            logger.error(`Error re-activating feed ${feedId}:`, error);
+            throw new HttpError(500, 'Failed to re-activate feed');
+        }
+
+        return this.getFeedHealth(userId, feedId);
+    }
+
+    private async findSubscribedFeed(userId: string, feedId: string): Promise<Feed> {
+        const subscription = await this.userFeedRepository.findOne({
+            where: { user_id: userId, feed_id: feedId },
+            relations: ['feed']
+        });
+
+        if (!subscription?.feed) {
+            throw new HttpError(404, 'Subscription not found');
+        }
+
+        return subscription.feed;
+    }
+
+    private toHealth(feed: Feed, stats: FeedFetchStats | undefined, days: number): FeedHealth {
+        const total = stats?.total ?? 0;
+        const successRate = stats && total > 0 ? stats.successful / total : null;
+
+        const health: FeedHealth = {
+            feed_id: feed.id,
+            name: feed.name,
+            url: feed.url,
+            status: feed.status,
+            fetch_error_count: feed.fetch_error_count,
+            window_days: days,
+            total_fetches: total,
+            success_rate: successRate,
+            avg_response_time_ms: stats?.avg_response_time_ms ?? null,
+            last_successful_fetch_at: feed.last_fetch_at ?? stats?.last_success_at ?? null,
+            not_modified_ratio: stats && stats.successful > 0 ? stats.not_modified / stats.successful : null,
+            error_trend: this.computeTrend(stats),
+            next_fetch_at: feed.next_fetch_at ?? null,
+            grade: null
+        };
+
+        health.grade = this.computeGrade(health);
+        return health;
+    }
+
+    private computeTrend(stats?: FeedFetchStats): FeedErrorTrend {
+        if (!stats || stats.first_half_error_rate === null || stats.second_half_error_rate === null) {
+            return 'stable';
+        }
+
+        const change = stats.second_half_error_rate - stats.first_half_error_rate;
+        if (change > TREND_THRESHOLD) return 'worsening';
+        if (change < -TREND_THRESHOLD) return 'improving';
+        return 'stable';
+    }
+
+    /**
+     * Score out of 100 from the success rate, minus penalties for latency, staleness and a
+     * worsening trend. Feeds in error state get at most a D, inactive feeds an F.
+     */
+    private computeGrade(health: FeedHealth): FeedHealthGrade | null {
+        if (health.status === 'inactive') return 'F';
+        if (health.success_rate === null) return null;
+
+        let score = health.success_rate * 100;
+
+        if (health.avg_response_time_ms !== null) {
+            if (health.avg_response_time_ms > VERY_SLOW_RESPONSE_MS) score -= 15;
+            else if (health.avg_response_time_ms > SLOW_RESPONSE_MS) score -= 5;
+        }
+
+        const lastSuccess = health.last_successful_fetch_at ? new Date(health.last_successful_fetch_at).getTime() : null;
+        if (lastSuccess === null || Date.now() - lastSuccess > STALE_AFTER_MS) score -= 15;
+
+        if (health.error_trend === 'worsening') score -= 10;
+        if (health.status === 'error') score = Math.min(score, 50);
+
+        if (score >= 90) return 'A';
+        if (score >= 80) return 'B';
+        if (score >= 65) return 'C';
+        if (score >= 50) return 'D';
+        return 'F';
+    }
+
+    private windowStart(days: number): Date {
+        return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    }
+}
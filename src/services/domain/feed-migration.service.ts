@@ -0,0 +1,185 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { Feed } from '../../entities/feed.entity';
+import { FeedUrlChangeReason, FeedUrlHistory } from '../../entities/feed-url-history.entity';
+import { Post } from '../../entities/post.entity';
+import { UserFeed } from '../../entities/user-feed.entity';
+import { RSSFeed } from '../../types/content.types';
+import { canonicalizeUrl } from '../../utils/canonical-url.util';
+import { validateUrl } from '../../utils/http.util';
+import { logger } from '../../utils/logger';
+import { RSSService } from '../content/rss.service';
+import { sendFeedGoneEmail } from './email.service';
+
+export interface FeedUrlChange {
+    url: string;
+    reason: FeedUrlChangeReason;
+    statusCode?: number;
+}
+
+/**
+ * FeedMigrationService - Follows feeds that moved or disappeared
+ *
+ * Responsibilities:
+ * - Move a feed to its new URL, or merge it into the feed already registered at that URL
+ *   (subscriptions, posts and URL history go to the surviving feed)
+ * - Verify self links that point somewhere else before trusting them
+ * - Resolve former feed URLs to the feed they moved to
+ * - Retire feeds that answer 410 Gone and tell their subscribers
+ */
+export class FeedMigrationService {
+    private feedRepository: Repository<Feed>;
+    private feedUrlHistoryRepository: Repository<FeedUrlHistory>;
+    private userFeedRepository: Repository<UserFeed>;
+    private rssService: RSSService;
+
+    constructor() {
+        this.feedRepository = AppDataSource.getRepository(Feed);
+        this.feedUrlHistoryRepository = AppDataSource.getRepository(FeedUrlHistory);
+        this.userFeedRepository = AppDataSource.getRepository(UserFeed);
+        this.rssService = new RSSService();
+    }
+
+    /**
+     * Find the feed a former feed URL moved to
+     * @param url - A URL the feed was registered under before
+     */
+    async findByFormerUrl(url: string): Promise<Feed | null> {
+        const entry = await this.feedUrlHistoryRepository.findOne({
+            where: { old_url: url },
+            relations: ['feed'],
+            order: { created_at: 'DESC' }
+        });
+
+        return entry?.feed || null;
+    }
+
+    /**
+     * New URL declared by the feed's self link, once the document at that URL turns out to be
+     * a feed that declares the same self link. RSSHub feeds are skipped: their self links point
+     * to whichever instance rendered them. A self link already verified and followed
+     * (`verified_self_url`) is not checked again.
+     * @returns The verified URL, or null when the self link is missing, the same, already followed or unverified
+     */
+    async findVerifiedSelfUrl(feed: Feed, rssFeed: RSSFeed): Promise<string | null> {
+        const selfUrl = rssFeed.selfUrl;
+        if (feed.source !== 'native' || !selfUrl || !validateUrl(selfUrl)) return null;
+        // Scheme, www and trailing slash differences are not a move
+        if (canonicalizeUrl(selfUrl) === canonicalizeUrl(feed.url)) return null;
+        if (feed.verified_self_url && canonicalizeUrl(selfUrl) === canonicalizeUrl(feed.verified_self_url)) return null;
+
+        try {
+            const result = await this.rssService.parseFeedWithCache(selfUrl);
+            const targetUrl = result.movedTo?.url || selfUrl;
+            const declared = result.feed?.selfUrl;
+
+            // The target must claim the address itself, under the self link or where it redirects
+            const confirmed = !!declared && [selfUrl, targetUrl]
+                .some(url => canonicalizeUrl(declared) === canonicalizeUrl(url));
+            if (!result.feed || !confirmed) {
+                logger.info(`Self link of ${feed.url} is not confirmed by ${selfUrl}`);
+                return null;
+            }
+
+            return targetUrl;
+        } catch (error) {
+            logger.info(`Self link of ${feed.url} does not serve a feed: ${selfUrl}`);
+            return null;
+        }
+    }
+
+    /**
+     * Move a feed to a new URL. When another feed is registered at that URL, the feed is merged
+     * into it: subscriptions (except for users following both), posts and URL history move over
+     * and the old feed row is deleted.
+     * @returns The feed now registered at the new URL
+     */
+    async moveFeed(feed: Feed, change: FeedUrlChange): Promise<Feed> {
+        const oldUrl = feed.url;
+
+        const target = await AppDataSource.transaction(async manager => {
+            const existing = await manager.findOne(Feed, { where: { url: change.url } });
+            const history = manager.create(FeedUrlHistory, {
+                feed_id: existing?.id || feed.id,
+                old_url: oldUrl,
+                new_url: change.url,
+                reason: change.reason,
+                status_code: change.statusCode ?? null,
+                merged: Boolean(existing && existing.id !== feed.id)
+            });
+
+            if (!existing || existing.id === feed.id) {
+                await manager.update(Feed, { id: feed.id }, { url: change.url });
+                await manager.save(history);
+                feed.url = change.url;
+                return feed;
+            }
+
+            // Users following both feeds keep their subscription to the surviving feed
+            await manager.createQueryBuilder()
+                .delete()
+                .from(UserFeed)
+                .where('feed_id = :oldFeedId', { oldFeedId: feed.id })
+                .andWhere('user_id IN (SELECT user_id FROM user_feeds WHERE feed_id = :targetFeedId)', { targetFeedId: existing.id })
+                .execute();
+            await manager.update(UserFeed, { feed_id: feed.id }, { feed_id: existing.id });
+            await manager.update(Post, { feed_id: feed.id }, { feed_id: existing.id });
+            await manager.update(FeedUrlHistory, { feed_id: feed.id }, { feed_id: existing.id });
+            await manager.save(history);
+
+            existing.subscriber_count = await manager.count(UserFeed, { where: { feed_id: existing.id } });
+            await manager.update(Feed, { id: existing.id }, { subscriber_count: existing.subscriber_count });
+
+            // Fetch logs and the WebSub subscription of the old feed go with it
+            await manager.delete(Feed, { id: feed.id });
+            return existing;
+        });
+
+        if (target.id === feed.id) {
+            logger.info(`Feed ${feed.id} moved (${change.reason}): ${oldUrl} -> ${change.url}`);
+        } else {
+            logger.info(`Feed ${feed.id} moved (${change.reason}) onto feed ${target.id} and was merged: ${oldUrl} -> ${change.url}`);
+        }
+
+        return target;
+    }
+
+    /**
+     * Stop fetching a feed that answered 410 Gone and email its subscribers.
+     * The feed stays subscribed (and can be re-activated) so users keep its posts.
+     */
+    async retireGoneFeed(feed: Feed): Promise<void> {
+        const wasRetired = feed.status === 'inactive';
+
+        feed.status = 'inactive';
+        feed.next_fetch_at = null;
+        feed.fetch_interval_minutes = null;
+        await this.feedRepository.update({ id: feed.id }, {
+            status: feed.status,
+            next_fetch_at: null,
+            fetch_interval_minutes: null
+        });
+
+        if (wasRetired) return;
+        logger.warn(`Feed ${feed.url} is gone (410), marked inactive`);
+
+        try {
+            const subscriptions = await this.userFeedRepository.find({
+                where: { feed_id: feed.id },
+                relations: ['user']
+            });
+
+            let sent = 0;
+            for (const subscription of subscriptions) {
+                if (!subscription.user?.email) continue;
+                if (await sendFeedGoneEmail(subscription.user.email, subscription.custom_name || feed.name, feed.url)) {
+                    sent++;
+                }
+            }
+
+            logger.info(`Notified ${sent}/${subscriptions.length} subscribers that ${feed.url} is gone`);
+        } catch (error) {
+            logger.error(`Error notifying subscribers of gone feed ${feed.id}:`, error);
+        }
+    }
+}
@@ -0,0 +1,203 @@
+import { IsNull } from 'typeorm';
+import AppDataSource from '../../config/database.config';
+import { Feed } from '../../entities/feed.entity';
+import { UserFeed } from '../../entities/user-feed.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { CategoryRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+import { OpmlFeed, OpmlFolder, OpmlService } from '../content/opml.service';
+import { FeedsService } from './feeds.service';
+
+// Feeds are validated over the network one by one, so large files are refused up front
+const MAX_OPML_FEEDS = 500;
+const IMPORT_CONCURRENCY = 5;
+
+export type OpmlImportStatus = 'subscribed' | 'already_subscribed' | 'failed';
+
+export interface OpmlImportResult {
+    url: string;
+    title: string | null;
+    category: string | null;
+    status: OpmlImportStatus;
+    subscription_id?: string;
+    error?: string;
+}
+
+export interface OpmlImportReport {
+    total: number;
+    subscribed: number;
+    already_subscribed: number;
+    failed: number;
+    categories_created: number;
+    results: OpmlImportResult[];
+}
+
+/**
+ * FeedOpmlService - Moves feed subscriptions in and out of Qirata as OPML
+ *
+ * Responsibilities:
+ * - Import OPML files (Feedly, Inoreader, ...): folders become nested categories,
+ *   outline titles become custom feed names
+ * - Export the user's subscriptions as OPML grouped by category
+ */
+export class FeedOpmlService {
+    private feedsService = new FeedsService();
+    private opmlService = new OpmlService();
+
+    /**
+     * Subscribe the user to every feed of an OPML document
+     * @param userId - The user ID
+     * @param xml - OPML document
+     * @returns Per-feed report of the import
+     */
+    async importOpml(userId: string, xml: string): Promise<OpmlImportReport> {
+        let feeds: OpmlFeed[];
+        try {
+            feeds = this.opmlService.parse(xml).feeds;
+        } catch (error) {
+            throw new HttpError(400, 'Invalid OPML file');
+        }
+
+        if (feeds.length === 0) {
+            throw new HttpError(400, 'The OPML file contains no feeds');
+        }
+        if (feeds.length > MAX_OPML_FEEDS) {
+            throw new HttpError(400, `An OPML import can contain at most ${MAX_OPML_FEEDS} feeds`);
+        }
+
+        // Folders first (sequentially, parents before children), then feeds in small parallel batches
+        const { categoryIds, created } = await this.resolveCategories(userId, feeds);
+
+        const results: OpmlImportResult[] = [];
+        for (let i = 0; i < feeds.length; i += IMPORT_CONCURRENCY) {
+            const batch = feeds.slice(i, i + IMPORT_CONCURRENCY);
+            results.push(...await Promise.all(
+                batch.map(feed => this.importFeed(userId, feed, categoryIds.get(pathKey(feed.folderPath))))
+            ));
+        }
+
+        const report: OpmlImportReport = {
+            total: results.length,
+            subscribed: results.filter(result => result.status === 'subscribed').length,
+            already_subscribed: results.filter(result => result.status === 'already_subscribed').length,
+            failed: results.filter(result => result.status === 'failed').length,
+            categories_created: created,
+            results
+        };
+
+        logger.info(`User ${userId} imported OPML: ${report.subscribed} subscribed, ${report.already_subscribed} already subscribed, ${report.failed} failed`);
+        return report;
+    }
+
+    /**
+     * Export the user's subscriptions as an OPML 2.0 document, nested by category
+     * @param userId - The user ID
+     */
+    async exportOpml(userId: string): Promise<string> {
+        try {
+            const [categories, subscriptions] = await Promise.all([
+                CategoryRepository.find({ where: { user_id: userId }, order: { name: 'ASC' } }),
+                AppDataSource.getRepository(UserFeed).find({
+                    where: { user_id: userId },
+                    relations: ['feed'],
+                    order: { subscribed_at: 'ASC' }
+                })
+            ]);
+
+            const root: OpmlFolder = { title: '', feeds: [], folders: [] };
+            const folders = new Map(categories.map(category => [category.id, { title: category.name, feeds: [], folders: [] } as OpmlFolder]));
+
+            categories.forEach(category => {
+                const parent = (category.parent_id && folders.get(category.parent_id)) || root;
+                parent.folders.push(folders.get(category.id)!);
+            });
+
+            subscriptions.forEach(subscription => {
+                const feed = subscription.feed as Feed;
+                const folder = (subscription.category_id && folders.get(subscription.category_id)) || root;
+                folder.feeds.push({ xmlUrl: feed.url, title: subscription.custom_name || feed.name });
+            });
+
+            return this.opmlService.build('Qirata subscriptions', root);
+        } catch (error) {
+            logger.error('Error exporting OPML:', error);
+            throw new HttpError(500, 'Failed to export subscriptions');
+        }
+    }
+
+    /**
+     * Find or create the category of every folder path in the file
+     * @returns Category ID per folder path, and how many categories were created
+     */
+    private async resolveCategories(userId: string, feeds: OpmlFeed[]): Promise<{ categoryIds: Map<string, string>; created: number }> {
+        const categoryIds = new Map<string, string>();
+        let created = 0;
+
+        for (const { folderPath } of feeds) {
+            let parentId: string | undefined;
+
+            for (let depth = 0; depth < folderPath.length; depth++) {
+                const key = pathKey(folderPath.slice(0, depth + 1));
+                const existingId = categoryIds.get(key);
+                if (existingId) {
+                    parentId = existingId;
+                    continue;
+                }
+
+                const name = folderPath[depth].slice(0, 100);
+                let category = await CategoryRepository.findOne({
+                    where: { user_id: userId, name, parent_id: parentId ?? IsNull() }
+                });
+
+                if (!category) {
+                    category = await CategoryRepository.save(CategoryRepository.create({ user_id: userId, name, parent_id: parentId }));
+                    created++;
+                }
+
+                categoryIds.set(key, category.id);
+                parentId = category.id;
+            }
+        }
+
+        return { categoryIds, created };
+    }
+
+    private async importFeed(userId: string, feed: OpmlFeed, categoryId?: string): Promise<OpmlImportResult> {
+        const result: Omit<OpmlImportResult, 'status'> = {
+            url: feed.xmlUrl,
+            title: feed.title ?? null,
+            category: feed.folderPath.length > 0 ? feed.folderPath.join(' / ') : null
+        };
+
+        try {
+            // Existing subscriptions are left untouched (no move, no rename)
+            const existing = await AppDataSource.getRepository(UserFeed)
+                .createQueryBuilder('user_feed')
+                .innerJoin('user_feed.feed', 'feed')
+                .where('user_feed.user_id = :userId', { userId })
+                .andWhere('feed.url = :url', { url: feed.xmlUrl })
+                .getOne();
+
+            if (existing) {
+                return { ...result, status: 'already_subscribed', subscription_id: existing.id };
+            }
+
+            const subscription = await this.feedsService.subscribeUserByRssUrl(
+                userId,
+                feed.xmlUrl,
+                feed.title?.slice(0, 255),
+                categoryId
+            );
+            return { ...result, status: 'subscribed', subscription_id: subscription.id };
+        } catch (error) {
+            if (error instanceof HttpError && error.status === 409) {
+                return { ...result, status: 'already_subscribed' };
+            }
+            return { ...result, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+        }
+    }
+}
+
+function pathKey(folderPath: string[]): string {
+    return JSON.stringify(folderPath);
+}
@@ -8,11 +8,42 @@ import { PostRepository } from '../../repositories';
 import { FeedEntry } from '../../types/content.types';
 import { formatDateForDatabase, parseRSSDate } from '../../utils/date.util';
 import { logger } from '../../utils/logger';
+import { FEED_SEARCH_CONFIG, toPrefixTsQuery } from '../../utils/search.util';
 import { FeedLoggerService } from '../content/feed-logger.service';
+import { FeedSchedulerService } from '../content/feed-scheduler.service';
+import { PostDeduplicationService } from '../content/post-deduplication.service';
+import { PostEmbeddingService } from '../content/post-embedding.service';
+import { PostExpansionService } from '../content/post-expansion.service';
+import { HostDeferredError } from '../content/request-scheduler.service';
 import { RSSService, RssValidationResult, RssValidationErrorCode } from '../content/rss.service';
 import { ScraperService } from '../content/scraper.service';
 import { isBlockedDomain } from '../../config/domain-blocklist';
 import rssHubService from '../content/rsshub.service';
+import { JobQueueService, JobTypes } from '../queue';
+import { FeedMigrationService } from './feed-migration.service';
+import { WebSubService } from './websub.service';
+
+// Consecutive errors before a feed is flagged as failing ('error', still retried with backoff)
+const FEED_ERROR_THRESHOLD = 5;
+// A failing feed without a successful fetch for this long is turned off ('inactive') until re-activated
+const FEED_INACTIVE_AFTER_MS = parseInt(process.env.FEED_INACTIVE_AFTER_DAYS || '14') * 24 * 60 * 60 * 1000;
+
+export interface FeedFetchIntervalOverrides {
+    min_fetch_interval_minutes?: number | null;
+    max_fetch_interval_minutes?: number | null;
+}
+
+export interface FeedFetchScheduleInfo {
+    feed_id: string;
+    url: string;
+    last_fetch_at: Date | null;
+    next_fetch_at: Date | null;
+    fetch_interval_minutes: number | null;
+    min_fetch_interval_minutes: number | null;
+    max_fetch_interval_minutes: number | null;
+    effective_min_interval_minutes: number;
+    effective_max_interval_minutes: number;
+}
 
 /**
  * FeedsService - Manages feed subscription system
@@ -29,6 +60,13 @@ export class FeedsService {
     private rssService: RSSService;
     private scraperService: ScraperService;
     private feedLoggerService: FeedLoggerService;
+    private feedSchedulerService: FeedSchedulerService;
+    private webSubService: WebSubService;
+    private postDeduplicationService: PostDeduplicationService;
+    private jobQueueService: JobQueueService;
+    private feedMigrationService: FeedMigrationService;
+    private postExpansionService: PostExpansionService;
+    private postEmbeddingService: PostEmbeddingService;
 
     constructor() {
         this.feedRepository = AppDataSource.getRepository(Feed);
@@ -36,13 +74,21 @@ export class FeedsService {
         this.rssService = new RSSService();
         this.scraperService = new ScraperService();
         this.feedLoggerService = new FeedLoggerService();
+        this.feedSchedulerService = new FeedSchedulerService();
+        this.webSubService = new WebSubService();
+        this.postDeduplicationService = new PostDeduplicationService();
+        this.jobQueueService = new JobQueueService();
+        this.feedMigrationService = new FeedMigrationService();
+        this.postExpansionService = new PostExpansionService();
+        this.postEmbeddingService = new PostEmbeddingService();
     }
 
     /**
-     * Search for feeds by name or url with fuzzy matching
+     * Search for feeds by name or url with full-text search: web search syntax ("phrases",
+     * -exclusions, OR), with the last word also matched as a prefix for partial input
      * @param query - Search query string
      * @param options - Pagination options (limit, offset)
-     * @returns Paginated array of feeds ordered by relevance and subscriber count
+     * @returns Paginated array of feeds ordered by exact name match, relevance and subscriber count
      */
     async searchFeeds(query: string, options: { limit?: number; offset?: number } = {}) {
         try {
@@ -55,35 +101,33 @@ export class FeedsService {
             const limit = Math.min(Math.max(1, options.limit || 20), 50);
             const offset = Math.max(0, options.offset || 0);
 
-            // Build query with fuzzy search on name and url
+            // Web search query, OR'ed with the prefix query when the search has words
+            const prefixQuery = toPrefixTsQuery(sanitizedQuery);
+            const tsQuery = prefixQuery
+                ? `(websearch_to_tsquery('${FEED_SEARCH_CONFIG}', :query) || to_tsquery('${FEED_SEARCH_CONFIG}', :prefixQuery))`
+                : `websearch_to_tsquery('${FEED_SEARCH_CONFIG}', :query)`;
+
             const queryBuilder = this.feedRepository
                 .createQueryBuilder('feed')
-                .where('LOWER(feed.name) LIKE LOWER(:query)', { query: `%${sanitizedQuery}%` })
-                .orWhere('LOWER(feed.url) LIKE LOWER(:query)', { query: `%${sanitizedQuery}%` })
+                .where(`feed.search_vector @@ ${tsQuery}`, { query: sanitizedQuery, prefixQuery })
                 .andWhere('feed.status = :status', { status: 'active' });
 
             // Get total count
             const total = await queryBuilder.getCount();
 
-            // Order by relevance (exact matches first) then subscriber count
+            // Exact name or URL matches first, then by rank and subscriber count
             const feeds = await queryBuilder
-                .orderBy(
-                    `CASE
-            WHEN LOWER(feed.name) = LOWER(:exactQuery) THEN 1
-            WHEN LOWER(feed.url) = LOWER(:exactQuery) THEN 2
-            WHEN LOWER(feed.name) LIKE LOWER(:startsQuery) THEN 3
-            ELSE 4
-          END`,
-                    'ASC'
+                .addSelect(
+                    `CASE WHEN LOWER(feed.name) = LOWER(:query) OR LOWER(feed.url) = LOWER(:query) THEN 1 ELSE 2 END`,
+                    'exact_match'
                 )
+                .addSelect(`ts_rank_cd(feed.search_vector, ${tsQuery})`, 'search_rank')
+                .orderBy('exact_match', 'ASC')
+                .addOrderBy('search_rank', 'DESC')
                 .addOrderBy('feed.subscriber_count', 'DESC')
                 .addOrderBy('feed.created_at', 'DESC')
-                .setParameters({
-                    exactQuery: sanitizedQuery,
-                    startsQuery: `${sanitizedQuery}%`
-                })
-                .skip(offset)
-                .take(limit)
+                .offset(offset)
+                .limit(limit)
                 .getMany();
 
             logger.info(`Search completed: query="${sanitizedQuery}", results=${feeds.length}, total=${total}`);
@@ -432,9 +476,10 @@ export class FeedsService {
     private async getOrCreateFeed(feedUrl: string, feedName?: string, faviconUrl?: string, source: string = 'native'): Promise<Feed> {
         try {
             // Check if feed already exists
+            // A feed that moved away from this URL is the same feed
             let feed = await this.feedRepository.findOne({
                 where: { url: feedUrl }
-            });
+            }) || await this.feedMigrationService.findByFormerUrl(feedUrl);
 
             if (feed) {
                 // Update feed metadata if provided
@@ -475,15 +520,19 @@ export class FeedsService {
 
     /**
      * Fetch and parse an RSS feed, creating/updating posts
-     * Uses conditional requests (ETag, If-Modified-Since) to avoid unnecessary processing
+     * Uses conditional requests (ETag, If-Modified-Since) to avoid unnecessary processing.
+     * Feeds that moved permanently (301/308 or a verified self link) are moved to their new URL,
+     * or merged into the feed already registered there; feeds answering 410 Gone are retired.
+     * @returns The fetched feed, which is the surviving feed after a merge
      */
     async fetchFeed(feedId: string): Promise<{ feed: Feed; insertedCount: number }> {
         const startTime = Date.now();
         let statusCode: number | null = null;
         let insertedCount = 0;
+        let feed: Feed | null = null;
 
         try {
-            const feed = await this.feedRepository.findOne({ where: { id: feedId } });
+            feed = await this.feedRepository.findOne({ where: { id: feedId } });
 
             if (!feed) {
                 throw new HttpError(404, 'Feed not found');
@@ -497,6 +546,28 @@ export class FeedsService {
 
             const responseTimeMs = Date.now() - startTime;
 
+            if (fetchResult.gone) {
+                statusCode = 410;
+                await this.feedLoggerService.logFetchAttempt(feed.id, statusCode, responseTimeMs, 'Feed is gone (410)', 0, false);
+                await this.feedMigrationService.retireGoneFeed(feed);
+                return { feed, insertedCount: 0 };
+            }
+
+            if (fetchResult.movedTo) {
+                feed = await this.feedMigrationService.moveFeed(feed, {
+                    url: fetchResult.movedTo.url,
+                    reason: 'redirect',
+                    statusCode: fetchResult.movedTo.statusCode
+                });
+            } else if (fetchResult.feed) {
+                const selfUrl = await this.feedMigrationService.findVerifiedSelfUrl(feed, fetchResult.feed);
+                if (selfUrl) {
+                    feed = await this.feedMigrationService.moveFeed(feed, { url: selfUrl, reason: 'self_link' });
+                    // Saved with the fetch result, so the self link is not verified again
+                    feed.verified_self_url = fetchResult.feed.selfUrl!;
+                }
+            }
+
             if (fetchResult.notModified) {
                 statusCode = 304;
                 logger.info(`Feed not modified (304): ${feed.url}`);
@@ -504,9 +575,10 @@ export class FeedsService {
                 feed.last_fetch_at = new Date();
                 feed.fetch_error_count = 0;
                 feed.status = 'active';
-                await this.feedRepository.save(feed);
+                await this.feedLoggerService.logFetchAttempt(feed.id, statusCode, responseTimeMs, undefined, 0, false);
 
-                await this.feedLoggerService.logFetchAttempt(feedId, statusCode, responseTimeMs, undefined, 0, false);
+                await this.scheduleNextFetch(feed, false);
+                await this.feedRepository.save(feed);
                 return { feed, insertedCount: 0 };
             }
 
@@ -516,6 +588,9 @@ export class FeedsService {
                 throw new Error('No feed data returned');
             }
 
+            // Subscribe to the feed's WebSub hub (if any) so new posts are pushed between polls
+            await this.webSubService.ensureSubscription(feed, fetchResult.feed);
+
             const entries = this.rssService.extractEntries(fetchResult.feed);
 
             if (!entries.length) {
@@ -526,9 +601,10 @@ export class FeedsService {
                 feed.status = 'active';
                 if (fetchResult.etag) feed.etag = fetchResult.etag;
                 if (fetchResult.lastModified) feed.last_modified = fetchResult.lastModified;
-                await this.feedRepository.save(feed);
+                await this.feedLoggerService.logFetchAttempt(feed.id, statusCode, responseTimeMs, undefined, 0, true);
 
-                await this.feedLoggerService.logFetchAttempt(feedId, statusCode, responseTimeMs, undefined, 0, true);
+                await this.scheduleNextFetch(feed, false);
+                await this.feedRepository.save(feed);
                 return { feed, insertedCount: 0 };
             }
 
@@ -539,24 +615,33 @@ export class FeedsService {
             feed.status = 'active';
             if (fetchResult.etag) feed.etag = fetchResult.etag;
             if (fetchResult.lastModified) feed.last_modified = fetchResult.lastModified;
-            await this.feedRepository.save(feed);
+            await this.feedLoggerService.logFetchAttempt(feed.id, statusCode, responseTimeMs, undefined, insertedCount, true);
 
-            await this.feedLoggerService.logFetchAttempt(feedId, statusCode, responseTimeMs, undefined, insertedCount, true);
+            await this.scheduleNextFetch(feed, false);
+            await this.feedRepository.save(feed);
             logger.info(`Feed fetched successfully: ${feed.url} - ${insertedCount} new posts`);
 
             return { feed, insertedCount };
         } catch (error) {
+            // The feed's host is rate limiting or busy: not the feed's fault, try again later
+            if (error instanceof HostDeferredError && feed) {
+                await this.deferFetch(feed, error.retryAt);
+                return { feed, insertedCount: 0 };
+            }
+
             const responseTimeMs = Date.now() - startTime;
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-            logger.error(`Error fetching feed ${feedId}:`, error);
+            // After a merge the error belongs to the surviving feed
+            const failedFeedId = feed?.id || feedId;
+            logger.error(`Error fetching feed ${failedFeedId}:`, error);
 
             try {
-                await this.feedLoggerService.logFetchAttempt(feedId, statusCode || 500, responseTimeMs, errorMessage, 0, false);
+                await this.feedLoggerService.logFetchAttempt(failedFeedId, statusCode || 500, responseTimeMs, errorMessage, 0, false);
             } catch (logError) {
                 logger.error('Error logging fetch attempt:', logError);
             }
 
-            await this.handleFeedError(feedId);
+            await this.handleFeedError(failedFeedId);
 
             if (error instanceof HttpError) throw error;
             throw new HttpError(500, 'Failed to fetch feed');
@@ -564,20 +649,98 @@ export class FeedsService {
     }
 
     /**
-     * Get feeds that need to be fetched (based on subscriber count and last fetch time)
+     * Ingest content pushed by a WebSub hub to the callback URL of a subscription.
+     * Content with an invalid signature is ignored (the hub still gets a 2xx response).
+     * @param subscriptionId - Subscription ID from the callback URL
+     * @param body - Raw notification body (the feed document with the new entries)
+     * @param signature - X-Hub-Signature header
+     * @returns Number of new posts
      */
-    async getFeedsToFetch(limit: number = 100): Promise<Feed[]> {
+    async ingestPushedContent(subscriptionId: string, body: Buffer, signature?: string): Promise<number> {
+        const subscription = await this.webSubService.authenticateNotification(subscriptionId, body, signature);
+        if (!subscription) return 0;
+
+        const feed = await this.feedRepository.findOne({ where: { id: subscription.feed_id } });
+        if (!feed) {
+            throw new HttpError(404, 'Feed not found');
+        }
+
+        let entries: FeedEntry[];
         try {
-            const fifteenMinutesAgo = new Date(Date.now() - 15 * 60 * 1000);
+            const rssFeed = await this.rssService.parseFeedContent(body.toString('utf8'), feed.url);
+            entries = this.rssService.extractEntries(rssFeed);
+        } catch (error) {
+            logger.warn(`Invalid WebSub notification for ${feed.url}:`, error);
+            throw new HttpError(400, 'Notification body is not a valid feed');
+        }
+
+        const insertedCount = await this.createPostsFromEntries(entries, feed);
+        logger.info(`WebSub notification for ${feed.url}: ${insertedCount} new posts`);
+
+        return insertedCount;
+    }
 
+    /**
+     * Get the fetch schedule of a feed and its interval bounds
+     * @param feedId - The feed ID
+     */
+    async getFetchSchedule(feedId: string): Promise<FeedFetchScheduleInfo> {
+        const feed = await this.feedRepository.findOne({ where: { id: feedId } });
+        if (!feed) {
+            throw new HttpError(404, 'Feed not found');
+        }
+
+        return this.toFetchScheduleInfo(feed);
+    }
+
+    /**
+     * Override the fetch interval bounds of a feed (null restores the global default).
+     * A next fetch beyond the new maximum is brought forward.
+     * @param feedId - The feed ID
+     * @param overrides - New minimum/maximum intervals in minutes
+     */
+    async updateFetchSchedule(feedId: string, overrides: FeedFetchIntervalOverrides): Promise<FeedFetchScheduleInfo> {
+        const feed = await this.feedRepository.findOne({ where: { id: feedId } });
+        if (!feed) {
+            throw new HttpError(404, 'Feed not found');
+        }
+
+        if (overrides.min_fetch_interval_minutes !== undefined) {
+            feed.min_fetch_interval_minutes = overrides.min_fetch_interval_minutes;
+        }
+        if (overrides.max_fetch_interval_minutes !== undefined) {
+            feed.max_fetch_interval_minutes = overrides.max_fetch_interval_minutes;
+        }
+
+        if (feed.min_fetch_interval_minutes && feed.max_fetch_interval_minutes
+            && feed.min_fetch_interval_minutes > feed.max_fetch_interval_minutes) {
+            throw new HttpError(400, 'min_fetch_interval_minutes cannot be greater than max_fetch_interval_minutes');
+        }
+
+        const { max } = this.feedSchedulerService.getBounds(feed);
+        const latest = new Date(Date.now() + max * 60 * 1000);
+        if (feed.next_fetch_at && feed.next_fetch_at > latest) {
+            feed.next_fetch_at = latest;
+        }
+
+        await this.feedRepository.save(feed);
+        logger.info(`Fetch interval bounds of feed ${feed.url} set to ${feed.min_fetch_interval_minutes ?? 'default'}-${feed.max_fetch_interval_minutes ?? 'default'} minutes`);
+
+        return this.toFetchScheduleInfo(feed);
+    }
+
+    /**
+     * Get feeds that are due for a fetch (next_fetch_at reached, never-fetched feeds first).
+     * Failing feeds are retried with backoff until they turn inactive.
+     */
+    async getFeedsToFetch(limit: number = 100): Promise<Feed[]> {
+        try {
             return await this.feedRepository
                 .createQueryBuilder('feed')
-                .where('feed.status = :status', { status: 'active' })
-                .andWhere('(feed.last_fetch_at IS NULL OR feed.last_fetch_at < :fetchTime)', {
-                    fetchTime: fifteenMinutesAgo
-                })
-                .orderBy('feed.subscriber_count', 'DESC')
-                .addOrderBy('feed.last_fetch_at', 'ASC', 'NULLS FIRST')
+                .where('feed.status IN (:...statuses)', { statuses: ['active', 'error'] })
+                .andWhere('(feed.next_fetch_at IS NULL OR feed.next_fetch_at <= :now)', { now: new Date() })
+                .orderBy('feed.next_fetch_at', 'ASC', 'NULLS FIRST')
+                .addOrderBy('feed.subscriber_count', 'DESC')
                 .limit(limit)
                 .getMany();
         } catch (error) {
@@ -587,7 +750,8 @@ export class FeedsService {
     }
 
     /**
-     * Create posts from RSS feed entries
+     * Create posts from RSS feed entries, grouping copies of articles already seen through other feeds.
+     * New posts of feeds that qualify for eager expansion are queued for it, and every new post for embedding.
      */
     private async createPostsFromEntries(entries: FeedEntry[], feed: Feed): Promise<number> {
         if (!entries.length) return 0;
@@ -595,14 +759,17 @@ export class FeedsService {
         try {
             const posts = entries.map(entry => {
                 const publishedDate = parseRSSDate(entry.pubDate);
+                const title = entry.title || 'Untitled Post';
+                const content = entry.description || entry.content || '';
 
                 return PostRepository.create({
-                    title: entry.title || 'Untitled Post',
-                    content: entry.description || entry.content || '',
+                    title,
+                    content,
                     external_link: entry.link,
                     feed_id: feed.id,
                     image_url: entry.image_url,
-                    published_date: formatDateForDatabase(publishedDate)
+                    published_date: formatDateForDatabase(publishedDate),
+                    ...this.postDeduplicationService.computeKeys(entry.canonical_url || entry.link, title, entry.content || content)
                 });
             });
 
@@ -615,7 +782,22 @@ export class FeedsService {
                 .returning('id')
                 .execute();
 
-            return result.raw?.length || 0;
+            const insertedIds: string[] = (result.raw || []).map((row: { id: string }) => row.id);
+            if (insertedIds.length > 0) {
+                const duplicates = await this.postDeduplicationService.assignDuplicates(insertedIds);
+                if (duplicates > 0) {
+                    logger.info(`${duplicates} of ${insertedIds.length} new posts from ${feed.url} are copies of known articles`);
+                }
+                await this.enqueueCanonicalUrlLookups(insertedIds);
+
+                const expansions = await this.postExpansionService.enqueueExpansions(feed, insertedIds);
+                if (expansions > 0) {
+                    logger.info(`Queued ${expansions} post expansions for ${feed.url}`);
+                }
+                await this.postEmbeddingService.enqueue(insertedIds);
+            }
+
+            return insertedIds.length;
         } catch (error) {
             logger.error('Error creating posts from entries:', error);
             throw error;
@@ -623,7 +805,28 @@ export class FeedsService {
     }
 
     /**
-     * Handle feed fetch errors - increment error count and mark as error after 5 failures
+     * Queue a lookup of the rel="canonical" URL of new posts' pages (POST_CANONICAL_LOOKUP=false disables it)
+     */
+    private async enqueueCanonicalUrlLookups(postIds: string[]): Promise<void> {
+        if (process.env.POST_CANONICAL_LOOKUP === 'false') return;
+
+        try {
+            for (const postId of postIds) {
+                await this.jobQueueService.enqueue(JobTypes.POST_CANONICAL_URL, { postId }, {
+                    dedupeKey: `${JobTypes.POST_CANONICAL_URL}:${postId}`,
+                    // After feed fetches, which are prioritized by subscribers
+                    priority: -1,
+                    maxAttempts: 3
+                });
+            }
+        } catch (error) {
+            logger.error('Error enqueueing canonical URL lookups:', error);
+        }
+    }
+
+    /**
+     * Handle feed fetch errors - increment error count, mark as error after 5 failures and as
+     * inactive once it has not been fetched successfully for FEED_INACTIVE_AFTER_DAYS
      */
     private async handleFeedError(feedId: string): Promise<void> {
         try {
@@ -631,16 +834,60 @@ export class FeedsService {
             if (!feed) return;
 
             feed.fetch_error_count += 1;
-            if (feed.fetch_error_count >= 5) {
-                feed.status = 'error';
+            if (feed.fetch_error_count >= FEED_ERROR_THRESHOLD) {
+                const lastSuccessAt = new Date(feed.last_fetch_at || feed.created_at).getTime();
+                const status = Date.now() - lastSuccessAt > FEED_INACTIVE_AFTER_MS ? 'inactive' : 'error';
+                if (status !== feed.status) {
+                    logger.warn(`Feed ${feed.url} is now ${status} after ${feed.fetch_error_count} consecutive errors`);
+                }
+                feed.status = status;
             }
 
+            await this.scheduleNextFetch(feed, true);
             await this.feedRepository.save(feed);
         } catch (error) {
             logger.error(`Error handling feed error for ${feedId}:`, error);
         }
     }
 
+    /**
+     * Postpone the next fetch of a feed whose host asked us to slow down, without counting an error
+     */
+    private async deferFetch(feed: Feed, retryAt: Date): Promise<void> {
+        try {
+            feed.next_fetch_at = retryAt;
+            await this.feedRepository.update({ id: feed.id }, { next_fetch_at: retryAt });
+            logger.info(`Fetch of ${feed.url} deferred until ${retryAt.toISOString()}`);
+        } catch (error) {
+            logger.error(`Error deferring fetch of feed ${feed.id}:`, error);
+        }
+    }
+
+    /**
+     * Set the feed's next_fetch_at from its cadence, idle fetches and error backoff (saved by the caller)
+     */
+    private async scheduleNextFetch(feed: Feed, failed: boolean): Promise<void> {
+        const schedule = await this.feedSchedulerService.computeNextFetch(feed, { failed });
+        feed.fetch_interval_minutes = schedule.intervalMinutes;
+        feed.next_fetch_at = schedule.nextFetchAt;
+    }
+
+    private toFetchScheduleInfo(feed: Feed): FeedFetchScheduleInfo {
+        const { min, max } = this.feedSchedulerService.getBounds(feed);
+
+        return {
+            feed_id: feed.id,
+            url: feed.url,
+            last_fetch_at: feed.last_fetch_at ?? null,
+            next_fetch_at: feed.next_fetch_at ?? null,
+            fetch_interval_minutes: feed.fetch_interval_minutes ?? null,
+            min_fetch_interval_minutes: feed.min_fetch_interval_minutes ?? null,
+            max_fetch_interval_minutes: feed.max_fetch_interval_minutes ?? null,
+            effective_min_interval_minutes: min,
+            effective_max_interval_minutes: max
+        };
+    }
+
     private static readonly ERROR_CODE_TO_HTTP: Record<RssValidationErrorCode, number> = {
         invalid_structure: 422,
         no_entries: 422,
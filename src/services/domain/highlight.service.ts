@@ -0,0 +1,183 @@
+import { Highlight, HighlightColor } from '../../entities/highlight.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { HighlightRepository, PostExpandedRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+import { anchorQuote, quoteAt, TextPosition, toAnchorText } from '../../utils/text-anchor.util';
+import { PostsService } from './posts.service';
+
+export interface CreateHighlightDto {
+    quote_exact: string;
+    quote_prefix?: string;
+    quote_suffix?: string;
+    position_start?: number;
+    position_end?: number;
+    note?: string | null;
+    color?: HighlightColor;
+}
+
+export interface UpdateHighlightDto {
+    note?: string | null;
+    color?: HighlightColor;
+}
+
+/**
+ * A highlight with its range in the current expanded content.
+ * Orphaned highlights (anchored = false) keep the range they were created with.
+ */
+export type AnchoredHighlight = Highlight & { anchored: boolean };
+
+/**
+ * HighlightService - Manages the user's highlights and notes on expanded post content
+ *
+ * Responsibilities:
+ * - CRUD operations for highlights (the user must have access to the post)
+ * - Anchoring quotes in the expanded content when they are created, and re-anchoring them
+ *   when they are listed, so highlights survive a re-expansion of the post
+ */
+export class HighlightService {
+    private postsService: PostsService;
+
+    constructor() {
+        this.postsService = new PostsService();
+    }
+
+    /**
+     * Highlights of the user on a post in reading order, anchored in the current expanded content
+     * @param postId - The post ID
+     * @param userId - The user ID
+     */
+    async getPostHighlights(postId: string, userId: string): Promise<AnchoredHighlight[]> {
+        await this.postsService.getPost(postId, userId);
+
+        try {
+            const [highlights, expanded] = await Promise.all([
+                HighlightRepository.findByPostAndUserId(postId, userId),
+                PostExpandedRepository.findOne({ select: ['post_id', 'content'], where: { post_id: postId } })
+            ]);
+            const text = toAnchorText(expanded?.content || '');
+
+            return highlights
+                .map(highlight => this.anchor(highlight, text))
+                .sort((a, b) => Number(b.anchored) - Number(a.anchored) || a.position_start - b.position_start);
+        } catch (error) {
+            logger.error(`Error getting highlights of post ${postId}:`, error);
+            throw new HttpError(500, 'Failed to get highlights');
+        }
+    }
+
+    /**
+     * Highlight a passage of a post's expanded content. The quote is looked up in the content
+     * (using the given range and context to pick the right occurrence), and the stored range and
+     * context are the ones found there.
+     * @param postId - The post ID (must have expanded content)
+     * @param data - Highlight creation data
+     * @param userId - The user ID
+     * @throws HttpError 422 when the quote is not in the post content
+     */
+    async createHighlight(postId: string, data: CreateHighlightDto, userId: string): Promise<AnchoredHighlight> {
+        const expanded = await this.postsService.getExpanded(postId, userId);
+        const text = toAnchorText(expanded.content);
+
+        const hint = data.position_start !== undefined && data.position_end !== undefined
+            ? { start: data.position_start, end: data.position_end }
+            : null;
+        const position = anchorQuote(text, {
+            exact: toAnchorText(data.quote_exact),
+            prefix: data.quote_prefix ?? '',
+            suffix: data.quote_suffix ?? ''
+        }, hint);
+
+        if (!position) {
+            throw new HttpError(422, 'Quote not found in the post content');
+        }
+
+        try {
+            const quote = quoteAt(text, position);
+            const highlight = await HighlightRepository.save(HighlightRepository.create({
+                user_id: userId,
+                post_id: postId,
+                quote_exact: quote.exact,
+                quote_prefix: quote.prefix,
+                quote_suffix: quote.suffix,
+                position_start: position.start,
+                position_end: position.end,
+                note: data.note || null,
+                color: data.color
+            }));
+
+            return { ...highlight, anchored: true } as AnchoredHighlight;
+        } catch (error) {
+            logger.error(`Error creating highlight on post ${postId}:`, error);
+            throw new HttpError(500, 'Failed to create highlight');
+        }
+    }
+
+    /**
+     * Change the note or the color of a highlight (the quote itself cannot change)
+     * @param postId - The post ID
+     * @param id - The highlight ID
+     * @param data - Update data (a null note removes it)
+     * @param userId - The user ID
+     */
+    async updateHighlight(postId: string, id: string, data: UpdateHighlightDto, userId: string): Promise<Highlight> {
+        try {
+            const highlight = await this.getHighlight(postId, id, userId);
+
+            if (data.note !== undefined) {
+                highlight.note = data.note || null;
+            }
+            if (data.color) {
+                highlight.color = data.color;
+            }
+
+            return await HighlightRepository.save(highlight);
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error updating highlight ${id}:`, error);
+            throw new HttpError(500, 'Failed to update highlight');
+        }
+    }
+
+    /**
+     * Delete a highlight and its note
+     * @param postId - The post ID
+     * @param id - The highlight ID
+     * @param userId - The user ID
+     */
+    async deleteHighlight(postId: string, id: string, userId: string): Promise<void> {
+        try {
+            const highlight = await this.getHighlight(postId, id, userId);
+            await HighlightRepository.remove(highlight);
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error deleting highlight ${id}:`, error);
+            throw new HttpError(500, 'Failed to delete highlight');
+        }
+    }
+
+    private async getHighlight(postId: string, id: string, userId: string): Promise<Highlight> {
+        const highlight = await HighlightRepository.findByIdAndPostAndUserId(id, postId, userId);
+
+        if (!highlight) {
+            throw new HttpError(404, 'Highlight not found');
+        }
+
+        return highlight;
+    }
+
+    private anchor(highlight: Highlight, text: string): AnchoredHighlight {
+        const recorded: TextPosition = { start: highlight.position_start, end: highlight.position_end };
+        const position = anchorQuote(text, {
+            exact: highlight.quote_exact,
+            prefix: highlight.quote_prefix,
+            suffix: highlight.quote_suffix
+        }, recorded);
+
+        return {
+            ...highlight,
+            position_start: (position || recorded).start,
+            position_end: (position || recorded).end,
+            anchored: !!position
+        } as AnchoredHighlight;
+    }
+}
@@ -1,8 +1,17 @@
 export * from './category.service';
 export * from './chat-session.service';
 export * from './email.service';
+export * from './export.service';
+export * from './feed-health.service';
+export * from './feed-opml.service';
 export * from './feeds.service';
+export * from './highlight.service';
 export * from './messages.service';
 export * from './posts.service';
+export * from './saved-search.service';
 export * from './settings.service';
+export * from './social-post-publishing.service';
+export * from './social-post-revisions.service';
 export * from './social-posts.service';
+export * from './tag.service';
+export * from './websub.service';
@@ -1,4 +1,4 @@
-import { Repository, UpdateResult } from 'typeorm';
+import { In, Repository, SelectQueryBuilder, UpdateResult } from 'typeorm';
 import AppDataSource from '../../config/database.config';
 import { Feed } from '../../entities/feed.entity';
 import { PostExpanded } from '../../entities/post-expanded.entity';
@@ -7,10 +7,27 @@ import { UserFeed } from '../../entities/user-feed.entity';
 import { UserPost } from '../../entities/user-post.entity';
 import { HttpError } from '../../middleware/error.middleware';
 import { ChatSessionRepository, PostExpandedRepository, PostRepository, UserPostRepository } from '../../repositories';
-import { PostFilters, PrepareDiscussionResult, ProgressEvent } from '../../types/posts.types';
+import { PostBookmark, PostFilters, PostSource, PrepareDiscussionResult, ProgressEvent } from '../../types/posts.types';
 import { logger } from '../../utils/logger';
+import { escapeHtmlSql, HEADLINE_OPTIONS, POST_SEARCH_CONFIG } from '../../utils/search.util';
 import { fullContentCheckAgent } from '../ai/agents';
+import { getEmbedderId } from '../ai/embeddings';
 import ContentScrapper from '../content/content-aggregation.service';
+import { PostDeduplicationService } from '../content/post-deduplication.service';
+import { PostEmbeddingService } from '../content/post-embedding.service';
+import { PostExpansionService } from '../content/post-expansion.service';
+import { SettingsService } from './settings.service';
+
+// Web search syntax: "quoted phrases", -exclusions and OR (:search)
+const SEARCH_TS_QUERY = `websearch_to_tsquery('${POST_SEARCH_CONFIG}', :search)`;
+
+// Posts that are the first-seen copy of their duplicate group among the user's feeds (:userId)
+const FIRST_SEEN_COPY_CONDITION = `(post.duplicate_of_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM posts dup
+    INNER JOIN user_feeds duf ON duf.feed_id = dup.feed_id AND duf.user_id = :userId
+    WHERE (dup.id = post.duplicate_of_id OR dup.duplicate_of_id = post.duplicate_of_id)
+    AND dup.sequence_id < post.sequence_id
+))`;
 
 export class PostsService {
     private postExpandedRepository: Repository<PostExpanded>;
@@ -18,6 +35,10 @@ export class PostsService {
     private userFeedRepository: Repository<UserFeed>;
     private postRepository: Repository<Post>;
     private feedRepository: Repository<Feed>;
+    private settingsService: SettingsService;
+    private postDeduplicationService: PostDeduplicationService;
+    private postExpansionService: PostExpansionService;
+    private postEmbeddingService: PostEmbeddingService;
 
     constructor() {
         this.postExpandedRepository = AppDataSource.getRepository(PostExpanded);
@@ -25,6 +46,10 @@ export class PostsService {
         this.userFeedRepository = AppDataSource.getRepository(UserFeed);
         this.postRepository = AppDataSource.getRepository(Post);
         this.feedRepository = AppDataSource.getRepository(Feed);
+        this.settingsService = new SettingsService();
+        this.postDeduplicationService = new PostDeduplicationService();
+        this.postExpansionService = new PostExpansionService();
+        this.postEmbeddingService = new PostEmbeddingService();
     }
 
     async getPosts(filters: PostFilters, userId: string): Promise<[Post[], number]> {
@@ -36,42 +61,54 @@ export class PostsService {
                 .leftJoinAndSelect('post.feed', 'feed')
                 .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId })
                 .addSelect('up.read_at', 'user_read_at')
-                .addSelect('up.bookmarked', 'user_bookmarked');
+                .addSelect('up.bookmarked', 'user_bookmarked')
+                .addSelect('up.bookmarked_at', 'user_bookmarked_at')
+                // The user's tags on this post
+                .addSelect(
+                    `(SELECT COALESCE(json_agg(json_build_object('id', t.id, 'name', t.name) ORDER BY t.name), '[]'::json)
+                      FROM post_tags pt INNER JOIN tags t ON t.id = pt.tag_id AND t.user_id = :userId
+                      WHERE pt.post_id = post.id)`,
+                    'user_tags'
+                )
+                // Copies of the article in the duplicate group, including this post
+                .addSelect(
+                    `(SELECT COUNT(*) FROM posts grp WHERE grp.id = COALESCE(post.duplicate_of_id, post.id) OR grp.duplicate_of_id = COALESCE(post.duplicate_of_id, post.id))`,
+                    'source_count'
+                );
+
+            this.applyFilters(query, filters);
+
+            const search = filters.search?.trim();
+            if (search) {
+                query.addSelect(`ts_rank_cd(post.search_vector, ${SEARCH_TS_QUERY})`, 'search_rank')
+                    // Feed text is escaped before highlighting: headlines are HTML with <mark> as the only markup
+                    .addSelect(`ts_headline('${POST_SEARCH_CONFIG}', ${escapeHtmlSql('post.title')}, ${SEARCH_TS_QUERY}, 'HighlightAll=true')`, 'title_highlight')
+                    // Snippet from the feed content, or the expanded content when the match is only there
+                    .addSelect(
+                        `ts_headline('${POST_SEARCH_CONFIG}', ${escapeHtmlSql(`regexp_replace(
+                            CASE WHEN to_tsvector('${POST_SEARCH_CONFIG}', coalesce(post.content, '')) @@ ${SEARCH_TS_QUERY}
+                                THEN post.content
+                                ELSE coalesce((SELECT left(pe.content, 20000) FROM post_expanded pe WHERE pe.post_id = post.id LIMIT 1), post.content, '')
+                            END, '<[^>]*>', ' ', 'g'
+                        )`)}, ${SEARCH_TS_QUERY}, '${HEADLINE_OPTIONS}')`,
+                        'content_snippet'
+                    );
+            }
 
             // Handle sorting
-            const sortBy = filters.sortBy || 'added_date';
+            const sortBy = filters.sortBy === 'relevance' && !search ? 'added_date' : filters.sortBy || 'added_date';
             const sortOrder = filters.sortOrder || 'DESC';
 
-            if (sortBy === 'published_date') {
+            if (sortBy === 'relevance') {
+                query.orderBy('search_rank', sortOrder);
+                query.addOrderBy('post.sequence_id', 'DESC');
+            } else if (sortBy === 'published_date') {
                 query.orderBy('post.published_date', sortOrder, 'NULLS LAST');
                 query.addOrderBy('post.sequence_id', 'DESC');
             } else {
                 query.orderBy('post.sequence_id', sortOrder);
             }
 
-            // Apply filters
-            if (filters.external_links?.length) {
-                query.andWhere('post.external_link IN (:...links)', { links: filters.external_links });
-            }
-
-            if (filters.read !== undefined) {
-                query.andWhere('up.read_at IS ' + (filters.read ? 'NOT NULL' : 'NULL'));
-            }
-
-            if (filters.search) {
-                query.andWhere('(post.title ILIKE :search OR post.content ILIKE :search)', {
-                    search: `%${filters.search}%`
-                });
-            }
-
-            if (filters.feed_id) {
-                query.andWhere('post.feed_id = :feedId', { feedId: filters.feed_id });
-            }
-
-            if (filters.category_id) {
-                query.andWhere('uf.category_id = :categoryId', { categoryId: filters.category_id });
-            }
-
             if (filters.limit) {
                 query.take(filters.limit);
             }
@@ -92,7 +129,15 @@ export class PostsService {
                 return {
                     ...post,
                     user_read_at: raw.user_read_at,
-                    user_bookmarked: raw.user_bookmarked
+                    user_bookmarked: raw.user_bookmarked,
+                    user_bookmarked_at: raw.user_bookmarked_at,
+                    user_tags: raw.user_tags,
+                    source_count: Number(raw.source_count),
+                    ...(search && {
+                        search_rank: Number(raw.search_rank),
+                        title_highlight: raw.title_highlight,
+                        content_snippet: raw.content_snippet
+                    })
                 } as Post;
             });
 
@@ -103,32 +148,36 @@ export class PostsService {
         }
     }
 
-    async getPost(id: string, userId: string): Promise<Post> {
+    /**
+     * Number of unread posts matching filters (a saved search's unread count)
+     */
+    async countUnread(filters: PostFilters, userId: string): Promise<number> {
+        if (filters.read === true) return 0;
+
         try {
-            // Get post and check if user has access via user_feeds
-            const result = await this.postRepository
+            const query = this.postRepository
                 .createQueryBuilder('post')
                 .innerJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
-                .leftJoinAndSelect('post.feed', 'feed')
-                .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId })
-                .addSelect('up.read_at', 'user_read_at')
-                .addSelect('up.bookmarked', 'user_bookmarked')
-                .where('post.id = :id', { id })
-                .getRawAndEntities();
+                .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId });
 
-            if (!result.entities.length) {
+            this.applyFilters(query, { ...filters, read: false });
+            return await query.getCount();
+        } catch (error) {
+            logger.error('Error counting unread posts:', error);
+            throw new HttpError(500, 'Failed to count unread posts');
+        }
+    }
+
+    async getPost(id: string, userId: string): Promise<Post> {
+        try {
+            // Posts of followed feeds, and bookmarked posts of feeds the user no longer follows
+            const post = await PostRepository.findWithUserAccess(id, userId);
+
+            if (!post) {
                 throw new HttpError(404, 'Post not found or access denied');
             }
 
-            // Map user-specific fields to the entity
-            const post = result.entities[0];
-            const raw = result.raw[0];
-
-            return {
-                ...post,
-                user_read_at: raw.user_read_at,
-                user_bookmarked: raw.user_bookmarked
-            } as Post;
+            return post;
         } catch (error) {
             logger.error(`Error getting post ${id}:`, error);
             if (error instanceof HttpError) throw error;
@@ -136,6 +185,72 @@ export class PostsService {
         }
     }
 
+    /**
+     * Every copy of a post's article across feeds (its duplicate group), first-seen first.
+     * Copies from feeds the user does not follow are included and flagged.
+     */
+    async getPostSources(id: string, userId: string): Promise<PostSource[]> {
+        const post = await this.getPost(id, userId);
+
+        try {
+            const group = await this.postDeduplicationService.getGroup(post);
+            const feedIds = group.map(member => member.feed_id).filter((feedId): feedId is string => !!feedId);
+            const subscriptions = feedIds.length
+                ? await this.userFeedRepository.find({ where: { user_id: userId, feed_id: In(feedIds) } })
+                : [];
+            const subscribedFeedIds = new Set(subscriptions.map(subscription => subscription.feed_id));
+
+            return group.map(member => ({
+                id: member.id,
+                title: member.title,
+                external_link: member.external_link,
+                canonical_url: member.canonical_url ?? null,
+                published_date: member.published_date ?? null,
+                created_at: member.created_at,
+                is_primary: !member.duplicate_of_id,
+                subscribed: !!member.feed_id && subscribedFeedIds.has(member.feed_id),
+                feed: member.feed ? { id: member.feed.id, name: member.feed.name, url: member.feed.url, favicon_url: member.feed.favicon_url } : null
+            }));
+        } catch (error) {
+            logger.error(`Error getting sources of post ${id}:`, error);
+            throw new HttpError(500, 'Failed to get post sources');
+        }
+    }
+
+    /**
+     * Posts of the user's feeds closest in meaning to a free-text query, most similar first.
+     * One post per duplicate group; each post carries its cosine `similarity` to the query.
+     */
+    async semanticSearch(query: string, userId: string, limit: number, offset: number = 0): Promise<Post[]> {
+        try {
+            const vector = await this.postEmbeddingService.embedQuery(query);
+            return await this.findNearestPosts(vector, userId, { limit, offset });
+        } catch (error) {
+            logger.error('Error in semantic post search:', error);
+            throw new HttpError(500, 'Failed to search posts');
+        }
+    }
+
+    /**
+     * Posts of the user's feeds closest in meaning to a post, other copies of its article excluded
+     */
+    async getRelatedPosts(id: string, userId: string, limit: number): Promise<Post[]> {
+        const post = await this.getPost(id, userId);
+
+        try {
+            const vector = await this.postEmbeddingService.getPostVector(post.id);
+            if (!vector) return [];
+
+            return await this.findNearestPosts(vector, userId, {
+                limit,
+                excludeGroupId: post.duplicate_of_id || post.id
+            });
+        } catch (error) {
+            logger.error(`Error getting posts related to ${id}:`, error);
+            throw new HttpError(500, 'Failed to get related posts');
+        }
+    }
+
     async getPostWithExpanded(id: string, userId: string): Promise<Post | null> {
         return PostRepository.findWithExpandedAndUserAccess(id, userId);
     }
@@ -161,6 +276,96 @@ export class PostsService {
         }
     }
 
+    /**
+     * Bookmark a post (or remove the bookmark) with an optional note.
+     * Bookmarked posts stay available after unsubscribing from their feed.
+     * @param note - New note, null to clear it, undefined to keep the current one
+     */
+    async setBookmark(id: string, userId: string, bookmarked: boolean, note?: string | null): Promise<PostBookmark> {
+        await this.getPost(id, userId);
+
+        try {
+            const userPost = await UserPostRepository.findByUserAndPost(userId, id) || UserPostRepository.create({
+                user_id: userId,
+                post_id: id,
+                bookmarked: false
+            });
+
+            if (bookmarked) {
+                // Re-bookmarking keeps the original bookmark time
+                if (!userPost.bookmarked) {
+                    userPost.bookmarked_at = new Date();
+                }
+                if (note !== undefined) {
+                    userPost.bookmark_note = note?.trim() || null;
+                }
+            } else {
+                userPost.bookmarked_at = null;
+                userPost.bookmark_note = null;
+            }
+            userPost.bookmarked = bookmarked;
+
+            await UserPostRepository.save(userPost);
+
+            return {
+                post_id: id,
+                bookmarked: userPost.bookmarked,
+                bookmarked_at: userPost.bookmarked_at ?? null,
+                note: userPost.bookmark_note ?? null
+            };
+        } catch (error) {
+            logger.error(`Error updating bookmark of post ${id}:`, error);
+            throw new HttpError(500, 'Failed to update bookmark');
+        }
+    }
+
+    /**
+     * The user's bookmarked posts, most recently bookmarked first, including posts of feeds
+     * the user no longer follows (`subscribed` is false on those)
+     */
+    async getBookmarks(userId: string, limit: number, offset: number = 0): Promise<[Post[], number]> {
+        try {
+            const query = this.postRepository
+                .createQueryBuilder('post')
+                .innerJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId AND up.bookmarked = true', { userId })
+                .leftJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
+                .leftJoinAndSelect('post.feed', 'feed')
+                .addSelect('up.read_at', 'user_read_at')
+                .addSelect('up.bookmarked', 'user_bookmarked')
+                .addSelect('up.bookmarked_at', 'user_bookmarked_at')
+                .addSelect('up.bookmark_note', 'user_bookmark_note')
+                .addSelect('uf.id IS NOT NULL', 'subscribed');
+
+            // Only many-to-one joins: limit/offset apply to posts
+            const [results, total] = await Promise.all([
+                query.clone()
+                    .orderBy('up.bookmarked_at', 'DESC', 'NULLS LAST')
+                    .addOrderBy('post.sequence_id', 'DESC')
+                    .offset(offset)
+                    .limit(limit)
+                    .getRawAndEntities(),
+                query.getCount()
+            ]);
+
+            const posts = results.entities.map((post, index) => {
+                const raw = results.raw[index];
+                return {
+                    ...post,
+                    user_read_at: raw.user_read_at,
+                    user_bookmarked: raw.user_bookmarked,
+                    user_bookmarked_at: raw.user_bookmarked_at,
+                    user_bookmark_note: raw.user_bookmark_note,
+                    subscribed: raw.subscribed
+                } as Post;
+            });
+
+            return [posts, total];
+        } catch (error) {
+            logger.error(`Error getting bookmarks of user ${userId}:`, error);
+            throw new HttpError(500, 'Failed to get bookmarks');
+        }
+    }
+
     async getExpanded(id: string, userId: string): Promise<PostExpanded> {
         try {
             // Verify user has access to this post first
@@ -205,12 +410,13 @@ export class PostsService {
         const existingExpanded = await PostExpandedRepository.findByPostId(id).catch(() => null);
 
         if (existingExpanded) {
-            // Fast path: already expanded
+            // Fast path: already expanded (on an earlier discussion or by the expansion pipeline)
             yield { state: 'ready', step: 'Content already prepared', progress: 100 };
         } else {
             // Use AI agent to decide if RSS content is full enough
             yield { state: 'deciding_content', step: 'Analyzing RSS content completeness...', progress: 5 };
-            const contentCheck = await fullContentCheckAgent({ title: post.title, content: post.content || '' });
+            const modelPreferences = await this.settingsService.getAIModelPreferences(userId);
+            const contentCheck = await fullContentCheckAgent({ title: post.title, content: post.content || '', modelPreferences });
 
             logger.info(`Post ${post.id}: AI content check - isFull=${contentCheck.isFull}, confidence=${contentCheck.confidence}, reason=${contentCheck.reason}`);
 
@@ -244,9 +450,10 @@ export class PostsService {
             // save post expanded
             yield { state: 'saving_expanded', step: 'Saving prepared content...', progress: 95 };
 
-            await PostExpandedRepository.save({
-                post_id: post.id,
-                content: content,
+            await this.postExpansionService.saveExpanded(post, content, {
+                source: contentCheck.isFull ? 'feed' : 'scraped',
+                trigger: 'discussion',
+                contentCheckConfidence: contentCheck.confidence
             });
 
             yield { state: 'ready', step: 'Content prepared for discussion', progress: 100 };
@@ -261,6 +468,105 @@ export class PostsService {
     }
 
 
+    /**
+     * Filters of post listings, on a query joining user_feeds (uf) and user_posts (up) for :userId
+     */
+    private applyFilters(query: SelectQueryBuilder<Post>, filters: PostFilters): void {
+        // Show one post per duplicate group: the first-seen copy among the user's feeds
+        if (!filters.include_duplicates) {
+            query.andWhere(FIRST_SEEN_COPY_CONDITION);
+        }
+
+        const search = filters.search?.trim();
+        if (search) {
+            query.andWhere(`post.search_vector @@ ${SEARCH_TS_QUERY}`, { search });
+        }
+
+        if (filters.external_links?.length) {
+            query.andWhere('post.external_link IN (:...links)', { links: filters.external_links });
+        }
+
+        if (filters.read !== undefined) {
+            query.andWhere('up.read_at IS ' + (filters.read ? 'NOT NULL' : 'NULL'));
+        }
+
+        if (filters.bookmarked !== undefined) {
+            query.andWhere('COALESCE(up.bookmarked, false) = :bookmarked', { bookmarked: filters.bookmarked });
+        }
+
+        if (filters.feed_id) {
+            query.andWhere('post.feed_id = :feedId', { feedId: filters.feed_id });
+        }
+
+        if (filters.category_id) {
+            query.andWhere('uf.category_id = :categoryId', { categoryId: filters.category_id });
+        }
+
+        // Posts carrying every given tag of the user
+        const tagIds = [...new Set(filters.tag_ids || [])];
+        if (tagIds.length) {
+            query.andWhere(
+                `(SELECT COUNT(DISTINCT pt.tag_id) FROM post_tags pt
+                  INNER JOIN tags t ON t.id = pt.tag_id AND t.user_id = :userId
+                  WHERE pt.post_id = post.id AND pt.tag_id IN (:...tagIds)) = :tagCount`,
+                { tagIds, tagCount: tagIds.length }
+            );
+        }
+
+        // Undated posts count from when they were added
+        if (filters.date_from) {
+            query.andWhere('COALESCE(post.published_date, post.created_at) >= :dateFrom', { dateFrom: filters.date_from });
+        }
+
+        if (filters.date_to) {
+            query.andWhere('COALESCE(post.published_date, post.created_at) <= :dateTo', { dateTo: filters.date_to });
+        }
+    }
+
+    /**
+     * Nearest posts to a vector among the user's feeds (cosine distance on post_embeddings),
+     * one per duplicate group
+     */
+    private async findNearestPosts(
+        vector: number[],
+        userId: string,
+        options: { limit: number; offset?: number; excludeGroupId?: string }
+    ): Promise<Post[]> {
+        const query = this.postRepository
+            .createQueryBuilder('post')
+            .innerJoin('post_embeddings', 'pe', 'pe.post_id = post.id AND pe.model = :model', { model: getEmbedderId() })
+            .innerJoin('user_feeds', 'uf', 'uf.feed_id = post.feed_id AND uf.user_id = :userId', { userId })
+            .leftJoinAndSelect('post.feed', 'feed')
+            .leftJoin('user_posts', 'up', 'up.post_id = post.id AND up.user_id = :userId', { userId })
+            .addSelect('up.read_at', 'user_read_at')
+            .addSelect('up.bookmarked', 'user_bookmarked')
+            .addSelect('pe.embedding <=> CAST(:embedding AS vector)', 'distance')
+            .setParameter('embedding', this.postEmbeddingService.toVectorLiteral(vector))
+            .where(FIRST_SEEN_COPY_CONDITION);
+
+        if (options.excludeGroupId) {
+            query.andWhere('COALESCE(post.duplicate_of_id, post.id) != :groupId', { groupId: options.excludeGroupId });
+        }
+
+        // Only many-to-one joins: limit/offset apply to posts
+        const results = await query
+            .orderBy('distance', 'ASC')
+            .addOrderBy('post.sequence_id', 'DESC')
+            .offset(options.offset || 0)
+            .limit(options.limit)
+            .getRawAndEntities();
+
+        return results.entities.map((post, index) => {
+            const raw = results.raw[index];
+            return {
+                ...post,
+                user_read_at: raw.user_read_at,
+                user_bookmarked: raw.user_bookmarked,
+                similarity: Math.round((1 - Number(raw.distance)) * 10000) / 10000
+            } as Post;
+        });
+    }
+
     private async findOrCreateChatSession(post: Post, userId: string) {
         let chatSession = await ChatSessionRepository.findByPostId(post.id, userId);
         if (!chatSession) {
@@ -0,0 +1,225 @@
+import { SavedSearch, SavedSearchFilters } from '../../entities/saved-search.entity';
+import { Post } from '../../entities/post.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { CategoryRepository, SavedSearchRepository, TagRepository } from '../../repositories';
+import { PostFilters } from '../../types/posts.types';
+import { logger } from '../../utils/logger';
+import { PostsService } from './posts.service';
+
+export interface CreateSavedSearchDto {
+    name: string;
+    filters: SavedSearchFilters;
+}
+
+export interface UpdateSavedSearchDto {
+    name?: string;
+    filters?: SavedSearchFilters;
+}
+
+export type SavedSearchWithCount = SavedSearch & { unread_count: number };
+
+/**
+ * SavedSearchService - Manages saved searches (smart folders)
+ *
+ * Responsibilities:
+ * - CRUD operations for the user's saved searches (names are unique per user)
+ * - Listing the posts of a saved search through the regular post filters
+ * - Unread counts per saved search
+ */
+export class SavedSearchService {
+    private postsService: PostsService;
+
+    constructor() {
+        this.postsService = new PostsService();
+    }
+
+    /**
+     * Create a saved search
+     * @param data - Name and filters
+     * @param userId - The user ID
+     */
+    async createSavedSearch(data: CreateSavedSearchDto, userId: string): Promise<SavedSearchWithCount> {
+        try {
+            if (await SavedSearchRepository.findDuplicate(userId, data.name)) {
+                throw new HttpError(409, 'Saved search with this name already exists');
+            }
+
+            const filters = await this.normalizeFilters(data.filters || {}, userId);
+            const savedSearch = await SavedSearchRepository.save(SavedSearchRepository.create({
+                user_id: userId,
+                name: data.name,
+                filters
+            }));
+
+            return this.withUnreadCount(savedSearch, userId);
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error('Error creating saved search:', error);
+            throw new HttpError(500, 'Failed to create saved search');
+        }
+    }
+
+    /**
+     * Get all saved searches of a user ordered by name, with their unread counts
+     * @param userId - The user ID
+     */
+    async getUserSavedSearches(userId: string): Promise<SavedSearchWithCount[]> {
+        try {
+            const savedSearches = await SavedSearchRepository.findByUserId(userId);
+            return await Promise.all(savedSearches.map(savedSearch => this.withUnreadCount(savedSearch, userId)));
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error('Error getting saved searches:', error);
+            throw new HttpError(500, 'Failed to get saved searches');
+        }
+    }
+
+    /**
+     * Get a saved search with its unread count
+     * @param id - The saved search ID
+     * @param userId - The user ID
+     */
+    async getSavedSearch(id: string, userId: string): Promise<SavedSearchWithCount> {
+        return this.withUnreadCount(await this.findSavedSearch(id, userId), userId);
+    }
+
+    /**
+     * Rename a saved search or replace its filters
+     * @param id - The saved search ID
+     * @param data - Update data
+     * @param userId - The user ID
+     */
+    async updateSavedSearch(id: string, data: UpdateSavedSearchDto, userId: string): Promise<SavedSearchWithCount> {
+        try {
+            const savedSearch = await this.findSavedSearch(id, userId);
+
+            if (data.name) {
+                const existing = await SavedSearchRepository.findDuplicate(userId, data.name);
+
+                if (existing && existing.id !== id) {
+                    throw new HttpError(409, 'Saved search with this name already exists');
+                }
+
+                savedSearch.name = data.name;
+            }
+
+            if (data.filters) {
+                savedSearch.filters = await this.normalizeFilters(data.filters, userId);
+            }
+
+            return this.withUnreadCount(await SavedSearchRepository.save(savedSearch), userId);
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error updating saved search ${id}:`, error);
+            throw new HttpError(500, 'Failed to update saved search');
+        }
+    }
+
+    /**
+     * Delete a saved search
+     * @param id - The saved search ID
+     * @param userId - The user ID
+     */
+    async deleteSavedSearch(id: string, userId: string): Promise<void> {
+        try {
+            await SavedSearchRepository.remove(await this.findSavedSearch(id, userId));
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error deleting saved search ${id}:`, error);
+            throw new HttpError(500, 'Failed to delete saved search');
+        }
+    }
+
+    /**
+     * Posts matching a saved search, in the order it stores
+     * @param id - The saved search ID
+     * @param userId - The user ID
+     * @param limit - Page size
+     * @param offset - Posts to skip
+     */
+    async getSavedSearchPosts(id: string, userId: string, limit: number, offset: number): Promise<[Post[], number]> {
+        const savedSearch = await this.findSavedSearch(id, userId);
+
+        return this.postsService.getPosts({
+            ...this.toPostFilters(savedSearch.filters),
+            limit,
+            offset
+        }, userId);
+    }
+
+    private async findSavedSearch(id: string, userId: string): Promise<SavedSearch> {
+        try {
+            const savedSearch = await SavedSearchRepository.findByIdAndUserId(id, userId);
+
+            if (!savedSearch) {
+                throw new HttpError(404, 'Saved search not found');
+            }
+
+            return savedSearch;
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error getting saved search ${id}:`, error);
+            throw new HttpError(500, 'Failed to get saved search');
+        }
+    }
+
+    private async withUnreadCount(savedSearch: SavedSearch, userId: string): Promise<SavedSearchWithCount> {
+        return {
+            ...savedSearch,
+            unread_count: await this.postsService.countUnread(this.toPostFilters(savedSearch.filters), userId)
+        } as SavedSearchWithCount;
+    }
+
+    private toPostFilters(filters: SavedSearchFilters): PostFilters {
+        return {
+            search: filters.search,
+            feed_id: filters.feed_id,
+            category_id: filters.category_id,
+            read: filters.read,
+            bookmarked: filters.bookmarked,
+            tag_ids: filters.tag_ids,
+            date_from: filters.date_from ? new Date(filters.date_from) : undefined,
+            date_to: filters.date_to ? new Date(filters.date_to) : undefined,
+            include_duplicates: filters.include_duplicates,
+            sortBy: filters.sortBy,
+            sortOrder: filters.sortOrder
+        };
+    }
+
+    /**
+     * Keep the known filters only, after checking that the tags and category are the user's
+     */
+    private async normalizeFilters(filters: SavedSearchFilters, userId: string): Promise<SavedSearchFilters> {
+        const tagIds = [...new Set(filters.tag_ids || [])];
+        if (tagIds.length && (await TagRepository.findByIdsAndUserId(tagIds, userId)).length !== tagIds.length) {
+            throw new HttpError(404, 'Tag not found');
+        }
+
+        if (filters.category_id && !(await CategoryRepository.findByIdAndUserId(filters.category_id, userId))) {
+            throw new HttpError(404, 'Category not found');
+        }
+
+        const normalized: SavedSearchFilters = {
+            search: filters.search?.trim() || undefined,
+            feed_id: filters.feed_id,
+            category_id: filters.category_id,
+            read: filters.read,
+            bookmarked: filters.bookmarked,
+            tag_ids: tagIds.length ? tagIds : undefined,
+            date_from: filters.date_from,
+            date_to: filters.date_to,
+            include_duplicates: filters.include_duplicates,
+            sortBy: filters.sortBy,
+            sortOrder: filters.sortOrder
+        };
+
+        // Unset filters are left out of the stored JSON
+        for (const key of Object.keys(normalized) as Array<keyof SavedSearchFilters>) {
+            if (normalized[key] === undefined || normalized[key] === null) {
+                delete normalized[key];
+            }
+        }
+
+        return normalized;
+    }
+}
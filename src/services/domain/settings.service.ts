@@ -2,6 +2,7 @@ import { Settings } from '../../entities/settings.entity';
 import { HttpError } from '../../middleware/error.middleware';
 import { SettingsModel } from '../../models/settings.model';
 import { logger } from '../../utils/logger';
+import { AGENT_ROLES, ModelPreferences, parseModelSpec } from '../ai/models';
 
 export class SettingsService {
     private settingsModel: SettingsModel;
@@ -105,4 +106,30 @@ export class SettingsService {
             throw new HttpError(500, 'Failed to set post QA reply preferences');
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Per-role model overrides stored as JSON, e.g. { "qa": "anthropic:claude-sonnet-4-5" }.
+     * Unknown roles and invalid specs are dropped so a bad value never breaks the chat.
+     */
+    async getAIModelPreferences(userId: string): Promise<ModelPreferences> {
+        try {
+            const setting = await this.settingsModel.findByKeyAndUser('ai_model_preferences', userId);
+            const parsed = JSON.parse(setting?.value || '{}');
+
+            const preferences: ModelPreferences = {};
+            for (const role of AGENT_ROLES) {
+                const spec = parsed?.[role];
+                if (typeof spec === 'string' && parseModelSpec(spec, role)) {
+                    preferences[role] = spec;
+                }
+            }
+            return preferences;
+        } catch (error) {
+            if (error instanceof HttpError && error.status === 404) {
+                return {};
+            }
+            logger.warn('Ignoring unreadable AI model preferences:', error);
+            return {};
+        }
+    }
+}
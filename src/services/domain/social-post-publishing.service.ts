@@ -0,0 +1,172 @@
+import { In, Not } from 'typeorm';
+import { FROZEN_SOCIAL_POST_STATUSES, SocialPost, SocialPostStatus } from '../../entities/social-post.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { SocialPostsRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+import { getPublisher, PublishError } from '../publishing';
+
+// Retry backoff: 1 min, 2 min, 4 min, ... capped at 1 hour
+const MAX_PUBLISH_ATTEMPTS = parseInt(process.env.SOCIAL_PUBLISH_MAX_ATTEMPTS || '5');
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Statuses a publish can be cancelled from
+const UNSCHEDULABLE_STATUSES = [SocialPostStatus.SCHEDULED, SocialPostStatus.FAILED];
+
+// A post still "publishing" after this long belongs to a run that died
+const STALE_PUBLISHING_MS = 15 * 60 * 1000;
+
+export interface PublishRunSummary {
+    claimed: number;
+    published: number;
+    retrying: number;
+    failed: number;
+}
+
+export class SocialPostPublishingService {
+    /**
+     * Schedule a social post to be published at the given time
+     */
+    async schedule(sessionId: string, postId: string, userId: string, scheduledAt: Date): Promise<SocialPost> {
+        if (scheduledAt.getTime() <= Date.now()) {
+            throw new HttpError(400, 'scheduled_at must be in the future');
+        }
+        return this.enqueue(sessionId, postId, userId, scheduledAt);
+    }
+
+    /**
+     * Queue a social post for the next publisher run
+     */
+    async publishNow(sessionId: string, postId: string, userId: string): Promise<SocialPost> {
+        return this.enqueue(sessionId, postId, userId, new Date());
+    }
+
+    /**
+     * Cancel a scheduled (or failed) publish, moving the post back to draft
+     */
+    async unschedule(sessionId: string, postId: string, userId: string): Promise<SocialPost> {
+        const post = await this.findPostOrFail(sessionId, postId, userId);
+
+        if (!UNSCHEDULABLE_STATUSES.includes(post.status)) {
+            throw new HttpError(409, `Cannot unschedule a ${post.status} social post`);
+        }
+
+        // The status condition keeps a post claimed by the publisher meanwhile as it is
+        const result = await SocialPostsRepository.update({ id: postId, user_id: userId, status: In(UNSCHEDULABLE_STATUSES) }, {
+            status: SocialPostStatus.DRAFT,
+            scheduled_at: null,
+            next_attempt_at: null,
+            publish_attempts: 0,
+            last_publish_error: null
+        });
+        if (!result.affected) {
+            throw new HttpError(409, 'Cannot unschedule a social post that is being published');
+        }
+
+        logger.info(`Unscheduled social post ${postId}`);
+        return (await SocialPostsRepository.findByIdAndUser(postId, userId))!;
+    }
+
+    /**
+     * Publish every due post. Called by the social publisher cron task.
+     */
+    async publishDue(limit: number = 50): Promise<PublishRunSummary> {
+        const stale = await SocialPostsRepository.failStalePublishing(new Date(Date.now() - STALE_PUBLISHING_MS));
+        if (stale > 0) {
+            logger.warn(`Marked ${stale} interrupted social post publish(es) as failed`);
+        }
+
+        const posts = await SocialPostsRepository.claimDueForPublishing(limit);
+        const summary: PublishRunSummary = { claimed: posts.length, published: 0, retrying: 0, failed: 0 };
+
+        // Sequential on purpose: platform APIs rate-limit per account
+        for (const post of posts) {
+            const status = await this.publishClaimed(post);
+            if (status === SocialPostStatus.PUBLISHED) summary.published++;
+            else if (status === SocialPostStatus.SCHEDULED) summary.retrying++;
+            else summary.failed++;
+        }
+
+        return summary;
+    }
+
+    private async enqueue(sessionId: string, postId: string, userId: string, scheduledAt: Date): Promise<SocialPost> {
+        const post = await this.findPostOrFail(sessionId, postId, userId);
+
+        if (FROZEN_SOCIAL_POST_STATUSES.includes(post.status)) {
+            throw new HttpError(409, `Social post is already ${post.status}`);
+        }
+
+        // The status condition keeps a post claimed by the publisher meanwhile from being queued twice
+        const result = await SocialPostsRepository.update({ id: postId, user_id: userId, status: Not(In(FROZEN_SOCIAL_POST_STATUSES)) }, {
+            status: SocialPostStatus.SCHEDULED,
+            scheduled_at: scheduledAt,
+            next_attempt_at: scheduledAt,
+            publish_attempts: 0,
+            last_publish_error: null
+        });
+        if (!result.affected) {
+            throw new HttpError(409, 'Social post is already being published');
+        }
+
+        logger.info(`Scheduled social post ${postId} for ${scheduledAt.toISOString()}`);
+        return (await SocialPostsRepository.findByIdAndUser(postId, userId))!;
+    }
+
+    /**
+     * Publish a claimed post and record the outcome: published, scheduled again with backoff, or failed
+     */
+    private async publishClaimed(post: SocialPost): Promise<SocialPostStatus> {
+        try {
+            const publisher = getPublisher(post.platform);
+            const result = await publisher.publish(post);
+
+            await SocialPostsRepository.update({ id: post.id }, {
+                status: SocialPostStatus.PUBLISHED,
+                published_at: new Date(),
+                next_attempt_at: null,
+                publishing_started_at: null,
+                last_publish_error: null,
+                external_id: result.externalId ?? null,
+                external_url: result.url ?? null
+            });
+
+            logger.info(`Published social post ${post.id} to ${post.platform} via ${publisher.name}`);
+            return SocialPostStatus.PUBLISHED;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const retryable = !(error instanceof PublishError) || error.retryable;
+
+            if (retryable && post.publish_attempts < MAX_PUBLISH_ATTEMPTS) {
+                const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (post.publish_attempts - 1), RETRY_MAX_DELAY_MS);
+                await SocialPostsRepository.update({ id: post.id }, {
+                    status: SocialPostStatus.SCHEDULED,
+                    next_attempt_at: new Date(Date.now() + delay),
+                    publishing_started_at: null,
+                    last_publish_error: message
+                });
+
+                logger.warn(`Publishing social post ${post.id} failed (attempt ${post.publish_attempts}), retrying in ${delay / 1000}s: ${message}`);
+                return SocialPostStatus.SCHEDULED;
+            }
+
+            await SocialPostsRepository.update({ id: post.id }, {
+                status: SocialPostStatus.FAILED,
+                next_attempt_at: null,
+                publishing_started_at: null,
+                last_publish_error: message
+            });
+
+            logger.error(`Publishing social post ${post.id} failed permanently after ${post.publish_attempts} attempt(s): ${message}`);
+            return SocialPostStatus.FAILED;
+        }
+    }
+
+    private async findPostOrFail(sessionId: string, postId: string, userId: string): Promise<SocialPost> {
+        const post = await SocialPostsRepository.findBySessionAndUser(postId, sessionId, userId);
+        if (!post) {
+            throw new Error('Social post not found');
+        }
+        return post;
+    }
+}
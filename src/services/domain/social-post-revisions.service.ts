@@ -0,0 +1,170 @@
+import { diffLines } from 'diff';
+import AppDataSource from '../../config/database.config';
+import { SocialPostRevision, SocialPostRevisionAction } from '../../entities/social-post-revision.entity';
+import { FROZEN_SOCIAL_POST_STATUSES, SocialPost } from '../../entities/social-post.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { SocialPostRevisionsRepository, SocialPostsRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+
+/**
+ * What caused a revision: the action and, for chat-driven changes, the user message
+ */
+export interface RevisionSource {
+    action: SocialPostRevisionAction;
+    userMessage?: string | null;
+}
+
+export interface RevisionDiffChange {
+    type: 'added' | 'removed' | 'unchanged';
+    value: string;
+}
+
+export interface RevisionDiff {
+    from: { version: number; created_at: Date };
+    to: { version: number; created_at: Date };
+    content: RevisionDiffChange[];
+    code_examples_changed: boolean;
+    visual_elements_changed: boolean;
+}
+
+export class SocialPostRevisionsService {
+    /**
+     * Snapshot the current state of a social post as its next version.
+     * The post row is locked while the version is taken, so concurrent changes get consecutive versions.
+     */
+    async record(post: SocialPost, source: RevisionSource, revertedFromVersion?: number): Promise<SocialPostRevision> {
+        try {
+            return await AppDataSource.transaction(async manager => {
+                await manager.createQueryBuilder(SocialPost, 'post')
+                    .select('post.id')
+                    .where('post.id = :id', { id: post.id })
+                    .setLock('pessimistic_write')
+                    .getOne();
+
+                const revisions = manager.withRepository(SocialPostRevisionsRepository);
+                const version = (await revisions.findLatestVersion(post.id)) + 1;
+
+                return revisions.save(revisions.create({
+                    social_post_id: post.id,
+                    user_id: post.user_id,
+                    version,
+                    action: source.action,
+                    content: post.content,
+                    thread: post.thread ?? null,
+                    code_examples: post.code_examples || [],
+                    visual_elements: post.visual_elements || [],
+                    user_message: source.userMessage ?? null,
+                    reverted_from_version: revertedFromVersion ?? null
+                }));
+            });
+        } catch (error) {
+            logger.error(`Error recording revision for social post ${post.id}:`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * List the revisions of a social post, newest first
+     */
+    async list(sessionId: string, postId: string, userId: string): Promise<SocialPostRevision[]> {
+        await this.findPostOrFail(sessionId, postId, userId);
+        return SocialPostRevisionsRepository.findByPost(postId, userId);
+    }
+
+    /**
+     * Get a single revision by version number
+     */
+    async findOne(sessionId: string, postId: string, userId: string, version: number): Promise<SocialPostRevision> {
+        await this.findPostOrFail(sessionId, postId, userId);
+        return this.findRevisionOrFail(postId, userId, version);
+    }
+
+    /**
+     * Line diff of the content between two versions (defaults to the version right before `version`)
+     */
+    async diff(sessionId: string, postId: string, userId: string, version: number, againstVersion?: number): Promise<RevisionDiff> {
+        await this.findPostOrFail(sessionId, postId, userId);
+
+        const to = await this.findRevisionOrFail(postId, userId, version);
+        const from = await this.findRevisionOrFail(postId, userId, againstVersion ?? version - 1);
+
+        return {
+            from: { version: from.version, created_at: from.created_at },
+            to: { version: to.version, created_at: to.created_at },
+            content: diffLines(from.content, to.content).map(change => ({
+                type: change.added ? 'added' : change.removed ? 'removed' : 'unchanged',
+                value: change.value
+            })),
+            code_examples_changed: JSON.stringify(from.code_examples || []) !== JSON.stringify(to.code_examples || []),
+            visual_elements_changed: JSON.stringify(from.visual_elements || []) !== JSON.stringify(to.visual_elements || [])
+        };
+    }
+
+    /**
+     * Restore a version's content onto the social post. The restore is itself recorded as a new version,
+     * so a revert can be undone like any other change.
+     * @throws HttpError 409 when the post is publishing or published
+     */
+    async revert(sessionId: string, postId: string, userId: string, version: number, userMessage?: string): Promise<SocialPost> {
+        const post = await this.findPostOrFail(sessionId, postId, userId);
+        const revision = await this.findRevisionOrFail(postId, userId, version);
+
+        if (FROZEN_SOCIAL_POST_STATUSES.includes(post.status)) {
+            throw new HttpError(409, `Cannot revert a ${post.status} social post`);
+        }
+
+        const revertedPost = await SocialPostsRepository.updateContent(postId, userId, {
+            content: revision.content,
+            thread: revision.thread ?? null,
+            code_examples: revision.code_examples || [],
+            visual_elements: revision.visual_elements || []
+        }, post);
+        if (!revertedPost) {
+            // Claimed for publishing since it was read
+            throw new HttpError(409, 'Cannot revert a social post that is being published');
+        }
+
+        await this.record(revertedPost, { action: 'revert', userMessage }, version);
+
+        logger.info(`Reverted social post ${postId} to version ${version}`);
+        return revertedPost;
+    }
+
+    /**
+     * Revert a social post to the version before its current one ("go back to the previous version").
+     * A revert revision stands for the version it restored, so asking again keeps going further back
+     * instead of switching between the same two versions.
+     * @throws HttpError 404 when there is no earlier version
+     */
+    async revertToPrevious(sessionId: string, postId: string, userId: string, userMessage?: string): Promise<{ post: SocialPost; version: number }> {
+        await this.findPostOrFail(sessionId, postId, userId);
+
+        const revisions = await SocialPostRevisionsRepository.findByPost(postId, userId);
+        const latest = revisions[0];
+        const current = latest?.reverted_from_version ?? latest?.version;
+
+        const previous = revisions.find(revision => revision.version < current);
+        if (!previous) {
+            throw new HttpError(404, 'No previous revision');
+        }
+
+        const post = await this.revert(sessionId, postId, userId, previous.version, userMessage);
+        return { post, version: previous.version };
+    }
+
+    private async findPostOrFail(sessionId: string, postId: string, userId: string): Promise<SocialPost> {
+        const post = await SocialPostsRepository.findBySessionAndUser(postId, sessionId, userId);
+        if (!post) {
+            throw new Error('Social post not found');
+        }
+        return post;
+    }
+
+    private async findRevisionOrFail(postId: string, userId: string, version: number): Promise<SocialPostRevision> {
+        const revision = await SocialPostRevisionsRepository.findVersion(postId, userId, version);
+        if (!revision) {
+            throw new Error('Revision not found');
+        }
+        return revision;
+    }
+}
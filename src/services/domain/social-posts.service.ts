@@ -1,10 +1,17 @@
-import { SocialPost, SocialPlatform, CodeExample, VisualElement } from '../../entities/social-post.entity';
+import { SocialPost, SocialPlatform, SocialPostStatus, CodeExample, VisualElement, ThreadPost, FROZEN_SOCIAL_POST_STATUSES } from '../../entities/social-post.entity';
 import { ChatSession } from '../../entities/chat-session.entity';
+import { HttpError } from '../../middleware/error.middleware';
 import { SocialPostsRepository } from '../../repositories';
 import { logger } from '../../utils/logger';
+import { applyContentToThread, buildThread, getPlatformProfile } from '../ai/platforms';
+import { RevisionSource, SocialPostRevisionsService } from './social-post-revisions.service';
 
 export interface UpdateSocialPostData {
-    content: string;
+    // Optional when a thread is given: thread platforms derive the content from the thread
+    content?: string;
+    thread?: string[] | null;
+    // Split the content into a new thread instead of keeping the existing split points
+    resplit?: boolean;
     image_urls?: string[];
     code_examples?: CodeExample[];
     visual_elements?: VisualElement[];
@@ -13,18 +20,21 @@ export interface UpdateSocialPostData {
 export interface CreateSocialPostData {
     content: string;
     platform: SocialPlatform;
+    thread?: string[] | null;
     image_urls?: string[];
     code_examples?: CodeExample[];
     visual_elements?: VisualElement[];
 }
 
 export class SocialPostsService {
+    private revisionsService = new SocialPostRevisionsService();
+
     /**
-     * Get all social posts for a chat session
+     * Get all social posts for a chat session, optionally only those with a publishing status
      */
-    async findByChatSession(sessionId: string, userId: string): Promise<SocialPost[]> {
+    async findByChatSession(sessionId: string, userId: string, status?: SocialPostStatus): Promise<SocialPost[]> {
         try {
-            return await SocialPostsRepository.findByChatSession(sessionId, userId);
+            return await SocialPostsRepository.findByChatSession(sessionId, userId, status);
         } catch (error) {
             logger.error(`Error getting social posts for session ${sessionId}:`, error);
             throw error;
@@ -44,17 +54,32 @@ export class SocialPostsService {
     }
 
     /**
-     * Update a social post content only
+     * Update a social post content only, recording the result as a new revision.
+     * Without a thread, edited content keeps the existing thread's split points unless
+     * a re-split is requested; only posts over the limit are split again.
+     * @throws HttpError 409 when the post is publishing or published
      */
-    async update(sessionId: string, postId: string, userId: string, data: UpdateSocialPostData): Promise<SocialPost> {
+    async update(sessionId: string, postId: string, userId: string, data: UpdateSocialPostData, revision: RevisionSource = { action: 'manual' }): Promise<SocialPost> {
         try {
             const post = await SocialPostsRepository.findBySessionAndUser(postId, sessionId, userId);
 
             if (!post) {
                 throw new Error('Social post not found');
             }
+            this.assertEditable(post);
 
-            const updatedPost = await SocialPostsRepository.updateContent(postId, userId, data, post);
+            const keepSplits = !data.thread?.length && !data.resplit && !!post.thread?.length;
+            const { content, thread } = this.resolveThread(
+                post.platform,
+                data.content ?? post.content,
+                keepSplits ? applyContentToThread(post.thread!.map(part => part.text), data.content ?? post.content) : data.thread
+            );
+            const { resplit, ...changes } = data;
+            const updatedPost = await SocialPostsRepository.updateContent(postId, userId, { ...changes, content, thread }, post);
+            if (!updatedPost) {
+                throw this.frozenError();
+            }
+            await this.revisionsService.record(updatedPost, revision);
 
             logger.info(`Updated social post ${postId} content`);
             return updatedPost;
@@ -87,12 +112,14 @@ export class SocialPostsService {
     /**
      * Create a new social post - accepts either session ID or session entity
      */
-    async create(sessionId: string, userId: string, postId: string, data: CreateSocialPostData): Promise<SocialPost> {
+    async create(sessionId: string, userId: string, postId: string, data: CreateSocialPostData, revision: RevisionSource = { action: 'create' }): Promise<SocialPost> {
         try {
+            const { content, thread } = this.resolveThread(data.platform, data.content, data.thread);
             const post = SocialPostsRepository.create({
                 chat_session_id: sessionId,
                 user_id: userId,
-                content: data.content,
+                content,
+                thread,
                 platform: data.platform,
                 image_urls: data.image_urls || [],
                 code_examples: data.code_examples || [],
@@ -100,7 +127,10 @@ export class SocialPostsService {
                 post_id: postId,
             });
 
-            return await SocialPostsRepository.save(post);
+            const savedPost = await SocialPostsRepository.save(post);
+            await this.revisionsService.record(savedPost, revision);
+
+            return savedPost;
         } catch (error) {
             throw error;
         }
@@ -108,27 +138,46 @@ export class SocialPostsService {
 
     /**
      * Upsert a social post - update if exists for session/platform, create if not
+     * @throws HttpError 409 when the existing post is publishing or published
      */
-    async upsert(sessionOrId: string | ChatSession, userId: string, data: CreateSocialPostData): Promise<SocialPost> {
+    async upsert(sessionOrId: string | ChatSession, userId: string, data: CreateSocialPostData, revision: RevisionSource = { action: 'create' }): Promise<SocialPost> {
         try {
             const sessionId = typeof sessionOrId === 'string' ? sessionOrId : sessionOrId.id;
             const postId = typeof sessionOrId === 'string' ? undefined : sessionOrId.post_id;
+            const { content, thread } = this.resolveThread(data.platform, data.content, data.thread);
 
-            await SocialPostsRepository.upsert(
-                {
-                    chat_session_id: sessionId,
-                    user_id: userId,
-                    content: data.content,
-                    platform: data.platform,
-                    image_urls: data.image_urls || [],
-                    code_examples: data.code_examples || [],
-                    visual_elements: data.visual_elements || [],
-                    post_id: postId,
-                },
-                ['chat_session_id', 'platform']
-            );
+            const fields = {
+                content,
+                thread,
+                image_urls: data.image_urls || [],
+                code_examples: data.code_examples || [],
+                visual_elements: data.visual_elements || []
+            };
+
+            // An existing post is only updated while it is not (being) published
+            const existing = await SocialPostsRepository.findBySessionAndPlatform(sessionId, userId, data.platform);
+            let upsertedPost: SocialPost | null;
+            if (existing) {
+                this.assertEditable(existing);
+                upsertedPost = await SocialPostsRepository.updateContent(existing.id, userId, fields, existing);
+                if (!upsertedPost) {
+                    throw this.frozenError();
+                }
+            } else {
+                await SocialPostsRepository.upsert(
+                    {
+                        chat_session_id: sessionId,
+                        user_id: userId,
+                        platform: data.platform,
+                        post_id: postId,
+                        ...fields
+                    },
+                    ['chat_session_id', 'platform']
+                );
+                upsertedPost = await SocialPostsRepository.findBySessionAndPlatform(sessionId, userId, data.platform);
+            }
 
-            const upsertedPost = await SocialPostsRepository.findBySessionAndPlatform(sessionId, userId, data.platform);
+            await this.revisionsService.record(upsertedPost!, revision);
 
             logger.info(`Upserted social post for session ${sessionId} on platform ${data.platform}`);
             return upsertedPost!;
@@ -137,4 +186,47 @@ export class SocialPostsService {
             throw error;
         }
     }
+
+    /**
+     * Published posts (and posts being published) keep the content they went out with
+     */
+    private assertEditable(post: SocialPost): void {
+        if (FROZEN_SOCIAL_POST_STATUSES.includes(post.status)) {
+            throw new HttpError(409, `Cannot edit a ${post.status} social post`);
+        }
+    }
+
+    // The post was claimed for publishing between reading and updating it
+    private frozenError(): HttpError {
+        return new HttpError(409, 'Cannot edit a social post that is being published');
+    }
+
+    /**
+     * Resolve the stored content and thread of a post.
+     * On thread platforms (Twitter) the thread is normalized (over-long posts re-split, lengths counted)
+     * and the content is the joined thread; without a thread the content is split into one.
+     * Other platforms never store a thread.
+     */
+    private resolveThread(platform: string, content: string | undefined, thread?: string[] | null): { content: string; thread: ThreadPost[] | null } {
+        const profile = getPlatformProfile(platform);
+        const posts = thread?.length ? thread : content ? [content] : [];
+
+        if (posts.length === 0) {
+            throw new HttpError(400, 'Content or thread is required');
+        }
+
+        if (!profile?.thread) {
+            return { content: content ?? posts.join('\n\n'), thread: null };
+        }
+
+        const normalized = buildThread(posts, profile.maxLength);
+        if (normalized.length > profile.thread.maxPosts) {
+            throw new HttpError(400, `A ${profile.name} thread can have at most ${profile.thread.maxPosts} posts`);
+        }
+
+        return {
+            content: normalized.map(post => post.text).join('\n\n'),
+            thread: normalized
+        };
+    }
 }
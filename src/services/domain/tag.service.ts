@@ -0,0 +1,176 @@
+import AppDataSource from '../../config/database.config';
+import { PostTag } from '../../entities/post-tag.entity';
+import { Tag } from '../../entities/tag.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { SavedSearchRepository, TagRepository } from '../../repositories';
+import { logger } from '../../utils/logger';
+import { PostsService } from './posts.service';
+
+export interface CreateTagDto {
+    name: string;
+}
+
+export interface UpdateTagDto {
+    name?: string;
+}
+
+/**
+ * TagService - Manages user tags on posts
+ *
+ * Responsibilities:
+ * - CRUD operations for the user's tags (names are unique per user, ignoring case)
+ * - Setting the tags of a post
+ * - Keeping saved searches consistent when a tag is deleted
+ */
+export class TagService {
+    private postsService: PostsService;
+
+    constructor() {
+        this.postsService = new PostsService();
+    }
+
+    /**
+     * Create a new tag for a user
+     * @param data - Tag creation data
+     * @param userId - The user ID
+     * @returns The created tag
+     */
+    async createTag(data: CreateTagDto, userId: string): Promise<Tag> {
+        try {
+            const existing = await TagRepository.findDuplicate(userId, data.name);
+
+            if (existing) {
+                throw new HttpError(409, 'Tag with this name already exists');
+            }
+
+            return await TagRepository.save(TagRepository.create({
+                user_id: userId,
+                name: data.name
+            }));
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error('Error creating tag:', error);
+            throw new HttpError(500, 'Failed to create tag');
+        }
+    }
+
+    /**
+     * Get all tags of a user ordered by name, with their post counts
+     * @param userId - The user ID
+     */
+    async getUserTags(userId: string): Promise<Array<Tag & { post_count: number }>> {
+        try {
+            return await TagRepository.findByUserIdWithCounts(userId);
+        } catch (error) {
+            logger.error('Error getting user tags:', error);
+            throw new HttpError(500, 'Failed to get tags');
+        }
+    }
+
+    /**
+     * Get a single tag by ID
+     * @param id - The tag ID
+     * @param userId - The user ID
+     */
+    async getTag(id: string, userId: string): Promise<Tag> {
+        try {
+            const tag = await TagRepository.findByIdAndUserId(id, userId);
+
+            if (!tag) {
+                throw new HttpError(404, 'Tag not found');
+            }
+
+            return tag;
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error getting tag ${id}:`, error);
+            throw new HttpError(500, 'Failed to get tag');
+        }
+    }
+
+    /**
+     * Rename a tag
+     * @param id - The tag ID
+     * @param data - Update data
+     * @param userId - The user ID
+     */
+    async updateTag(id: string, data: UpdateTagDto, userId: string): Promise<Tag> {
+        try {
+            const tag = await this.getTag(id, userId);
+
+            if (data.name) {
+                const existing = await TagRepository.findDuplicate(userId, data.name);
+
+                if (existing && existing.id !== id) {
+                    throw new HttpError(409, 'Tag with this name already exists');
+                }
+
+                tag.name = data.name;
+            }
+
+            return await TagRepository.save(tag);
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error updating tag ${id}:`, error);
+            throw new HttpError(500, 'Failed to update tag');
+        }
+    }
+
+    /**
+     * Delete a tag: it is removed from its posts and from the filters of saved searches
+     * (saved searches that had no other filter are deleted with it)
+     * @param id - The tag ID
+     * @param userId - The user ID
+     */
+    async deleteTag(id: string, userId: string): Promise<void> {
+        try {
+            const tag = await this.getTag(id, userId);
+
+            await AppDataSource.transaction(async manager => {
+                await manager.withRepository(SavedSearchRepository).removeTagFromFilters(userId, tag.id);
+                await manager.remove(tag);
+            });
+        } catch (error) {
+            if (error instanceof HttpError) throw error;
+            logger.error(`Error deleting tag ${id}:`, error);
+            throw new HttpError(500, 'Failed to delete tag');
+        }
+    }
+
+    /**
+     * Replace the user's tags on a post
+     * @param postId - The post ID (the user must have access to it)
+     * @param tagIds - The user's tags the post should carry (empty to untag it)
+     * @param userId - The user ID
+     * @returns The post's tags, ordered by name
+     */
+    async setPostTags(postId: string, tagIds: string[], userId: string): Promise<Tag[]> {
+        await this.postsService.getPost(postId, userId);
+
+        const uniqueIds = [...new Set(tagIds)];
+        const tags = await TagRepository.findByIdsAndUserId(uniqueIds, userId);
+        if (tags.length !== uniqueIds.length) {
+            throw new HttpError(404, 'Tag not found');
+        }
+
+        try {
+            await AppDataSource.transaction(async manager => {
+                await manager.createQueryBuilder()
+                    .delete()
+                    .from(PostTag)
+                    .where('post_id = :postId', { postId })
+                    .andWhere('tag_id IN (SELECT id FROM tags WHERE user_id = :userId)', { userId })
+                    .execute();
+
+                if (tags.length) {
+                    await manager.insert(PostTag, tags.map(tag => ({ tag_id: tag.id, post_id: postId })));
+                }
+            });
+
+            return tags;
+        } catch (error) {
+            logger.error(`Error setting tags of post ${postId}:`, error);
+            throw new HttpError(500, 'Failed to set post tags');
+        }
+    }
+}
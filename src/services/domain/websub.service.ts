@@ -0,0 +1,300 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Feed } from '../../entities/feed.entity';
+import { WebSubSubscription } from '../../entities/websub-subscription.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { WebSubSubscriptionsRepository } from '../../repositories';
+import { RSSFeed } from '../../types/content.types';
+import { logger } from '../../utils/logger';
+
+// Public origin of this API as seen by hubs (e.g. https://api.qirata.com); WebSub is off when unset
+const CALLBACK_BASE_URL = process.env.WEBSUB_CALLBACK_BASE_URL;
+const LEASE_SECONDS = parseInt(process.env.WEBSUB_LEASE_SECONDS || '864000'); // 10 days
+
+// Leases are renewed a day before they run out; unanswered or failed requests are retried after 6 hours
+const RENEW_BEFORE_EXPIRY_MS = 24 * 60 * 60 * 1000;
+const RETRY_AFTER_MS = 6 * 60 * 60 * 1000;
+const HUB_REQUEST_TIMEOUT_MS = 10000;
+
+const SIGNATURE_ALGORITHMS = ['sha1', 'sha256', 'sha384', 'sha512'];
+
+export interface WebSubVerification {
+    mode: string;
+    topic: string;
+    challenge?: string;
+    leaseSeconds?: number;
+    reason?: string;
+}
+
+export interface WebSubRenewalSummary {
+    due: number;
+    renewed: number;
+    unsubscribed: number;
+    failed: number;
+}
+
+/**
+ * WebSubService - Push subscriptions to the hubs feeds advertise
+ *
+ * Responsibilities:
+ * - Subscribe feeds to their hub when polling discovers one (rel="hub")
+ * - Answer the hub's intent verification and authenticate pushed notifications
+ * - Renew leases before they expire, and drop subscriptions of feeds nobody follows
+ *
+ * Polling is never turned off, so a hub that is down or refuses the subscription
+ * only delays new posts until the next scheduled fetch.
+ */
+export class WebSubService {
+    isEnabled(): boolean {
+        return Boolean(CALLBACK_BASE_URL);
+    }
+
+    /**
+     * Subscribe a freshly fetched feed to its hub, unless an up-to-date subscription exists.
+     * Never throws: a failing hub must not fail the feed fetch.
+     * @param feed - The fetched feed
+     * @param rssFeed - Parsed feed content, with the discovered hubs
+     */
+    async ensureSubscription(feed: Feed, rssFeed: RSSFeed): Promise<void> {
+        const hubUrl = rssFeed.hubs?.[0];
+        // Feeds nobody follows are still polled, but not pushed
+        if (!this.isEnabled() || !hubUrl || feed.subscriber_count === 0) return;
+
+        const topicUrl = rssFeed.selfUrl || feed.url;
+
+        try {
+            const existing = await WebSubSubscriptionsRepository.findByFeed(feed.id);
+            if (existing && existing.hub_url === hubUrl && existing.topic_url === topicUrl && !this.isDue(existing)) {
+                return;
+            }
+
+            await this.subscribe(feed.id, hubUrl, topicUrl, existing);
+        } catch (error) {
+            logger.error(`Error ensuring WebSub subscription for feed ${feed.id}:`, error);
+        }
+    }
+
+    /**
+     * Handle the hub's verification of intent (GET on the callback URL)
+     * @returns The challenge to echo back, or null to refuse the request (404)
+     */
+    async verifyIntent(subscriptionId: string, verification: WebSubVerification): Promise<string | null> {
+        const subscription = await WebSubSubscriptionsRepository.findOne({ where: { id: subscriptionId } });
+        if (!subscription || subscription.topic_url !== verification.topic) {
+            return null;
+        }
+
+        switch (verification.mode) {
+            case 'subscribe': {
+                if (!verification.challenge || (subscription.status !== 'pending' && subscription.status !== 'active')) {
+                    return null;
+                }
+
+                const leaseSeconds = verification.leaseSeconds ?? null;
+                await WebSubSubscriptionsRepository.update({ id: subscription.id }, {
+                    status: 'active',
+                    lease_seconds: leaseSeconds,
+                    lease_expires_at: leaseSeconds ? new Date(Date.now() + leaseSeconds * 1000) : null,
+                    verified_at: new Date(),
+                    last_error: null
+                });
+
+                logger.info(`WebSub subscription ${subscription.id} verified for ${subscription.topic_url} (lease ${leaseSeconds ?? 'unlimited'}s)`);
+                return verification.challenge;
+            }
+
+            case 'unsubscribe': {
+                if (!verification.challenge || subscription.status !== 'unsubscribing') {
+                    return null;
+                }
+
+                await WebSubSubscriptionsRepository.update({ id: subscription.id }, {
+                    status: 'unsubscribed',
+                    lease_expires_at: null,
+                    verified_at: new Date()
+                });
+
+                logger.info(`WebSub subscription ${subscription.id} unsubscribed from ${subscription.hub_url}`);
+                return verification.challenge;
+            }
+
+            case 'denied': {
+                await WebSubSubscriptionsRepository.update({ id: subscription.id }, {
+                    status: 'failed',
+                    lease_expires_at: null,
+                    last_error: `Denied by hub${verification.reason ? `: ${verification.reason}` : ''}`
+                });
+
+                logger.warn(`WebSub subscription ${subscription.id} denied by ${subscription.hub_url}, falling back to polling`);
+                return '';
+            }
+
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Check that a pushed notification comes from the hub of an active subscription
+     * @param subscriptionId - Subscription ID from the callback URL
+     * @param body - Raw request body
+     * @param signature - X-Hub-Signature header ("<algorithm>=<hex digest>")
+     * @returns The subscription, or null when the signature does not match (the content must be ignored)
+     */
+    async authenticateNotification(subscriptionId: string, body: Buffer, signature?: string): Promise<WebSubSubscription | null> {
+        const subscription = await WebSubSubscriptionsRepository.findOne({ where: { id: subscriptionId } });
+        if (!subscription || subscription.status === 'unsubscribed') {
+            throw new HttpError(404, 'WebSub subscription not found');
+        }
+
+        if (!this.isValidSignature(subscription.secret, body, signature)) {
+            logger.warn(`Ignoring WebSub notification with an invalid signature for subscription ${subscription.id}`);
+            return null;
+        }
+
+        await WebSubSubscriptionsRepository.update({ id: subscription.id }, { last_notification_at: new Date() });
+        return subscription;
+    }
+
+    /**
+     * Renew expiring leases and retry failed requests. Called by the WebSub renewal cron task.
+     * Subscriptions of feeds without subscribers are cancelled instead of renewed.
+     */
+    async renewDue(limit: number = 100): Promise<WebSubRenewalSummary> {
+        const now = Date.now();
+        const subscriptions = await WebSubSubscriptionsRepository.findDueForRenewal(
+            new Date(now + RENEW_BEFORE_EXPIRY_MS),
+            new Date(now - RETRY_AFTER_MS),
+            limit
+        );
+
+        const summary: WebSubRenewalSummary = { due: subscriptions.length, renewed: 0, unsubscribed: 0, failed: 0 };
+        if (!this.isEnabled()) return summary;
+
+        // Sequential on purpose: most feeds share a handful of hubs
+        for (const subscription of subscriptions) {
+            const feed = subscription.feed as Feed;
+
+            if (feed.subscriber_count === 0 || subscription.status === 'unsubscribing') {
+                const sent = await this.unsubscribe(subscription);
+                if (sent) summary.unsubscribed++;
+                else summary.failed++;
+                continue;
+            }
+
+            const updated = await this.subscribe(feed.id, subscription.hub_url, subscription.topic_url, subscription);
+            if (updated.status === 'failed') summary.failed++;
+            else summary.renewed++;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Send a subscribe request to the hub. The subscription stays pending until the hub verifies it.
+     * The secret is kept when renewing with the same hub and topic, so notifications signed
+     * while the renewal is being verified are still accepted.
+     */
+    private async subscribe(
+        feedId: string,
+        hubUrl: string,
+        topicUrl: string,
+        existing: WebSubSubscription | null
+    ): Promise<WebSubSubscription> {
+        const sameTarget = existing?.hub_url === hubUrl && existing?.topic_url === topicUrl;
+        const subscription = existing || WebSubSubscriptionsRepository.create({ feed_id: feedId });
+
+        subscription.hub_url = hubUrl;
+        subscription.topic_url = topicUrl;
+        subscription.secret = sameTarget && existing?.secret ? existing.secret : crypto.randomBytes(32).toString('hex');
+        // An active subscription stays active while the renewal is pending
+        subscription.status = sameTarget && existing?.status === 'active' ? 'active' : 'pending';
+        subscription.requested_at = new Date();
+        await WebSubSubscriptionsRepository.save(subscription);
+
+        try {
+            await this.sendHubRequest(subscription, 'subscribe');
+            logger.info(`WebSub subscribe request sent to ${hubUrl} for ${topicUrl}`);
+        } catch (error) {
+            const message = this.describeError(error);
+            subscription.status = 'failed';
+            subscription.last_error = message;
+            await WebSubSubscriptionsRepository.save(subscription);
+            logger.warn(`WebSub hub ${hubUrl} unavailable for ${topicUrl}, falling back to polling: ${message}`);
+        }
+
+        return subscription;
+    }
+
+    private async unsubscribe(subscription: WebSubSubscription): Promise<boolean> {
+        // Nothing to cancel at the hub if it never accepted the subscription
+        if (subscription.status === 'pending' || subscription.status === 'failed') {
+            await WebSubSubscriptionsRepository.update({ id: subscription.id }, { status: 'unsubscribed', lease_expires_at: null });
+            return true;
+        }
+
+        await WebSubSubscriptionsRepository.update({ id: subscription.id }, { status: 'unsubscribing', requested_at: new Date() });
+
+        try {
+            await this.sendHubRequest(subscription, 'unsubscribe');
+            logger.info(`WebSub unsubscribe request sent to ${subscription.hub_url} for ${subscription.topic_url}`);
+            return true;
+        } catch (error) {
+            const message = this.describeError(error);
+            await WebSubSubscriptionsRepository.update({ id: subscription.id }, { last_error: message });
+            logger.warn(`WebSub unsubscribe from ${subscription.hub_url} failed: ${message}`);
+            return false;
+        }
+    }
+
+    private async sendHubRequest(subscription: WebSubSubscription, mode: 'subscribe' | 'unsubscribe'): Promise<void> {
+        const params = new URLSearchParams({
+            'hub.mode': mode,
+            'hub.topic': subscription.topic_url,
+            'hub.callback': this.callbackUrl(subscription.id)
+        });
+
+        if (mode === 'subscribe') {
+            params.set('hub.secret', subscription.secret);
+            params.set('hub.lease_seconds', String(LEASE_SECONDS));
+        }
+
+        // Hubs answer 202 Accepted and verify the intent asynchronously
+        await axios.post(subscription.hub_url, params.toString(), {
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            timeout: HUB_REQUEST_TIMEOUT_MS
+        });
+    }
+
+    private callbackUrl(subscriptionId: string): string {
+        return `${CALLBACK_BASE_URL!.replace(/\/+$/, '')}/api/v1/websub/callback/${subscriptionId}`;
+    }
+
+    private isDue(subscription: WebSubSubscription): boolean {
+        const now = Date.now();
+
+        if (subscription.status === 'active') {
+            return !!subscription.lease_expires_at && subscription.lease_expires_at.getTime() < now + RENEW_BEFORE_EXPIRY_MS;
+        }
+
+        return !subscription.requested_at || subscription.requested_at.getTime() < now - RETRY_AFTER_MS;
+    }
+
+    private isValidSignature(secret: string, body: Buffer, signature?: string): boolean {
+        const [algorithm, digest] = (signature || '').split('=');
+        if (!algorithm || !digest || !SIGNATURE_ALGORITHMS.includes(algorithm.toLowerCase())) {
+            return false;
+        }
+
+        const expected = crypto.createHmac(algorithm.toLowerCase(), secret).update(body).digest();
+        const received = Buffer.from(digest, 'hex');
+        return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+    }
+
+    private describeError(error: unknown): string {
+        if (axios.isAxiosError(error) && error.response) {
+            return `Hub responded with ${error.response.status}`;
+        }
+        return error instanceof Error ? error.message : 'Unknown error';
+    }
+}
@@ -0,0 +1,155 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { validateUrl } from '../../utils/http.util';
+import { formatDate, platformName, postBlocks } from './shared';
+import { ChatSessionExport, HighlightsExport } from './types';
+
+// Inline styles keep the file self-contained (no external CSS, fonts or scripts)
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; line-height: 1.6; }
+h1, h2, h3, h4 { line-height: 1.25; }
+.meta { color: #656d76; font-size: 0.875rem; }
+.text { white-space: pre-wrap; }
+.post { border: 1px solid #d0d7de; border-radius: 8px; padding: 1rem 1.25rem; margin: 1.5rem 0; }
+.thread-post { border-left: 3px solid #d0d7de; padding-left: 0.75rem; margin: 0.75rem 0; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 0.75rem; overflow-x: auto; }
+.callout { border-left: 4px solid #0969da; background: #ddf4ff; padding: 0.5rem 0.75rem; margin: 0.75rem 0; border-radius: 4px; }
+.message { margin: 1rem 0; }
+.message .role { font-weight: 600; }
+.message.ai { background: #f6f8fa; border-radius: 6px; padding: 0.5rem 0.75rem; }
+.highlight { margin: 1rem 0; }
+.highlight blockquote { margin: 0; padding: 0.25rem 0.75rem; border-left: 4px solid; }
+.highlight.yellow blockquote { background: #fff8c5; border-color: #d4a72c; }
+.highlight.green blockquote { background: #dafbe1; border-color: #4ac26b; }
+.highlight.blue blockquote { background: #ddf4ff; border-color: #54aeff; }
+.highlight.pink blockquote { background: #ffeff7; border-color: #ff80c8; }
+.highlight.purple blockquote { background: #fbefff; border-color: #c297ff; }
+`;
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function escapeHtml(value: string | null | undefined): string {
+    return (value ?? '').replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function document(title: string, body: string): string {
+    return [
+        '<!DOCTYPE html>',
+        '<html lang="en">',
+        '<head>',
+        '<meta charset="utf-8">',
+        '<meta name="viewport" content="width=device-width, initial-scale=1">',
+        `<title>${escapeHtml(title)}</title>`,
+        `<style>${STYLES}</style>`,
+        '</head>',
+        '<body>',
+        body,
+        '</body>',
+        '</html>',
+        ''
+    ].join('\n');
+}
+
+export function renderSocialPostHtml(post: SocialPost, headingLevel: number = 2): string {
+    const heading = `h${headingLevel}`;
+    const subheading = `h${headingLevel + 1}`;
+    const blocks = postBlocks(post);
+
+    const parts: string[] = [
+        `<article class="post">`,
+        `<${heading}>${escapeHtml(platformName(post.platform))} post</${heading}>`,
+        `<p class="meta">Created ${escapeHtml(formatDate(post.created_at))} · Status: ${escapeHtml(post.status)}` +
+            (post.published_at ? ` · Published ${escapeHtml(formatDate(post.published_at))}` : '') + '</p>',
+        blocks.length > 1
+            ? blocks.map((text, index) => `<div class="thread-post"><p class="meta">${index + 1}/${blocks.length}</p><div class="text">${escapeHtml(text)}</div></div>`).join('\n')
+            : `<div class="text">${escapeHtml(blocks[0])}</div>`
+    ];
+
+    if (post.code_examples?.length) {
+        parts.push(`<${subheading}>Code examples</${subheading}>`);
+        post.code_examples.forEach(example => {
+            if (example.description) {
+                parts.push(`<p><strong>${escapeHtml(example.language)}</strong> — ${escapeHtml(example.description)}</p>`);
+            }
+            parts.push(`<pre><code class="language-${escapeHtml(example.language)}">${escapeHtml(example.code)}</code></pre>`);
+        });
+    }
+
+    if (post.visual_elements?.length) {
+        parts.push(`<${subheading}>Visual elements</${subheading}>`);
+        post.visual_elements.forEach(visual => {
+            parts.push(
+                '<aside class="callout">' +
+                `<strong>${escapeHtml(visual.type)}</strong><div class="text">${escapeHtml(visual.description)}</div>` +
+                (visual.suggestion ? `<p class="meta">Suggestion: ${escapeHtml(visual.suggestion)}</p>` : '') +
+                '</aside>'
+            );
+        });
+    }
+
+    parts.push('</article>');
+    return parts.join('\n');
+}
+
+export function renderSocialPostsHtml(title: string, posts: SocialPost[]): string {
+    const body = posts.length > 0
+        ? posts.map(post => renderSocialPostHtml(post)).join('\n')
+        : '<p class="meta">No social posts.</p>';
+
+    return document(title, `<h1>${escapeHtml(title)}</h1>\n${body}`);
+}
+
+export function renderChatSessionHtml({ session, messages, socialPosts }: ChatSessionExport): string {
+    const parts: string[] = [
+        `<h1>${escapeHtml(session.title)}</h1>`,
+        `<p class="meta">Chat session created ${escapeHtml(formatDate(session.created_at))} · Exported ${escapeHtml(formatDate(new Date()))}</p>`
+    ];
+
+    if (session.summary) {
+        parts.push('<h2>Summary</h2>', `<div class="text">${escapeHtml(session.summary)}</div>`);
+    }
+
+    parts.push('<h2>Conversation</h2>');
+    messages.forEach(message => {
+        parts.push(
+            `<div class="message user"><div class="role">You <span class="meta">${escapeHtml(formatDate(message.created_at))}</span></div><div class="text">${escapeHtml(message.user_message)}</div></div>`,
+            `<div class="message ai"><div class="role">Qirata</div><div class="text">${escapeHtml(message.ai_response)}</div></div>`
+        );
+    });
+
+    if (socialPosts.length > 0) {
+        parts.push('<h2>Social posts</h2>');
+        socialPosts.forEach(post => parts.push(renderSocialPostHtml(post, 3)));
+    }
+
+    return document(session.title, parts.join('\n'));
+}
+
+export function renderHighlightsHtml({ posts }: HighlightsExport): string {
+    const parts: string[] = [
+        '<h1>Highlights</h1>',
+        `<p class="meta">Exported ${escapeHtml(formatDate(new Date()))}</p>`
+    ];
+
+    if (posts.length === 0) {
+        parts.push('<p class="meta">No highlights.</p>');
+    }
+
+    posts.forEach(({ post, highlights }) => {
+        // Feed links are only linked when they are http(s): escaping does not defuse javascript: URLs
+        const title = validateUrl(post.external_link)
+            ? `<a href="${escapeHtml(post.external_link)}">${escapeHtml(post.title)}</a>`
+            : escapeHtml(post.title);
+        parts.push(`<h2>${title}</h2>`);
+        highlights.forEach(highlight => {
+            parts.push(
+                `<div class="highlight ${escapeHtml(highlight.color)}">` +
+                `<blockquote class="text">${escapeHtml(highlight.quote_exact)}</blockquote>` +
+                (highlight.note ? `<div class="text">${escapeHtml(highlight.note)}</div>` : '') +
+                `<p class="meta">${escapeHtml(formatDate(highlight.created_at))}</p>` +
+                '</div>'
+            );
+        });
+    });
+
+    return document('Highlights', parts.join('\n'));
+}
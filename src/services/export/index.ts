@@ -0,0 +1,5 @@
+export * from './types';
+export * from './markdown.renderer';
+export * from './html.renderer';
+export * from './json.renderer';
+export { slugify } from './shared';
@@ -0,0 +1,78 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { ChatSessionExport, HighlightsExport } from './types';
+
+// Internal bookkeeping (ownership, retry state) is left out of exports
+export function serializeSocialPost(post: SocialPost) {
+    return {
+        id: post.id,
+        platform: post.platform,
+        content: post.content,
+        thread: post.thread?.map(threadPost => threadPost.text) ?? null,
+        image_urls: post.image_urls || [],
+        code_examples: post.code_examples || [],
+        visual_elements: post.visual_elements || [],
+        status: post.status,
+        scheduled_at: post.scheduled_at ?? null,
+        published_at: post.published_at ?? null,
+        external_url: post.external_url ?? null,
+        chat_session_id: post.chat_session_id,
+        post_id: post.post_id ?? null,
+        created_at: post.created_at
+    };
+}
+
+export function renderSocialPostsJson(posts: SocialPost[]): string {
+    return JSON.stringify({
+        exported_at: new Date().toISOString(),
+        social_posts: posts.map(serializeSocialPost)
+    }, null, 2);
+}
+
+export function renderChatSessionJson({ session, messages, socialPosts }: ChatSessionExport): string {
+    return JSON.stringify({
+        exported_at: new Date().toISOString(),
+        session: {
+            id: session.id,
+            title: session.title,
+            summary: session.summary ?? null,
+            post_id: session.post_id ?? null,
+            is_favorite: session.is_favorite,
+            created_at: session.created_at
+        },
+        messages: messages.map(message => ({
+            id: message.id,
+            user_message: message.user_message,
+            ai_response: message.ai_response,
+            social_post_id: message.social_post_id ?? null,
+            created_at: message.created_at
+        })),
+        social_posts: socialPosts.map(serializeSocialPost)
+    }, null, 2);
+}
+
+export function renderHighlightsJson({ posts }: HighlightsExport): string {
+    return JSON.stringify({
+        exported_at: new Date().toISOString(),
+        posts: posts.map(({ post, highlights }) => ({
+            id: post.id,
+            title: post.title,
+            external_link: post.external_link,
+            highlights: highlights.map(highlight => ({
+                id: highlight.id,
+                quote: {
+                    exact: highlight.quote_exact,
+                    prefix: highlight.quote_prefix,
+                    suffix: highlight.quote_suffix
+                },
+                position: {
+                    start: highlight.position_start,
+                    end: highlight.position_end
+                },
+                note: highlight.note ?? null,
+                color: highlight.color,
+                created_at: highlight.created_at,
+                updated_at: highlight.updated_at
+            }))
+        }))
+    }, null, 2);
+}
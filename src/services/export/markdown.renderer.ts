@@ -0,0 +1,110 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { formatDate, platformName, postBlocks } from './shared';
+import { ChatSessionExport, HighlightsExport } from './types';
+
+/**
+ * Fenced code block whose fence is longer than any backtick run inside the code
+ */
+function fence(code: string, language: string = ''): string {
+    const longestRun = Math.max(2, ...(code.match(/`+/g) || []).map(run => run.length));
+    const marker = '`'.repeat(longestRun + 1);
+    return `${marker}${language}\n${code.replace(/\n$/, '')}\n${marker}`;
+}
+
+function quote(text: string): string {
+    return text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+}
+
+/**
+ * One social post: text (numbered for threads), code examples as fenced blocks, visual elements as callouts
+ */
+export function renderSocialPostMarkdown(post: SocialPost, headingLevel: number = 2): string {
+    const heading = '#'.repeat(headingLevel);
+    const subheading = '#'.repeat(headingLevel + 1);
+    const blocks = postBlocks(post);
+
+    const lines: string[] = [
+        `${heading} ${platformName(post.platform)} post`,
+        '',
+        `_Created ${formatDate(post.created_at)} · Status: ${post.status}_` + (post.published_at ? ` _· Published ${formatDate(post.published_at)}_` : ''),
+        '',
+        blocks.length > 1
+            ? blocks.map((text, index) => `**${index + 1}/${blocks.length}**\n\n${text}`).join('\n\n---\n\n')
+            : blocks[0]
+    ];
+
+    if (post.code_examples?.length) {
+        lines.push('', `${subheading} Code examples`);
+        post.code_examples.forEach(example => {
+            lines.push('');
+            if (example.description) lines.push(`**${example.language}** — ${example.description}`, '');
+            lines.push(fence(example.code, example.language));
+        });
+    }
+
+    if (post.visual_elements?.length) {
+        lines.push('', `${subheading} Visual elements`);
+        post.visual_elements.forEach(visual => {
+            const callout = [`[!NOTE] **${visual.type}**`, visual.description];
+            if (visual.suggestion) callout.push(`_Suggestion: ${visual.suggestion}_`);
+            lines.push('', quote(callout.join('\n')));
+        });
+    }
+
+    return lines.join('\n');
+}
+
+export function renderSocialPostsMarkdown(title: string, posts: SocialPost[]): string {
+    const sections = posts.length > 0
+        ? posts.map(post => renderSocialPostMarkdown(post))
+        : ['_No social posts._'];
+
+    return [`# ${title}`, '', ...sections.join('\n\n').split('\n'), ''].join('\n');
+}
+
+export function renderChatSessionMarkdown({ session, messages, socialPosts }: ChatSessionExport): string {
+    const lines: string[] = [
+        `# ${session.title}`,
+        '',
+        `_Chat session created ${formatDate(session.created_at)} · Exported ${formatDate(new Date())}_`
+    ];
+
+    if (session.summary) {
+        lines.push('', '## Summary', '', session.summary);
+    }
+
+    lines.push('', '## Conversation');
+    messages.forEach(message => {
+        lines.push('', `### You · ${formatDate(message.created_at)}`, '', message.user_message);
+        lines.push('', '### Qirata', '', message.ai_response);
+    });
+
+    if (socialPosts.length > 0) {
+        lines.push('', '## Social posts');
+        socialPosts.forEach(post => lines.push('', renderSocialPostMarkdown(post, 3)));
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Highlights as quotes under a heading per post, each followed by its note
+ */
+export function renderHighlightsMarkdown({ posts }: HighlightsExport): string {
+    const lines: string[] = ['# Highlights', '', `_Exported ${formatDate(new Date())}_`];
+
+    if (posts.length === 0) {
+        lines.push('', '_No highlights._');
+    }
+
+    posts.forEach(({ post, highlights }) => {
+        lines.push('', `## [${post.title}](${post.external_link})`);
+        highlights.forEach(highlight => {
+            lines.push('', quote(highlight.quote_exact));
+            if (highlight.note) lines.push('', highlight.note);
+            lines.push('', `_${highlight.color} · ${formatDate(highlight.created_at)}_`);
+        });
+    });
+
+    return lines.join('\n') + '\n';
+}
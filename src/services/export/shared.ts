@@ -0,0 +1,31 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { getPlatformProfile } from '../ai/platforms';
+
+export function platformName(platform: string): string {
+    return getPlatformProfile(platform)?.name ?? platform;
+}
+
+export function formatDate(date: Date | string | null | undefined): string {
+    return date ? new Date(date).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '';
+}
+
+/**
+ * Post text as separate blocks: one per thread post, or the whole content
+ */
+export function postBlocks(post: SocialPost): string[] {
+    return post.thread?.length ? post.thread.map(threadPost => threadPost.text) : [post.content];
+}
+
+/**
+ * File-system friendly name, e.g. "TypeScript Tips!" -> "typescript-tips"
+ */
+export function slugify(value: string, fallback: string = 'export'): string {
+    const slug = value
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, 60);
+    return slug || fallback;
+}
@@ -0,0 +1,48 @@
+import { ChatSession } from '../../entities/chat-session.entity';
+import { Highlight } from '../../entities/highlight.entity';
+import { Message } from '../../entities/message.entity';
+import { Post } from '../../entities/post.entity';
+import { SocialPost } from '../../entities/social-post.entity';
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+/**
+ * Everything exported for a chat session
+ */
+export interface ChatSessionExport {
+    session: ChatSession;
+    messages: Message[];
+    socialPosts: SocialPost[];
+}
+
+/**
+ * Every highlight of a user, grouped by post
+ */
+export interface HighlightsExport {
+    posts: Array<{
+        post: Pick<Post, 'id' | 'title' | 'external_link'>;
+        highlights: Highlight[];
+    }>;
+}
+
+/**
+ * A rendered export ready to be sent as a download
+ */
+export interface ExportFile {
+    filename: string;
+    contentType: string;
+    body: string | Buffer;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    markdown: 'text/markdown; charset=utf-8',
+    json: 'application/json; charset=utf-8',
+    html: 'text/html; charset=utf-8'
+};
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+    markdown: 'md',
+    json: 'json',
+    html: 'html'
+};
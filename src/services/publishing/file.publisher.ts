@@ -0,0 +1,31 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SocialPost } from '../../entities/social-post.entity';
+import { PublishResult, SocialPublisher } from './publisher.interface';
+
+/**
+ * Local publisher for development and testing: appends each published post
+ * as one JSON line to <SOCIAL_PUBLISH_OUTPUT_DIR>/<platform>.jsonl
+ */
+export class FilePublisher implements SocialPublisher {
+    readonly name = 'file';
+
+    constructor(private outputDir: string = process.env.SOCIAL_PUBLISH_OUTPUT_DIR || 'logs/published') {}
+
+    async publish(post: SocialPost): Promise<PublishResult> {
+        await fs.mkdir(this.outputDir, { recursive: true });
+
+        const filePath = path.join(this.outputDir, `${post.platform}.jsonl`);
+        const entry = {
+            id: post.id,
+            platform: post.platform,
+            content: post.content,
+            thread: post.thread?.map(threadPost => threadPost.text) ?? null,
+            image_urls: post.image_urls || [],
+            published_at: new Date().toISOString()
+        };
+        await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, 'utf8');
+
+        return { externalId: post.id, url: `file://${path.resolve(filePath)}` };
+    }
+}
@@ -0,0 +1,47 @@
+import { FilePublisher } from './file.publisher';
+import { LinkedInPublisher } from './linkedin.publisher';
+import { PublishError, SocialPublisher } from './publisher.interface';
+import { TwitterPublisher } from './twitter.publisher';
+import { WebhookPublisher } from './webhook.publisher';
+
+export * from './publisher.interface';
+export * from './file.publisher';
+export * from './webhook.publisher';
+export * from './twitter.publisher';
+export * from './linkedin.publisher';
+
+// Platform API adapters used when SOCIAL_PUBLISHER=api
+const API_PUBLISHERS: Record<string, () => SocialPublisher> = {
+    twitter: () => new TwitterPublisher(),
+    linkedin: () => new LinkedInPublisher()
+};
+
+/**
+ * Resolve the publisher for a platform from SOCIAL_PUBLISHER:
+ * - file: append to local JSONL files (testing)
+ * - webhook: POST to SOCIAL_PUBLISH_WEBHOOK_URL (testing or an external relay)
+ * - api: the platform's own API adapter
+ * There is no default: a post must never be marked published without being delivered somewhere chosen.
+ */
+export function getPublisher(platform: string): SocialPublisher {
+    const mode = process.env.SOCIAL_PUBLISHER;
+
+    switch (mode) {
+        case undefined:
+        case '':
+            throw new PublishError('No publisher configured (set SOCIAL_PUBLISHER)', false);
+        case 'file':
+            return new FilePublisher();
+        case 'webhook':
+            return new WebhookPublisher();
+        case 'api': {
+            const createPublisher = API_PUBLISHERS[platform];
+            if (!createPublisher) {
+                throw new PublishError(`No API publisher for platform ${platform}`, false);
+            }
+            return createPublisher();
+        }
+        default:
+            throw new PublishError(`Unknown SOCIAL_PUBLISHER "${mode}"`, false);
+    }
+}
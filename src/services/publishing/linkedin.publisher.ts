@@ -0,0 +1,18 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { PublishError, PublishResult, SocialPublisher } from './publisher.interface';
+
+/**
+ * Slot for publishing through the LinkedIn Posts API.
+ */
+export class LinkedInPublisher implements SocialPublisher {
+    readonly name = 'linkedin';
+
+    constructor(private accessToken: string | undefined = process.env.LINKEDIN_ACCESS_TOKEN) {}
+
+    async publish(_post: SocialPost): Promise<PublishResult> {
+        if (!this.accessToken) {
+            throw new PublishError('LINKEDIN_ACCESS_TOKEN is not configured', false);
+        }
+        throw new PublishError('LinkedIn API publishing is not implemented yet', false);
+    }
+}
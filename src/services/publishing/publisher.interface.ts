@@ -0,0 +1,28 @@
+import { SocialPost } from '../../entities/social-post.entity';
+
+/**
+ * Where a published post ended up on the target platform
+ */
+export interface PublishResult {
+    externalId?: string;
+    url?: string;
+}
+
+/**
+ * Adapter that delivers a social post to a platform (or a stand-in such as a file or webhook)
+ */
+export interface SocialPublisher {
+    readonly name: string;
+    publish(post: SocialPost): Promise<PublishResult>;
+}
+
+/**
+ * Publish failure. Non-retryable failures (bad credentials, unsupported platform, rejected content)
+ * mark the post as failed right away instead of going through the retry backoff.
+ */
+export class PublishError extends Error {
+    constructor(message: string, public retryable: boolean = true) {
+        super(message);
+        this.name = 'PublishError';
+    }
+}
@@ -0,0 +1,19 @@
+import { SocialPost } from '../../entities/social-post.entity';
+import { PublishError, PublishResult, SocialPublisher } from './publisher.interface';
+
+/**
+ * Slot for publishing through the Twitter (X) API v2.
+ * Threads should be posted as replies chaining `post.thread` in order.
+ */
+export class TwitterPublisher implements SocialPublisher {
+    readonly name = 'twitter';
+
+    constructor(private accessToken: string | undefined = process.env.TWITTER_ACCESS_TOKEN) {}
+
+    async publish(_post: SocialPost): Promise<PublishResult> {
+        if (!this.accessToken) {
+            throw new PublishError('TWITTER_ACCESS_TOKEN is not configured', false);
+        }
+        throw new PublishError('Twitter API publishing is not implemented yet', false);
+    }
+}
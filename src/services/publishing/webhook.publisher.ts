@@ -0,0 +1,46 @@
+import axios from 'axios';
+import { SocialPost } from '../../entities/social-post.entity';
+import { PublishError, PublishResult, SocialPublisher } from './publisher.interface';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+/**
+ * Posts each social post as JSON to SOCIAL_PUBLISH_WEBHOOK_URL (e.g. a Zapier/n8n hook or a test server).
+ * The receiver may answer with { id, url } to link the published post.
+ */
+export class WebhookPublisher implements SocialPublisher {
+    readonly name = 'webhook';
+
+    constructor(private webhookUrl: string | undefined = process.env.SOCIAL_PUBLISH_WEBHOOK_URL) {}
+
+    async publish(post: SocialPost): Promise<PublishResult> {
+        if (!this.webhookUrl) {
+            throw new PublishError('SOCIAL_PUBLISH_WEBHOOK_URL is not configured', false);
+        }
+
+        try {
+            const response = await axios.post(this.webhookUrl, {
+                id: post.id,
+                platform: post.platform,
+                content: post.content,
+                thread: post.thread?.map(threadPost => threadPost.text) ?? null,
+                image_urls: post.image_urls || [],
+                code_examples: post.code_examples || [],
+                visual_elements: post.visual_elements || []
+            }, { timeout: WEBHOOK_TIMEOUT_MS });
+
+            return {
+                externalId: response.data?.id ? String(response.data.id) : undefined,
+                url: response.data?.url
+            };
+        } catch (error) {
+            if (axios.isAxiosError(error) && error.response) {
+                // 4xx means the receiver rejected the payload: retrying will not help (except rate limits)
+                const status = error.response.status;
+                const retryable = status >= 500 || status === 429;
+                throw new PublishError(`Webhook responded with ${status}`, retryable);
+            }
+            throw new PublishError(error instanceof Error ? error.message : 'Webhook request failed');
+        }
+    }
+}
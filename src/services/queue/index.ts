@@ -0,0 +1,3 @@
+export * from './job.types';
+export * from './job-queue.service';
+export * from './job-worker';
@@ -0,0 +1,183 @@
+import { QueryFailedError } from 'typeorm';
+import { Job, JobStatus } from '../../entities/job.entity';
+import { HttpError } from '../../middleware/error.middleware';
+import { JobsRepository } from '../../repositories';
+import { EnqueueJobOptions, JobListFilters } from '../../repositories/jobs.repository';
+import { logger } from '../../utils/logger';
+import { JobError } from './job.types';
+
+// Retry backoff: 30 s, 1 min, 2 min, ... capped at 1 hour
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A job still running after this long belongs to a worker that died (or hung)
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MINUTES || '15') * 60 * 1000;
+const RETENTION_MS = parseInt(process.env.JOB_RETENTION_DAYS || '7') * 24 * 60 * 60 * 1000;
+
+// Postgres error code for a unique constraint violation
+const UNIQUE_VIOLATION = '23505';
+
+export interface JobQueueStats {
+    type: string;
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+}
+
+/**
+ * JobQueueService - Postgres-backed job queue
+ *
+ * Responsibilities:
+ * - Enqueue jobs (optionally deduplicated by key, delayed or prioritized)
+ * - Claim due jobs for a worker, complete them or fail them with retry backoff
+ * - Recover jobs of crashed workers and clean up finished jobs
+ * - Expose job status for the admin API
+ */
+export class JobQueueService {
+    /**
+     * Add a job to the queue
+     * @returns The job, or null when a job with the same dedupe key is already pending
+     */
+    async enqueue(type: string, payload: Record<string, any>, options: EnqueueJobOptions = {}): Promise<Job | null> {
+        return JobsRepository.enqueue(type, payload, options);
+    }
+
+    async claim(types: string[], workerId: string, limit: number): Promise<Job[]> {
+        return JobsRepository.claim(types, workerId, limit);
+    }
+
+    /**
+     * Mark a claimed job as completed. Ignored if the job was recovered from this worker meanwhile.
+     */
+    async complete(job: Job, result?: Record<string, any>): Promise<void> {
+        await JobsRepository.update({ id: job.id, status: 'running', attempts: job.attempts }, {
+            status: 'completed',
+            finished_at: new Date(),
+            locked_at: null,
+            locked_by: null,
+            last_error: null,
+            result: result ?? null
+        });
+    }
+
+    /**
+     * Record a failed attempt: the job goes back to the queue with backoff, or fails for good
+     * once max_attempts is reached or the error is not retryable
+     * @returns The job's new status
+     */
+    async fail(job: Job, error: unknown): Promise<JobStatus> {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const retryable = !(error instanceof JobError) || error.retryable;
+        const criteria = { id: job.id, status: 'running' as const, attempts: job.attempts };
+
+        if (retryable && job.attempts < job.max_attempts) {
+            const delay = Math.min(RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1), RETRY_MAX_DELAY_MS);
+            await JobsRepository.update(criteria, {
+                status: 'queued',
+                run_at: new Date(Date.now() + delay),
+                locked_at: null,
+                locked_by: null,
+                last_error: message
+            });
+
+            logger.warn(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${delay / 1000}s: ${message}`);
+            return 'queued';
+        }
+
+        await JobsRepository.update(criteria, {
+            status: 'failed',
+            finished_at: new Date(),
+            locked_at: null,
+            locked_by: null,
+            last_error: message
+        });
+
+        logger.error(`Job ${job.type} ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+        return 'failed';
+    }
+
+    /**
+     * Fail the current attempt of jobs whose worker stopped responding, so they are retried
+     * @returns Number of recovered jobs
+     */
+    async recoverStale(): Promise<number> {
+        const stale = await JobsRepository.findStaleRunning(new Date(Date.now() - LOCK_TIMEOUT_MS));
+
+        for (const job of stale) {
+            await this.fail(job, new Error(`Lock held by ${job.locked_by} expired before the job finished`));
+        }
+
+        return stale.length;
+    }
+
+    /**
+     * Delete completed and failed jobs older than JOB_RETENTION_DAYS
+     */
+    async cleanup(): Promise<number> {
+        return JobsRepository.deleteFinishedBefore(new Date(Date.now() - RETENTION_MS));
+    }
+
+    async getJob(jobId: string): Promise<Job> {
+        const job = await JobsRepository.findOne({ where: { id: jobId } });
+        if (!job) {
+            throw new HttpError(404, 'Job not found');
+        }
+        return job;
+    }
+
+    async listJobs(filters: JobListFilters, limit?: number, offset?: number): Promise<{ items: Job[]; total: number }> {
+        return JobsRepository.findWithFilters(filters, limit, offset);
+    }
+
+    /**
+     * Job counts per type and status
+     */
+    async getStats(): Promise<JobQueueStats[]> {
+        const stats = new Map<string, JobQueueStats>();
+
+        (await JobsRepository.countByTypeAndStatus()).forEach(({ type, status, count }) => {
+            const entry = stats.get(type) || { type, queued: 0, running: 0, completed: 0, failed: 0 };
+            entry[status] = count;
+            stats.set(type, entry);
+        });
+
+        return [...stats.values()];
+    }
+
+    /**
+     * Put a failed job back in the queue with a fresh set of attempts
+     */
+    async retry(jobId: string): Promise<Job> {
+        const job = await this.getJob(jobId);
+        if (job.status !== 'failed') {
+            throw new HttpError(409, `Only failed jobs can be retried (job is ${job.status})`);
+        }
+
+        let result;
+        try {
+            result = await JobsRepository.update({ id: job.id, status: 'failed' }, {
+                status: 'queued',
+                attempts: 0,
+                run_at: new Date(),
+                finished_at: null,
+                last_error: null
+            });
+        } catch (error) {
+            // Unique dedupe key: an equivalent job was queued since this one failed
+            if (error instanceof QueryFailedError && error.driverError?.code === UNIQUE_VIOLATION) {
+                throw new HttpError(409, 'An equivalent job is already queued');
+            }
+            logger.error(`Error retrying job ${job.id}:`, error);
+            throw error;
+        }
+
+        // Retried or cleaned up concurrently since it was read
+        if (!result.affected) {
+            throw new HttpError(409, 'Job is no longer failed');
+        }
+
+        logger.info(`Job ${job.type} ${job.id} requeued manually`);
+        return this.getJob(jobId);
+    }
+}
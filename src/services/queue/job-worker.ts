@@ -0,0 +1,109 @@
+import os from 'os';
+import { Job } from '../../entities/job.entity';
+import { logger } from '../../utils/logger';
+import { JobQueueService } from './job-queue.service';
+import { JobHandler } from './job.types';
+
+const MAINTENANCE_INTERVAL_MS = 60 * 1000;
+
+export interface JobWorkerOptions {
+    concurrency: number;
+    pollIntervalMs: number;
+}
+
+/**
+ * Polls the job queue and runs claimed jobs with their registered handler,
+ * at most `concurrency` at a time. Any number of workers can run side by side.
+ */
+export class JobWorker {
+    readonly workerId = `${os.hostname()}:${process.pid}`;
+
+    private handlers = new Map<string, JobHandler>();
+    private inFlight = new Set<Promise<void>>();
+    private timer: NodeJS.Timeout | null = null;
+    private stopped = true;
+    private lastMaintenanceAt = 0;
+
+    constructor(private options: JobWorkerOptions, private queue: JobQueueService = new JobQueueService()) {}
+
+    register(type: string, handler: JobHandler): this {
+        this.handlers.set(type, handler);
+        return this;
+    }
+
+    start(): void {
+        if (!this.stopped) return;
+        this.stopped = false;
+
+        logger.info(`Job worker ${this.workerId} started (concurrency ${this.options.concurrency}, types: ${[...this.handlers.keys()].join(', ')})`);
+        this.schedulePoll(0);
+    }
+
+    /**
+     * Stop claiming jobs and wait for the running ones to finish
+     */
+    async stop(): Promise<void> {
+        this.stopped = true;
+        if (this.timer) clearTimeout(this.timer);
+
+        await Promise.allSettled([...this.inFlight]);
+        logger.info(`Job worker ${this.workerId} stopped`);
+    }
+
+    private schedulePoll(delay: number): void {
+        this.timer = setTimeout(() => this.poll(), delay);
+    }
+
+    private async poll(): Promise<void> {
+        try {
+            await this.runMaintenance();
+
+            const free = this.options.concurrency - this.inFlight.size;
+            if (free > 0) {
+                const jobs = await this.queue.claim([...this.handlers.keys()], this.workerId, free);
+                jobs.forEach(job => this.run(job));
+            }
+        } catch (error) {
+            logger.error('Job worker poll failed:', error);
+        } finally {
+            if (!this.stopped) this.schedulePoll(this.options.pollIntervalMs);
+        }
+    }
+
+    private run(job: Job): void {
+        const handler = this.handlers.get(job.type)!;
+
+        const execution: Promise<void> = (async () => {
+            try {
+                const result = await handler(job);
+                await this.queue.complete(job, result || undefined);
+            } catch (error) {
+                await this.queue.fail(job, error);
+            }
+        })()
+            .catch(error => {
+                logger.error(`Error recording outcome of job ${job.id}:`, error);
+            })
+            .finally(() => this.inFlight.delete(execution));
+
+        this.inFlight.add(execution);
+    }
+
+    /**
+     * Every minute: recover jobs of dead workers and delete old finished jobs
+     */
+    private async runMaintenance(): Promise<void> {
+        if (Date.now() - this.lastMaintenanceAt < MAINTENANCE_INTERVAL_MS) return;
+        this.lastMaintenanceAt = Date.now();
+
+        const recovered = await this.queue.recoverStale();
+        if (recovered > 0) {
+            logger.warn(`Recovered ${recovered} job(s) from workers that stopped responding`);
+        }
+
+        const deleted = await this.queue.cleanup();
+        if (deleted > 0) {
+            logger.info(`Deleted ${deleted} finished job(s)`);
+        }
+    }
+}
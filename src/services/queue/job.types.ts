@@ -0,0 +1,30 @@
+import { Job } from '../../entities/job.entity';
+
+/**
+ * Job types known to the queue. Handlers are registered on the worker by type.
+ */
+export const JobTypes = {
+    FEED_FETCH: 'feed.fetch',
+    POST_CANONICAL_URL: 'post.canonical-url',
+    POST_EXPAND: 'post.expand',
+    POST_EMBED: 'post.embed'
+} as const;
+
+export type JobType = typeof JobTypes[keyof typeof JobTypes];
+
+/**
+ * Runs one job. The returned object is stored as the job's result.
+ * Throwing fails the attempt: the job is retried with backoff until max_attempts.
+ */
+export type JobHandler = (job: Job) => Promise<Record<string, any> | void>;
+
+/**
+ * Job failure. Non-retryable failures (invalid payload, missing record) fail the job
+ * right away instead of going through the retry backoff.
+ */
+export class JobError extends Error {
+    constructor(message: string, public retryable: boolean = true) {
+        super(message);
+        this.name = 'JobError';
+    }
+}
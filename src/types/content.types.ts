@@ -5,6 +5,9 @@ export interface RSSFeed {
     language?: string;
     lastBuildDate?: Date;
     entries: FeedEntry[];
+    // WebSub hubs advertised by the feed, and its canonical (self) URL
+    hubs?: string[];
+    selfUrl?: string;
 }
 
 export interface FeedEntry {
@@ -17,6 +20,8 @@ export interface FeedEntry {
     categories?: string[];
     guid?: string;
     image_url?: string;
+    // Original article URL when the link goes through a proxy (e.g. feedburner:origLink)
+    canonical_url?: string;
 }
 
 export interface ScrapedContent {
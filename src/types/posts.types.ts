@@ -9,6 +9,35 @@ export interface PostFilters {
     external_links?: string[];
     sortBy?: string;
     sortOrder?: 'ASC' | 'DESC';
+    // List every copy of syndicated articles instead of one per duplicate group
+    include_duplicates?: boolean;
+    bookmarked?: boolean;
+    // Posts carrying every one of these tags (the user's own)
+    tag_ids?: string[];
+    // Publication date range (date added for undated posts)
+    date_from?: Date;
+    date_to?: Date;
+}
+
+export interface PostBookmark {
+    post_id: string;
+    bookmarked: boolean;
+    bookmarked_at: Date | null;
+    note: string | null;
+}
+
+export interface PostSource {
+    id: string;
+    title: string;
+    external_link: string;
+    canonical_url: string | null;
+    published_date: Date | null;
+    created_at: Date;
+    // First-seen copy of the article
+    is_primary: boolean;
+    // Whether the user follows the feed of this copy
+    subscribed: boolean;
+    feed: { id: string; name: string; url: string; favicon_url?: string } | null;
 }
 
 export interface ProgressEvent {
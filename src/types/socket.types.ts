@@ -12,6 +12,8 @@ export interface SocketEvent {
 // AI Streaming types
 export interface ChatMessageData {
     content: string;
+    // Answer or write the post from the user's highlights of the article
+    focusHighlights?: boolean;
 }
 
 export interface UserPreferences {
@@ -71,10 +73,11 @@ export interface ServerToClientEvents {
 
     // AI Chat events - New
     'chat:stream:start': (data: { sessionId: string; intentType?: string }) => void;
-    'chat:stream:token': (data: { sessionId: string; token: string }) => void;
-    'chat:stream:end': (data: { sessionId: string; fullContent: string }) => void;
+    'chat:stream:token': (data: { sessionId: string; token: string; node?: string; field?: string; platform?: string }) => void;
+    'chat:stream:node': (data: { sessionId: string; node: string; status: 'started' | 'completed' }) => void;
+    'chat:stream:end': (data: { sessionId: string; message: string; response: string; suggestedOptions: string[]; isSocialPost: boolean; socialPostId?: string; structuredPost: any; structuredPosts: Array<{ socialPostId: string; platform: string; structuredPost: any }> }) => void;
     'chat:stream:error': (data: { sessionId: string; error: string }) => void;
-    'chat:stream:interrupted': (data: { sessionId: string; message?: string; reason?: string }) => void;
+    'chat:stream:interrupted': (data: { sessionId: string; message?: string; reason?: string; partialResponse?: string | null; intent?: string | null }) => void;
     'chat:intent:detected': (data: { sessionId: string; intent: string; confidence: number }) => void;
     'chat:social:response': (data: { sessionId: string; socialContent: string; platform?: string; userMessage: string }) => void;
 
@@ -0,0 +1,44 @@
+import { URL } from 'url';
+
+// Query parameters that only track campaigns or referrers and never change the content
+const TRACKING_PARAMS = new Set([
+    'fbclid', 'gclid', 'dclid', 'gclsrc', 'msclkid', 'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid',
+    '_hsenc', '_hsmi', 'mkt_tok', 'ref', 'ref_src', 'ref_url', 'referrer', 'cmpid', 's_cid', 'ncid',
+    'ocid', 'spm', 'share', 'at_medium', 'at_campaign', 'guccounter', 'guce_referrer', 'guce_referrer_sig'
+]);
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'mtm_', 'oly_', 'vero_'];
+
+function isTrackingParam(name: string): boolean {
+    const lower = name.toLowerCase();
+    return TRACKING_PARAMS.has(lower) || TRACKING_PARAM_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+/**
+ * Normalize an article URL into a key shared by every copy of the article:
+ * https scheme, lowercase host without "www." and default port, no fragment, no tracking
+ * parameters, remaining parameters sorted, no trailing slash.
+ * @returns The canonical form, or null when the URL cannot be parsed
+ */
+export function canonicalizeUrl(url: string): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch {
+        return null;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        return null;
+    }
+
+    const params = [...parsed.searchParams.entries()]
+        .filter(([name]) => !isTrackingParam(name))
+        .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const port = parsed.port && parsed.port !== '80' && parsed.port !== '443' ? `:${parsed.port}` : '';
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+
+    return `https://${host}${port}${path}${query ? `?${query}` : ''}`;
+}
@@ -1,4 +1,5 @@
 import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
+import { Callbacks } from '@langchain/core/callbacks/manager';
 import fs from 'fs';
 import path from 'path';
 import { logger } from './logger';
@@ -128,4 +129,25 @@ export function createDebugCallback(agentName: string, sessionId?: string, outpu
         sessionId,
         outputDir
     });
-}
\ No newline at end of file
+}
+
+/**
+ * Attach a debug callback to the callbacks inherited from a parent run.
+ * Passing `callbacks` to invoke replaces the inherited ones, which would hide
+ * the call from the parent's streamEvents.
+ */
+export function withDebugCallback(agentName: string, parentCallbacks?: Callbacks): Callbacks {
+    const debugCallback = createDebugCallback(agentName);
+
+    if (!parentCallbacks) {
+        return [debugCallback];
+    }
+
+    if (Array.isArray(parentCallbacks)) {
+        return [...parentCallbacks, debugCallback];
+    }
+
+    const manager = parentCallbacks.copy();
+    manager.addHandler(debugCallback, true);
+    return manager;
+}
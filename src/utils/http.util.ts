@@ -22,6 +22,10 @@ export interface FetchWithHeadersResponse<T = any> {
     data: T;
     headers: Record<string, string>;
     status: number;
+    // URL the response came from, after redirects
+    url: string;
+    // Status codes of the redirects followed to get there, in order
+    redirects: number[];
 }
 
 export async function fetchWithTimeout<T = any>(url: string, options: FetchOptions = {}): Promise<T> {
@@ -64,18 +68,25 @@ export async function fetchWithHeaders<T = any>(url: string, options: FetchOptio
     let lastError: AxiosError<ErrorResponse> | Error | null = null;
 
     for (let attempt = 0; attempt < retries; attempt++) {
+        const redirects: number[] = [];
         try {
             const response = await axios<T>({
                 url,
                 timeout,
                 validateStatus: (status) => status < 500, // Don't throw on 304 Not Modified
                 ...axiosOptions,
+                beforeRedirect: (redirectOptions, responseDetails, requestDetails) => {
+                    redirects.push(responseDetails.statusCode);
+                    axiosOptions.beforeRedirect?.(redirectOptions, responseDetails, requestDetails);
+                },
             });
 
             return {
                 data: response.data,
                 headers: response.headers as Record<string, string>,
-                status: response.status
+                status: response.status,
+                url: response.request?.res?.responseUrl || url,
+                redirects
             };
         } catch (error) {
             if (axios.isAxiosError(error)) {
@@ -0,0 +1,50 @@
+/**
+ * Postgres full-text search settings shared by post and feed search.
+ * The text search configurations must match the ones the search_vector columns are built with
+ * (see the AddFullTextSearch migration).
+ */
+
+// Articles are stemmed; feed names and URLs are matched word for word
+export const POST_SEARCH_CONFIG = 'english';
+export const FEED_SEARCH_CONFIG = 'simple';
+
+// Expanded content is capped before indexing (tsvector values are limited to 1MB)
+export const MAX_INDEXED_CONTENT_LENGTH = 100000;
+
+// ts_headline options: matches wrapped in <mark>, up to two fragments of 15-35 words.
+// Headlines are built on text escaped with escapeHtmlSql, so <mark> is the only markup in the
+// output and it is safe to render as HTML.
+export const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Entities decoded before escaping, so text the feed already escaped is not escaped twice (&amp; last)
+const DECODED_ENTITIES: Array<[string, string]> = [['&nbsp;', ' '], ['&lt;', '<'], ['&gt;', '>'], ['&quot;', '"'], ['&#39;', "'"], ['&amp;', '&']];
+const ESCAPED_CHARACTERS: Array<[string, string]> = [['&', '&amp;'], ['<', '&lt;'], ['>', '&gt;'], ['"', '&quot;'], ["'", '&#39;']];
+
+/**
+ * SQL expression HTML-escaping a text expression (for ts_headline input)
+ * @param expression - SQL text expression, tags already removed
+ */
+export function escapeHtmlSql(expression: string): string {
+    const literal = (value: string) => `'${value.replace(/'/g, "''")}'`;
+    const replaceAll = (sql: string, pairs: Array<[string, string]>) =>
+        pairs.reduce((result, [from, to]) => `replace(${result}, ${literal(from)}, ${literal(to)})`, sql);
+
+    return replaceAll(replaceAll(expression, DECODED_ENTITIES), ESCAPED_CHARACTERS);
+}
+
+/**
+ * tsquery source matching every word of a search, the last one as a prefix, so partial
+ * input ("tech cru") still matches while the user types
+ * @returns The query for to_tsquery, or null when the search has no words
+ */
+export function toPrefixTsQuery(search: string): string | null {
+    const words = search
+        .toLowerCase()
+        // Exclusions and OR belong to the web search syntax
+        .replace(/(^|\s)-\S+/g, ' ')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(word => word && word !== 'or');
+    if (words.length === 0) return null;
+
+    return words.map((word, index) => index === words.length - 1 ? `${word}:*` : word).join(' & ');
+}
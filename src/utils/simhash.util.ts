@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+// Word shingles hashed into the fingerprint; texts with fewer shingles are too short to compare
+const SHINGLE_SIZE = 3;
+const MIN_SHINGLES = 8;
+
+function tokenize(text: string): string[] {
+    return text
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&[a-z#0-9]+;/gi, ' ')
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(token => token.length > 1);
+}
+
+/**
+ * 64-bit SimHash of a text (word 3-shingles, MD5 per shingle), as 16 hex characters.
+ * Near-identical texts get fingerprints a few bits apart.
+ * @returns The fingerprint, or null when the text is too short to fingerprint reliably
+ */
+export function simhash(text: string): string | null {
+    const tokens = tokenize(text);
+    const shingleCount = tokens.length - SHINGLE_SIZE + 1;
+    if (shingleCount < MIN_SHINGLES) return null;
+
+    const weights = new Array<number>(64).fill(0);
+    for (let i = 0; i < shingleCount; i++) {
+        const digest = crypto.createHash('md5').update(tokens.slice(i, i + SHINGLE_SIZE).join(' ')).digest();
+        for (let bit = 0; bit < 64; bit++) {
+            weights[bit] += (digest[bit >> 3] >> (7 - (bit & 7))) & 1 ? 1 : -1;
+        }
+    }
+
+    const bytes = Buffer.alloc(8);
+    weights.forEach((weight, bit) => {
+        if (weight > 0) bytes[bit >> 3] |= 1 << (7 - (bit & 7));
+    });
+    return bytes.toString('hex');
+}
+
+/**
+ * Number of differing bits between two fingerprints
+ */
+export function hammingDistance(a: string, b: string): number {
+    const x = Buffer.from(a, 'hex');
+    const y = Buffer.from(b, 'hex');
+    let distance = 0;
+
+    for (let i = 0; i < Math.min(x.length, y.length); i++) {
+        let diff = x[i] ^ y[i];
+        while (diff) {
+            distance += diff & 1;
+            diff >>= 1;
+        }
+    }
+
+    return distance;
+}
@@ -0,0 +1,84 @@
+// Characters of context kept on each side of a quote
+export const QUOTE_CONTEXT_LENGTH = 32;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export interface TextQuote {
+    exact: string;
+    prefix: string;
+    suffix: string;
+}
+
+export interface TextPosition {
+    start: number;
+    end: number;
+}
+
+/**
+ * Text that quotes and positions refer to: the content with tags removed, entities decoded
+ * and whitespace collapsed, so the same article anchors the same way whether it is HTML or not
+ */
+export function toAnchorText(content: string): string {
+    return content
+        .replace(/<[^>]*>/g, ' ')
+        .replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+            if (name[0] === '#') {
+                const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+                return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ' ';
+            }
+            return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * Quote at a position of the anchor text, with its surrounding context
+ */
+export function quoteAt(text: string, position: TextPosition): TextQuote {
+    return {
+        exact: text.slice(position.start, position.end),
+        prefix: text.slice(Math.max(0, position.start - QUOTE_CONTEXT_LENGTH), position.start),
+        suffix: text.slice(position.end, position.end + QUOTE_CONTEXT_LENGTH)
+    };
+}
+
+/**
+ * Current position of a quote in the anchor text. The recorded position is kept while it still
+ * holds the quote; otherwise every occurrence of the quote is scored by how much of its prefix
+ * and suffix still surround it, ties going to the occurrence closest to the recorded position.
+ * @returns The position, or null when the quote is no longer in the text
+ */
+export function anchorQuote(text: string, quote: TextQuote, hint?: TextPosition | null): TextPosition | null {
+    const exact = quote.exact;
+    if (!exact) return null;
+
+    if (hint && text.slice(hint.start, hint.end) === exact) {
+        return { start: hint.start, end: hint.end };
+    }
+
+    let best: { start: number; score: number; distance: number } | null = null;
+    for (let start = text.indexOf(exact); start !== -1; start = text.indexOf(exact, start + 1)) {
+        const score = commonSuffixLength(text.slice(0, start), quote.prefix)
+            + commonPrefixLength(text.slice(start + exact.length), quote.suffix);
+        const distance = hint ? Math.abs(start - hint.start) : 0;
+
+        if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+            best = { start, score, distance };
+        }
+    }
+
+    return best ? { start: best.start, end: best.start + exact.length } : null;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[length] === b[length]) length++;
+    return length;
+}
+
+function commonSuffixLength(a: string, b: string): number {
+    let length = 0;
+    while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) length++;
+    return length;
+}